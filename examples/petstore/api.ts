@@ -1,7 +1,6 @@
 // THIS IS AN AUTOGENERATED FILE. DO NOT EDIT THIS FILE DIRECTLY.
-// Built with zod-codegen@1.6.3
-// Latest edit: Mon, 09 Mar 2026 20:11:48 GMT
-// Source file: ./samples/swagger-petstore.yaml
+// Built with zod-codegen@1.7.4
+// Source file: ../../samples/swagger-petstore.yaml
 /* eslint-disable */
 // @ts-nocheck
 
@@ -59,6 +58,99 @@ export interface ApiResponse {
   type?: string;
   message?: string;
 }
+export type FindPetsByStatusResponse = Pet[];
+export type FindPetsByTagsResponse = Pet[];
+export type GetInventoryResponse = Record<string, number>;
+export type AddPetErrorResponse = {
+  status: 405;
+  body: unknown;
+};
+export type UpdatePetErrorResponse =
+  | {
+      status: 400;
+      body: unknown;
+    }
+  | {
+      status: 404;
+      body: unknown;
+    }
+  | {
+      status: 405;
+      body: unknown;
+    };
+export type FindPetsByStatusErrorResponse = {
+  status: 400;
+  body: unknown;
+};
+export type FindPetsByTagsErrorResponse = {
+  status: 400;
+  body: unknown;
+};
+export type GetPetByIdErrorResponse =
+  | {
+      status: 400;
+      body: unknown;
+    }
+  | {
+      status: 404;
+      body: unknown;
+    };
+export type UpdatePetWithFormErrorResponse = {
+  status: 405;
+  body: unknown;
+};
+export type DeletePetErrorResponse = {
+  status: 400;
+  body: unknown;
+};
+export type PlaceOrderErrorResponse = {
+  status: 405;
+  body: unknown;
+};
+export type GetOrderByIdErrorResponse =
+  | {
+      status: 400;
+      body: unknown;
+    }
+  | {
+      status: 404;
+      body: unknown;
+    };
+export type DeleteOrderErrorResponse =
+  | {
+      status: 400;
+      body: unknown;
+    }
+  | {
+      status: 404;
+      body: unknown;
+    };
+export type CreateUsersWithListInputErrorResponse = {
+  status: number;
+  body: unknown;
+};
+export type LoginUserErrorResponse = {
+  status: 400;
+  body: unknown;
+};
+export type GetUserByNameErrorResponse =
+  | {
+      status: 400;
+      body: unknown;
+    }
+  | {
+      status: 404;
+      body: unknown;
+    };
+export type DeleteUserErrorResponse =
+  | {
+      status: 400;
+      body: unknown;
+    }
+  | {
+      status: 404;
+      body: unknown;
+    };
 
 // Components schemas
 export const Order: z.ZodType<Order> = z.object({
@@ -115,6 +207,20 @@ export const ApiResponse: z.ZodType<ApiResponse> = z.object({
   type: z.string().optional(),
   message: z.string().optional()
 });
+export const FindPetsByStatusResponse: z.ZodType<FindPetsByStatusResponse> = z.array(Pet);
+export const FindPetsByTagsResponse: z.ZodType<FindPetsByTagsResponse> = z.array(Pet);
+export const GetInventoryResponse: z.ZodType<GetInventoryResponse> = z.record(z.string(), z.number().int());
+export type CredentialProvider<T> = T | (() => T | Promise<T>);
+export type ClientAuth = {
+  /** Access token sent as a bearer token */
+  petstore_auth?: CredentialProvider<string>;
+  /** API key sent in the `api_key` header */
+  api_key?: CredentialProvider<string>;
+};
+export const securitySchemes = {
+  petstore_auth: { type: 'http', scheme: 'Bearer' },
+  api_key: { type: 'apiKey', in: 'header', name: 'api_key' }
+} as const;
 export const serverConfigurations = [
   {
     url: 'https://petstore3.swagger.io/api/v3'
@@ -125,6 +231,7 @@ export type ClientOptions = {
   baseUrl?: string;
   serverIndex?: number;
   serverVariables?: Record<string, string>;
+  auth?: ClientAuth;
 };
 function resolveServerUrl(serverIndex?: number | undefined, serverVariables?: Record<string, string> = {}): string {
   const configs = [
@@ -158,30 +265,201 @@ export class ResponseValidationError<T> extends Error {
     return this.response.json() as T;
   }
 }
+export class ApiError<
+  T extends {
+    status: number;
+    body: unknown;
+  } = {
+    status: number;
+    body: unknown;
+  }
+> extends Error {
+  readonly response: Response;
+  readonly status: T['status'];
+  readonly body: T['body'];
+  constructor(message: string, response: Response, error: T) {
+    super(message);
+    this.name = 'ApiError' as const;
+    this.response = response;
+    this.status = error.status;
+    this.body = error.body;
+  }
+  hasStatus<S extends T['status']>(
+    status: S
+  ): this is ApiError<
+    Extract<
+      T,
+      {
+        status: S;
+      }
+    >
+  > {
+    return this.status === status;
+  }
+}
 
 // Client class
 export default class SwaggerPetstoreOpenAPI30 {
   readonly #baseUrl: string;
+  readonly #auth: ClientAuth;
   constructor(options: ClientOptions) {
     const resolvedUrl = options.baseUrl !== null ? options.baseUrl : resolveServerUrl(options.serverIndex, options.serverVariables);
     this.#baseUrl = resolvedUrl;
+    this.#auth = options.auth ?? {};
   }
   protected getBaseRequestOptions(): Partial<Omit<RequestInit, 'method' | 'body'>> {
     return {};
   }
+  /**
+   * Adds the credentials of the first security requirement whose schemes all have credentials configured.
+   */
+  protected async applySecurity(options: {
+    params?: Record<string, unknown>;
+    querySerialization?: Record<
+      string,
+      {
+        style: string;
+        explode: boolean;
+      }
+    >;
+    data?: unknown;
+    contentType?: string;
+    headers?: Record<string, string | number | boolean | undefined>;
+    cookies?: Record<string, string | number | boolean | undefined>;
+    responseType?: 'json' | 'text' | 'blob' | 'void';
+    onResponse?: (response: Response) => void;
+    errorSchemas?: Record<string, z.ZodType>;
+    security?: string[][];
+  }): Promise<{
+    params?: Record<string, unknown>;
+    querySerialization?: Record<
+      string,
+      {
+        style: string;
+        explode: boolean;
+      }
+    >;
+    data?: unknown;
+    contentType?: string;
+    headers?: Record<string, string | number | boolean | undefined>;
+    cookies?: Record<string, string | number | boolean | undefined>;
+    responseType?: 'json' | 'text' | 'blob' | 'void';
+    onResponse?: (response: Response) => void;
+    errorSchemas?: Record<string, z.ZodType>;
+    security?: string[][];
+  }> {
+    for (const requirement of options.security ?? []) {
+      if (!requirement.every((name) => this.#auth[name] !== undefined)) {
+        continue;
+      }
+      const params = { ...options.params };
+      const headers = { ...options.headers };
+      const cookies = { ...options.cookies };
+      for (const name of requirement) {
+        const provider = this.#auth[name];
+        const credential = typeof provider === 'function' ? await provider() : provider;
+        const scheme = securitySchemes[name];
+        if (scheme.type === 'basic') {
+          headers['Authorization'] ??= `Basic ${btoa(`${credential.username}:${credential.password}`)}`;
+        } else if (scheme.type === 'http') {
+          headers['Authorization'] ??= `${scheme.scheme} ${credential}`;
+        } else if (scheme.in === 'query') {
+          params[scheme.name] ??= credential;
+        } else if (scheme.in === 'cookie') {
+          cookies[scheme.name] ??= credential;
+        } else {
+          headers[scheme.name] ??= credential;
+        }
+      }
+      return { ...options, params, headers, cookies };
+    }
+    return options;
+  }
   protected async handleResponse<T>(
     response: Response,
     method: string,
     path: string,
-    options: _params___Record_string__string___number___boolean___data___unknown__contentType___string__headers___Record_string__string__
+    options: {
+      params?: Record<string, unknown>;
+      querySerialization?: Record<
+        string,
+        {
+          style: string;
+          explode: boolean;
+        }
+      >;
+      data?: unknown;
+      contentType?: string;
+      headers?: Record<string, string | number | boolean | undefined>;
+      cookies?: Record<string, string | number | boolean | undefined>;
+      responseType?: 'json' | 'text' | 'blob' | 'void';
+      onResponse?: (response: Response) => void;
+      errorSchemas?: Record<string, z.ZodType>;
+      security?: string[][];
+    }
   ): Promise<Response> {
     return response;
   }
+  protected async createApiError(response: Response, errorSchemas: Record<string, z.ZodType>): Promise<ApiError> {
+    const text = await response.text();
+    let body: unknown = text;
+    try {
+      body = JSON.parse(text);
+    } catch {}
+    const schema = errorSchemas[String(response.status)] ?? errorSchemas[`${String(response.status).charAt(0)}XX`] ?? errorSchemas['default'];
+    if (schema) {
+      const parsedBody = schema.safeParse(body);
+      if (!parsedBody.success) {
+        throw new ResponseValidationError(
+          `Invalid error response for HTTP ${response.status}: ${parsedBody.error.issues.map((issue) => issue.message).join(', ')}`,
+          response,
+          parsedBody.error
+        );
+      }
+      body = parsedBody.data;
+    }
+    return new ApiError(`HTTP ${response.status}: ${response.statusText}`, response, { status: response.status, body });
+  }
+  protected serializeQueryParameter(name: string, value: unknown, style: string, explode: boolean): [string, string][] {
+    const separator = style === 'spaceDelimited' ? ' ' : style === 'pipeDelimited' ? '|' : ',';
+    if (Array.isArray(value)) {
+      const items = value.map((item) => String(item));
+      return explode ? items.map((item): [string, string] => [name, item]) : [[name, items.join(separator)]];
+    }
+    if (typeof value === 'object' && value !== null) {
+      const entries = Object.entries(value)
+        .filter(([, item]) => item !== undefined)
+        .map(([key, item]): [string, string] => [key, String(item)]);
+      if (style === 'deepObject') {
+        return entries.map(([key, item]): [string, string] => [`${name}[${key}]`, item]);
+      }
+      return explode ? entries : [[name, entries.flat().join(separator)]];
+    }
+    return [[name, String(value)]];
+  }
   protected async makeRequest<T>(
     method: string,
     path: string,
-    options: _params___Record_string__string___number___boolean___data___unknown__contentType___string__headers___Record_string__string__ = {}
+    options: {
+      params?: Record<string, unknown>;
+      querySerialization?: Record<
+        string,
+        {
+          style: string;
+          explode: boolean;
+        }
+      >;
+      data?: unknown;
+      contentType?: string;
+      headers?: Record<string, string | number | boolean | undefined>;
+      cookies?: Record<string, string | number | boolean | undefined>;
+      responseType?: 'json' | 'text' | 'blob' | 'void';
+      onResponse?: (response: Response) => void;
+      errorSchemas?: Record<string, z.ZodType>;
+      security?: string[][];
+    } = {}
   ): Promise<T> {
+    options = await this.applySecurity(options);
     const baseUrl = new URL(path, this.#baseUrl);
     const url =
       options.params && Object.keys(options.params).length > 0
@@ -189,15 +467,33 @@ export default class SwaggerPetstoreOpenAPI30 {
             Object.entries(options.params)
               .filter(([, value]) => value !== undefined)
               .forEach(([key, value]) => {
-                baseUrl.searchParams.set(key, String(value));
+                const serialization = options.querySerialization?.[key];
+                this.serializeQueryParameter(key, value, serialization?.style ?? 'form', serialization?.explode ?? true).forEach(([name, serialized]) => {
+                  baseUrl.searchParams.append(name, serialized);
+                });
               });
             return baseUrl.toString();
           })()
         : baseUrl.toString();
     const baseOptions = this.getBaseRequestOptions();
-    const contentType = options.contentType === 'application/x-www-form-urlencoded' ? 'application/x-www-form-urlencoded' : 'application/json';
+    const contentType = options.contentType ?? 'application/json';
     const baseHeaders = baseOptions.headers !== undefined ? baseOptions.headers : {};
-    const headers = Object.assign({}, baseHeaders, { 'Content-Type': contentType }, options.headers !== undefined ? options.headers : {});
+    const requestHeaders = Object.fromEntries(
+      Object.entries(options.headers ?? {})
+        .filter(([, value]) => value !== undefined)
+        .map(([key, value]) => [key, String(value)])
+    );
+    const cookieHeader = Object.entries(options.cookies ?? {})
+      .filter(([, value]) => value !== undefined)
+      .map(([key, value]) => `${key}=${encodeURIComponent(String(value))}`)
+      .join('; ');
+    const headers = Object.assign(
+      {},
+      baseHeaders,
+      contentType === 'multipart/form-data' ? {} : { 'Content-Type': contentType },
+      requestHeaders,
+      cookieHeader ? { Cookie: cookieHeader } : {}
+    );
     const body =
       options.data !== undefined
         ? options.contentType === 'application/x-www-form-urlencoded'
@@ -208,23 +504,51 @@ export default class SwaggerPetstoreOpenAPI30 {
               });
               return params.toString();
             })()
-          : JSON.stringify(options.data)
+          : contentType === 'multipart/form-data'
+            ? (() => {
+                const formData = new FormData();
+                Object.entries(options.data ?? {})
+                  .filter(([, value]) => value !== undefined)
+                  .forEach(([key, value]) => {
+                    (Array.isArray(value) ? value : [value]).forEach((item) => {
+                      formData.append(key, item instanceof Blob ? item : typeof item === 'object' && item !== null ? JSON.stringify(item) : String(item));
+                    });
+                  });
+                return formData;
+              })()
+            : contentType === 'application/json'
+              ? JSON.stringify(options.data)
+              : options.data
         : null;
     const rawResponse = await fetch(url, Object.assign({}, baseOptions, { method, headers: headers, body: body }));
     const response = await this.handleResponse<T>(rawResponse, method, path, options);
-    if (!response.ok) throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    options.onResponse?.(response);
+    if (!response.ok) throw await this.createApiError(response, options.errorSchemas ?? {});
+    if (response.status === 204 || response.status === 205) {
+      return undefined as T;
+    }
+    if (options.responseType === 'void') {
+      return undefined as T;
+    }
+    if (options.responseType === 'text') {
+      return (await response.text()) as T;
+    }
+    if (options.responseType === 'blob') {
+      return (await response.blob()) as T;
+    }
     return await response.json();
   }
   /**
    * Add a new pet to the store
    * @param body Create a new pet in the store
    * @returns {Pet}
+   * @throws {ApiError<AddPetErrorResponse>}
    */
   async addPet(body: Pet): Promise<Pet> {
-    const response = await this.makeRequest('POST', '/pet', { data: body, contentType: 'application/x-www-form-urlencoded' });
+    const response = await this.makeRequest('POST', '/pet', { security: [['petstore_auth']], data: body });
     const parsedPet = Pet.safeParse(response);
     if (!parsedPet.success) {
-      throw new ResponseValidationError<Pet>(`Invalid pet: ${parsedPet.error.errors.map((error) => error.message).join(', ')}`, response, parsedPet.error);
+      throw new ResponseValidationError<Pet>(`Invalid pet: ${parsedPet.error.issues.map((issue) => issue.message).join(', ')}`, response, parsedPet.error);
     }
     return parsedPet.data;
   }
@@ -234,12 +558,13 @@ export default class SwaggerPetstoreOpenAPI30 {
    * Update an existing pet by Id
    * @param body Update an existent pet in the store
    * @returns {Pet}
+   * @throws {ApiError<UpdatePetErrorResponse>}
    */
   async updatePet(body: Pet): Promise<Pet> {
-    const response = await this.makeRequest('PUT', '/pet', { data: body, contentType: 'application/x-www-form-urlencoded' });
+    const response = await this.makeRequest('PUT', '/pet', { security: [['petstore_auth']], data: body });
     const parsedPet = Pet.safeParse(response);
     if (!parsedPet.success) {
-      throw new ResponseValidationError<Pet>(`Invalid pet: ${parsedPet.error.errors.map((error) => error.message).join(', ')}`, response, parsedPet.error);
+      throw new ResponseValidationError<Pet>(`Invalid pet: ${parsedPet.error.issues.map((issue) => issue.message).join(', ')}`, response, parsedPet.error);
     }
     return parsedPet.data;
   }
@@ -249,10 +574,20 @@ export default class SwaggerPetstoreOpenAPI30 {
    * Multiple status values can be provided with comma separated strings
    *
    * @param status Status values that need to be considered for filter
-   * @returns {Pet[]}
+   * @returns {FindPetsByStatusResponse}
+   * @throws {ApiError<FindPetsByStatusErrorResponse>}
    */
-  async findPetsByStatus(status?: string): Promise<Pet[]> {
-    return await this.makeRequest('GET', '/pet/findByStatus', { params: { status: status } });
+  async findPetsByStatus(status?: string): Promise<FindPetsByStatusResponse> {
+    const response = await this.makeRequest('GET', '/pet/findByStatus', { params: { status: status }, security: [['petstore_auth']] });
+    const parsedFindPetsByStatusResponse = FindPetsByStatusResponse.safeParse(response);
+    if (!parsedFindPetsByStatusResponse.success) {
+      throw new ResponseValidationError<FindPetsByStatusResponse>(
+        `Invalid findPetsByStatusResponse: ${parsedFindPetsByStatusResponse.error.issues.map((issue) => issue.message).join(', ')}`,
+        response,
+        parsedFindPetsByStatusResponse.error
+      );
+    }
+    return parsedFindPetsByStatusResponse.data;
   }
   /**
    * Finds Pets by tags
@@ -260,10 +595,20 @@ export default class SwaggerPetstoreOpenAPI30 {
    * Multiple tags can be provided with comma separated strings. Use tag1, tag2, tag3 for testing.
    *
    * @param tags Tags to filter by
-   * @returns {Pet[]}
+   * @returns {FindPetsByTagsResponse}
+   * @throws {ApiError<FindPetsByTagsErrorResponse>}
    */
-  async findPetsByTags(tags?: string[]): Promise<Pet[]> {
-    return await this.makeRequest('GET', '/pet/findByTags', { params: { tags: tags } });
+  async findPetsByTags(tags?: string[]): Promise<FindPetsByTagsResponse> {
+    const response = await this.makeRequest('GET', '/pet/findByTags', { params: { tags: tags }, security: [['petstore_auth']] });
+    const parsedFindPetsByTagsResponse = FindPetsByTagsResponse.safeParse(response);
+    if (!parsedFindPetsByTagsResponse.success) {
+      throw new ResponseValidationError<FindPetsByTagsResponse>(
+        `Invalid findPetsByTagsResponse: ${parsedFindPetsByTagsResponse.error.issues.map((issue) => issue.message).join(', ')}`,
+        response,
+        parsedFindPetsByTagsResponse.error
+      );
+    }
+    return parsedFindPetsByTagsResponse.data;
   }
   /**
    * Find pet by ID
@@ -272,12 +617,13 @@ export default class SwaggerPetstoreOpenAPI30 {
    *
    * @param petId ID of pet to return
    * @returns {Pet}
+   * @throws {ApiError<GetPetByIdErrorResponse>}
    */
   async getPetById(petId: number): Promise<Pet> {
-    const response = await this.makeRequest('GET', `/pet/${petId}`, {});
+    const response = await this.makeRequest('GET', `/pet/${petId}`, { security: [['api_key'], ['petstore_auth']] });
     const parsedPet = Pet.safeParse(response);
     if (!parsedPet.success) {
-      throw new ResponseValidationError<Pet>(`Invalid pet: ${parsedPet.error.errors.map((error) => error.message).join(', ')}`, response, parsedPet.error);
+      throw new ResponseValidationError<Pet>(`Invalid pet: ${parsedPet.error.issues.map((issue) => issue.message).join(', ')}`, response, parsedPet.error);
     }
     return parsedPet.data;
   }
@@ -288,9 +634,10 @@ export default class SwaggerPetstoreOpenAPI30 {
    * @param name Name of pet that needs to be updated
    * @param status Status of pet that needs to be updated
    * @returns {void}
+   * @throws {ApiError<UpdatePetWithFormErrorResponse>}
    */
   async updatePetWithForm(petId: number, name?: string, status?: string): Promise<void> {
-    return await this.makeRequest('POST', `/pet/${petId}`, { params: { name: name, status: status } });
+    return await this.makeRequest('POST', `/pet/${petId}`, { params: { name: name, status: status }, security: [['petstore_auth']], responseType: 'void' });
   }
   /**
    * Deletes a pet
@@ -300,9 +647,10 @@ export default class SwaggerPetstoreOpenAPI30 {
    * @param api_key
    * @param petId Pet id to delete
    * @returns {void}
+   * @throws {ApiError<DeletePetErrorResponse>}
    */
-  async deletePet(petId: number): Promise<void> {
-    return await this.makeRequest('DELETE', `/pet/${petId}`, {});
+  async deletePet(petId: number, api_key?: string): Promise<void> {
+    return await this.makeRequest('DELETE', `/pet/${petId}`, { headers: { api_key: api_key }, security: [['petstore_auth']], responseType: 'void' });
   }
   /**
    * uploads an image
@@ -312,12 +660,17 @@ export default class SwaggerPetstoreOpenAPI30 {
    * @param body
    * @returns {ApiResponse}
    */
-  async uploadFile(petId: number, additionalMetadata?: string): Promise<ApiResponse> {
-    const response = await this.makeRequest('POST', `/pet/${petId}/uploadImage`, { params: { additionalMetadata: additionalMetadata } });
+  async uploadFile(petId: number, additionalMetadata?: string, body?: Blob | ArrayBuffer | ArrayBufferView): Promise<ApiResponse> {
+    const response = await this.makeRequest('POST', `/pet/${petId}/uploadImage`, {
+      params: { additionalMetadata: additionalMetadata },
+      security: [['petstore_auth']],
+      data: body,
+      contentType: 'application/octet-stream'
+    });
     const parsedApiResponse = ApiResponse.safeParse(response);
     if (!parsedApiResponse.success) {
       throw new ResponseValidationError<ApiResponse>(
-        `Invalid apiResponse: ${parsedApiResponse.error.errors.map((error) => error.message).join(', ')}`,
+        `Invalid apiResponse: ${parsedApiResponse.error.issues.map((issue) => issue.message).join(', ')}`,
         response,
         parsedApiResponse.error
       );
@@ -328,10 +681,19 @@ export default class SwaggerPetstoreOpenAPI30 {
    * Returns pet inventories by status
    *
    * Returns a map of status codes to quantities
-   * @returns {Record<string, unknown>}
+   * @returns {GetInventoryResponse}
    */
-  async getInventory(): Promise<Record<string, unknown>> {
-    return await this.makeRequest('GET', '/store/inventory', {});
+  async getInventory(): Promise<GetInventoryResponse> {
+    const response = await this.makeRequest('GET', '/store/inventory', { security: [['api_key']] });
+    const parsedGetInventoryResponse = GetInventoryResponse.safeParse(response);
+    if (!parsedGetInventoryResponse.success) {
+      throw new ResponseValidationError<GetInventoryResponse>(
+        `Invalid getInventoryResponse: ${parsedGetInventoryResponse.error.issues.map((issue) => issue.message).join(', ')}`,
+        response,
+        parsedGetInventoryResponse.error
+      );
+    }
+    return parsedGetInventoryResponse.data;
   }
   /**
    * Place an order for a pet
@@ -339,12 +701,13 @@ export default class SwaggerPetstoreOpenAPI30 {
    * Place a new order in the store
    * @param body
    * @returns {Order}
+   * @throws {ApiError<PlaceOrderErrorResponse>}
    */
   async placeOrder(body?: Order): Promise<Order> {
-    const response = await this.makeRequest('POST', '/store/order', { data: body, contentType: 'application/x-www-form-urlencoded' });
+    const response = await this.makeRequest('POST', '/store/order', { data: body });
     const parsedOrder = Order.safeParse(response);
     if (!parsedOrder.success) {
-      throw new ResponseValidationError<Order>(`Invalid order: ${parsedOrder.error.errors.map((error) => error.message).join(', ')}`, response, parsedOrder.error);
+      throw new ResponseValidationError<Order>(`Invalid order: ${parsedOrder.error.issues.map((issue) => issue.message).join(', ')}`, response, parsedOrder.error);
     }
     return parsedOrder.data;
   }
@@ -355,12 +718,13 @@ export default class SwaggerPetstoreOpenAPI30 {
    *
    * @param orderId ID of order that needs to be fetched
    * @returns {Order}
+   * @throws {ApiError<GetOrderByIdErrorResponse>}
    */
   async getOrderById(orderId: number): Promise<Order> {
     const response = await this.makeRequest('GET', `/store/order/${orderId}`, {});
     const parsedOrder = Order.safeParse(response);
     if (!parsedOrder.success) {
-      throw new ResponseValidationError<Order>(`Invalid order: ${parsedOrder.error.errors.map((error) => error.message).join(', ')}`, response, parsedOrder.error);
+      throw new ResponseValidationError<Order>(`Invalid order: ${parsedOrder.error.issues.map((issue) => issue.message).join(', ')}`, response, parsedOrder.error);
     }
     return parsedOrder.data;
   }
@@ -371,9 +735,10 @@ export default class SwaggerPetstoreOpenAPI30 {
    *
    * @param orderId ID of the order that needs to be deleted
    * @returns {void}
+   * @throws {ApiError<DeleteOrderErrorResponse>}
    */
   async deleteOrder(orderId: number): Promise<void> {
-    return await this.makeRequest('DELETE', `/store/order/${orderId}`, {});
+    return await this.makeRequest('DELETE', `/store/order/${orderId}`, { responseType: 'void' });
   }
   /**
    * Create user
@@ -383,10 +748,10 @@ export default class SwaggerPetstoreOpenAPI30 {
    * @returns {User}
    */
   async createUser(body?: User): Promise<User> {
-    const response = await this.makeRequest('POST', '/user', { data: body, contentType: 'application/x-www-form-urlencoded' });
+    const response = await this.makeRequest('POST', '/user', { data: body });
     const parsedUser = User.safeParse(response);
     if (!parsedUser.success) {
-      throw new ResponseValidationError<User>(`Invalid user: ${parsedUser.error.errors.map((error) => error.message).join(', ')}`, response, parsedUser.error);
+      throw new ResponseValidationError<User>(`Invalid user: ${parsedUser.error.issues.map((issue) => issue.message).join(', ')}`, response, parsedUser.error);
     }
     return parsedUser.data;
   }
@@ -394,12 +759,13 @@ export default class SwaggerPetstoreOpenAPI30 {
    * Creates list of users with given input array
    * @param body
    * @returns {User}
+   * @throws {ApiError<CreateUsersWithListInputErrorResponse>}
    */
   async createUsersWithListInput(body?: User[]): Promise<User> {
     const response = await this.makeRequest('POST', '/user/createWithList', { data: body });
     const parsedUser = User.safeParse(response);
     if (!parsedUser.success) {
-      throw new ResponseValidationError<User>(`Invalid user: ${parsedUser.error.errors.map((error) => error.message).join(', ')}`, response, parsedUser.error);
+      throw new ResponseValidationError<User>(`Invalid user: ${parsedUser.error.issues.map((issue) => issue.message).join(', ')}`, response, parsedUser.error);
     }
     return parsedUser.data;
   }
@@ -409,6 +775,7 @@ export default class SwaggerPetstoreOpenAPI30 {
    * @param username The user name for login
    * @param password The password for login in clear text
    * @returns {string}
+   * @throws {ApiError<LoginUserErrorResponse>}
    */
   async loginUser(username?: string, password?: string): Promise<string> {
     return await this.makeRequest('GET', '/user/login', { params: { username: username, password: password } });
@@ -418,19 +785,20 @@ export default class SwaggerPetstoreOpenAPI30 {
    * @returns {void}
    */
   async logoutUser(): Promise<void> {
-    return await this.makeRequest('GET', '/user/logout', {});
+    return await this.makeRequest('GET', '/user/logout', { responseType: 'void' });
   }
   /**
    * Get user by user name
    *
    * @param username The name that needs to be fetched. Use user1 for testing.
    * @returns {User}
+   * @throws {ApiError<GetUserByNameErrorResponse>}
    */
   async getUserByName(username: string): Promise<User> {
     const response = await this.makeRequest('GET', `/user/${username}`, {});
     const parsedUser = User.safeParse(response);
     if (!parsedUser.success) {
-      throw new ResponseValidationError<User>(`Invalid user: ${parsedUser.error.errors.map((error) => error.message).join(', ')}`, response, parsedUser.error);
+      throw new ResponseValidationError<User>(`Invalid user: ${parsedUser.error.issues.map((issue) => issue.message).join(', ')}`, response, parsedUser.error);
     }
     return parsedUser.data;
   }
@@ -444,7 +812,7 @@ export default class SwaggerPetstoreOpenAPI30 {
    * @returns {void}
    */
   async updateUser(username: string, body?: User): Promise<void> {
-    return await this.makeRequest('PUT', `/user/${username}`, { data: body, contentType: 'application/x-www-form-urlencoded' });
+    return await this.makeRequest('PUT', `/user/${username}`, { data: body, responseType: 'void' });
   }
   /**
    * Delete user
@@ -453,8 +821,9 @@ export default class SwaggerPetstoreOpenAPI30 {
    *
    * @param username The name that needs to be deleted
    * @returns {void}
+   * @throws {ApiError<DeleteUserErrorResponse>}
    */
   async deleteUser(username: string): Promise<void> {
-    return await this.makeRequest('DELETE', `/user/${username}`, {});
+    return await this.makeRequest('DELETE', `/user/${username}`, { responseType: 'void' });
   }
 }
@@ -1,50 +1,26 @@
 /**
- * Example showing how to extend the generated client for authentication
+ * Example showing how to pass credentials for the security schemes of the spec to the generated client
  *
  * Run with: npx ts-node examples/petstore/authenticated-usage.ts
  */
 
-import type { ClientOptions } from './api';
+import type { ClientAuth } from './api';
 import SwaggerPetstoreOpenAPI30 from './api';
 
-class AuthenticatedPetstoreAPI extends SwaggerPetstoreOpenAPI30 {
-  private apiKey: string | null = null;
-
-  constructor(options: ClientOptions = {}) {
-    super(options);
-  }
-
-  protected getBaseRequestOptions(): Partial<Omit<RequestInit, 'method' | 'body'>> {
-    const options = super.getBaseRequestOptions();
-    return {
-      ...options,
-      headers: {
-        ...((options.headers as Record<string, string>) || {}),
-        ...(this.apiKey ? { api_key: this.apiKey } : {}),
-        'User-Agent': 'PetstoreClient/1.0.0'
-      }
-    };
-  }
-
-  setApiKey(key: string): void {
-    this.apiKey = key;
-  }
-
-  clearApiKey(): void {
-    this.apiKey = null;
-  }
-}
+// Credentials are keyed by security scheme. A function is called before every request that needs the scheme,
+// so short-lived tokens can be refreshed without creating a new client.
+const auth: ClientAuth = {
+  api_key: 'your-api-key-here',
+  petstore_auth: () => process.env['PETSTORE_TOKEN'] ?? 'your-access-token-here'
+};
 
 async function main() {
-  const client = new AuthenticatedPetstoreAPI({});
-
-  // Set API key for authenticated requests
-  client.setApiKey('your-api-key-here');
+  const client = new SwaggerPetstoreOpenAPI30({ auth });
 
   try {
     console.log('🔐 Making authenticated request...\n');
 
-    // This endpoint typically requires authentication
+    // This endpoint requires the `api_key` scheme, sent in the `api_key` header
     const inventory = await client.getInventory();
     console.log('✅ Inventory retrieved:');
     console.log(JSON.stringify(inventory, null, 2));
@@ -5,7 +5,10 @@ import { dirname, join } from 'node:path';
 import { fileURLToPath } from 'node:url';
 import yargs from 'yargs';
 import { hideBin } from 'yargs/helpers';
-import { Generator, type GeneratorOptions, type NamingConvention } from './generator';
+import { type ClientStyle, type EnumStyle, Generator, type GeneratorOptions, type MethodStyle, type NamingConvention, type OutputMode } from './generator';
+import type { GenerationTarget } from './interfaces/config-loader';
+import { CONFIG_FILE_NAMES, ConfigLoaderService } from './services/config-loader.service';
+import { DEFAULT_POLL_INTERVAL_MS, SpecWatcherService, type WatchedSources } from './services/spec-watcher.service';
 
 import debug from 'debug';
 import loudRejection from 'loud-rejection';
@@ -48,6 +51,7 @@ const packageData = JSON.parse(readFileSync(packageJsonPath, 'utf-8')) as {
 
 const { name, description, version } = packageData;
 const reporter = new Reporter(process.stdout, process.stderr);
+const configLoader = new ConfigLoaderService();
 const startTime = process.hrtime.bigint();
 
 debug(`${name}:${String(process.pid)}`);
@@ -60,30 +64,138 @@ const argv = yargs(hideBin(process.argv))
   .scriptName(name)
   .usage(`${description}\n\nUsage: $0 [options]`)
   .version(version)
+  .option('config', {
+    alias: 'c',
+    type: 'string',
+    description: 'Path to a config file. Default: zod-codegen.config.{ts,mjs,js,json,yaml,yml} in the current directory when --input is not passed'
+  })
+  .option('target', {
+    alias: 't',
+    type: 'string',
+    array: true,
+    description: 'Only generate the named targets of the config file'
+  })
   .option('input', {
     alias: 'i',
     type: 'string',
-    description: 'Path or URL to OpenAPI file',
-    demandOption: true
+    description: 'Path or URL to OpenAPI file (required without a config file)'
   })
   .option('output', {
     alias: 'o',
     type: 'string',
     description: 'Output directory (writes to <output>/api.ts) or path to the generated file (e.g. ./dist/api.ts). Default: generated',
-    default: 'api.ts'
+    defaultDescription: '"api.ts"'
   })
   .option('naming-convention', {
     alias: 'n',
     type: 'string',
     description: 'Naming convention to apply to operation IDs',
-    choices: ['camelCase', 'PascalCase', 'snake_case', 'kebab-case', 'SCREAMING_SNAKE_CASE', 'SCREAMING-KEBAB-CASE'],
-    default: undefined
+    choices: ['camelCase', 'PascalCase', 'snake_case', 'kebab-case', 'SCREAMING_SNAKE_CASE', 'SCREAMING-KEBAB-CASE']
+  })
+  .option('validate-requests', {
+    type: 'boolean',
+    description: 'Validate request bodies and path/query parameters against their schemas before sending',
+    defaultDescription: 'false'
+  })
+  .option('method-style', {
+    type: 'string',
+    description: 'Generate throwing methods, Result-style methods that never throw, or both',
+    choices: ['throw', 'result', 'both'],
+    defaultDescription: '"throw"'
+  })
+  .option('enum-style', {
+    type: 'string',
+    description: 'Emit enums as literal unions, as const objects or as TypeScript enums',
+    choices: ['union', 'const', 'enum'],
+    defaultDescription: '"union"'
+  })
+  .option('coerce', {
+    type: 'boolean',
+    description: 'Decode date-time/date strings into Date and int64 values into bigint',
+    defaultDescription: 'false'
+  })
+  .option('output-mode', {
+    type: 'string',
+    description: 'Generate a single file, or split schemas, types and per-tag clients into a directory of modules',
+    choices: ['single-file', 'split'],
+    defaultDescription: '"single-file"'
+  })
+  .option('client-style', {
+    type: 'string',
+    description: 'Put every operation on the client, or group operations into sub-clients by their first tag',
+    choices: ['flat', 'tags'],
+    defaultDescription: '"flat"'
+  })
+  .option('watch', {
+    alias: 'w',
+    type: 'boolean',
+    description: 'Keep running and regenerate when the input or a file it references changes'
+  })
+  .option('poll-interval', {
+    type: 'number',
+    description: 'Milliseconds between two checks of a remote input in watch mode',
+    defaultDescription: String(DEFAULT_POLL_INTERVAL_MS)
+  })
+  .option('check', {
+    type: 'boolean',
+    description: 'Print a diff and exit with 1 when the generated files are out of date, without writing them',
+    conflicts: ['dry-run', 'watch']
+  })
+  .option('dry-run', {
+    type: 'boolean',
+    description: 'Print the generated code instead of writing it',
+    conflicts: ['watch']
   })
   .strict()
   .help()
   .parseSync();
 
-const { input, output, namingConvention } = argv;
+// Options passed on the command line override the ones from the config file
+const { config, target, input, output, namingConvention, validateRequests, methodStyle, enumStyle, coerce, outputMode, clientStyle, watch, pollInterval, check, dryRun } = argv;
+
+/**
+ * Type guard to validate that a string is a valid method style.
+ *
+ * @param value - The value to check
+ * @returns True if the value is a valid MethodStyle
+ */
+function isValidMethodStyle(value: string | undefined): value is MethodStyle {
+  const validStyles: readonly MethodStyle[] = ['throw', 'result', 'both'] as const;
+  return value !== undefined && validStyles.includes(value as MethodStyle);
+}
+
+/**
+ * Type guard to validate that a string is a valid enum style.
+ *
+ * @param value - The value to check
+ * @returns True if the value is a valid EnumStyle
+ */
+function isValidEnumStyle(value: string | undefined): value is EnumStyle {
+  const validStyles: readonly EnumStyle[] = ['union', 'const', 'enum'] as const;
+  return value !== undefined && validStyles.includes(value as EnumStyle);
+}
+
+/**
+ * Type guard to validate that a string is a valid output mode.
+ *
+ * @param value - The value to check
+ * @returns True if the value is a valid OutputMode
+ */
+function isValidOutputMode(value: string | undefined): value is OutputMode {
+  const validModes: readonly OutputMode[] = ['single-file', 'split'] as const;
+  return value !== undefined && validModes.includes(value as OutputMode);
+}
+
+/**
+ * Type guard to validate that a string is a valid client style.
+ *
+ * @param value - The value to check
+ * @returns True if the value is a valid ClientStyle
+ */
+function isValidClientStyle(value: string | undefined): value is ClientStyle {
+  const validStyles: readonly ClientStyle[] = ['flat', 'tags'] as const;
+  return value !== undefined && validStyles.includes(value as ClientStyle);
+}
 
 /**
  * Type guard to validate that a string is a valid naming convention.
@@ -101,12 +213,78 @@ function isValidNamingConvention(value: string | undefined): value is NamingConv
   return validConventions.includes(value as NamingConvention);
 }
 
+/**
+ * Resolves what to generate: the `--input` file alone, or the targets of the config file, with `--input` and
+ * `--output` overriding the paths of a single target.
+ *
+ * @returns The targets to generate, in config file order
+ */
+async function resolveTargets(): Promise<GenerationTarget[]> {
+  const configPath = config ?? (input === undefined ? configLoader.find(process.cwd()) : undefined);
+  if (configPath === undefined) {
+    if (input === undefined) {
+      throw new Error(`Missing input: pass --input or create one of ${CONFIG_FILE_NAMES.join(', ')}`);
+    }
+
+    return [{ name: 'default', input, output, options: {} }];
+  }
+
+  const targets = configLoader.resolveTargets(await configLoader.load(configPath), configPath);
+  const unknownTargets = (target ?? []).filter((targetName) => !targets.some(({ name: candidate }) => candidate === targetName));
+  if (unknownTargets.length > 0) {
+    throw new Error(`Unknown target(s) ${unknownTargets.join(', ')} in ${configPath}. Available targets: ${targets.map(({ name: candidate }) => candidate).join(', ')}`);
+  }
+
+  const selectedTargets = target === undefined ? targets : targets.filter(({ name: candidate }) => target.includes(candidate));
+  if (selectedTargets.length > 1 && (input !== undefined || output !== undefined)) {
+    throw new Error('--input and --output can only be used with a single target. Select one with --target');
+  }
+
+  return selectedTargets.map((selectedTarget) => ({ ...selectedTarget, input: input ?? selectedTarget.input, output: output ?? selectedTarget.output }));
+}
+
 void (async () => {
   try {
-    const options: GeneratorOptions = isValidNamingConvention(namingConvention) ? { namingConvention } : {};
+    const cliOptions: GeneratorOptions = {
+      ...(isValidNamingConvention(namingConvention) ? { namingConvention } : {}),
+      ...(validateRequests === undefined ? {} : { validateRequests }),
+      ...(isValidMethodStyle(methodStyle) ? { methodStyle } : {}),
+      ...(isValidEnumStyle(enumStyle) ? { enumStyle } : {}),
+      ...(coerce === undefined ? {} : { coerce }),
+      ...(isValidOutputMode(outputMode) ? { outputMode } : {}),
+      ...(isValidClientStyle(clientStyle) ? { clientStyle } : {})
+    };
+
+    if (pollInterval !== undefined && !(pollInterval > 0)) {
+      throw new Error('--poll-interval must be a positive number of milliseconds');
+    }
+
+    const targets = await resolveTargets();
+    const generate = async ({ name: targetName, input: targetInput, output: targetOutput, options }: GenerationTarget): Promise<{ exitCode: number } & WatchedSources> => {
+      if (targets.length > 1) {
+        reporter.log(`🎯 Target: ${targetName}`);
+      }
+
+      const generator = new Generator(name, version, reporter, targetInput, targetOutput ?? 'api.ts', { ...options, ...cliOptions });
+      const exitCode = check === true ? await generator.check() : dryRun === true ? await generator.dryRun() : await generator.run();
+      return { exitCode, sources: generator.getSources(), remoteVersions: generator.getRemoteVersions() };
+    };
+
+    if (watch === true) {
+      // Failed generations are reported by the generator and retried on the next change
+      for (const selectedTarget of targets) {
+        await new SpecWatcherService(async () => await generate(selectedTarget), reporter, pollInterval === undefined ? {} : { pollInterval }).start();
+      }
+
+      reporter.log('👀 Watching for changes. Press Ctrl+C to stop.');
+      return;
+    }
+
+    let exitCode = 0;
+    for (const selectedTarget of targets) {
+      exitCode = Math.max(exitCode, (await generate(selectedTarget)).exitCode);
+    }
 
-    const generator = new Generator(name, version, reporter, input, output, options);
-    const exitCode = await generator.run();
     process.exit(exitCode);
   } catch (error) {
     if (error instanceof Error) {
@@ -1,21 +1,47 @@
-import { extname, resolve } from 'node:path';
+import { existsSync, readdirSync, readFileSync } from 'node:fs';
+import { extname, join, relative, resolve } from 'node:path';
+import type { RemoteVersion } from './interfaces/file-reader';
+import { OpenApiBundlerService } from './services/bundler.service';
 import { TypeScriptCodeGeneratorService } from './services/code-generator.service';
 import { OpenApiFileParserService, SyncFileReaderService } from './services/file-reader.service';
-import { SyncFileWriterService } from './services/file-writer.service';
+import { GENERATED_FILE_MARKER, SyncFileWriterService } from './services/file-writer.service';
+import type { CodegenConfigType } from './types/config';
 import type { GeneratorOptions } from './types/generator-options';
 import type { OpenApiSpecType } from './types/openapi';
 import type { Reporter } from './utils/reporter';
+import { createUnifiedDiff } from './utils/unified-diff';
 
 // Re-export types for library users
-export type { GeneratorOptions } from './types/generator-options';
+export type { ClientStyle, CoercionOptions, CustomFormat, EnumStyle, GeneratorOptions, MethodStyle, OutputMode } from './types/generator-options';
 export type { NamingConvention, OperationDetails, OperationNameTransformer } from './utils/naming-convention';
+export type { CodegenConfigType as CodegenConfig, TargetConfigType as TargetConfig } from './types/config';
+
+/**
+ * Types a `zod-codegen.config.ts` (or `.mjs`) file. It returns the config unchanged.
+ *
+ * @example
+ * ```typescript
+ * import {defineConfig} from 'zod-codegen';
+ *
+ * export default defineConfig({
+ *   operationNameTransformer: ({operationId}) => operationId.replace(/Using(Get|Post|Put|Delete)$/, ''),
+ *   targets: {
+ *     petstore: {input: './specs/petstore.yaml', output: './src/petstore'},
+ *     billing: {input: './specs/billing.yaml', output: './src/billing', outputMode: 'split'}
+ *   }
+ * });
+ * ```
+ */
+export function defineConfig(config: CodegenConfigType): CodegenConfigType {
+  return config;
+}
 
 /**
  * Main generator class for creating TypeScript code from OpenAPI specifications.
  *
  * This class orchestrates the code generation process:
- * 1. Reads the OpenAPI specification file (local or remote)
- * 2. Parses and validates the specification
+ * 1. Reads the OpenAPI specification file (local or remote), following references to other files
+ * 2. Parses and validates the specification, upgrading Swagger 2.0 documents to OpenAPI 3
  * 3. Generates TypeScript code with Zod schemas and type-safe API client
  * 4. Writes the generated code to the output directory
  *
@@ -39,10 +65,21 @@ export type { NamingConvention, OperationDetails, OperationNameTransformer } fro
  */
 export class Generator {
   private readonly fileReader = new SyncFileReaderService();
-  private readonly fileParser = new OpenApiFileParserService();
+  /** Files and URLs read by the last run, including the ones reached through `$ref`s */
+  private readonly sources = new Set<string>();
+  private readonly bundler = new OpenApiBundlerService({
+    readFile: async (path) => {
+      this.sources.add(path);
+      return await this.fileReader.readFile(path);
+    }
+  });
+  private readonly fileParser = new OpenApiFileParserService((message) => {
+    this.reporter.error(`⚠️ Warning: ${message}`);
+  });
   private readonly codeGenerator: TypeScriptCodeGeneratorService;
   private readonly fileWriter: SyncFileWriterService;
   private readonly outputPath: string;
+  private readonly split: boolean;
 
   /**
    * Creates a new Generator instance.
@@ -51,7 +88,8 @@ export class Generator {
    * @param _version - The version of the application/library (used in generated file headers)
    * @param reporter - Reporter instance for logging messages and errors
    * @param inputPath - Path or URL to the OpenAPI specification file
-   * @param _outputDir - Output directory (writes to <dir>/api.ts) or path to the generated file (e.g. ./dist/api.ts)
+   * @param _outputDir - Output directory (writes to <dir>/api.ts) or path to the generated file (e.g. ./dist/api.ts).
+   *   In split mode, the directory the modules are written to (a `.ts` path is used without its extension).
    * @param options - Optional configuration for code generation
    */
   constructor(
@@ -64,7 +102,13 @@ export class Generator {
   ) {
     this.fileWriter = new SyncFileWriterService(this._name, this._version, inputPath);
     const ext = extname(this._outputDir);
-    this.outputPath = ext === '.ts' || ext === '.tsx' ? resolve(this._outputDir) : this.fileWriter.resolveOutputPath(this._outputDir);
+    this.split = options.outputMode === 'split';
+    if (this.split) {
+      this.outputPath = resolve(ext === '.ts' || ext === '.tsx' ? this._outputDir.slice(0, -ext.length) : this._outputDir);
+    } else {
+      this.outputPath = ext === '.ts' || ext === '.tsx' ? resolve(this._outputDir) : this.fileWriter.resolveOutputPath(this._outputDir);
+    }
+
     this.codeGenerator = new TypeScriptCodeGeneratorService(options);
   }
 
@@ -74,15 +118,126 @@ export class Generator {
    * @returns Promise that resolves to an exit code (0 for success, 1 for failure)
    */
   async run(): Promise<number> {
-    try {
-      const rawSource = await this.readFile();
-      const openApiSpec = this.parseFile(rawSource);
-      const generatedCode = this.generateCode(openApiSpec);
+    return await this.execute((files) => {
+      for (const [path, content] of files) {
+        this.fileWriter.writeFile(path, content);
+      }
 
-      this.writeFile(generatedCode);
       this.reporter.log(`✅ Generated types successfully at: ${this.outputPath}`);
 
       return 0;
+    });
+  }
+
+  /**
+   * Generates the code in memory and compares it with the files in the output location, logging a unified diff for
+   * every file that differs and the name of every file that is missing. In split mode, generated files left over from
+   * schemas or tags that no longer exist are reported too. Nothing is written.
+   *
+   * @returns Promise that resolves to an exit code (0 when the output is up to date, 1 when it is stale or generation fails)
+   */
+  async check(): Promise<number> {
+    return await this.execute((files) => {
+      let staleFiles = 0;
+      for (const [path, content] of files) {
+        const label = relative(process.cwd(), path).replaceAll('\\', '/');
+        if (!existsSync(path)) {
+          this.reporter.log(`Missing generated file: ${label}`);
+          staleFiles++;
+          continue;
+        }
+
+        const diff = createUnifiedDiff(readFileSync(path, 'utf8'), this.fileWriter.render(content, path), `a/${label}`, `b/${label}`);
+        if (diff !== '') {
+          this.reporter.log(diff);
+          staleFiles++;
+        }
+      }
+
+      const generatedPaths = new Set(files.map(([path]) => path));
+      const leftoverFiles = this.split ? this.listGeneratedFiles(this.outputPath).filter((path) => !generatedPaths.has(path)) : [];
+      for (const path of leftoverFiles) {
+        this.reporter.log(`Unexpected generated file: ${relative(process.cwd(), path).replaceAll('\\', '/')}`);
+        staleFiles++;
+      }
+
+      if (staleFiles === 0) {
+        this.reporter.log(`✅ Generated types are up to date at: ${this.outputPath}`);
+        return 0;
+      }
+
+      this.reporter.error(`❌ ${String(staleFiles)} generated file(s) out of date at: ${this.outputPath}`);
+
+      return 1;
+    });
+  }
+
+  /**
+   * Generates the code in memory and logs it instead of writing it. In split mode, every module is preceded by a
+   * comment naming it.
+   *
+   * @returns Promise that resolves to an exit code (0 for success, 1 for failure)
+   */
+  async dryRun(): Promise<number> {
+    return await this.execute((files) => {
+      for (const [path, content] of files) {
+        if (this.split) {
+          this.reporter.log(`// ${relative(this.outputPath, path).replaceAll('\\', '/')}`);
+        }
+
+        this.reporter.log(this.fileWriter.render(content, path).replace(/\n$/, ''));
+      }
+
+      return 0;
+    });
+  }
+
+  /**
+   * Lists the files and URLs read by the last {@link run}, {@link check} or {@link dryRun}, including the ones reached
+   * through `$ref`s. Sources read before a run failed are included, so they can be watched for a fix.
+   *
+   * @returns Paths and URLs in the order they were read
+   */
+  getSources(): string[] {
+    return [...this.sources];
+  }
+
+  /**
+   * Lists the content and ETag of the URLs among the {@link getSources sources} of the last run, as they were read.
+   *
+   * @returns The version read for each remote source that was fetched successfully
+   */
+  getRemoteVersions(): Map<string, RemoteVersion> {
+    return new Map(
+      this.getSources().flatMap((source) => {
+        const version = this.fileReader.getRemoteVersion(source);
+        return version === undefined ? [] : [[source, version] as const];
+      })
+    );
+  }
+
+  /**
+   * Lists the TypeScript files below a directory that carry the generated file header, skipping hand-written ones.
+   */
+  private listGeneratedFiles(directory: string): string[] {
+    if (!existsSync(directory)) {
+      return [];
+    }
+
+    return readdirSync(directory, { withFileTypes: true }).flatMap((entry) => {
+      const path = join(directory, entry.name);
+      if (entry.isDirectory()) {
+        return this.listGeneratedFiles(path);
+      }
+
+      return entry.isFile() && extname(entry.name) === '.ts' && readFileSync(path, 'utf8').startsWith(GENERATED_FILE_MARKER) ? [path] : [];
+    });
+  }
+
+  private async execute(action: (files: [path: string, content: string][]) => number): Promise<number> {
+    this.sources.clear();
+    try {
+      return action(await this.generate());
     } catch (error) {
       if (error instanceof Error) {
         this.reporter.error(`❌ Error: ${error.message}`);
@@ -94,19 +249,31 @@ export class Generator {
     }
   }
 
-  private async readFile(): Promise<string> {
-    return await this.fileReader.readFile(this.inputPath);
+  /** Generated content paired with the absolute path it belongs to */
+  private async generate(): Promise<[path: string, content: string][]> {
+    const document = await this.bundleFile();
+    const openApiSpec = this.parseFile(document);
+
+    if (this.split) {
+      return Object.entries(this.generateFiles(openApiSpec)).map(([path, content]) => [join(this.outputPath, path), content]);
+    }
+
+    return [[this.outputPath, this.generateCode(openApiSpec)]];
+  }
+
+  private async bundleFile(): Promise<unknown> {
+    return await this.bundler.bundle(this.inputPath);
   }
 
-  private parseFile(source: string): OpenApiSpecType {
-    return this.fileParser.parse(source);
+  private parseFile(document: unknown): OpenApiSpecType {
+    return this.fileParser.parse(document);
   }
 
   private generateCode(spec: OpenApiSpecType): string {
     return this.codeGenerator.generate(spec);
   }
 
-  private writeFile(content: string): void {
-    this.fileWriter.writeFile(this.outputPath, content);
+  private generateFiles(spec: OpenApiSpecType): Record<string, string> {
+    return this.codeGenerator.generateFiles(spec);
   }
 }
@@ -2,6 +2,7 @@ import type { OpenApiSpecType } from '../types/openapi';
 
 export interface CodeGenerator {
   generate(spec: OpenApiSpecType): string;
+  generateFiles(spec: OpenApiSpecType): Record<string, string>;
 }
 
 export interface SchemaBuilder {
@@ -0,0 +1,15 @@
+import type { GeneratorOptions } from '../types/generator-options';
+
+export interface GenerationTarget {
+  /** Target name from the config file, or `default` for a config without `targets` */
+  name: string;
+  input: string;
+  output: string | undefined;
+  options: GeneratorOptions;
+}
+
+export interface ConfigLoader<TConfig = unknown> {
+  find(directory: string): string | undefined;
+  load(path: string): Promise<TConfig>;
+  resolveTargets(config: TConfig, configPath: string): GenerationTarget[];
+}
@@ -0,0 +1,10 @@
+export interface ConversionResult<TOutput = unknown> {
+  document: TOutput;
+  /** Human readable notes about parts of the input that could not be converted exactly */
+  warnings: string[];
+}
+
+export interface DocumentConverter<TInput = unknown, TOutput = unknown> {
+  canConvert(document: TInput): boolean;
+  convert(document: TInput): ConversionResult<TOutput>;
+}
@@ -2,6 +2,12 @@ export interface FileReader {
   readFile(path: string): Promise<string> | string;
 }
 
+/** Content of a remote file with the ETag it was served with */
+export interface RemoteVersion {
+  content: string;
+  etag: string | undefined;
+}
+
 export interface FileParser<TInput, TOutput> {
   parse(input: TInput): TOutput;
 }
@@ -0,0 +1,7 @@
+export interface ReferenceResolver<TInput = unknown, TOutput = unknown> {
+  resolve(document: TInput): TOutput;
+}
+
+export interface DocumentBundler<TOutput = unknown> {
+  bundle(location: string): Promise<TOutput>;
+}
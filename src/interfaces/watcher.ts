@@ -0,0 +1,4 @@
+export interface Watcher {
+  start(): Promise<void>;
+  close(): void;
+}
@@ -0,0 +1,301 @@
+import { load } from 'js-yaml';
+import { basename, dirname, extname, resolve } from 'node:path';
+import type { OpenApiFileReader } from '../interfaces/file-reader';
+import type { DocumentBundler } from '../interfaces/reference-resolver';
+import { getJsonPointerValue } from '../utils/json-pointer';
+import { SyncFileReaderService } from './file-reader.service';
+
+const SCHEMA_REFERENCE_PREFIX = '#/components/schemas/';
+
+interface BundleContext {
+  rootLocation: string;
+  documents: Map<string, unknown>;
+  /** Schema name for every external schema already copied, keyed by `location#pointer` */
+  hoistedNames: Map<string, string>;
+  hoistedSchemas: Record<string, unknown>;
+  takenNames: Set<string>;
+}
+
+/**
+ * Bundles a specification split over several files into one document.
+ *
+ * External references (`./schemas/pet.yaml#/Pet`, `common.yaml#/components/schemas/Error`,
+ * `https://example.com/common.json#/Error`) are resolved relative to the document containing them:
+ * - references in schema positions are copied into `components.schemas` and replaced with a local
+ *   reference, so recursive schemas keep working and generated types keep a name;
+ * - any other reference (parameters, responses, request bodies, headers) is inlined.
+ *
+ * Copied schemas that end up identical to another schema are merged into it.
+ */
+export class OpenApiBundlerService implements DocumentBundler {
+  constructor(private readonly fileReader: OpenApiFileReader = new SyncFileReaderService()) {}
+
+  async bundle(location: string): Promise<unknown> {
+    const rootLocation = this.isUrl(location) ? location : resolve(location);
+    const root = this.parseDocument(await this.fileReader.readFile(location));
+    const rootSchemas = this.getComponentSchemas(root);
+
+    const context: BundleContext = {
+      rootLocation,
+      documents: new Map([[rootLocation, root]]),
+      hoistedNames: new Map(),
+      hoistedSchemas: {},
+      takenNames: new Set(Object.keys(rootSchemas))
+    };
+
+    // A root schema that only points at another file takes over that schema's name and content
+    const aliases = Object.entries(rootSchemas).flatMap(([name, schema]) => {
+      const ref = this.isObject(schema) && Object.keys(schema).length === 1 ? schema['$ref'] : undefined;
+      if (typeof ref !== 'string' || ref.startsWith('#')) {
+        return [];
+      }
+
+      const target = this.parseReference(ref, rootLocation);
+      context.hoistedNames.set(`${target.location}#${target.pointer}`, name);
+      return [{ name, ref, ...target }];
+    });
+
+    const bundled = await this.visit(root, rootLocation, false, context, []);
+    for (const { name, ref, location: aliasLocation, pointer } of aliases) {
+      context.hoistedSchemas[name] = await this.visit(await this.lookup(ref, aliasLocation, pointer, context), aliasLocation, true, context, []);
+    }
+
+    if (Object.keys(context.hoistedSchemas).length === 0 || !this.isObject(bundled)) {
+      return bundled;
+    }
+
+    const components = this.isObject(bundled['components']) ? bundled['components'] : {};
+    const document = {
+      ...bundled,
+      components: { ...components, schemas: { ...this.getComponentSchemas(bundled), ...context.hoistedSchemas } }
+    };
+
+    const aliasNames = new Set(aliases.map(({ name }) => name));
+    return this.deduplicateSchemas(document, new Set(Object.keys(context.hoistedSchemas).filter((name) => !aliasNames.has(name))));
+  }
+
+  private async visit(node: unknown, location: string, inSchema: boolean, context: BundleContext, referenceChain: string[]): Promise<unknown> {
+    if (Array.isArray(node)) {
+      const items: unknown[] = [];
+      for (const item of node) {
+        items.push(await this.visit(item, location, inSchema, context, referenceChain));
+      }
+      return items;
+    }
+
+    if (!this.isObject(node)) {
+      return node;
+    }
+
+    const { $ref: ref, ...siblings } = node;
+    // Local references of the root document already point at the right place
+    if (typeof ref === 'string' && (location !== context.rootLocation || !ref.startsWith('#'))) {
+      return await this.resolveReference(ref, siblings, location, inSchema, context, referenceChain);
+    }
+
+    const result: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(node)) {
+      result[key] = await this.visit(value, location, inSchema || key === 'schema' || key === 'schemas' || key === 'definitions', context, referenceChain);
+    }
+    return result;
+  }
+
+  private async resolveReference(
+    ref: string,
+    siblings: Record<string, unknown>,
+    location: string,
+    inSchema: boolean,
+    context: BundleContext,
+    referenceChain: string[]
+  ): Promise<unknown> {
+    const { location: targetLocation, pointer } = this.parseReference(ref, location);
+    const resolvedSiblings = await this.visit(siblings, location, inSchema, context, referenceChain);
+
+    if (inSchema) {
+      const localRef = targetLocation === context.rootLocation ? `#${pointer}` : `${SCHEMA_REFERENCE_PREFIX}${await this.hoistSchema(ref, targetLocation, pointer, context)}`;
+      return { ...(resolvedSiblings as Record<string, unknown>), $ref: localRef };
+    }
+
+    const key = `${targetLocation}#${pointer}`;
+    if (referenceChain.includes(key)) {
+      throw new Error(`Circular reference: ${[...referenceChain, key].join(' -> ')}`);
+    }
+
+    const target = await this.lookup(ref, targetLocation, pointer, context);
+    const resolved = await this.visit(target, targetLocation, false, context, [...referenceChain, key]);
+
+    return this.isObject(resolved) && this.isObject(resolvedSiblings) ? { ...resolved, ...resolvedSiblings } : resolved;
+  }
+
+  /**
+   * Copies an external schema into `components.schemas` once and returns the name it was stored under.
+   * The name is registered before the schema is visited so self-references resolve to it.
+   */
+  private async hoistSchema(ref: string, location: string, pointer: string, context: BundleContext): Promise<string> {
+    const key = `${location}#${pointer}`;
+    const existing = context.hoistedNames.get(key);
+    if (existing) {
+      return existing;
+    }
+
+    const name = this.reserveSchemaName(this.getSchemaName(location, pointer), context);
+    context.hoistedNames.set(key, name);
+
+    const target = await this.lookup(ref, location, pointer, context);
+    context.hoistedSchemas[name] = await this.visit(target, location, true, context, []);
+
+    return name;
+  }
+
+  private async lookup(ref: string, location: string, pointer: string, context: BundleContext): Promise<unknown> {
+    const target = getJsonPointerValue(await this.loadDocument(location, context), pointer);
+    if (target === undefined) {
+      throw new Error(`Unable to resolve reference "${ref}" (${location}#${pointer})`);
+    }
+
+    return target;
+  }
+
+  private async loadDocument(location: string, context: BundleContext): Promise<unknown> {
+    if (!context.documents.has(location)) {
+      context.documents.set(location, this.parseDocument(await this.fileReader.readFile(location)));
+    }
+
+    return context.documents.get(location);
+  }
+
+  /**
+   * Replaces schemas copied from other files with an identical schema declared earlier, repeating
+   * until nothing changes because merging two schemas can make the schemas referencing them identical.
+   */
+  private deduplicateSchemas(document: Record<string, unknown>, hoistedNames: Set<string>): unknown {
+    let current: unknown = document;
+
+    for (;;) {
+      const schemas = this.getComponentSchemas(current);
+      const canonicalNames = new Map<string, string>();
+      const renames = new Map<string, string>();
+
+      for (const [name, schema] of Object.entries(schemas)) {
+        const serialized = this.serialize(schema);
+        const canonicalName = canonicalNames.get(serialized);
+
+        if (canonicalName !== undefined && hoistedNames.has(name)) {
+          renames.set(name, canonicalName);
+        } else if (canonicalName === undefined) {
+          canonicalNames.set(serialized, name);
+        }
+      }
+
+      if (renames.size === 0) {
+        return current;
+      }
+
+      for (const name of renames.keys()) {
+        hoistedNames.delete(name);
+      }
+
+      const renamed = this.renameSchemaReferences(current, renames) as Record<string, unknown>;
+      const components = renamed['components'] as Record<string, unknown>;
+      const remaining = Object.entries(this.getComponentSchemas(renamed)).filter(([name]) => !renames.has(name));
+      current = { ...renamed, components: { ...components, schemas: Object.fromEntries(remaining) } };
+    }
+  }
+
+  private renameSchemaReferences(node: unknown, renames: Map<string, string>): unknown {
+    if (Array.isArray(node)) {
+      return node.map((item) => this.renameSchemaReferences(item, renames));
+    }
+
+    if (!this.isObject(node)) {
+      return node;
+    }
+
+    return Object.fromEntries(
+      Object.entries(node).map(([key, value]) => {
+        if (key === '$ref' && typeof value === 'string' && value.startsWith(SCHEMA_REFERENCE_PREFIX)) {
+          const renamed = renames.get(value.slice(SCHEMA_REFERENCE_PREFIX.length));
+          return [key, renamed === undefined ? value : `${SCHEMA_REFERENCE_PREFIX}${renamed}`];
+        }
+
+        return [key, this.renameSchemaReferences(value, renames)];
+      })
+    );
+  }
+
+  /**
+   * Serializes a value with sorted keys so structurally equal schemas compare equal.
+   */
+  private serialize(value: unknown): string {
+    return JSON.stringify(value, (_key, nested: unknown) => (this.isObject(nested) ? Object.fromEntries(Object.entries(nested).sort(([a], [b]) => a.localeCompare(b))) : nested));
+  }
+
+  private getSchemaName(location: string, pointer: string): string {
+    const segment = pointer.split('/').pop();
+    if (segment) {
+      return decodeURIComponent(segment).replace(/~1/g, '/').replace(/~0/g, '~');
+    }
+
+    const fileName = basename(this.isUrl(location) ? new URL(location).pathname : location);
+    return basename(fileName, extname(fileName));
+  }
+
+  private reserveSchemaName(baseName: string, context: BundleContext): string {
+    let name = baseName;
+    for (let suffix = 2; context.takenNames.has(name); suffix++) {
+      name = `${baseName}${String(suffix)}`;
+    }
+
+    context.takenNames.add(name);
+    return name;
+  }
+
+  /**
+   * Splits a reference into the absolute location of its document and the JSON pointer within it.
+   */
+  private parseReference(ref: string, base: string): { location: string; pointer: string } {
+    const hashIndex = ref.indexOf('#');
+    const file = hashIndex === -1 ? ref : ref.slice(0, hashIndex);
+    const pointer = hashIndex === -1 ? '' : ref.slice(hashIndex + 1);
+
+    return { location: file ? this.resolveLocation(file, base) : base, pointer };
+  }
+
+  private resolveLocation(file: string, base: string): string {
+    if (this.isUrl(file)) {
+      return file;
+    }
+
+    return this.isUrl(base) ? new URL(file, base).toString() : resolve(dirname(base), file);
+  }
+
+  private parseDocument(source: string): unknown {
+    try {
+      return JSON.parse(source) as unknown;
+    } catch {
+      return load(source);
+    }
+  }
+
+  private getComponentSchemas(document: unknown): Record<string, unknown> {
+    if (!this.isObject(document) || !this.isObject(document['components'])) {
+      return {};
+    }
+
+    const schemas = document['components']['schemas'];
+    return this.isObject(schemas) ? schemas : {};
+  }
+
+  private isUrl(path: string): boolean {
+    try {
+      const url = new URL(path);
+      return url.protocol === 'http:' || url.protocol === 'https:';
+    } catch {
+      return false;
+    }
+  }
+
+  private isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+}
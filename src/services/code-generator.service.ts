@@ -1,27 +1,134 @@
+import { posix } from 'node:path';
 import * as ts from 'typescript';
 import { z } from 'zod';
 import type { CodeGenerator, SchemaBuilder } from '../interfaces/code-generator';
-import type { GeneratorOptions } from '../types/generator-options';
-import type { MethodSchemaType, OpenApiSpecType, ReferenceType } from '../types/openapi';
-import { MethodSchema, Reference, SchemaProperties } from '../types/openapi';
+import type { ClientStyle, CoercionOptions, CustomFormat, EnumStyle, GeneratorOptions, MethodStyle } from '../types/generator-options';
+import type { DiscriminatorType, MethodSchemaType, OpenApiSpecType, ParameterType, PathItemType, ReferenceType, ResponseType, SecuritySchemeType } from '../types/openapi';
+import { Discriminator, MethodSchema, Reference, SchemaProperties, SecurityScheme } from '../types/openapi';
 import { type NamingConvention, type OperationDetails, type OperationNameTransformer, transformNamingConvention } from '../utils/naming-convention';
 import { TypeScriptImportBuilderService } from './import-builder.service';
 import { TypeScriptTypeBuilderService } from './type-builder.service';
 
+/**
+ * Zod factories for well-known string formats, as a path on `z` (e.g. `['iso', 'date']` for `z.iso.date()`).
+ * A value must match one of the listed factories.
+ */
+const STRING_FORMATS: Record<string, { path: string[]; options?: Record<string, unknown> }[]> = {
+  'email': [{ path: ['email'] }],
+  'idn-email': [{ path: ['email'] }],
+  'uri': [{ path: ['url'] }],
+  'url': [{ path: ['url'] }],
+  'iri': [{ path: ['url'] }],
+  'uuid': [{ path: ['uuid'] }],
+  'guid': [{ path: ['guid'] }],
+  'date-time': [{ path: ['iso', 'datetime'], options: { local: true } }],
+  'date': [{ path: ['iso', 'date'] }],
+  'time': [{ path: ['iso', 'time'] }],
+  'duration': [{ path: ['iso', 'duration'] }],
+  'ipv4': [{ path: ['ipv4'] }],
+  'ipv6': [{ path: ['ipv6'] }],
+  'ip': [{ path: ['ipv4'] }, { path: ['ipv6'] }],
+  'cidrv4': [{ path: ['cidrv4'] }],
+  'cidrv6': [{ path: ['cidrv6'] }],
+  'cidr': [{ path: ['cidrv4'] }, { path: ['cidrv6'] }],
+  'hostname': [{ path: ['hostname'] }],
+  'idn-hostname': [{ path: ['hostname'] }],
+  'byte': [{ path: ['base64'] }],
+  'base64': [{ path: ['base64'] }],
+  'base64url': [{ path: ['base64url'] }],
+  'emoji': [{ path: ['emoji'] }],
+  'jwt': [{ path: ['jwt'] }],
+  'ulid': [{ path: ['ulid'] }],
+  'nanoid': [{ path: ['nanoid'] }],
+  'cuid': [{ path: ['cuid'] }],
+  'cuid2': [{ path: ['cuid2'] }],
+  'e164': [{ path: ['e164'] }],
+  'hex': [{ path: ['hex'] }]
+};
+
+// 64-bit integers are often sent as strings because they exceed Number.MAX_SAFE_INTEGER
+const INTEGER_STRING_FORMATS = new Set(['int32', 'int64', 'uint64']);
+
+// Request bodies checked against their Zod schema when `validateRequests` is enabled
+const VALIDATED_REQUEST_BODY_TYPES = ['application/json', 'application/x-www-form-urlencoded'];
+
+// Client methods generated for one operation, with the first tag of the operation
+interface OperationMethods {
+  tag: string | undefined;
+  methods: ts.MethodDeclaration[];
+}
+
+// Class generated for the operations of a tag, and the root client property exposing it in the `tags` client style
+interface TagClient {
+  className: string;
+  propertyName: string;
+  declaration: ts.ClassDeclaration;
+}
+
+// Declarations generated for a spec, assembled into a single file or split into modules
+interface GeneratedDeclarations {
+  openapi: OpenApiSpecType;
+  imports: ts.ImportDeclaration[];
+  types: ts.Statement[];
+  // Runtime enum objects, keyed by schema name
+  enums: Record<string, ts.Statement>;
+  errorResponseTypes: ts.TypeAliasDeclaration[];
+  schemas: Record<string, ts.VariableStatement>;
+  schemaTypeAliases: ts.TypeAliasDeclaration[];
+  operations: OperationMethods[];
+  // Security and server declarations, error classes and result types used by the client
+  runtime: ts.Statement[];
+}
+
 export class TypeScriptCodeGeneratorService implements CodeGenerator, SchemaBuilder {
   private readonly typeBuilder = new TypeScriptTypeBuilderService();
   private readonly importBuilder = new TypeScriptImportBuilderService();
   private readonly printer = ts.createPrinter({ newLine: ts.NewLineKind.LineFeed });
   private readonly namingConvention: NamingConvention | undefined;
   private readonly operationNameTransformer: OperationNameTransformer | undefined;
+  private readonly validateRequests: boolean;
+  private readonly methodStyle: MethodStyle;
+  private readonly enumStyle: EnumStyle;
+  private readonly clientStyle: ClientStyle;
+  private readonly customFormats: Record<string, CustomFormat>;
+  private readonly coercion: { dates: boolean; bigints: boolean; decimal: CoercionOptions['decimal'] };
 
   // Track circular dependencies for z.lazy() wrapping
   private circularSchemas = new Set<string>();
   private currentSchemaName: string | null = null;
 
+  // Component schemas of the spec being generated, for resolving $ref bodies
+  private componentSchemas: Record<string, unknown> = {};
+
+  // Synthesized schema names for inline JSON response bodies, keyed by "method path"
+  private inlineResponseSchemaNames = new Map<string, string>();
+
+  // Error response union type names per operation, keyed by "method path"
+  private errorResponseTypeNames = new Map<string, string>();
+
+  // Original schema name of each `<Name>Input`/`<Name>Output` schema derived for readOnly/writeOnly properties
+  private derivedSchemaOrigins = new Map<string, string>();
+
+  // Security schemes the client can apply, keyed by scheme name, and the document-level security requirements
+  private securitySchemes: Record<string, SecuritySchemeType> = {};
+  private defaultSecurity: OpenApiSpecType['security'];
+
+  // Names of the runtime enum objects emitted for enum component schemas, keyed by schema name
+  private enumNames = new Map<string, string>();
+
+  // Identifiers to import for the custom formats and decimal class used by the spec, keyed by module
+  private externalImports = new Map<string, Set<string>>();
+
   constructor(options: GeneratorOptions = {}) {
     this.namingConvention = options.namingConvention;
     this.operationNameTransformer = options.operationNameTransformer;
+    this.validateRequests = options.validateRequests ?? false;
+    this.methodStyle = options.methodStyle ?? 'throw';
+    this.enumStyle = options.enumStyle ?? 'union';
+    this.clientStyle = options.clientStyle ?? 'flat';
+    this.customFormats = Object.fromEntries(Object.entries(options.formats ?? {}).map(([format, custom]) => [format, typeof custom === 'string' ? { schema: custom } : custom]));
+    const coerce = options.coerce === true ? {} : options.coerce === false ? undefined : options.coerce;
+    this.coercion = { dates: coerce?.dates ?? coerce !== undefined, bigints: coerce?.bigints ?? coerce !== undefined, decimal: coerce?.decimal };
   }
 
   private readonly ZodAST = z.object({
@@ -64,17 +171,298 @@ export class TypeScriptCodeGeneratorService implements CodeGenerator, SchemaBuil
     return this.printer.printList(ts.ListFormat.MultiLine, ts.factory.createNodeArray(nodes), file);
   }
 
-  buildSchema(schema: unknown, required = true): ts.CallExpression | ts.Identifier {
+  /**
+   * Generates the client as separate modules, keyed by their path relative to the output directory: `types.ts` with
+   * the type declarations, a `schemas/<Name>.ts` module per component schema, `client.ts` with the client class and
+   * the untagged operations, a `clients/<Tag>Client.ts` module per operation tag and an `index.ts` barrel.
+   */
+  generateFiles(spec: OpenApiSpecType): Record<string, string> {
+    const declarations = this.buildDeclarations(spec);
+    const { openapi } = declarations;
+    const modules = new Map<string, ts.Statement[]>();
+
+    modules.set('types', [...declarations.types, ...declarations.errorResponseTypes]);
+    Object.entries(declarations.schemas).forEach(([name, schema]) => {
+      const sanitizedName = this.typeBuilder.sanitizeIdentifier(name);
+      const enumDeclaration = declarations.enums[name];
+      // Aliases the declaration of types.ts so the module exports the type and the schema under the same name
+      const typeAlias = ts.factory.createTypeAliasDeclaration(
+        [ts.factory.createToken(ts.SyntaxKind.ExportKeyword)],
+        sanitizedName,
+        undefined,
+        ts.factory.createTypeReferenceNode(ts.factory.createQualifiedName(ts.factory.createIdentifier('types'), sanitizedName))
+      );
+      modules.set(`schemas/${sanitizedName}`, [...(enumDeclaration ? [enumDeclaration] : []), typeAlias, schema]);
+    });
+
+    const clientName = this.generateClientName(openapi.info.title);
+    const takenNames = new Set([...[...modules.values()].flatMap((statements) => this.getDeclaredNames(statements)), ...this.getDeclaredNames(declarations.runtime), clientName]);
+    const tagClients = this.buildTagClients(openapi, declarations.operations, clientName, takenNames);
+    modules.set('client', [...declarations.runtime, this.buildRootClientClass(openapi, declarations.operations, tagClients)]);
+    tagClients.forEach((tagClient) => modules.set(`clients/${tagClient.className}`, [tagClient.declaration]));
+
+    const symbols = this.buildModuleSymbols(modules, clientName);
+    const files: Record<string, string> = {};
+    modules.forEach((statements, modulePath) => {
+      const imports = this.buildModuleImports(modulePath, statements, symbols);
+      const body = statements.length > 0 ? statements : [ts.factory.createExportDeclaration(undefined, false, ts.factory.createNamedExports([]))];
+      files[`${modulePath}.ts`] = this.printStatements(`${modulePath}.ts`, [...imports, ...body]);
+    });
+    files['index.ts'] = this.printStatements('index.ts', this.buildBarrel(modules, symbols));
+
+    return files;
+  }
+
+  /**
+   * Builds a `<Tag>Client` class per operation tag, holding the operations whose first tag it is. With the `tags`
+   * client style, it is a sub-client sending requests through the `makeRequest` of the root client it is a property
+   * of. Otherwise (split output), it extends the root client.
+   */
+  private buildTagClients(openapi: OpenApiSpecType, operations: OperationMethods[], clientName: string, takenNames: Set<string>): TagClient[] {
+    const rootMemberNames = new Set([
+      'makeRequest',
+      'handleResponse',
+      'getBaseRequestOptions',
+      'createApiError',
+      'serializeQueryParameter',
+      'applySecurity',
+      ...operations
+        .filter((operation) => operation.tag === undefined)
+        .flatMap((operation) => operation.methods.flatMap((method) => (ts.isIdentifier(method.name) ? [method.name.text] : [])))
+    ]);
+    const tags = [...new Set(operations.flatMap((operation) => (operation.tag === undefined ? [] : [operation.tag])))];
+
+    return tags.map((tag) => {
+      const className = this.reserveTypeName(`${transformNamingConvention(tag, 'PascalCase')}Client`, takenNames);
+      const propertyName = this.reserveTypeName(transformNamingConvention(tag, 'camelCase'), rootMemberNames);
+      const methods = operations.filter((operation) => operation.tag === tag).flatMap((operation) => operation.methods);
+      const description = openapi.tags?.find((definition) => definition.name === tag)?.description ?? `Operations tagged \`${tag}\`.`;
+      const declaration =
+        this.clientStyle === 'tags'
+          ? ts.factory.createClassDeclaration([ts.factory.createToken(ts.SyntaxKind.ExportKeyword)], className, undefined, undefined, [
+              ts.factory.createPropertyDeclaration(
+                [ts.factory.createToken(ts.SyntaxKind.ProtectedKeyword), ts.factory.createToken(ts.SyntaxKind.ReadonlyKeyword)],
+                'makeRequest',
+                undefined,
+                ts.factory.createTypeReferenceNode('RequestHandler'),
+                undefined
+              ),
+              ts.factory.createConstructorDeclaration(
+                undefined,
+                [this.typeBuilder.createParameter('makeRequest', ts.factory.createTypeReferenceNode('RequestHandler'))],
+                ts.factory.createBlock(
+                  [
+                    ts.factory.createExpressionStatement(
+                      ts.factory.createBinaryExpression(
+                        ts.factory.createPropertyAccessExpression(ts.factory.createThis(), 'makeRequest'),
+                        ts.SyntaxKind.EqualsToken,
+                        ts.factory.createIdentifier('makeRequest')
+                      )
+                    )
+                  ],
+                  true
+                )
+              ),
+              ...methods
+            ])
+          : ts.factory.createClassDeclaration(
+              [ts.factory.createToken(ts.SyntaxKind.ExportKeyword)],
+              className,
+              undefined,
+              [ts.factory.createHeritageClause(ts.SyntaxKind.ExtendsKeyword, [ts.factory.createExpressionWithTypeArguments(ts.factory.createIdentifier(clientName), undefined)])],
+              methods
+            );
+
+      return { className, propertyName, declaration: ts.addSyntheticLeadingComment(declaration, ts.SyntaxKind.MultiLineCommentTrivia, `* ${description} `, true) };
+    });
+  }
+
+  /**
+   * Builds the root client class with the untagged operations. With the `tags` client style, it also exposes a
+   * sub-client per tag; otherwise the tagged operations are left to the tag clients extending it.
+   */
+  private buildRootClientClass(openapi: OpenApiSpecType, operations: OperationMethods[], tagClients: TagClient[]): ts.ClassDeclaration {
+    const untaggedMethods = operations.filter((operation) => operation.tag === undefined).flatMap((operation) => operation.methods);
+    return this.buildClientClass(openapi, untaggedMethods, this.clientStyle === 'tags' ? tagClients : []);
+  }
+
+  private printStatements(fileName: string, statements: ts.Statement[]): string {
+    const file = ts.createSourceFile(fileName, '', ts.ScriptTarget.Latest, false, ts.ScriptKind.TS);
+    return this.printer.printList(ts.ListFormat.MultiLine, ts.factory.createNodeArray(statements), file);
+  }
+
+  /**
+   * Maps every name the modules export, plus zod and the external imports, to the module it is imported from.
+   * Internal modules are `./`-prefixed paths relative to the output directory. A component's type is taken from
+   * its schema module, which exports both under the same name.
+   */
+  private buildModuleSymbols(modules: Map<string, ts.Statement[]>, clientName: string): Map<string, { from: string; isDefault: boolean }> {
+    const symbols = new Map<string, { from: string; isDefault: boolean }>([['z', { from: 'zod', isDefault: false }]]);
+    this.externalImports.forEach((names, from) => {
+      names.forEach((name) => symbols.set(name, { from: from.startsWith('.') ? `./${posix.normalize(from)}` : from, isDefault: false }));
+    });
+    [...modules]
+      .sort(([a], [b]) => Number(a.startsWith('schemas/')) - Number(b.startsWith('schemas/')))
+      .forEach(([modulePath, statements]) => {
+        this.getDeclaredNames(statements).forEach((name) => symbols.set(name, { from: `./${modulePath}`, isDefault: modulePath === 'client' && name === clientName }));
+      });
+
+    return symbols;
+  }
+
+  /**
+   * Builds the imports of a module from the names its statements reference, importing names only used as types
+   * with `import type`. Schema modules also import types.ts as the `types` namespace their type aliases point to.
+   */
+  private buildModuleImports(modulePath: string, statements: ts.Statement[], symbols: Map<string, { from: string; isDefault: boolean }>): ts.ImportDeclaration[] {
+    const declaredNames = new Set(this.getDeclaredNames(statements));
+    const toSpecifier = (from: string): string => {
+      if (!from.startsWith('./')) {
+        return from;
+      }
+
+      const specifier = posix.relative(posix.dirname(modulePath), from.slice(2));
+      return specifier.startsWith('.') ? specifier : `./${specifier}`;
+    };
+
+    const importsByModule = new Map<string, { defaultImport?: Record<string, boolean>; namedImports: Record<string, boolean> }>();
+    this.collectReferencedNames(statements).forEach((typeOnly, name) => {
+      const symbol = symbols.get(name);
+      if (symbol === undefined || declaredNames.has(name)) {
+        return;
+      }
+
+      const specifier = toSpecifier(symbol.from);
+      const moduleImports = importsByModule.get(specifier) ?? { namedImports: {} };
+      if (symbol.isDefault) {
+        moduleImports.defaultImport = { [name]: false };
+      } else {
+        moduleImports.namedImports[name] = typeOnly;
+      }
+
+      importsByModule.set(specifier, moduleImports);
+    });
+
+    const imports: [string, ts.ImportDeclaration][] = [...importsByModule].map(([specifier, { defaultImport, namedImports }]) => {
+      // `import type { A, B }` rather than marking every specifier
+      const typeOnly = defaultImport === undefined && Object.values(namedImports).every(Boolean);
+      const options = typeOnly ? { namedImports: Object.fromEntries(Object.keys(namedImports).map((name) => [name, false])), typeOnly } : { defaultImport, namedImports };
+      return [specifier, this.importBuilder.createImport(specifier, options)];
+    });
+    if (modulePath.startsWith('schemas/')) {
+      imports.push([toSpecifier('./types'), this.importBuilder.createImport(toSpecifier('./types'), { namespaceImport: 'types', typeOnly: true })]);
+    }
+
+    // Packages first, then the generated modules by path
+    return imports
+      .sort(([a], [b]) => Number(a.startsWith('.')) - Number(b.startsWith('.')) || (a.startsWith('.') && b.startsWith('.') ? a.localeCompare(b) : 0))
+      .map(([, declaration]) => declaration);
+  }
+
+  /**
+   * Collects the identifiers referenced by the statements, mapped to whether they are only used as types.
+   * Declared names and property names are skipped.
+   */
+  private collectReferencedNames(statements: ts.Statement[]): Map<string, boolean> {
+    const references = new Map<string, boolean>();
+    const add = (name: string, typeOnly: boolean): void => {
+      references.set(name, (references.get(name) ?? true) && typeOnly);
+    };
+
+    const visit = (node: ts.Node): void => {
+      if (ts.isTypeReferenceNode(node) && ts.isIdentifier(node.typeName)) {
+        add(node.typeName.text, true);
+        node.typeArguments?.forEach(visit);
+        return;
+      }
+
+      if (ts.isIdentifier(node)) {
+        add(node.text, false);
+        return;
+      }
+
+      if (ts.isQualifiedName(node)) {
+        visit(node.left);
+        return;
+      }
+
+      const name = 'name' in node ? node.name : undefined;
+      ts.forEachChild(node, (child) => {
+        if (child !== name) {
+          visit(child);
+        }
+      });
+    };
+
+    statements.forEach(visit);
+    return references;
+  }
+
+  /**
+   * Returns the names declared by top-level statements.
+   */
+  private getDeclaredNames(statements: ts.Statement[]): string[] {
+    return statements.flatMap((statement) => {
+      if (ts.isVariableStatement(statement)) {
+        return statement.declarationList.declarations.flatMap((declaration) => (ts.isIdentifier(declaration.name) ? [declaration.name.text] : []));
+      }
+
+      if (
+        (ts.isClassDeclaration(statement) ||
+          ts.isFunctionDeclaration(statement) ||
+          ts.isInterfaceDeclaration(statement) ||
+          ts.isTypeAliasDeclaration(statement) ||
+          ts.isEnumDeclaration(statement)) &&
+        statement.name !== undefined
+      ) {
+        return [statement.name.text];
+      }
+
+      return [];
+    });
+  }
+
+  /**
+   * Builds the `index.ts` barrel re-exporting every module, with the client class as the default export.
+   * Types are re-exported from types.ts only when no schema module exports them.
+   */
+  private buildBarrel(modules: Map<string, ts.Statement[]>, symbols: Map<string, { from: string; isDefault: boolean }>): ts.Statement[] {
+    const typeNames = this.getDeclaredNames(modules.get('types') ?? []).filter((name) => symbols.get(name)?.from === './types');
+
+    return [
+      ...(typeNames.length > 0
+        ? [
+            ts.factory.createExportDeclaration(
+              undefined,
+              true,
+              ts.factory.createNamedExports(typeNames.map((name) => ts.factory.createExportSpecifier(false, undefined, name))),
+              ts.factory.createStringLiteral('./types', true)
+            )
+          ]
+        : []),
+      ...[...modules.keys()]
+        .filter((modulePath) => modulePath !== 'types')
+        .map((modulePath) => ts.factory.createExportDeclaration(undefined, false, undefined, ts.factory.createStringLiteral(`./${modulePath}`, true))),
+      ts.factory.createExportDeclaration(
+        undefined,
+        false,
+        ts.factory.createNamedExports([ts.factory.createExportSpecifier(false, undefined, 'default')]),
+        ts.factory.createStringLiteral('./client', true)
+      )
+    ];
+  }
+
+  buildSchema(schema: unknown, required = true): ts.Expression {
     const safeCategorySchema = SchemaProperties.safeParse(schema);
     if (safeCategorySchema.success) {
       const safeCategory = safeCategorySchema.data;
 
       if (safeCategory['anyOf'] && Array.isArray(safeCategory['anyOf']) && safeCategory['anyOf'].length > 0) {
-        return this.handleLogicalOperator('anyOf', safeCategory['anyOf'], required);
+        return this.handleLogicalOperator('anyOf', safeCategory['anyOf'], required, this.getDiscriminator(safeCategory));
       }
 
       if (safeCategory['oneOf'] && Array.isArray(safeCategory['oneOf']) && safeCategory['oneOf'].length > 0) {
-        return this.handleLogicalOperator('oneOf', safeCategory['oneOf'], required);
+        return this.handleLogicalOperator('oneOf', safeCategory['oneOf'], required, this.getDiscriminator(safeCategory));
       }
 
       if (safeCategory['allOf'] && Array.isArray(safeCategory['allOf']) && safeCategory['allOf'].length > 0) {
@@ -91,2484 +479,5830 @@ export class TypeScriptCodeGeneratorService implements CodeGenerator, SchemaBuil
     throw safeCategorySchema.error;
   }
 
-  private buildAST(openapi: OpenApiSpecType): ts.Statement[] {
-    const imports = this.importBuilder.buildImports();
-    const schemas = this.buildSchemas(openapi);
-    const schemaTypeAliases = this.buildSchemaTypeAliases(schemas);
-    const serverConfig = this.buildServerConfiguration(openapi);
-    const clientClass = this.buildClientClass(openapi, schemas);
-
-    const explicitTypeDeclarations = this.buildExplicitTypeDeclarations(openapi);
+  private buildAST(input: OpenApiSpecType): ts.Statement[] {
+    const declarations = this.buildDeclarations(input);
+
+    const clientName = this.generateClientName(declarations.openapi.info.title);
+    const tagClients =
+      this.clientStyle === 'tags'
+        ? this.buildTagClients(
+            declarations.openapi,
+            declarations.operations,
+            clientName,
+            new Set([...this.getDeclaredNames([...declarations.types, ...declarations.runtime]), clientName])
+          )
+        : [];
 
     return [
       this.createComment('Imports'),
-      ...imports,
+      ...declarations.imports,
       this.createComment('Explicit type declarations'),
-      ...explicitTypeDeclarations,
+      ...declarations.types,
+      ...Object.values(declarations.enums),
+      ...declarations.errorResponseTypes,
       this.createComment('Components schemas'),
-      ...Object.values(schemas),
-      ...schemaTypeAliases,
-      ...serverConfig,
-      this.buildResponseValidationErrorClass(),
+      ...Object.values(declarations.schemas),
+      ...declarations.schemaTypeAliases,
+      ...declarations.runtime,
+      ...tagClients.map((tagClient) => tagClient.declaration),
       this.createComment('Client class'),
-      clientClass
+      this.clientStyle === 'tags'
+        ? this.buildRootClientClass(declarations.openapi, declarations.operations, tagClients)
+        : this.buildClientClass(
+            declarations.openapi,
+            declarations.operations.flatMap((operation) => operation.methods)
+          )
     ];
   }
 
-  private buildSchemas(openapi: OpenApiSpecType): Record<string, ts.VariableStatement> {
-    const schemasEntries = Object.entries(openapi.components?.schemas ?? {});
-    const schemasMap = Object.fromEntries(schemasEntries);
-
-    // Detect circular dependencies before building schemas
-    this.circularSchemas = this.detectCircularDependencies(schemasMap);
+  /**
+   * Builds the declarations shared by the single-file and split outputs. Client classes are left to the caller,
+   * which decides which operations each one gets.
+   */
+  private buildDeclarations(input: OpenApiSpecType): GeneratedDeclarations {
+    const normalizedSpec = this.normalizeSpecSchemas({ ...input, paths: this.mergePathParameters(input.paths) });
+    const spec = this.splitReadWriteSchemas(this.hoistInlineEnums(normalizedSpec));
+    // Inline response bodies are generated as named schemas alongside the component schemas
+    const inlineResponseSchemas = this.collectInlineResponseSchemas(spec);
+    const openapi: OpenApiSpecType = { ...spec, components: { ...spec.components, schemas: { ...spec.components?.schemas, ...inlineResponseSchemas } } };
+
+    this.componentSchemas = openapi.components?.schemas ?? {};
+    this.externalImports.clear();
+    this.enumNames = this.collectEnumNames(this.componentSchemas);
+    this.securitySchemes = this.collectSecuritySchemes(openapi);
+    this.defaultSecurity = openapi.security;
+    const schemas = this.buildSchemas(openapi);
+    const schemaTypeAliases = this.buildSchemaTypeAliases(schemas);
+    const securityDeclarations = this.buildSecurityDeclarations(openapi);
+    const serverConfig = this.buildServerConfiguration(openapi);
+    const errorResponseTypes = this.buildErrorResponseTypes(openapi);
+    const operations = this.buildClientMethods(openapi, schemas);
+
+    const types = this.buildExplicitTypeDeclarations(openapi);
+    const enums = this.buildEnumDeclarations();
+    // Built last so the imports of every custom format and decimal class used above are known
+    const imports = [
+      ...this.importBuilder.buildImports(),
+      ...[...this.externalImports].map(([from, names]) => this.importBuilder.createImport(from, { namedImports: Object.fromEntries([...names].map((name) => [name, false])) }))
+    ];
 
-    const sortedSchemaNames = this.topologicalSort(schemasMap);
+    return {
+      openapi,
+      imports,
+      types,
+      enums,
+      errorResponseTypes,
+      schemas,
+      schemaTypeAliases,
+      operations,
+      runtime: [
+        ...securityDeclarations,
+        ...serverConfig,
+        this.buildResponseValidationErrorClass(),
+        this.buildApiErrorClass(),
+        ...(this.validateRequests ? [this.buildRequestValidationErrorClass()] : []),
+        ...(this.methodStyle === 'throw' ? [] : [this.buildNetworkErrorClass(), this.buildApiResultType()]),
+        ...(this.clientStyle === 'tags' && operations.some((operation) => operation.tag !== undefined) ? [this.buildRequestHandlerType()] : [])
+      ]
+    };
+  }
 
-    return sortedSchemaNames.reduce<Record<string, ts.VariableStatement>>((schemaRegistered, name) => {
-      const schema = openapi.components?.schemas?.[name];
-      if (!schema) {
-        return schemaRegistered;
-      }
+  /**
+   * Copies path-level parameters into every operation of the path item. An operation parameter with the
+   * same `name` and `in` overrides the path-level one, as the OpenAPI specification requires.
+   */
+  private mergePathParameters(paths: OpenApiSpecType['paths']): OpenApiSpecType['paths'] {
+    return Object.fromEntries(
+      Object.entries(paths).map(([path, pathItem]) => {
+        const pathParameters = pathItem.parameters ?? [];
+        if (pathParameters.length === 0) {
+          return [path, pathItem];
+        }
 
-      // Set context for current schema being built
-      this.currentSchemaName = name;
+        const mergedPathItem: PathItemType = { ...pathItem };
+        for (const method of ['get', 'post', 'put', 'patch', 'delete', 'head', 'options', 'trace'] as const) {
+          const operation = pathItem[method];
+          if (!operation) {
+            continue;
+          }
 
-      const schemaExpression = this.buildSchema(schema);
+          const operationParameters = operation.parameters ?? [];
+          const inheritedParameters = pathParameters.filter((param) => !operationParameters.some((own) => own.name === param.name && own.in === param.in));
+          mergedPathItem[method] = { ...operation, parameters: [...inheritedParameters, ...operationParameters] };
+        }
 
-      // Clear context
-      this.currentSchemaName = null;
+        return [path, mergedPathItem];
+      })
+    );
+  }
 
-      const sanitizedName = this.typeBuilder.sanitizeIdentifier(name);
+  /**
+   * Rewrites OpenAPI 3.1 (JSON Schema 2020-12) constructs the builders read in their 3.0 form: a `type` list becomes
+   * a single `type` plus `nullable`, or an `anyOf` of the listed types. `$defs` of component schemas are added as
+   * component schemas, under a new name when theirs is taken, and references such as
+   * `#/components/schemas/Pet/$defs/Tag` point at them.
+   */
+  private normalizeSpecSchemas(spec: OpenApiSpecType): OpenApiSpecType {
+    const componentSchemas = spec.components?.schemas ?? {};
+    const takenNames = new Set(Object.keys(componentSchemas).map((name) => this.typeBuilder.sanitizeIdentifier(name)));
+    const definitionNames = new Map<string, string>();
+    for (const [owner, schema] of Object.entries(componentSchemas)) {
+      const definitions = (schema['$defs'] ?? {}) as Record<string, unknown>;
+      for (const name of Object.keys(definitions)) {
+        definitionNames.set(`#/components/schemas/${owner}/$defs/${name}`, this.reserveTypeName(name, takenNames));
+      }
+    }
 
-      // Add type annotation: z.ZodType<Name>
-      const typeAnnotation = ts.factory.createTypeReferenceNode(ts.factory.createQualifiedName(ts.factory.createIdentifier('z'), ts.factory.createIdentifier('ZodType')), [
-        ts.factory.createTypeReferenceNode(ts.factory.createIdentifier(sanitizedName), undefined)
-      ]);
+    const normalize = (schema: unknown): unknown => this.normalizeSchema(schema, definitionNames);
+    const schemas = Object.fromEntries(Object.entries(componentSchemas).map(([name, schema]) => [name, normalize(schema) as Record<string, unknown>] as const));
 
-      const variableStatement = ts.factory.createVariableStatement(
-        [ts.factory.createToken(ts.SyntaxKind.ExportKeyword)],
-        ts.factory.createVariableDeclarationList(
-          [ts.factory.createVariableDeclaration(ts.factory.createIdentifier(sanitizedName), undefined, typeAnnotation, schemaExpression)],
-          ts.NodeFlags.Const
-        )
-      );
+    for (const [owner, schema] of Object.entries(schemas)) {
+      const definitions = (schema['$defs'] ?? {}) as Record<string, Record<string, unknown>>;
+      for (const [name, definition] of Object.entries(definitions)) {
+        const definitionName = definitionNames.get(`#/components/schemas/${owner}/$defs/${name}`);
+        if (definitionName !== undefined) {
+          schemas[definitionName] = definition;
+        }
+      }
+    }
 
-      return {
-        ...schemaRegistered,
-        [name]: variableStatement
+    const paths = this.mapOperations(spec.paths, (operation) => {
+      const parameters = operation.parameters?.map((param) => (param.schema ? { ...param, schema: normalize(param.schema) as Record<string, unknown> } : param));
+      const requestBody = operation.requestBody && {
+        ...operation.requestBody,
+        content: this.mapContentSchemas(operation.requestBody.content, normalize)
       };
-    }, {});
-  }
+      const responses =
+        operation.responses &&
+        Object.fromEntries(
+          Object.entries(operation.responses).map(([status, response]) => [status, { ...response, content: this.mapContentSchemas(response.content, normalize) }])
+        );
 
-  private buildSchemaTypeAliases(_schemas: Record<string, ts.VariableStatement>): ts.TypeAliasDeclaration[] {
-    // Explicit type declarations are used instead of z.infer type exports
-    return [];
+      return { ...operation, ...(parameters ? { parameters } : {}), ...(requestBody ? { requestBody } : {}), ...(responses ? { responses } : {}) };
+    });
+
+    return { ...spec, paths, components: { ...spec.components, schemas } };
   }
 
-  /**
-   * Builds explicit TypeScript type declarations for all schemas.
-   * Returns interface declarations for object types and type aliases for other types.
-   */
-  private buildExplicitTypeDeclarations(openapi: OpenApiSpecType): ts.Statement[] {
-    const schemasEntries = Object.entries(openapi.components?.schemas ?? {});
-    const schemasMap = Object.fromEntries(schemasEntries);
-    const sortedSchemaNames = this.topologicalSort(schemasMap);
+  private normalizeSchema(schema: unknown, definitionNames: ReadonlyMap<string, string>): unknown {
+    if (typeof schema !== 'object' || schema === null || Array.isArray(schema)) {
+      return schema;
+    }
 
-    const statements: ts.Statement[] = [];
+    const normalized = Object.fromEntries(
+      Object.entries(schema as Record<string, unknown>).map(([key, value]) => {
+        if (['items', 'not', 'additionalProperties', 'unevaluatedProperties', 'if', 'then', 'else'].includes(key)) {
+          return [key, this.normalizeSchema(value, definitionNames)];
+        }
 
-    for (const name of sortedSchemaNames) {
-      const schema = openapi.components?.schemas?.[name];
-      if (!schema) {
-        continue;
-      }
+        if (['allOf', 'anyOf', 'oneOf', 'prefixItems'].includes(key) && Array.isArray(value)) {
+          return [key, value.map((item) => this.normalizeSchema(item, definitionNames))];
+        }
 
-      const sanitizedName = this.typeBuilder.sanitizeIdentifier(name);
-      const safeSchema = SchemaProperties.safeParse(schema);
+        if (['properties', 'patternProperties', '$defs'].includes(key) && typeof value === 'object' && value !== null) {
+          return [key, Object.fromEntries(Object.entries(value).map(([name, item]) => [name, this.normalizeSchema(item, definitionNames)]))];
+        }
 
-      if (!safeSchema.success) {
-        // Unknown schema type, create a type alias to unknown
-        statements.push(
-          ts.factory.createTypeAliasDeclaration(
-            [ts.factory.createToken(ts.SyntaxKind.ExportKeyword)],
-            ts.factory.createIdentifier(sanitizedName),
-            undefined,
-            ts.factory.createKeywordTypeNode(ts.SyntaxKind.UnknownKeyword)
-          )
-        );
-        continue;
-      }
+        return [key, value];
+      })
+    );
 
-      const schemaData = safeSchema.data;
-      const typeNode = this.buildTypeNode(schemaData);
+    const ref = normalized['$ref'];
+    if (typeof ref === 'string' && /^#\/components\/schemas\/[^/]+\/\$defs\/[^/]+$/.test(ref)) {
+      return { ...normalized, $ref: `#/components/schemas/${definitionNames.get(ref) ?? ref.split('/').pop() ?? ''}` };
+    }
 
-      // For object types with properties, create an interface
-      if (schemaData['type'] === 'object' && schemaData['properties']) {
-        statements.push(this.buildInterfaceDeclaration(sanitizedName, schemaData));
-        continue;
-      }
+    const { type, ...rest } = normalized;
+    // JSON Schema subschemas such as `if: { properties: ... }` often leave the object type implicit
+    if (type === undefined && rest['properties'] !== undefined && ['$ref', 'allOf', 'anyOf', 'oneOf'].every((key) => rest[key] === undefined)) {
+      return { ...rest, type: 'object' };
+    }
 
-      // For all other types (enums, arrays, unions, etc.), create a type alias
-      statements.push(
-        ts.factory.createTypeAliasDeclaration([ts.factory.createToken(ts.SyntaxKind.ExportKeyword)], ts.factory.createIdentifier(sanitizedName), undefined, typeNode)
-      );
+    if (!Array.isArray(type)) {
+      return normalized;
     }
 
-    return statements;
+    const types = type.filter((item): item is string => typeof item === 'string' && item !== 'null');
+    const nullable = type.includes('null') || rest['nullable'] === true;
+    const [singleType] = types;
+
+    if (types.length > 1) {
+      return { ...(nullable ? { nullable: true } : {}), anyOf: types.map((item) => ({ ...rest, type: item, nullable: false })) };
+    }
+
+    return { ...rest, type: singleType ?? 'null', ...(nullable && singleType ? { nullable: true } : {}) };
   }
 
   /**
-   * Converts an OpenAPI schema to a TypeScript type node.
+   * Adds `<Name>Input` and `<Name>Output` variants of component schemas that declare readOnly or writeOnly properties,
+   * directly or through references, and points request bodies at the Input variants and responses at the Output ones.
+   * Input variants omit readOnly properties and Output variants omit writeOnly properties.
    */
-  private buildTypeNode(schema: unknown): ts.TypeNode {
-    const safeSchema = SchemaProperties.safeParse(schema);
-    if (!safeSchema.success) {
-      return ts.factory.createKeywordTypeNode(ts.SyntaxKind.UnknownKeyword);
-    }
+  private splitReadWriteSchemas(spec: OpenApiSpecType): OpenApiSpecType {
+    this.derivedSchemaOrigins = new Map<string, string>();
+    const schemas = spec.components?.schemas ?? {};
+    const takenNames = new Set(Object.keys(schemas).map((name) => this.typeBuilder.sanitizeIdentifier(name)));
+    const inputNames = this.collectDerivedSchemaNames(schemas, 'readOnly', 'Input', takenNames);
+    const outputNames = this.collectDerivedSchemaNames(schemas, 'writeOnly', 'Output', takenNames);
+    const toInput = (schema: unknown): unknown => this.omitFlaggedProperties(schema, 'readOnly', inputNames);
+    const toOutput = (schema: unknown): unknown => this.omitFlaggedProperties(schema, 'writeOnly', outputNames);
+
+    const derivedSchemas = Object.fromEntries([
+      ...[...inputNames].map(([name, derivedName]) => [derivedName, toInput(schemas[name]) as Record<string, unknown>] as const),
+      ...[...outputNames].map(([name, derivedName]) => [derivedName, toOutput(schemas[name]) as Record<string, unknown>] as const)
+    ]);
 
-    const prop = safeSchema.data;
+    const paths = this.mapOperations(spec.paths, (operation) => {
+      const requestBody = operation.requestBody && { ...operation.requestBody, content: this.mapContentSchemas(operation.requestBody.content, toInput) };
+      const responses =
+        operation.responses &&
+        Object.fromEntries(Object.entries(operation.responses).map(([status, response]) => [status, { ...response, content: this.mapContentSchemas(response.content, toOutput) }]));
 
-    // Handle $ref
-    if (this.isReference(prop)) {
-      const { $ref = '' } = Reference.parse(prop);
-      const refName = $ref.split('/').pop() ?? 'never';
-      const sanitizedRefName = this.typeBuilder.sanitizeIdentifier(refName);
-      return ts.factory.createTypeReferenceNode(ts.factory.createIdentifier(sanitizedRefName), undefined);
-    }
+      return { ...operation, ...(requestBody ? { requestBody } : {}), ...(responses ? { responses } : {}) };
+    });
 
-    // Handle nullable
-    const isNullable = prop['nullable'] === true;
-    const baseTypeNode = this.buildBaseTypeNode(prop);
+    return { ...spec, paths, components: { ...spec.components, schemas: { ...schemas, ...derivedSchemas } } };
+  }
 
-    if (isNullable) {
-      return ts.factory.createUnionTypeNode([baseTypeNode, ts.factory.createLiteralTypeNode(ts.factory.createNull())]);
+  /**
+   * Names a derived schema for every component schema that changes when `flag` properties are omitted, repeating
+   * until stable because a schema referencing a derived schema needs a derived variant too.
+   */
+  private collectDerivedSchemaNames(schemas: Record<string, unknown>, flag: 'readOnly' | 'writeOnly', suffix: string, takenNames: Set<string>): Map<string, string> {
+    const derivedNames = new Map<string, string>();
+
+    for (let changed = true; changed; ) {
+      changed = false;
+      for (const [name, schema] of Object.entries(schemas)) {
+        if (!derivedNames.has(name) && JSON.stringify(this.omitFlaggedProperties(schema, flag, derivedNames)) !== JSON.stringify(schema)) {
+          const derivedName = this.reserveTypeName(`${name}${suffix}`, takenNames);
+          derivedNames.set(name, derivedName);
+          this.derivedSchemaOrigins.set(derivedName, name);
+          changed = true;
+        }
+      }
     }
 
-    return baseTypeNode;
+    return derivedNames;
   }
 
   /**
-   * Builds the base type node without nullable handling.
+   * Removes properties marked with `flag` (and their `required` entries) from a schema and its nested schemas,
+   * and points references at the derived schema names.
    */
-  private buildBaseTypeNode(prop: Record<string, unknown>): ts.TypeNode {
-    // Handle anyOf/oneOf (union types)
-    if (prop['anyOf'] && Array.isArray(prop['anyOf']) && prop['anyOf'].length > 0) {
-      const types = prop['anyOf'].map((s: unknown) => this.buildTypeNode(s));
-      return ts.factory.createUnionTypeNode(types);
+  private omitFlaggedProperties(schema: unknown, flag: 'readOnly' | 'writeOnly', derivedNames: Map<string, string>): unknown {
+    if (Array.isArray(schema)) {
+      return schema.map((item) => this.omitFlaggedProperties(item, flag, derivedNames));
     }
 
-    if (prop['oneOf'] && Array.isArray(prop['oneOf']) && prop['oneOf'].length > 0) {
-      const types = prop['oneOf'].map((s: unknown) => this.buildTypeNode(s));
-      return ts.factory.createUnionTypeNode(types);
+    if (typeof schema !== 'object' || schema === null) {
+      return schema;
     }
 
-    // Handle allOf (intersection types)
-    if (prop['allOf'] && Array.isArray(prop['allOf']) && prop['allOf'].length > 0) {
-      const types = prop['allOf'].map((s: unknown) => this.buildTypeNode(s));
-      return ts.factory.createIntersectionTypeNode(types);
+    const node = schema as Record<string, unknown>;
+    const ref = node['$ref'];
+    if (typeof ref === 'string') {
+      const derivedName = ref.startsWith('#/components/schemas/') ? derivedNames.get(ref.replace('#/components/schemas/', '')) : undefined;
+      return derivedName === undefined ? node : { ...node, $ref: `#/components/schemas/${derivedName}` };
     }
 
-    // Handle enum
-    if (prop['enum'] && Array.isArray(prop['enum']) && prop['enum'].length > 0) {
-      const literalTypes = prop['enum'].map((val: unknown) => {
-        if (typeof val === 'string') {
-          return ts.factory.createLiteralTypeNode(ts.factory.createStringLiteral(val, true));
-        } else if (typeof val === 'number') {
-          if (val < 0) {
-            return ts.factory.createLiteralTypeNode(ts.factory.createPrefixUnaryExpression(ts.SyntaxKind.MinusToken, ts.factory.createNumericLiteral(String(Math.abs(val)))));
-          }
+    const properties = typeof node['properties'] === 'object' && node['properties'] !== null ? (node['properties'] as Record<string, unknown>) : {};
+    const omittedNames = Object.entries(properties)
+      .filter(([, property]) => typeof property === 'object' && property !== null && (property as Record<string, unknown>)[flag] === true)
+      .map(([name]) => name);
 
-          return ts.factory.createLiteralTypeNode(ts.factory.createNumericLiteral(String(val)));
-        } else if (typeof val === 'boolean') {
-          return ts.factory.createLiteralTypeNode(val ? ts.factory.createTrue() : ts.factory.createFalse());
+    return Object.fromEntries(
+      Object.entries(node).map(([key, value]) => {
+        if (key === 'properties') {
+          const keptProperties = Object.entries(properties).filter(([name]) => !omittedNames.includes(name));
+          return [key, Object.fromEntries(keptProperties.map(([name, property]) => [name, this.omitFlaggedProperties(property, flag, derivedNames)]))];
         }
 
-        return ts.factory.createKeywordTypeNode(ts.SyntaxKind.UnknownKeyword);
-      });
-      return ts.factory.createUnionTypeNode(literalTypes);
-    }
-
-    // Handle type-specific schemas
-    switch (prop['type']) {
-      case 'string':
-        return ts.factory.createKeywordTypeNode(ts.SyntaxKind.StringKeyword);
-      case 'number':
-      case 'integer':
-        return ts.factory.createKeywordTypeNode(ts.SyntaxKind.NumberKeyword);
-      case 'boolean':
-        return ts.factory.createKeywordTypeNode(ts.SyntaxKind.BooleanKeyword);
-      case 'array': {
-        const itemsType = prop['items'] ? this.buildTypeNode(prop['items']) : ts.factory.createKeywordTypeNode(ts.SyntaxKind.UnknownKeyword);
-        return ts.factory.createArrayTypeNode(itemsType);
-      }
-      case 'object': {
-        const properties = (prop['properties'] ?? {}) as Record<string, unknown>;
-        const requiredProps = (prop['required'] ?? []) as string[];
+        if (key === 'required' && Array.isArray(value)) {
+          return [key, value.filter((name) => !omittedNames.includes(name as string))];
+        }
 
-        if (Object.keys(properties).length > 0) {
-          return this.buildObjectTypeLiteral(properties, requiredProps);
+        if (['items', 'additionalProperties', 'not', 'allOf', 'anyOf', 'oneOf'].includes(key)) {
+          return [key, this.omitFlaggedProperties(value, flag, derivedNames)];
         }
 
-        // Empty object or additionalProperties - use Record<string, unknown>
-        return ts.factory.createTypeReferenceNode(ts.factory.createIdentifier('Record'), [
-          ts.factory.createKeywordTypeNode(ts.SyntaxKind.StringKeyword),
-          ts.factory.createKeywordTypeNode(ts.SyntaxKind.UnknownKeyword)
-        ]);
-      }
-      default:
-        return ts.factory.createKeywordTypeNode(ts.SyntaxKind.UnknownKeyword);
-    }
+        return [key, value];
+      })
+    );
   }
 
   /**
-   * Builds a TypeScript type literal for an object schema.
+   * Moves enums declared inline in component schema properties to their own component schemas, named after the
+   * schema and property (e.g. `Pet.status` → `PetStatus`), so they get a named runtime enum object too.
    */
-  private buildObjectTypeLiteral(properties: Record<string, unknown>, requiredProps: string[]): ts.TypeLiteralNode {
-    const members = Object.entries(properties).map(([name, propSchema]) => {
-      const isRequired = requiredProps.includes(name);
-      const typeNode = this.buildTypeNode(propSchema);
+  private hoistInlineEnums(spec: OpenApiSpecType): OpenApiSpecType {
+    if (this.enumStyle === 'union') {
+      return spec;
+    }
 
-      return ts.factory.createPropertySignature(
-        undefined,
-        ts.factory.createIdentifier(name),
-        isRequired ? undefined : ts.factory.createToken(ts.SyntaxKind.QuestionToken),
-        typeNode
+    const schemas = spec.components?.schemas ?? {};
+    const takenNames = new Set(Object.keys(schemas).map((name) => this.typeBuilder.sanitizeIdentifier(name)));
+    const hoistedSchemas: Record<string, Record<string, unknown>> = {};
+
+    const hoist = (schema: unknown, baseName: string): unknown => {
+      if (typeof schema !== 'object' || schema === null || Array.isArray(schema)) {
+        return schema;
+      }
+
+      const node = schema as Record<string, unknown>;
+      if (this.isNamedEnumCandidate(node)) {
+        const { type, 'enum': values, nullable, description, 'x-enum-varnames': varNames, 'x-enumNames': enumNames, 'x-enum-descriptions': descriptions, ...rest } = node;
+        const name = this.reserveTypeName(baseName, takenNames);
+        hoistedSchemas[name] = Object.fromEntries(
+          Object.entries({ type, 'enum': values, nullable, description, 'x-enum-varnames': varNames, 'x-enumNames': enumNames, 'x-enum-descriptions': descriptions }).filter(
+            ([, value]) => value !== undefined
+          )
+        );
+        return { ...rest, ...(description !== undefined ? { description } : {}), $ref: `#/components/schemas/${name}` };
+      }
+
+      return Object.fromEntries(
+        Object.entries(node).map(([key, value]) => {
+          if (key === 'properties' && typeof value === 'object' && value !== null) {
+            return [
+              key,
+              Object.fromEntries(Object.entries(value).map(([property, item]) => [property, hoist(item, `${baseName}${transformNamingConvention(property, 'PascalCase')}`)]))
+            ];
+          }
+
+          if (key === 'items') {
+            return [key, hoist(value, `${baseName}Item`)];
+          }
+
+          if (['allOf', 'anyOf', 'oneOf'].includes(key) && Array.isArray(value)) {
+            return [key, value.map((item) => hoist(item, baseName))];
+          }
+
+          return [key, value];
+        })
       );
-    });
+    };
+
+    // Enum component schemas are named already, only their nested enums are hoisted
+    const hoistedComponents = Object.fromEntries(
+      Object.entries(schemas).map(([name, schema]) => [
+        name,
+        this.isNamedEnumCandidate(schema) ? schema : (hoist(schema, this.typeBuilder.sanitizeIdentifier(name)) as Record<string, unknown>)
+      ])
+    );
 
-    return ts.factory.createTypeLiteralNode(members);
+    return { ...spec, components: { ...spec.components, schemas: { ...hoistedComponents, ...hoistedSchemas } } };
   }
 
   /**
-   * Builds a TypeScript interface declaration for an object schema.
+   * Whether a schema is an enum `z.enum()` can build from a runtime object: string and number members, plus an optional `null`.
    */
-  private buildInterfaceDeclaration(name: string, schema: Record<string, unknown>): ts.InterfaceDeclaration {
-    const properties = (schema['properties'] ?? {}) as Record<string, unknown>;
-    const requiredProps = (schema['required'] ?? []) as string[];
+  private isNamedEnumCandidate(schema: unknown): schema is Record<string, unknown> {
+    if (typeof schema !== 'object' || schema === null || this.isReference(schema)) {
+      return false;
+    }
 
-    const members = Object.entries(properties).map(([propName, propSchema]) => {
-      const isRequired = requiredProps.includes(propName);
-      const typeNode = this.buildTypeNode(propSchema);
+    const values = (schema as Record<string, unknown>)['enum'];
+    return Array.isArray(values) && values.some((value) => value !== null) && values.every((value) => value === null || typeof value === 'string' || typeof value === 'number');
+  }
 
-      return ts.factory.createPropertySignature(
-        undefined,
-        ts.factory.createIdentifier(propName),
-        isRequired ? undefined : ts.factory.createToken(ts.SyntaxKind.QuestionToken),
-        typeNode
-      );
-    });
+  /**
+   * Names the runtime enum object of every enum component schema `<Name>Enum`, clear of the other schema names.
+   */
+  private collectEnumNames(schemas: Record<string, unknown>): Map<string, string> {
+    const enumNames = new Map<string, string>();
+    if (this.enumStyle === 'union') {
+      return enumNames;
+    }
+
+    const takenNames = new Set(Object.keys(schemas).map((name) => this.typeBuilder.sanitizeIdentifier(name)));
+    for (const [name, schema] of Object.entries(schemas)) {
+      if (this.isNamedEnumCandidate(schema)) {
+        enumNames.set(name, this.reserveTypeName(`${this.typeBuilder.sanitizeIdentifier(name)}Enum`, takenNames));
+      }
+    }
 
-    return ts.factory.createInterfaceDeclaration([ts.factory.createToken(ts.SyntaxKind.ExportKeyword)], ts.factory.createIdentifier(name), undefined, undefined, members);
+    return enumNames;
   }
 
-  private buildResponseValidationErrorClass(): ts.ClassDeclaration {
-    const typeParamT = ts.factory.createTypeParameterDeclaration(undefined, 'T');
+  private mapOperations(paths: OpenApiSpecType['paths'], transform: (operation: MethodSchemaType) => MethodSchemaType): OpenApiSpecType['paths'] {
+    return Object.fromEntries(
+      Object.entries(paths).map(([path, pathItem]) => {
+        const operations = Object.entries(pathItem)
+          .filter(([method]) => ['get', 'post', 'put', 'patch', 'delete', 'head', 'options', 'trace'].includes(method))
+          .map(([method, methodSchema]) => [method, transform(MethodSchema.parse(methodSchema))] as const);
 
-    const responseProperty = ts.factory.createPropertyDeclaration(
-      [ts.factory.createToken(ts.SyntaxKind.ReadonlyKeyword)],
-      'response',
-      undefined,
-      ts.factory.createTypeReferenceNode('Response'),
-      undefined
+        return [path, { ...pathItem, ...Object.fromEntries(operations) }];
+      })
     );
+  }
 
-    const errorProperty = ts.factory.createPropertyDeclaration(
-      [ts.factory.createToken(ts.SyntaxKind.ReadonlyKeyword)],
-      'error',
-      undefined,
-      ts.factory.createTypeReferenceNode(ts.factory.createQualifiedName(ts.factory.createIdentifier('z'), 'ZodError'), [ts.factory.createTypeReferenceNode('T')]),
-      undefined
-    );
+  private mapContentSchemas(content: Record<string, { schema?: unknown }> | undefined, transform: (schema: unknown) => unknown): Record<string, { schema?: unknown }> | undefined {
+    return content && Object.fromEntries(Object.entries(content).map(([mediaType, media]) => [mediaType, { ...media, schema: transform(media.schema) }]));
+  }
 
-    const constructorDecl = ts.factory.createConstructorDeclaration(
-      undefined,
-      [
-        ts.factory.createParameterDeclaration(undefined, undefined, 'message', undefined, ts.factory.createKeywordTypeNode(ts.SyntaxKind.StringKeyword)),
-        ts.factory.createParameterDeclaration(undefined, undefined, 'response', undefined, ts.factory.createTypeReferenceNode('Response')),
-        ts.factory.createParameterDeclaration(
-          undefined,
-          undefined,
-          'error',
-          undefined,
-          ts.factory.createTypeReferenceNode(ts.factory.createQualifiedName(ts.factory.createIdentifier('z'), 'ZodError'), [ts.factory.createTypeReferenceNode('T')])
-        )
-      ],
-      ts.factory.createBlock(
-        [
-          ts.factory.createExpressionStatement(ts.factory.createCallExpression(ts.factory.createSuper(), undefined, [ts.factory.createIdentifier('message')])),
-          ts.factory.createExpressionStatement(
-            ts.factory.createBinaryExpression(
-              ts.factory.createPropertyAccessExpression(ts.factory.createThis(), 'name'),
-              ts.SyntaxKind.EqualsToken,
-              ts.factory.createAsExpression(ts.factory.createStringLiteral('ResponseValidationError', true), ts.factory.createTypeReferenceNode('const'))
-            )
-          ),
-          ts.factory.createExpressionStatement(
-            ts.factory.createBinaryExpression(
-              ts.factory.createPropertyAccessExpression(ts.factory.createThis(), 'response'),
-              ts.SyntaxKind.EqualsToken,
-              ts.factory.createIdentifier('response')
-            )
-          ),
-          ts.factory.createExpressionStatement(
-            ts.factory.createBinaryExpression(
-              ts.factory.createPropertyAccessExpression(ts.factory.createThis(), 'error'),
-              ts.SyntaxKind.EqualsToken,
-              ts.factory.createIdentifier('error')
-            )
-          )
-        ],
-        true
-      )
-    );
+  /**
+   * Collects inline (non-$ref) object, array and composed JSON success response schemas and names them after
+   * their client method, e.g. `findPetsByStatus` → `FindPetsByStatusResponse`, so they can be validated like component schemas.
+   * Operations with several distinct 2xx schemas get a named `anyOf` union of them.
+   * Scalar responses are left inline since their TypeScript type is already exact.
+   */
+  private collectInlineResponseSchemas(openapi: OpenApiSpecType): Record<string, Record<string, unknown>> {
+    this.inlineResponseSchemaNames = new Map<string, string>();
+    const takenNames = new Set(Object.keys(openapi.components?.schemas ?? {}).map((name) => this.typeBuilder.sanitizeIdentifier(name)));
+    const inlineSchemas: Record<string, Record<string, unknown>> = {};
 
-    const dataGetter = ts.factory.createGetAccessorDeclaration(
-      undefined,
-      'data',
-      [],
-      ts.factory.createTypeReferenceNode('T'),
-      ts.factory.createBlock(
-        [
-          ts.factory.createReturnStatement(
-            ts.factory.createAsExpression(
-              ts.factory.createCallExpression(
-                ts.factory.createPropertyAccessExpression(ts.factory.createPropertyAccessExpression(ts.factory.createThis(), 'response'), 'json'),
+    Object.entries(openapi.paths).forEach(([path, pathItem]) => {
+      Object.entries(pathItem)
+        .filter(([method]) => ['get', 'post', 'put', 'patch', 'delete', 'head', 'options'].includes(method))
+        .forEach(([method, methodSchema]) => {
+          const safeMethodSchema = MethodSchema.parse(methodSchema);
+          const jsonSchemas = this.getSuccessJsonSchemas(safeMethodSchema);
+          const [firstSchema] = jsonSchemas;
+          const inlineSchema = jsonSchemas.length > 1 ? { anyOf: jsonSchemas } : this.isInlineSchema(firstSchema) ? firstSchema : undefined;
+          if (!inlineSchema) {
+            return;
+          }
+
+          const name = this.reserveTypeName(`${this.getOperationTypeName(method, path, safeMethodSchema)}Response`, takenNames);
+          inlineSchemas[name] = inlineSchema;
+          this.inlineResponseSchemaNames.set(`${method} ${path}`, name);
+        });
+    });
+
+    return inlineSchemas;
+  }
+
+  /**
+   * Builds a `{ status, body }` union type per operation from its declared 4xx/5xx (and, when 2xx responses exist,
+   * `default`) responses, e.g. `UpdatePetErrorResponse`, for use as `ApiError<UpdatePetErrorResponse>`.
+   */
+  private buildErrorResponseTypes(openapi: OpenApiSpecType): ts.TypeAliasDeclaration[] {
+    this.errorResponseTypeNames = new Map<string, string>();
+    const takenNames = new Set(Object.keys(openapi.components?.schemas ?? {}).map((name) => this.typeBuilder.sanitizeIdentifier(name)));
+    const declarations: ts.TypeAliasDeclaration[] = [];
+
+    Object.entries(openapi.paths).forEach(([path, pathItem]) => {
+      Object.entries(pathItem)
+        .filter(([method]) => ['get', 'post', 'put', 'patch', 'delete', 'head', 'options'].includes(method))
+        .forEach(([method, methodSchema]) => {
+          const safeMethodSchema = MethodSchema.parse(methodSchema);
+          const errorResponses = this.getErrorResponses(safeMethodSchema);
+          if (errorResponses.length === 0) {
+            return;
+          }
+
+          const members = errorResponses.map(([status, response]) => {
+            const media = this.selectResponseMedia(response);
+            const jsonSchema = media?.kind === 'json' ? media.schema : undefined;
+            return ts.factory.createTypeLiteralNode([
+              ts.factory.createPropertySignature(
                 undefined,
-                []
+                'status',
+                undefined,
+                /^\d{3}$/.test(status)
+                  ? ts.factory.createLiteralTypeNode(ts.factory.createNumericLiteral(Number(status)))
+                  : ts.factory.createKeywordTypeNode(ts.SyntaxKind.NumberKeyword)
               ),
-              ts.factory.createTypeReferenceNode('T')
+              ts.factory.createPropertySignature(
+                undefined,
+                'body',
+                undefined,
+                jsonSchema ? this.buildTypeNode(jsonSchema) : ts.factory.createKeywordTypeNode(ts.SyntaxKind.UnknownKeyword)
+              )
+            ]);
+          });
+
+          const name = this.reserveTypeName(`${this.getOperationTypeName(method, path, safeMethodSchema)}ErrorResponse`, takenNames);
+          this.errorResponseTypeNames.set(`${method} ${path}`, name);
+          declarations.push(
+            ts.factory.createTypeAliasDeclaration(
+              [ts.factory.createToken(ts.SyntaxKind.ExportKeyword)],
+              ts.factory.createIdentifier(name),
+              undefined,
+              ts.factory.createUnionTypeNode(members)
             )
-          )
-        ],
-        true
-      )
-    );
+          );
+        });
+    });
 
-    return ts.factory.createClassDeclaration(
-      [ts.factory.createToken(ts.SyntaxKind.ExportKeyword)],
-      'ResponseValidationError',
-      [typeParamT],
-      [ts.factory.createHeritageClause(ts.SyntaxKind.ExtendsKeyword, [ts.factory.createExpressionWithTypeArguments(ts.factory.createIdentifier('Error'), undefined)])],
-      [responseProperty, errorProperty, constructorDecl, dataGetter]
-    );
+    return declarations;
   }
 
-  private buildClientClass(openapi: OpenApiSpecType, schemas: Record<string, ts.VariableStatement>): ts.ClassDeclaration {
-    const clientName = this.generateClientName(openapi.info.title);
-    const methods = this.buildClientMethods(openapi, schemas);
+  /**
+   * Returns the PascalCase base for types generated per operation, derived from its client method name. Operations
+   * without an `operationId` are named after their method and path, e.g. `GetPetsPetId` for `GET /pets/{petId}`.
+   */
+  private getOperationTypeName(method: string, path: string, schema: MethodSchemaType): string {
+    const pathWords = path.split(/[^A-Za-z0-9]+/).filter((word) => word.length > 0);
+    const operationId = schema.operationId ?? `${method.toLowerCase()}${pathWords.map((word) => word.charAt(0).toUpperCase() + word.slice(1)).join('')}`;
 
-    return ts.factory.createClassDeclaration(
-      [ts.factory.createToken(ts.SyntaxKind.ExportKeyword), ts.factory.createToken(ts.SyntaxKind.DefaultKeyword)],
-      ts.factory.createIdentifier(clientName),
-      undefined,
-      undefined,
-      [
-        this.typeBuilder.createProperty('#baseUrl', 'string', true),
-        this.buildConstructor(openapi),
-        this.buildGetBaseRequestOptionsMethod(),
-        this.buildHandleResponseMethod(),
-        this.buildHttpRequestMethod(),
-        ...methods
-      ]
-    );
+    return transformNamingConvention(this.transformOperationName(operationId, method, path, schema), 'PascalCase');
   }
 
-  private buildConstructor(openapi: OpenApiSpecType): ts.ConstructorDeclaration {
-    const hasServers = openapi.servers && openapi.servers.length > 0;
+  /**
+   * Uses a property name as-is when it is a valid identifier and quotes it otherwise (e.g. `'file-name'`).
+   */
+  private buildPropertyName(name: string): ts.PropertyName {
+    return /^[A-Za-z_$][\w$]*$/.test(name) ? ts.factory.createIdentifier(name) : ts.factory.createStringLiteral(name, true);
+  }
 
-    if (hasServers) {
-      // Options-based constructor
-      return ts.factory.createConstructorDeclaration(
-        undefined,
-        [
-          ts.factory.createParameterDeclaration(
-            undefined,
-            undefined,
-            ts.factory.createIdentifier('options'),
-            undefined,
-            ts.factory.createTypeReferenceNode(ts.factory.createIdentifier('ClientOptions'), undefined),
-            undefined
-          )
-        ],
-        ts.factory.createBlock(
-          [
-            ts.factory.createVariableStatement(
-              undefined,
-              ts.factory.createVariableDeclarationList(
-                [
-                  ts.factory.createVariableDeclaration(
-                    ts.factory.createIdentifier('resolvedUrl'),
-                    undefined,
-                    undefined,
-                    ts.factory.createConditionalExpression(
-                      ts.factory.createBinaryExpression(
-                        ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier('options'), ts.factory.createIdentifier('baseUrl')),
-                        ts.factory.createToken(ts.SyntaxKind.ExclamationEqualsEqualsToken),
-                        ts.factory.createNull()
-                      ),
-                      ts.factory.createToken(ts.SyntaxKind.QuestionToken),
-                      ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier('options'), ts.factory.createIdentifier('baseUrl')),
-                      ts.factory.createToken(ts.SyntaxKind.ColonToken),
-                      ts.factory.createCallExpression(ts.factory.createIdentifier('resolveServerUrl'), undefined, [
-                        ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier('options'), ts.factory.createIdentifier('serverIndex')),
-                        ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier('options'), ts.factory.createIdentifier('serverVariables'))
-                      ])
-                    )
-                  )
-                ],
-                ts.NodeFlags.Const
-              )
-            ),
-            ts.factory.createExpressionStatement(
-              ts.factory.createBinaryExpression(
-                ts.factory.createPropertyAccessExpression(ts.factory.createThis(), ts.factory.createPrivateIdentifier('#baseUrl')),
-                ts.factory.createToken(ts.SyntaxKind.EqualsToken),
-                ts.factory.createIdentifier('resolvedUrl')
-              )
-            )
-          ],
-          true
-        )
-      );
-    } else {
-      // Fallback: simple baseUrl parameter
-      return ts.factory.createConstructorDeclaration(
-        undefined,
-        [this.typeBuilder.createParameter('baseUrl', 'string', ts.factory.createStringLiteral('/', true)), this.typeBuilder.createParameter('_', 'unknown', undefined, true)],
-        ts.factory.createBlock(
-          [
-            ts.factory.createExpressionStatement(
-              ts.factory.createBinaryExpression(
-                ts.factory.createPropertyAccessExpression(ts.factory.createThis(), ts.factory.createPrivateIdentifier('#baseUrl')),
-                ts.factory.createToken(ts.SyntaxKind.EqualsToken),
-                ts.factory.createIdentifier('baseUrl')
-              )
-            )
-          ],
-          true
+  /**
+   * Sanitizes a generated type name and appends a numeric suffix until it no longer clashes with a taken name.
+   */
+  private reserveTypeName(baseName: string, takenNames: Set<string>): string {
+    const sanitizedBaseName = this.typeBuilder.sanitizeIdentifier(baseName);
+    let name = sanitizedBaseName;
+    for (let suffix = 2; takenNames.has(name); suffix++) {
+      name = `${sanitizedBaseName}${String(suffix)}`;
+    }
+
+    takenNames.add(name);
+    return name;
+  }
+
+  private isInlineSchema(schema: unknown): schema is Record<string, unknown> {
+    if (typeof schema !== 'object' || schema === null || this.isReference(schema) || Object.keys(schema).length === 0) {
+      return false;
+    }
+
+    const { type } = schema as { type?: unknown };
+    return typeof type !== 'string' || !['string', 'number', 'integer', 'boolean'].includes(type);
+  }
+
+  private buildSchemas(openapi: OpenApiSpecType): Record<string, ts.VariableStatement> {
+    const schemasEntries = Object.entries(openapi.components?.schemas ?? {});
+    const schemasMap = Object.fromEntries(schemasEntries);
+
+    // Detect circular dependencies before building schemas
+    this.circularSchemas = this.detectCircularDependencies(schemasMap);
+
+    const sortedSchemaNames = this.topologicalSort(schemasMap);
+
+    return sortedSchemaNames.reduce<Record<string, ts.VariableStatement>>((schemaRegistered, name) => {
+      const schema = openapi.components?.schemas?.[name];
+      if (!schema) {
+        return schemaRegistered;
+      }
+
+      // Set context for current schema being built
+      this.currentSchemaName = name;
+
+      const enumName = this.enumNames.get(name);
+      const schemaExpression = enumName === undefined ? this.buildSchema(schema) : this.buildNamedEnumSchema(enumName, schema);
+
+      // Clear context
+      this.currentSchemaName = null;
+
+      const sanitizedName = this.typeBuilder.sanitizeIdentifier(name);
+
+      // Add type annotation: z.ZodType<Name>
+      const typeAnnotation = ts.factory.createTypeReferenceNode(ts.factory.createQualifiedName(ts.factory.createIdentifier('z'), ts.factory.createIdentifier('ZodType')), [
+        ts.factory.createTypeReferenceNode(ts.factory.createIdentifier(sanitizedName), undefined)
+      ]);
+
+      const variableStatement = ts.factory.createVariableStatement(
+        [ts.factory.createToken(ts.SyntaxKind.ExportKeyword)],
+        ts.factory.createVariableDeclarationList(
+          [ts.factory.createVariableDeclaration(ts.factory.createIdentifier(sanitizedName), undefined, typeAnnotation, schemaExpression)],
+          ts.NodeFlags.Const
         )
       );
-    }
+
+      return {
+        ...schemaRegistered,
+        [name]: variableStatement
+      };
+    }, {});
   }
 
-  private buildGetBaseRequestOptionsMethod(): ts.MethodDeclaration {
-    return ts.factory.createMethodDeclaration(
-      [ts.factory.createToken(ts.SyntaxKind.ProtectedKeyword)],
-      undefined,
-      ts.factory.createIdentifier('getBaseRequestOptions'),
-      undefined,
-      undefined,
-      [],
-      ts.factory.createTypeReferenceNode(ts.factory.createIdentifier('Partial'), [
-        ts.factory.createTypeReferenceNode(ts.factory.createIdentifier('Omit'), [
-          ts.factory.createTypeReferenceNode(ts.factory.createIdentifier('RequestInit'), undefined),
-          ts.factory.createUnionTypeNode([
-            ts.factory.createLiteralTypeNode(ts.factory.createStringLiteral('method', true)),
-            ts.factory.createLiteralTypeNode(ts.factory.createStringLiteral('body', true))
-          ])
-        ])
-      ]),
-      ts.factory.createBlock([ts.factory.createReturnStatement(ts.factory.createObjectLiteralExpression([], false))], true)
-    );
+  /**
+   * Builds `z.enum(<Name>Enum)` from the runtime enum object of an enum component schema.
+   */
+  private buildNamedEnumSchema(enumName: string, schema: Record<string, unknown>): ts.CallExpression {
+    const enumSchema = ts.factory.createCallExpression(ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier('z'), 'enum'), undefined, [
+      ts.factory.createIdentifier(enumName)
+    ]);
+    const nullable = schema['nullable'] === true || (Array.isArray(schema['enum']) && schema['enum'].includes(null));
+
+    return nullable ? ts.factory.createCallExpression(ts.factory.createPropertyAccessExpression(enumSchema, 'nullable'), undefined, []) : enumSchema;
   }
 
-  private buildHandleResponseMethod(): ts.MethodDeclaration {
-    return ts.factory.createMethodDeclaration(
-      [ts.factory.createToken(ts.SyntaxKind.ProtectedKeyword), ts.factory.createToken(ts.SyntaxKind.AsyncKeyword)],
-      undefined,
-      ts.factory.createIdentifier('handleResponse'),
-      undefined,
-      [this.typeBuilder.createGenericType('T')],
-      [
-        this.typeBuilder.createParameter('response', 'Response'),
-        this.typeBuilder.createParameter('method', 'string'),
-        this.typeBuilder.createParameter('path', 'string'),
-        this.typeBuilder.createParameter('options', '{params?: Record<string, string | number | boolean>; data?: unknown; contentType?: string; headers?: Record<string, string>}')
-      ],
-      ts.factory.createTypeReferenceNode(ts.factory.createIdentifier('Promise'), [ts.factory.createTypeReferenceNode(ts.factory.createIdentifier('Response'), undefined)]),
-      ts.factory.createBlock([ts.factory.createReturnStatement(ts.factory.createIdentifier('response'))], true)
-    );
+  private buildSchemaTypeAliases(_schemas: Record<string, ts.VariableStatement>): ts.TypeAliasDeclaration[] {
+    // Explicit type declarations are used instead of z.infer type exports
+    return [];
   }
 
-  private buildHttpRequestMethod(): ts.MethodDeclaration {
-    return ts.factory.createMethodDeclaration(
-      [ts.factory.createToken(ts.SyntaxKind.ProtectedKeyword), ts.factory.createToken(ts.SyntaxKind.AsyncKeyword)],
-      undefined,
-      ts.factory.createIdentifier('makeRequest'),
-      undefined,
-      [this.typeBuilder.createGenericType('T')],
-      [
-        this.typeBuilder.createParameter('method', 'string'),
-        this.typeBuilder.createParameter('path', 'string'),
-        this.typeBuilder.createParameter(
-          'options',
-          '{params?: Record<string, string | number | boolean>; data?: unknown; contentType?: string; headers?: Record<string, string>}',
-          ts.factory.createObjectLiteralExpression([], false),
-          false
-        )
-      ],
-      ts.factory.createTypeReferenceNode(ts.factory.createIdentifier('Promise'), [ts.factory.createTypeReferenceNode(ts.factory.createIdentifier('T'), undefined)]),
-      ts.factory.createBlock(
-        [
-          // Create initial URL object that we will use to build the final URL
-          ts.factory.createVariableStatement(
-            undefined,
-            ts.factory.createVariableDeclarationList(
-              [
-                ts.factory.createVariableDeclaration(
-                  ts.factory.createIdentifier('baseUrl'),
-                  undefined,
-                  undefined,
-                  ts.factory.createNewExpression(ts.factory.createIdentifier('URL'), undefined, [
-                    ts.factory.createIdentifier('path'),
-                    ts.factory.createPropertyAccessExpression(ts.factory.createThis(), ts.factory.createPrivateIdentifier('#baseUrl'))
-                  ])
-                )
-              ],
-              ts.NodeFlags.Const
-            )
-          ),
-          ts.factory.createVariableStatement(
+  /**
+   * Builds explicit TypeScript type declarations for all schemas.
+   * Returns interface declarations for object types and type aliases for other types.
+   */
+  private buildExplicitTypeDeclarations(openapi: OpenApiSpecType): ts.Statement[] {
+    const schemasEntries = Object.entries(openapi.components?.schemas ?? {});
+    const schemasMap = Object.fromEntries(schemasEntries);
+    const sortedSchemaNames = this.topologicalSort(schemasMap);
+
+    const statements: ts.Statement[] = [];
+
+    for (const name of sortedSchemaNames) {
+      const schema = openapi.components?.schemas?.[name];
+      if (!schema) {
+        continue;
+      }
+
+      const sanitizedName = this.typeBuilder.sanitizeIdentifier(name);
+      const safeSchema = SchemaProperties.safeParse(schema);
+
+      if (!safeSchema.success) {
+        // Unknown schema type, create a type alias to unknown
+        statements.push(
+          ts.factory.createTypeAliasDeclaration(
+            [ts.factory.createToken(ts.SyntaxKind.ExportKeyword)],
+            ts.factory.createIdentifier(sanitizedName),
             undefined,
-            ts.factory.createVariableDeclarationList(
-              [
-                ts.factory.createVariableDeclaration(
-                  ts.factory.createIdentifier('url'),
-                  undefined,
-                  undefined,
-                  ts.factory.createConditionalExpression(
-                    ts.factory.createBinaryExpression(
-                      ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier('options'), ts.factory.createIdentifier('params')),
-                      ts.factory.createToken(ts.SyntaxKind.AmpersandAmpersandToken),
-                      ts.factory.createBinaryExpression(
-                        ts.factory.createPropertyAccessExpression(
-                          ts.factory.createCallExpression(
-                            ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier('Object'), ts.factory.createIdentifier('keys')),
-                            undefined,
-                            [ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier('options'), ts.factory.createIdentifier('params'))]
-                          ),
-                          ts.factory.createIdentifier('length')
+            ts.factory.createKeywordTypeNode(ts.SyntaxKind.UnknownKeyword)
+          )
+        );
+        continue;
+      }
+
+      const schemaData = safeSchema.data;
+      const typeNode = this.buildTypeNode(schemaData);
+
+      // For object types with properties, create an interface
+      if (schemaData['type'] === 'object' && schemaData['properties']) {
+        statements.push(this.buildInterfaceDeclaration(sanitizedName, schemaData));
+        continue;
+      }
+
+      // For all other types (enums, arrays, unions, etc.), create a type alias
+      statements.push(
+        ts.factory.createTypeAliasDeclaration([ts.factory.createToken(ts.SyntaxKind.ExportKeyword)], ts.factory.createIdentifier(sanitizedName), undefined, typeNode)
+      );
+    }
+
+    return statements;
+  }
+
+  /**
+   * Builds the runtime enum objects (`as const` objects or TypeScript enums) the enum component schemas are built from.
+   */
+  private buildEnumDeclarations(): Record<string, ts.Statement> {
+    return Object.fromEntries(
+      [...this.enumNames].map(([schemaName, enumName]) => {
+        const schema = this.componentSchemas[schemaName] as Record<string, unknown>;
+        const members = this.getEnumMembers(schema);
+        const withComment = <T extends ts.Node>(node: T, description: string | undefined): T =>
+          description === undefined ? node : ts.addSyntheticLeadingComment(node, ts.SyntaxKind.MultiLineCommentTrivia, `* ${description} `, true);
+        const valueLiteral = (value: string | number): ts.Expression => (typeof value === 'string' ? ts.factory.createStringLiteral(value, true) : this.buildDefaultValue(value));
+
+        const declaration =
+          this.enumStyle === 'enum'
+            ? ts.factory.createEnumDeclaration(
+                [ts.factory.createToken(ts.SyntaxKind.ExportKeyword)],
+                enumName,
+                members.map((member) => withComment(ts.factory.createEnumMember(member.name, valueLiteral(member.value)), member.description))
+              )
+            : ts.factory.createVariableStatement(
+                [ts.factory.createToken(ts.SyntaxKind.ExportKeyword)],
+                ts.factory.createVariableDeclarationList(
+                  [
+                    ts.factory.createVariableDeclaration(
+                      enumName,
+                      undefined,
+                      undefined,
+                      ts.factory.createAsExpression(
+                        ts.factory.createObjectLiteralExpression(
+                          members.map((member) => withComment(ts.factory.createPropertyAssignment(member.name, valueLiteral(member.value)), member.description)),
+                          true
                         ),
-                        ts.factory.createToken(ts.SyntaxKind.GreaterThanToken),
-                        ts.factory.createNumericLiteral('0')
+                        ts.factory.createTypeReferenceNode('const')
                       )
-                    ),
-                    undefined,
+                    )
+                  ],
+                  ts.NodeFlags.Const
+                )
+              );
+
+        return [schemaName, withComment(declaration, typeof schema['description'] === 'string' ? schema['description'] : undefined)];
+      })
+    );
+  }
+
+  /**
+   * Names the members of an enum from `x-enum-varnames`/`x-enumNames`, or else from their values
+   * (`in-progress` → `InProgress`, `404` → `Value404`), and documents them from `x-enum-descriptions`.
+   */
+  private getEnumMembers(schema: Record<string, unknown>): { name: string; value: string | number; description: string | undefined }[] {
+    const values = (schema['enum'] as unknown[]).filter((value): value is string | number => value !== null);
+    const varNames = (schema['x-enum-varnames'] ?? schema['x-enumNames'] ?? []) as string[];
+    const descriptions = (schema['x-enum-descriptions'] ?? []) as string[];
+    const indexOf = (value: string | number): number => (schema['enum'] as unknown[]).indexOf(value);
+    const takenNames = new Set<string>();
+
+    return values.map((value) => {
+      const derivedName =
+        typeof value === 'number' ? `Value${String(value).replace('-', 'Minus').replace('.', '_')}` : value === '' ? 'Empty' : transformNamingConvention(value, 'PascalCase');
+      return { name: this.reserveTypeName(varNames[indexOf(value)] ?? derivedName, takenNames), value, description: descriptions[indexOf(value)] };
+    });
+  }
+
+  /**
+   * Converts an OpenAPI schema to a TypeScript type node.
+   */
+  private buildTypeNode(schema: unknown): ts.TypeNode {
+    const safeSchema = SchemaProperties.safeParse(schema);
+    if (!safeSchema.success) {
+      return ts.factory.createKeywordTypeNode(ts.SyntaxKind.UnknownKeyword);
+    }
+
+    const prop = safeSchema.data;
+
+    // Handle $ref
+    if (this.isReference(prop)) {
+      const { $ref = '' } = Reference.parse(prop);
+      const refName = $ref.split('/').pop() ?? 'never';
+      const sanitizedRefName = this.typeBuilder.sanitizeIdentifier(refName);
+      return ts.factory.createTypeReferenceNode(ts.factory.createIdentifier(sanitizedRefName), undefined);
+    }
+
+    // Handle nullable
+    const isNullable = prop['nullable'] === true;
+    const baseTypeNode = this.buildBaseTypeNode(prop);
+
+    if (isNullable) {
+      return ts.factory.createUnionTypeNode([baseTypeNode, ts.factory.createLiteralTypeNode(ts.factory.createNull())]);
+    }
+
+    return baseTypeNode;
+  }
+
+  /**
+   * Builds the base type node without nullable handling.
+   */
+  private buildBaseTypeNode(prop: Record<string, unknown>): ts.TypeNode {
+    // Handle anyOf/oneOf (union types)
+    if (prop['anyOf'] && Array.isArray(prop['anyOf']) && prop['anyOf'].length > 0) {
+      return this.buildUnionTypeNode(prop['anyOf'], this.getDiscriminator(prop));
+    }
+
+    if (prop['oneOf'] && Array.isArray(prop['oneOf']) && prop['oneOf'].length > 0) {
+      return this.buildUnionTypeNode(prop['oneOf'], this.getDiscriminator(prop));
+    }
+
+    // Handle allOf (intersection types)
+    if (prop['allOf'] && Array.isArray(prop['allOf']) && prop['allOf'].length > 0) {
+      const types = prop['allOf'].map((s: unknown) => this.buildTypeNode(s));
+      return ts.factory.createIntersectionTypeNode(types);
+    }
+
+    // Handle const (OpenAPI 3.1)
+    if (prop['const'] !== undefined && (prop['const'] === null || ['string', 'number', 'boolean'].includes(typeof prop['const']))) {
+      return this.buildLiteralTypeNode(prop['const']);
+    }
+
+    // Handle enum
+    if (prop['enum'] && Array.isArray(prop['enum']) && prop['enum'].length > 0) {
+      const literalTypes = prop['enum'].map((val: unknown) => this.buildLiteralTypeNode(val));
+      return ts.factory.createUnionTypeNode(literalTypes);
+    }
+
+    // Handle values decoded into richer runtime types
+    switch (this.getCoercedFormat(prop)) {
+      case 'date-time':
+      case 'date':
+        return ts.factory.createTypeReferenceNode('Date');
+      case 'int64':
+        return ts.factory.createKeywordTypeNode(ts.SyntaxKind.BigIntKeyword);
+      case 'decimal':
+        return ts.factory.createTypeReferenceNode(this.coercion.decimal?.name ?? 'string');
+      case undefined:
+        break;
+    }
+
+    // Handle type-specific schemas
+    switch (prop['type']) {
+      case 'string':
+        return prop['format'] === 'binary' ? ts.factory.createTypeReferenceNode('Blob') : ts.factory.createKeywordTypeNode(ts.SyntaxKind.StringKeyword);
+      case 'number':
+      case 'integer':
+        return ts.factory.createKeywordTypeNode(ts.SyntaxKind.NumberKeyword);
+      case 'boolean':
+        return ts.factory.createKeywordTypeNode(ts.SyntaxKind.BooleanKeyword);
+      case 'array': {
+        if (Array.isArray(prop['prefixItems'])) {
+          const items = prop['items'];
+          const restType = items && typeof items === 'object' ? this.buildTypeNode(items) : ts.factory.createKeywordTypeNode(ts.SyntaxKind.UnknownKeyword);
+          return ts.factory.createTupleTypeNode([
+            ...prop['prefixItems'].map((item: unknown) => this.buildTypeNode(item)),
+            ...(items === false ? [] : [ts.factory.createRestTypeNode(ts.factory.createArrayTypeNode(restType))])
+          ]);
+        }
+
+        const itemsType = prop['items'] ? this.buildTypeNode(prop['items']) : ts.factory.createKeywordTypeNode(ts.SyntaxKind.UnknownKeyword);
+        return ts.factory.createArrayTypeNode(itemsType);
+      }
+      case 'null':
+        return ts.factory.createLiteralTypeNode(ts.factory.createNull());
+      case 'object': {
+        const properties = (prop['properties'] ?? {}) as Record<string, unknown>;
+        const requiredProps = (prop['required'] ?? []) as string[];
+
+        if (Object.keys(properties).length > 0) {
+          return this.buildObjectTypeLiteral(properties, requiredProps, this.buildIndexSignature(prop));
+        }
+
+        // Maps and free-form objects - use Record<string, T>, or Record<string, never> when no key is allowed
+        const isClosed = this.getAdditionalProperties(prop) === false && !prop['patternProperties'];
+        return ts.factory.createTypeReferenceNode(ts.factory.createIdentifier('Record'), [
+          ts.factory.createKeywordTypeNode(ts.SyntaxKind.StringKeyword),
+          isClosed
+            ? ts.factory.createKeywordTypeNode(ts.SyntaxKind.NeverKeyword)
+            : (this.buildAdditionalPropertiesTypeNode(prop) ?? ts.factory.createKeywordTypeNode(ts.SyntaxKind.UnknownKeyword))
+        ]);
+      }
+      default:
+        return ts.factory.createKeywordTypeNode(ts.SyntaxKind.UnknownKeyword);
+    }
+  }
+
+  private buildLiteralTypeNode(value: unknown): ts.TypeNode {
+    if (typeof value === 'string') {
+      return ts.factory.createLiteralTypeNode(ts.factory.createStringLiteral(value, true));
+    }
+
+    if (typeof value === 'number') {
+      return ts.factory.createLiteralTypeNode(
+        value < 0
+          ? ts.factory.createPrefixUnaryExpression(ts.SyntaxKind.MinusToken, ts.factory.createNumericLiteral(String(Math.abs(value))))
+          : ts.factory.createNumericLiteral(String(value))
+      );
+    }
+
+    if (typeof value === 'boolean') {
+      return ts.factory.createLiteralTypeNode(value ? ts.factory.createTrue() : ts.factory.createFalse());
+    }
+
+    return value === null ? ts.factory.createLiteralTypeNode(ts.factory.createNull()) : ts.factory.createKeywordTypeNode(ts.SyntaxKind.UnknownKeyword);
+  }
+
+  /**
+   * Builds a union type node. With a discriminator, each member is intersected with its discriminator literal(s),
+   * e.g. `(Cat & { petType: 'cat' }) | (Dog & { petType: 'dog' })`, so checking the property narrows the union.
+   */
+  private buildUnionTypeNode(schemas: unknown[], discriminator: DiscriminatorType | undefined): ts.UnionTypeNode {
+    const variants = discriminator ? this.getDiscriminatedVariants(schemas, discriminator) : undefined;
+    if (!discriminator || !variants) {
+      return ts.factory.createUnionTypeNode(schemas.map((schema) => this.buildTypeNode(schema)));
+    }
+
+    return ts.factory.createUnionTypeNode(
+      variants.map(({ schema, values }) =>
+        ts.factory.createIntersectionTypeNode([
+          this.buildTypeNode(schema),
+          ts.factory.createTypeLiteralNode([
+            ts.factory.createPropertySignature(
+              undefined,
+              ts.factory.createStringLiteral(discriminator.propertyName, true),
+              undefined,
+              ts.factory.createUnionTypeNode(values.map((value) => ts.factory.createLiteralTypeNode(ts.factory.createStringLiteral(value, true))))
+            )
+          ])
+        ])
+      )
+    );
+  }
+
+  /**
+   * Builds a TypeScript type literal for an object schema.
+   */
+  private buildObjectTypeLiteral(properties: Record<string, unknown>, requiredProps: string[], indexSignature?: ts.IndexSignatureDeclaration): ts.TypeLiteralNode {
+    const members = Object.entries(properties).map(([name, propSchema]) => {
+      const isRequired = requiredProps.includes(name);
+      const typeNode = this.buildTypeNode(propSchema);
+
+      return ts.factory.createPropertySignature(undefined, this.buildPropertyName(name), isRequired ? undefined : ts.factory.createToken(ts.SyntaxKind.QuestionToken), typeNode);
+    });
+
+    return ts.factory.createTypeLiteralNode(indexSignature ? [...members, indexSignature] : members);
+  }
+
+  /**
+   * Builds the type of values under undeclared keys from `additionalProperties` and `patternProperties`,
+   * or `undefined` when the schema does not type them.
+   */
+  private buildAdditionalPropertiesTypeNode(prop: Record<string, unknown>): ts.TypeNode | undefined {
+    const additionalProperties = this.getAdditionalProperties(prop);
+    const patternTypes = Object.values((prop['patternProperties'] ?? {}) as Record<string, unknown>).map((schema) => this.buildTypeNode(schema));
+
+    if (patternTypes.length === 0) {
+      if (additionalProperties === true) {
+        return ts.factory.createKeywordTypeNode(ts.SyntaxKind.UnknownKeyword);
+      }
+
+      return typeof additionalProperties === 'object' ? this.buildTypeNode(additionalProperties) : undefined;
+    }
+
+    // Keys matching no pattern are unconstrained unless `additionalProperties` says otherwise
+    if (additionalProperties === undefined || additionalProperties === true) {
+      return ts.factory.createKeywordTypeNode(ts.SyntaxKind.UnknownKeyword);
+    }
+
+    return this.buildDistinctUnionTypeNode(additionalProperties === false ? patternTypes : [...patternTypes, this.buildTypeNode(additionalProperties)]);
+  }
+
+  /**
+   * Builds the `[key: string]: T` signature of an object mixing declared and additional properties. TypeScript requires
+   * declared properties to match the signature, so their types are part of `T`.
+   */
+  private buildIndexSignature(prop: Record<string, unknown>): ts.IndexSignatureDeclaration | undefined {
+    const valueType = this.buildAdditionalPropertiesTypeNode(prop);
+    if (!valueType) {
+      return undefined;
+    }
+
+    const propertyTypes = Object.values((prop['properties'] ?? {}) as Record<string, unknown>).map((schema) => this.buildTypeNode(schema));
+    const signatureType = valueType.kind === ts.SyntaxKind.UnknownKeyword ? valueType : this.buildDistinctUnionTypeNode([valueType, ...propertyTypes]);
+
+    return ts.factory.createIndexSignature(
+      undefined,
+      [ts.factory.createParameterDeclaration(undefined, undefined, 'key', undefined, ts.factory.createKeywordTypeNode(ts.SyntaxKind.StringKeyword))],
+      signatureType
+    );
+  }
+
+  private buildDistinctUnionTypeNode(types: ts.TypeNode[]): ts.TypeNode {
+    const file = ts.createSourceFile('', '', ts.ScriptTarget.Latest);
+    const distinctTypes = [...new Map(types.map((type) => [this.printer.printNode(ts.EmitHint.Unspecified, type, file), type])).values()];
+    const [firstType] = distinctTypes;
+
+    return distinctTypes.length === 1 && firstType ? firstType : ts.factory.createUnionTypeNode(distinctTypes);
+  }
+
+  /**
+   * Builds a TypeScript interface declaration for an object schema.
+   */
+  private buildInterfaceDeclaration(name: string, schema: Record<string, unknown>): ts.InterfaceDeclaration {
+    const properties = (schema['properties'] ?? {}) as Record<string, unknown>;
+    const requiredProps = (schema['required'] ?? []) as string[];
+
+    const members = Object.entries(properties).map(([propName, propSchema]) => {
+      const isRequired = requiredProps.includes(propName);
+      const typeNode = this.buildTypeNode(propSchema);
+
+      return ts.factory.createPropertySignature(
+        undefined,
+        this.buildPropertyName(propName),
+        isRequired ? undefined : ts.factory.createToken(ts.SyntaxKind.QuestionToken),
+        typeNode
+      );
+    });
+
+    const indexSignature = this.buildIndexSignature(schema);
+
+    return ts.factory.createInterfaceDeclaration(
+      [ts.factory.createToken(ts.SyntaxKind.ExportKeyword)],
+      ts.factory.createIdentifier(name),
+      undefined,
+      undefined,
+      indexSignature ? [...members, indexSignature] : members
+    );
+  }
+
+  private buildResponseValidationErrorClass(): ts.ClassDeclaration {
+    const typeParamT = ts.factory.createTypeParameterDeclaration(undefined, 'T');
+
+    const responseProperty = ts.factory.createPropertyDeclaration(
+      [ts.factory.createToken(ts.SyntaxKind.ReadonlyKeyword)],
+      'response',
+      undefined,
+      ts.factory.createTypeReferenceNode('Response'),
+      undefined
+    );
+
+    const errorProperty = ts.factory.createPropertyDeclaration(
+      [ts.factory.createToken(ts.SyntaxKind.ReadonlyKeyword)],
+      'error',
+      undefined,
+      ts.factory.createTypeReferenceNode(ts.factory.createQualifiedName(ts.factory.createIdentifier('z'), 'ZodError'), [ts.factory.createTypeReferenceNode('T')]),
+      undefined
+    );
+
+    const constructorDecl = ts.factory.createConstructorDeclaration(
+      undefined,
+      [
+        ts.factory.createParameterDeclaration(undefined, undefined, 'message', undefined, ts.factory.createKeywordTypeNode(ts.SyntaxKind.StringKeyword)),
+        ts.factory.createParameterDeclaration(undefined, undefined, 'response', undefined, ts.factory.createTypeReferenceNode('Response')),
+        ts.factory.createParameterDeclaration(
+          undefined,
+          undefined,
+          'error',
+          undefined,
+          ts.factory.createTypeReferenceNode(ts.factory.createQualifiedName(ts.factory.createIdentifier('z'), 'ZodError'), [ts.factory.createTypeReferenceNode('T')])
+        )
+      ],
+      ts.factory.createBlock(
+        [
+          ts.factory.createExpressionStatement(ts.factory.createCallExpression(ts.factory.createSuper(), undefined, [ts.factory.createIdentifier('message')])),
+          ts.factory.createExpressionStatement(
+            ts.factory.createBinaryExpression(
+              ts.factory.createPropertyAccessExpression(ts.factory.createThis(), 'name'),
+              ts.SyntaxKind.EqualsToken,
+              ts.factory.createAsExpression(ts.factory.createStringLiteral('ResponseValidationError', true), ts.factory.createTypeReferenceNode('const'))
+            )
+          ),
+          ts.factory.createExpressionStatement(
+            ts.factory.createBinaryExpression(
+              ts.factory.createPropertyAccessExpression(ts.factory.createThis(), 'response'),
+              ts.SyntaxKind.EqualsToken,
+              ts.factory.createIdentifier('response')
+            )
+          ),
+          ts.factory.createExpressionStatement(
+            ts.factory.createBinaryExpression(
+              ts.factory.createPropertyAccessExpression(ts.factory.createThis(), 'error'),
+              ts.SyntaxKind.EqualsToken,
+              ts.factory.createIdentifier('error')
+            )
+          )
+        ],
+        true
+      )
+    );
+
+    const dataGetter = ts.factory.createGetAccessorDeclaration(
+      undefined,
+      'data',
+      [],
+      ts.factory.createTypeReferenceNode('T'),
+      ts.factory.createBlock(
+        [
+          ts.factory.createReturnStatement(
+            ts.factory.createAsExpression(
+              ts.factory.createCallExpression(
+                ts.factory.createPropertyAccessExpression(ts.factory.createPropertyAccessExpression(ts.factory.createThis(), 'response'), 'json'),
+                undefined,
+                []
+              ),
+              ts.factory.createTypeReferenceNode('T')
+            )
+          )
+        ],
+        true
+      )
+    );
+
+    return ts.factory.createClassDeclaration(
+      [ts.factory.createToken(ts.SyntaxKind.ExportKeyword)],
+      'ResponseValidationError',
+      [typeParamT],
+      [ts.factory.createHeritageClause(ts.SyntaxKind.ExtendsKeyword, [ts.factory.createExpressionWithTypeArguments(ts.factory.createIdentifier('Error'), undefined)])],
+      [responseProperty, errorProperty, constructorDecl, dataGetter]
+    );
+  }
+
+  private buildRequestValidationErrorClass(): ts.ClassDeclaration {
+    const typeParamT = ts.factory.createTypeParameterDeclaration(undefined, 'T');
+    const zodErrorType = (): ts.TypeReferenceNode =>
+      ts.factory.createTypeReferenceNode(ts.factory.createQualifiedName(ts.factory.createIdentifier('z'), 'ZodError'), [ts.factory.createTypeReferenceNode('T')]);
+
+    const errorProperty = ts.factory.createPropertyDeclaration([ts.factory.createToken(ts.SyntaxKind.ReadonlyKeyword)], 'error', undefined, zodErrorType(), undefined);
+
+    const constructorDecl = ts.factory.createConstructorDeclaration(
+      undefined,
+      [
+        ts.factory.createParameterDeclaration(undefined, undefined, 'message', undefined, ts.factory.createKeywordTypeNode(ts.SyntaxKind.StringKeyword)),
+        ts.factory.createParameterDeclaration(undefined, undefined, 'error', undefined, zodErrorType())
+      ],
+      ts.factory.createBlock(
+        [
+          ts.factory.createExpressionStatement(ts.factory.createCallExpression(ts.factory.createSuper(), undefined, [ts.factory.createIdentifier('message')])),
+          ts.factory.createExpressionStatement(
+            ts.factory.createBinaryExpression(
+              ts.factory.createPropertyAccessExpression(ts.factory.createThis(), 'name'),
+              ts.SyntaxKind.EqualsToken,
+              ts.factory.createAsExpression(ts.factory.createStringLiteral('RequestValidationError', true), ts.factory.createTypeReferenceNode('const'))
+            )
+          ),
+          ts.factory.createExpressionStatement(
+            ts.factory.createBinaryExpression(
+              ts.factory.createPropertyAccessExpression(ts.factory.createThis(), 'error'),
+              ts.SyntaxKind.EqualsToken,
+              ts.factory.createIdentifier('error')
+            )
+          )
+        ],
+        true
+      )
+    );
+
+    return ts.factory.createClassDeclaration(
+      [ts.factory.createToken(ts.SyntaxKind.ExportKeyword)],
+      'RequestValidationError',
+      [typeParamT],
+      [ts.factory.createHeritageClause(ts.SyntaxKind.ExtendsKeyword, [ts.factory.createExpressionWithTypeArguments(ts.factory.createIdentifier('Error'), undefined)])],
+      [errorProperty, constructorDecl]
+    );
+  }
+
+  /**
+   * Builds the `ApiError` class thrown for non-2xx responses. `T` is the union of `{ status, body }`
+   * pairs an operation declares, and `hasStatus` narrows `body` to the payload of one status.
+   */
+  private buildApiErrorClass(): ts.ClassDeclaration {
+    const errorShape = (): ts.TypeLiteralNode =>
+      ts.factory.createTypeLiteralNode([
+        ts.factory.createPropertySignature(undefined, 'status', undefined, ts.factory.createKeywordTypeNode(ts.SyntaxKind.NumberKeyword)),
+        ts.factory.createPropertySignature(undefined, 'body', undefined, ts.factory.createKeywordTypeNode(ts.SyntaxKind.UnknownKeyword))
+      ]);
+    const typeParamT = ts.factory.createTypeParameterDeclaration(undefined, 'T', errorShape(), errorShape());
+    const indexedT = (key: string): ts.IndexedAccessTypeNode =>
+      ts.factory.createIndexedAccessTypeNode(ts.factory.createTypeReferenceNode('T'), ts.factory.createLiteralTypeNode(ts.factory.createStringLiteral(key, true)));
+    const assignFrom = (property: string, value: ts.Expression): ts.ExpressionStatement =>
+      ts.factory.createExpressionStatement(
+        ts.factory.createBinaryExpression(ts.factory.createPropertyAccessExpression(ts.factory.createThis(), property), ts.SyntaxKind.EqualsToken, value)
+      );
+
+    const responseProperty = ts.factory.createPropertyDeclaration(
+      [ts.factory.createToken(ts.SyntaxKind.ReadonlyKeyword)],
+      'response',
+      undefined,
+      ts.factory.createTypeReferenceNode('Response'),
+      undefined
+    );
+    const statusProperty = ts.factory.createPropertyDeclaration([ts.factory.createToken(ts.SyntaxKind.ReadonlyKeyword)], 'status', undefined, indexedT('status'), undefined);
+    const bodyProperty = ts.factory.createPropertyDeclaration([ts.factory.createToken(ts.SyntaxKind.ReadonlyKeyword)], 'body', undefined, indexedT('body'), undefined);
+
+    const constructorDecl = ts.factory.createConstructorDeclaration(
+      undefined,
+      [
+        ts.factory.createParameterDeclaration(undefined, undefined, 'message', undefined, ts.factory.createKeywordTypeNode(ts.SyntaxKind.StringKeyword)),
+        ts.factory.createParameterDeclaration(undefined, undefined, 'response', undefined, ts.factory.createTypeReferenceNode('Response')),
+        ts.factory.createParameterDeclaration(undefined, undefined, 'error', undefined, ts.factory.createTypeReferenceNode('T'))
+      ],
+      ts.factory.createBlock(
+        [
+          ts.factory.createExpressionStatement(ts.factory.createCallExpression(ts.factory.createSuper(), undefined, [ts.factory.createIdentifier('message')])),
+          assignFrom('name', ts.factory.createAsExpression(ts.factory.createStringLiteral('ApiError', true), ts.factory.createTypeReferenceNode('const'))),
+          assignFrom('response', ts.factory.createIdentifier('response')),
+          assignFrom('status', ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier('error'), 'status')),
+          assignFrom('body', ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier('error'), 'body'))
+        ],
+        true
+      )
+    );
+
+    // hasStatus<S extends T['status']>(status: S): this is ApiError<Extract<T, { status: S }>>
+    const hasStatusMethod = ts.factory.createMethodDeclaration(
+      undefined,
+      undefined,
+      'hasStatus',
+      undefined,
+      [ts.factory.createTypeParameterDeclaration(undefined, 'S', indexedT('status'))],
+      [ts.factory.createParameterDeclaration(undefined, undefined, 'status', undefined, ts.factory.createTypeReferenceNode('S'))],
+      ts.factory.createTypePredicateNode(
+        undefined,
+        ts.factory.createThisTypeNode(),
+        ts.factory.createTypeReferenceNode('ApiError', [
+          ts.factory.createTypeReferenceNode('Extract', [
+            ts.factory.createTypeReferenceNode('T'),
+            ts.factory.createTypeLiteralNode([ts.factory.createPropertySignature(undefined, 'status', undefined, ts.factory.createTypeReferenceNode('S'))])
+          ])
+        ])
+      ),
+      ts.factory.createBlock(
+        [
+          ts.factory.createReturnStatement(
+            ts.factory.createBinaryExpression(
+              ts.factory.createPropertyAccessExpression(ts.factory.createThis(), 'status'),
+              ts.SyntaxKind.EqualsEqualsEqualsToken,
+              ts.factory.createIdentifier('status')
+            )
+          )
+        ],
+        true
+      )
+    );
+
+    return ts.factory.createClassDeclaration(
+      [ts.factory.createToken(ts.SyntaxKind.ExportKeyword)],
+      'ApiError',
+      [typeParamT],
+      [ts.factory.createHeritageClause(ts.SyntaxKind.ExtendsKeyword, [ts.factory.createExpressionWithTypeArguments(ts.factory.createIdentifier('Error'), undefined)])],
+      [responseProperty, statusProperty, bodyProperty, constructorDecl, hasStatusMethod]
+    );
+  }
+
+  /**
+   * Builds the `NetworkError` class Result-style methods report when a request could not be completed
+   * (fetch failure, abort, or an error thrown by an overridden hook). The literal `name` keeps it distinct
+   * from `ApiError` so `instanceof` narrowing of `ApiResult` errors stays precise.
+   */
+  private buildNetworkErrorClass(): ts.ClassDeclaration {
+    const nameProperty = ts.factory.createPropertyDeclaration(
+      [ts.factory.createToken(ts.SyntaxKind.ReadonlyKeyword)],
+      'name',
+      undefined,
+      undefined,
+      ts.factory.createAsExpression(ts.factory.createStringLiteral('NetworkError', true), ts.factory.createTypeReferenceNode('const'))
+    );
+    const errorProperty = ts.factory.createPropertyDeclaration(
+      [ts.factory.createToken(ts.SyntaxKind.ReadonlyKeyword)],
+      'error',
+      undefined,
+      ts.factory.createKeywordTypeNode(ts.SyntaxKind.UnknownKeyword),
+      undefined
+    );
+
+    const constructorDecl = ts.factory.createConstructorDeclaration(
+      undefined,
+      [
+        ts.factory.createParameterDeclaration(undefined, undefined, 'message', undefined, ts.factory.createKeywordTypeNode(ts.SyntaxKind.StringKeyword)),
+        ts.factory.createParameterDeclaration(undefined, undefined, 'error', undefined, ts.factory.createKeywordTypeNode(ts.SyntaxKind.UnknownKeyword))
+      ],
+      ts.factory.createBlock(
+        [
+          ts.factory.createExpressionStatement(ts.factory.createCallExpression(ts.factory.createSuper(), undefined, [ts.factory.createIdentifier('message')])),
+          ts.factory.createExpressionStatement(
+            ts.factory.createBinaryExpression(
+              ts.factory.createPropertyAccessExpression(ts.factory.createThis(), 'error'),
+              ts.SyntaxKind.EqualsToken,
+              ts.factory.createIdentifier('error')
+            )
+          )
+        ],
+        true
+      )
+    );
+
+    return ts.factory.createClassDeclaration(
+      [ts.factory.createToken(ts.SyntaxKind.ExportKeyword)],
+      'NetworkError',
+      undefined,
+      [ts.factory.createHeritageClause(ts.SyntaxKind.ExtendsKeyword, [ts.factory.createExpressionWithTypeArguments(ts.factory.createIdentifier('Error'), undefined)])],
+      [nameProperty, errorProperty, constructorDecl]
+    );
+  }
+
+  /**
+   * Builds the `ApiResult` type returned by Result-style methods: the parsed data on success, or the
+   * `ApiError`, validation error or `NetworkError` on failure, together with the raw response when one was received.
+   */
+  private buildApiResultType(): ts.TypeAliasDeclaration {
+    const errorShape = (): ts.TypeLiteralNode =>
+      ts.factory.createTypeLiteralNode([
+        ts.factory.createPropertySignature(undefined, 'status', undefined, ts.factory.createKeywordTypeNode(ts.SyntaxKind.NumberKeyword)),
+        ts.factory.createPropertySignature(undefined, 'body', undefined, ts.factory.createKeywordTypeNode(ts.SyntaxKind.UnknownKeyword))
+      ]);
+    const property = (name: string, type: ts.TypeNode): ts.PropertySignature => ts.factory.createPropertySignature(undefined, name, undefined, type);
+    const unknownValidationError = (name: string): ts.TypeReferenceNode =>
+      ts.factory.createTypeReferenceNode(name, [ts.factory.createKeywordTypeNode(ts.SyntaxKind.UnknownKeyword)]);
+
+    const errorTypes: ts.TypeNode[] = [
+      ts.factory.createTypeReferenceNode('ApiError', [ts.factory.createTypeReferenceNode('TError')]),
+      unknownValidationError('ResponseValidationError'),
+      ...(this.validateRequests ? [unknownValidationError('RequestValidationError')] : []),
+      ts.factory.createTypeReferenceNode('NetworkError')
+    ];
+
+    return ts.factory.createTypeAliasDeclaration(
+      [ts.factory.createToken(ts.SyntaxKind.ExportKeyword)],
+      'ApiResult',
+      [ts.factory.createTypeParameterDeclaration(undefined, 'TData'), ts.factory.createTypeParameterDeclaration(undefined, 'TError', errorShape(), errorShape())],
+      ts.factory.createUnionTypeNode([
+        ts.factory.createTypeLiteralNode([
+          property('ok', ts.factory.createLiteralTypeNode(ts.factory.createTrue())),
+          property('data', ts.factory.createTypeReferenceNode('TData')),
+          property('response', ts.factory.createTypeReferenceNode('Response'))
+        ]),
+        ts.factory.createTypeLiteralNode([
+          property('ok', ts.factory.createLiteralTypeNode(ts.factory.createFalse())),
+          property('error', ts.factory.createUnionTypeNode(errorTypes)),
+          property('response', ts.factory.createUnionTypeNode([ts.factory.createTypeReferenceNode('Response'), ts.factory.createKeywordTypeNode(ts.SyntaxKind.UndefinedKeyword)]))
+        ])
+      ])
+    );
+  }
+
+  private buildClientClass(openapi: OpenApiSpecType, methods: ts.MethodDeclaration[], tagClients: TagClient[] = []): ts.ClassDeclaration {
+    const clientName = this.generateClientName(openapi.info.title);
+
+    return ts.factory.createClassDeclaration(
+      [ts.factory.createToken(ts.SyntaxKind.ExportKeyword), ts.factory.createToken(ts.SyntaxKind.DefaultKeyword)],
+      ts.factory.createIdentifier(clientName),
+      undefined,
+      undefined,
+      [
+        this.typeBuilder.createProperty('#baseUrl', 'string', true),
+        ...(this.hasSecuritySchemes() ? [this.typeBuilder.createProperty('#auth', 'ClientAuth', true)] : []),
+        ...tagClients.map((tagClient) => this.typeBuilder.createProperty(tagClient.propertyName, tagClient.className, true)),
+        this.buildConstructor(openapi, tagClients),
+        this.buildGetBaseRequestOptionsMethod(),
+        ...(this.hasSecuritySchemes() ? [this.buildApplySecurityMethod()] : []),
+        this.buildHandleResponseMethod(),
+        this.buildCreateApiErrorMethod(),
+        this.buildSerializeQueryParameterMethod(),
+        this.buildHttpRequestMethod(),
+        ...methods
+      ]
+    );
+  }
+
+  private buildConstructor(openapi: OpenApiSpecType, tagClients: TagClient[]): ts.ConstructorDeclaration {
+    const hasServers = openapi.servers && openapi.servers.length > 0;
+
+    if (hasServers) {
+      // Options-based constructor
+      return ts.factory.createConstructorDeclaration(
+        undefined,
+        [
+          ts.factory.createParameterDeclaration(
+            undefined,
+            undefined,
+            ts.factory.createIdentifier('options'),
+            undefined,
+            ts.factory.createTypeReferenceNode(ts.factory.createIdentifier('ClientOptions'), undefined),
+            undefined
+          )
+        ],
+        ts.factory.createBlock(
+          [
+            ts.factory.createVariableStatement(
+              undefined,
+              ts.factory.createVariableDeclarationList(
+                [
+                  ts.factory.createVariableDeclaration(
+                    ts.factory.createIdentifier('resolvedUrl'),
+                    undefined,
+                    undefined,
+                    ts.factory.createConditionalExpression(
+                      ts.factory.createBinaryExpression(
+                        ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier('options'), ts.factory.createIdentifier('baseUrl')),
+                        ts.factory.createToken(ts.SyntaxKind.ExclamationEqualsEqualsToken),
+                        ts.factory.createNull()
+                      ),
+                      ts.factory.createToken(ts.SyntaxKind.QuestionToken),
+                      ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier('options'), ts.factory.createIdentifier('baseUrl')),
+                      ts.factory.createToken(ts.SyntaxKind.ColonToken),
+                      ts.factory.createCallExpression(ts.factory.createIdentifier('resolveServerUrl'), undefined, [
+                        ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier('options'), ts.factory.createIdentifier('serverIndex')),
+                        ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier('options'), ts.factory.createIdentifier('serverVariables'))
+                      ])
+                    )
+                  )
+                ],
+                ts.NodeFlags.Const
+              )
+            ),
+            ts.factory.createExpressionStatement(
+              ts.factory.createBinaryExpression(
+                ts.factory.createPropertyAccessExpression(ts.factory.createThis(), ts.factory.createPrivateIdentifier('#baseUrl')),
+                ts.factory.createToken(ts.SyntaxKind.EqualsToken),
+                ts.factory.createIdentifier('resolvedUrl')
+              )
+            ),
+            ...this.buildAuthAssignment(),
+            ...this.buildTagClientAssignments(tagClients)
+          ],
+          true
+        )
+      );
+    } else {
+      // Fallback: simple baseUrl parameter, plus the credentials when the spec declares security schemes
+      return ts.factory.createConstructorDeclaration(
+        undefined,
+        [
+          this.typeBuilder.createParameter('baseUrl', 'string', ts.factory.createStringLiteral('/', true)),
+          this.hasSecuritySchemes()
+            ? this.typeBuilder.createParameter('options', 'ClientOptions', ts.factory.createObjectLiteralExpression([], false))
+            : this.typeBuilder.createParameter('_', 'unknown', undefined, true)
+        ],
+        ts.factory.createBlock(
+          [
+            ts.factory.createExpressionStatement(
+              ts.factory.createBinaryExpression(
+                ts.factory.createPropertyAccessExpression(ts.factory.createThis(), ts.factory.createPrivateIdentifier('#baseUrl')),
+                ts.factory.createToken(ts.SyntaxKind.EqualsToken),
+                ts.factory.createIdentifier('baseUrl')
+              )
+            ),
+            ...this.buildAuthAssignment(),
+            ...this.buildTagClientAssignments(tagClients)
+          ],
+          true
+        )
+      );
+    }
+  }
+
+  /**
+   * Collects the security schemes the generated client can apply: apiKey (header, query or cookie),
+   * HTTP (basic, bearer or another scheme taking a token) and OAuth2/OpenID Connect access tokens.
+   */
+  private collectSecuritySchemes(openapi: OpenApiSpecType): Record<string, SecuritySchemeType> {
+    return Object.fromEntries(
+      Object.entries(openapi.components?.securitySchemes ?? {}).flatMap(([name, scheme]) => {
+        const safeScheme = SecurityScheme.safeParse(scheme);
+        if (!safeScheme.success) {
+          return [];
+        }
+
+        const { type } = safeScheme.data;
+        const supported =
+          (type === 'apiKey' && safeScheme.data.name !== undefined && safeScheme.data.in !== undefined) ||
+          (type === 'http' && safeScheme.data.scheme !== undefined) ||
+          type === 'oauth2' ||
+          type === 'openIdConnect';
+        return supported ? [[name, safeScheme.data] as const] : [];
+      })
+    );
+  }
+
+  /**
+   * Returns the alternative security requirements of an operation as lists of scheme names, its own `security`
+   * overriding the document-level one. Requirements naming unsupported schemes are dropped, and anonymous
+   * requirements come last so configured credentials are preferred.
+   */
+  private getOperationSecurity(schema: MethodSchemaType): string[][] {
+    const requirements = (schema.security ?? this.defaultSecurity ?? [])
+      .map((requirement) => Object.keys(requirement))
+      .filter((names) => names.every((name) => this.securitySchemes[name] !== undefined));
+    const authenticated = requirements.filter((names) => names.length > 0);
+
+    return authenticated.length > 0 && authenticated.length < requirements.length ? [...authenticated, []] : authenticated;
+  }
+
+  private hasSecuritySchemes(): boolean {
+    return Object.keys(this.securitySchemes).length > 0;
+  }
+
+  /**
+   * Builds the `CredentialProvider` and `ClientAuth` types and the `securitySchemes` table used by `applySecurity`,
+   * plus a `ClientOptions` type carrying the credentials when the spec declares no servers.
+   */
+  private buildSecurityDeclarations(openapi: OpenApiSpecType): ts.Statement[] {
+    if (!this.hasSecuritySchemes()) {
+      return [];
+    }
+
+    const exportModifier = [ts.factory.createToken(ts.SyntaxKind.ExportKeyword)];
+    const stringType = (): ts.TypeNode => ts.factory.createKeywordTypeNode(ts.SyntaxKind.StringKeyword);
+    const literal = (value: string): ts.StringLiteral => ts.factory.createStringLiteral(value, true);
+    const withComment = <T extends ts.Node>(node: T, comment: string): T => ts.addSyntheticLeadingComment(node, ts.SyntaxKind.MultiLineCommentTrivia, `* ${comment} `, true);
+
+    // export type CredentialProvider<T> = T | (() => T | Promise<T>);
+    const credentialType = ts.factory.createTypeReferenceNode('T');
+    const credentialProvider = ts.factory.createTypeAliasDeclaration(
+      exportModifier,
+      'CredentialProvider',
+      [this.typeBuilder.createGenericType('T')],
+      ts.factory.createUnionTypeNode([
+        credentialType,
+        ts.factory.createParenthesizedType(
+          ts.factory.createFunctionTypeNode(undefined, [], ts.factory.createUnionTypeNode([credentialType, ts.factory.createTypeReferenceNode('Promise', [credentialType])]))
+        )
+      ])
+    );
+
+    const schemes = Object.entries(this.securitySchemes);
+    const clientAuth = ts.factory.createTypeAliasDeclaration(
+      exportModifier,
+      'ClientAuth',
+      undefined,
+      ts.factory.createTypeLiteralNode(
+        schemes.map(([name, scheme]) => {
+          const isBasic = scheme.type === 'http' && scheme.scheme?.toLowerCase() === 'basic';
+          const valueType = isBasic
+            ? ts.factory.createTypeLiteralNode([
+                ts.factory.createPropertySignature(undefined, 'username', undefined, stringType()),
+                ts.factory.createPropertySignature(undefined, 'password', undefined, stringType())
+              ])
+            : stringType();
+          const summary =
+            scheme.type === 'apiKey'
+              ? `API key sent in the \`${scheme.name ?? ''}\` ${scheme.in === 'query' ? 'query parameter' : (scheme.in ?? 'header')}`
+              : isBasic
+                ? 'HTTP basic credentials'
+                : scheme.type === 'http'
+                  ? `Token sent with the HTTP \`${scheme.scheme ?? ''}\` scheme`
+                  : 'Access token sent as a bearer token';
+
+          return withComment(
+            ts.factory.createPropertySignature(
+              undefined,
+              this.buildPropertyName(name),
+              ts.factory.createToken(ts.SyntaxKind.QuestionToken),
+              ts.factory.createTypeReferenceNode('CredentialProvider', [valueType])
+            ),
+            scheme.description ?? summary
+          );
+        })
+      )
+    );
+
+    // export const securitySchemes = { api_key: { type: 'apiKey', in: 'header', name: 'api_key' }, ... } as const;
+    const schemeTable = ts.factory.createVariableStatement(
+      exportModifier,
+      ts.factory.createVariableDeclarationList(
+        [
+          ts.factory.createVariableDeclaration(
+            'securitySchemes',
+            undefined,
+            undefined,
+            ts.factory.createAsExpression(
+              ts.factory.createObjectLiteralExpression(
+                schemes.map(([name, scheme]) => {
+                  const httpScheme = scheme.type === 'http' ? (scheme.scheme ?? '') : 'bearer';
+                  const properties =
+                    scheme.type === 'apiKey'
+                      ? [
+                          ts.factory.createPropertyAssignment('type', literal('apiKey')),
+                          ts.factory.createPropertyAssignment('in', literal(scheme.in ?? 'header')),
+                          ts.factory.createPropertyAssignment('name', literal(scheme.name ?? ''))
+                        ]
+                      : httpScheme.toLowerCase() === 'basic'
+                        ? [ts.factory.createPropertyAssignment('type', literal('basic'))]
+                        : [
+                            ts.factory.createPropertyAssignment('type', literal('http')),
+                            // Authorization schemes are case-insensitive, `Bearer` is the conventional spelling
+                            ts.factory.createPropertyAssignment('scheme', literal(httpScheme.charAt(0).toUpperCase() + httpScheme.slice(1)))
+                          ];
+                  return ts.factory.createPropertyAssignment(this.buildPropertyName(name), ts.factory.createObjectLiteralExpression(properties, false));
+                }),
+                true
+              ),
+              ts.factory.createTypeReferenceNode('const')
+            )
+          )
+        ],
+        ts.NodeFlags.Const
+      )
+    );
+
+    const statements: ts.Statement[] = [credentialProvider, clientAuth, schemeTable];
+    if (!openapi.servers || openapi.servers.length === 0) {
+      statements.push(ts.factory.createTypeAliasDeclaration(exportModifier, 'ClientOptions', undefined, ts.factory.createTypeLiteralNode([this.buildAuthOptionProperty()])));
+    }
+
+    return statements;
+  }
+
+  // this.#auth = options.auth ?? {};
+  private buildAuthAssignment(): ts.Statement[] {
+    if (!this.hasSecuritySchemes()) {
+      return [];
+    }
+
+    return [
+      ts.factory.createExpressionStatement(
+        ts.factory.createBinaryExpression(
+          ts.factory.createPropertyAccessExpression(ts.factory.createThis(), ts.factory.createPrivateIdentifier('#auth')),
+          ts.SyntaxKind.EqualsToken,
+          ts.factory.createBinaryExpression(
+            ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier('options'), 'auth'),
+            ts.SyntaxKind.QuestionQuestionToken,
+            ts.factory.createObjectLiteralExpression([], false)
+          )
+        )
+      )
+    ];
+  }
+
+  /**
+   * Builds `this.pets = new PetsClient((method, path, options) => this.makeRequest(method, path, options));` per tag client.
+   */
+  private buildTagClientAssignments(tagClients: TagClient[]): ts.Statement[] {
+    return tagClients.map((tagClient) =>
+      ts.factory.createExpressionStatement(
+        ts.factory.createBinaryExpression(
+          ts.factory.createPropertyAccessExpression(ts.factory.createThis(), tagClient.propertyName),
+          ts.SyntaxKind.EqualsToken,
+          ts.factory.createNewExpression(ts.factory.createIdentifier(tagClient.className), undefined, [
+            ts.factory.createArrowFunction(
+              undefined,
+              undefined,
+              ['method', 'path', 'options'].map((name) => ts.factory.createParameterDeclaration(undefined, undefined, name)),
+              undefined,
+              ts.factory.createToken(ts.SyntaxKind.EqualsGreaterThanToken),
+              ts.factory.createCallExpression(ts.factory.createPropertyAccessExpression(ts.factory.createThis(), 'makeRequest'), undefined, [
+                ts.factory.createIdentifier('method'),
+                ts.factory.createIdentifier('path'),
+                ts.factory.createIdentifier('options')
+              ])
+            )
+          ])
+        )
+      )
+    );
+  }
+
+  /**
+   * Builds the `RequestHandler` type of the root client's `makeRequest`, through which the tag clients send requests.
+   */
+  private buildRequestHandlerType(): ts.TypeAliasDeclaration {
+    const declaration = ts.factory.createTypeAliasDeclaration(
+      [ts.factory.createToken(ts.SyntaxKind.ExportKeyword)],
+      'RequestHandler',
+      undefined,
+      ts.factory.createFunctionTypeNode(
+        [this.typeBuilder.createGenericType('T')],
+        [
+          this.typeBuilder.createParameter('method', 'string'),
+          this.typeBuilder.createParameter('path', 'string'),
+          this.typeBuilder.createParameter('options', this.buildRequestOptionsTypeNode(), undefined, true)
+        ],
+        ts.factory.createTypeReferenceNode('Promise', [ts.factory.createTypeReferenceNode('T')])
+      )
+    );
+
+    return ts.addSyntheticLeadingComment(declaration, ts.SyntaxKind.MultiLineCommentTrivia, "* Sends a request through the root client's `makeRequest`. ", true);
+  }
+
+  private buildAuthOptionProperty(): ts.PropertySignature {
+    return ts.factory.createPropertySignature(undefined, 'auth', ts.factory.createToken(ts.SyntaxKind.QuestionToken), ts.factory.createTypeReferenceNode('ClientAuth'));
+  }
+
+  /**
+   * Builds the protected `applySecurity` method, which adds the credentials of the first security requirement
+   * whose schemes all have credentials configured to the request parameters, headers and cookies.
+   * Values passed explicitly for the same header, query parameter or cookie are kept.
+   */
+  private buildApplySecurityMethod(): ts.MethodDeclaration {
+    const options = ts.factory.createIdentifier('options');
+    const requirement = ts.factory.createIdentifier('requirement');
+    const name = ts.factory.createIdentifier('name');
+    const provider = ts.factory.createIdentifier('provider');
+    const credential = ts.factory.createIdentifier('credential');
+    const scheme = ts.factory.createIdentifier('scheme');
+    const headers = ts.factory.createIdentifier('headers');
+    const params = ts.factory.createIdentifier('params');
+    const cookies = ts.factory.createIdentifier('cookies');
+    const auth = ts.factory.createPropertyAccessExpression(ts.factory.createThis(), ts.factory.createPrivateIdentifier('#auth'));
+    const constStatement = (identifier: ts.Identifier, initializer: ts.Expression): ts.VariableStatement =>
+      ts.factory.createVariableStatement(
+        undefined,
+        ts.factory.createVariableDeclarationList([ts.factory.createVariableDeclaration(identifier, undefined, undefined, initializer)], ts.NodeFlags.Const)
+      );
+    const copyOf = (property: string): ts.ObjectLiteralExpression =>
+      ts.factory.createObjectLiteralExpression([ts.factory.createSpreadAssignment(ts.factory.createPropertyAccessExpression(options, property))], false);
+    const schemeProperty = (property: string): ts.PropertyAccessExpression => ts.factory.createPropertyAccessExpression(scheme, property);
+    const equals = (left: ts.Expression, value: string): ts.BinaryExpression =>
+      ts.factory.createBinaryExpression(left, ts.SyntaxKind.EqualsEqualsEqualsToken, ts.factory.createStringLiteral(value, true));
+    const assignIfUnset = (target: ts.Identifier, key: ts.Expression, value: ts.Expression): ts.Block =>
+      ts.factory.createBlock(
+        [
+          ts.factory.createExpressionStatement(
+            ts.factory.createBinaryExpression(ts.factory.createElementAccessExpression(target, key), ts.SyntaxKind.QuestionQuestionEqualsToken, value)
+          )
+        ],
+        true
+      );
+    const template = (head: string, spans: [ts.Expression, string][]): ts.TemplateExpression =>
+      ts.factory.createTemplateExpression(
+        ts.factory.createTemplateHead(head),
+        spans.map(([expression, text], index) =>
+          ts.factory.createTemplateSpan(expression, index === spans.length - 1 ? ts.factory.createTemplateTail(text) : ts.factory.createTemplateMiddle(text))
+        )
+      );
+    const authorization = ts.factory.createStringLiteral('Authorization', true);
+
+    // Basic ${btoa(`${credential.username}:${credential.password}`)}
+    const basicValue = template('Basic ', [
+      [
+        ts.factory.createCallExpression(ts.factory.createIdentifier('btoa'), undefined, [
+          template('', [
+            [ts.factory.createPropertyAccessExpression(credential, 'username'), ':'],
+            [ts.factory.createPropertyAccessExpression(credential, 'password'), '']
+          ])
+        ]),
+        ''
+      ]
+    ]);
+
+    const applyCredential = ts.factory.createIfStatement(
+      equals(schemeProperty('type'), 'basic'),
+      assignIfUnset(headers, authorization, basicValue),
+      ts.factory.createIfStatement(
+        equals(schemeProperty('type'), 'http'),
+        assignIfUnset(
+          headers,
+          authorization,
+          template('', [
+            [schemeProperty('scheme'), ' '],
+            [credential, '']
+          ])
+        ),
+        ts.factory.createIfStatement(
+          equals(schemeProperty('in'), 'query'),
+          assignIfUnset(params, schemeProperty('name'), credential),
+          ts.factory.createIfStatement(
+            equals(schemeProperty('in'), 'cookie'),
+            assignIfUnset(cookies, schemeProperty('name'), credential),
+            assignIfUnset(headers, schemeProperty('name'), credential)
+          )
+        )
+      )
+    );
+
+    const requirementLoop = ts.factory.createForOfStatement(
+      undefined,
+      ts.factory.createVariableDeclarationList([ts.factory.createVariableDeclaration(requirement)], ts.NodeFlags.Const),
+      ts.factory.createBinaryExpression(
+        ts.factory.createPropertyAccessExpression(options, 'security'),
+        ts.SyntaxKind.QuestionQuestionToken,
+        ts.factory.createArrayLiteralExpression([], false)
+      ),
+      ts.factory.createBlock(
+        [
+          // Skip requirements missing a configured credential
+          ts.factory.createIfStatement(
+            ts.factory.createPrefixUnaryExpression(
+              ts.SyntaxKind.ExclamationToken,
+              ts.factory.createCallExpression(ts.factory.createPropertyAccessExpression(requirement, 'every'), undefined, [
+                ts.factory.createArrowFunction(
+                  undefined,
+                  undefined,
+                  [ts.factory.createParameterDeclaration(undefined, undefined, name)],
+                  undefined,
+                  ts.factory.createToken(ts.SyntaxKind.EqualsGreaterThanToken),
+                  ts.factory.createBinaryExpression(
+                    ts.factory.createElementAccessExpression(auth, name),
+                    ts.SyntaxKind.ExclamationEqualsEqualsToken,
+                    ts.factory.createIdentifier('undefined')
+                  )
+                )
+              ])
+            ),
+            ts.factory.createBlock([ts.factory.createContinueStatement()], true)
+          ),
+          constStatement(params, copyOf('params')),
+          constStatement(headers, copyOf('headers')),
+          constStatement(cookies, copyOf('cookies')),
+          ts.factory.createForOfStatement(
+            undefined,
+            ts.factory.createVariableDeclarationList([ts.factory.createVariableDeclaration(name)], ts.NodeFlags.Const),
+            requirement,
+            ts.factory.createBlock(
+              [
+                constStatement(provider, ts.factory.createElementAccessExpression(auth, name)),
+                // Providers are either the credential itself or a (possibly async) callback returning it
+                constStatement(
+                  credential,
+                  ts.factory.createConditionalExpression(
+                    equals(ts.factory.createTypeOfExpression(provider), 'function'),
+                    undefined,
+                    ts.factory.createAwaitExpression(ts.factory.createCallExpression(provider, undefined, [])),
+                    undefined,
+                    provider
+                  )
+                ),
+                constStatement(scheme, ts.factory.createElementAccessExpression(ts.factory.createIdentifier('securitySchemes'), name)),
+                applyCredential
+              ],
+              true
+            )
+          ),
+          ts.factory.createReturnStatement(
+            ts.factory.createObjectLiteralExpression(
+              [
+                ts.factory.createSpreadAssignment(options),
+                ts.factory.createShorthandPropertyAssignment(params),
+                ts.factory.createShorthandPropertyAssignment(headers),
+                ts.factory.createShorthandPropertyAssignment(cookies)
+              ],
+              false
+            )
+          )
+        ],
+        true
+      )
+    );
+
+    const method = ts.factory.createMethodDeclaration(
+      [ts.factory.createToken(ts.SyntaxKind.ProtectedKeyword), ts.factory.createToken(ts.SyntaxKind.AsyncKeyword)],
+      undefined,
+      'applySecurity',
+      undefined,
+      undefined,
+      [this.typeBuilder.createParameter('options', this.buildRequestOptionsTypeNode())],
+      ts.factory.createTypeReferenceNode('Promise', [this.buildRequestOptionsTypeNode()]),
+      ts.factory.createBlock([requirementLoop, ts.factory.createReturnStatement(options)], true)
+    );
+
+    return ts.addSyntheticLeadingComment(
+      method,
+      ts.SyntaxKind.MultiLineCommentTrivia,
+      '*\n * Adds the credentials of the first security requirement whose schemes all have credentials configured.\n ',
+      true
+    );
+  }
+
+  private buildGetBaseRequestOptionsMethod(): ts.MethodDeclaration {
+    return ts.factory.createMethodDeclaration(
+      [ts.factory.createToken(ts.SyntaxKind.ProtectedKeyword)],
+      undefined,
+      ts.factory.createIdentifier('getBaseRequestOptions'),
+      undefined,
+      undefined,
+      [],
+      ts.factory.createTypeReferenceNode(ts.factory.createIdentifier('Partial'), [
+        ts.factory.createTypeReferenceNode(ts.factory.createIdentifier('Omit'), [
+          ts.factory.createTypeReferenceNode(ts.factory.createIdentifier('RequestInit'), undefined),
+          ts.factory.createUnionTypeNode([
+            ts.factory.createLiteralTypeNode(ts.factory.createStringLiteral('method', true)),
+            ts.factory.createLiteralTypeNode(ts.factory.createStringLiteral('body', true))
+          ])
+        ])
+      ]),
+      ts.factory.createBlock([ts.factory.createReturnStatement(ts.factory.createObjectLiteralExpression([], false))], true)
+    );
+  }
+
+  /**
+   * Builds the type of the `options` argument shared by `makeRequest` and `handleResponse`.
+   */
+  private buildRequestOptionsTypeNode(): ts.TypeLiteralNode {
+    const scalarValue = (): ts.TypeNode[] => [
+      ts.factory.createKeywordTypeNode(ts.SyntaxKind.StringKeyword),
+      ts.factory.createKeywordTypeNode(ts.SyntaxKind.NumberKeyword),
+      ts.factory.createKeywordTypeNode(ts.SyntaxKind.BooleanKeyword)
+    ];
+    const recordOf = (valueTypes: ts.TypeNode[]): ts.TypeReferenceNode =>
+      ts.factory.createTypeReferenceNode(ts.factory.createIdentifier('Record'), [
+        ts.factory.createKeywordTypeNode(ts.SyntaxKind.StringKeyword),
+        ts.factory.createUnionTypeNode(valueTypes)
+      ]);
+    const optionalProperty = (name: string, type: ts.TypeNode): ts.PropertySignature =>
+      ts.factory.createPropertySignature(undefined, ts.factory.createIdentifier(name), ts.factory.createToken(ts.SyntaxKind.QuestionToken), type);
+
+    return ts.factory.createTypeLiteralNode([
+      optionalProperty('params', recordOf([ts.factory.createKeywordTypeNode(ts.SyntaxKind.UnknownKeyword)])),
+      optionalProperty(
+        'querySerialization',
+        recordOf([
+          ts.factory.createTypeLiteralNode([
+            ts.factory.createPropertySignature(undefined, 'style', undefined, ts.factory.createKeywordTypeNode(ts.SyntaxKind.StringKeyword)),
+            ts.factory.createPropertySignature(undefined, 'explode', undefined, ts.factory.createKeywordTypeNode(ts.SyntaxKind.BooleanKeyword))
+          ])
+        ])
+      ),
+      optionalProperty('data', ts.factory.createKeywordTypeNode(ts.SyntaxKind.UnknownKeyword)),
+      optionalProperty('contentType', ts.factory.createKeywordTypeNode(ts.SyntaxKind.StringKeyword)),
+      optionalProperty('headers', recordOf([...scalarValue(), ts.factory.createKeywordTypeNode(ts.SyntaxKind.UndefinedKeyword)])),
+      optionalProperty('cookies', recordOf([...scalarValue(), ts.factory.createKeywordTypeNode(ts.SyntaxKind.UndefinedKeyword)])),
+      optionalProperty(
+        'responseType',
+        ts.factory.createUnionTypeNode(['json', 'text', 'blob', 'void'].map((kind) => ts.factory.createLiteralTypeNode(ts.factory.createStringLiteral(kind, true))))
+      ),
+      optionalProperty(
+        'onResponse',
+        ts.factory.createFunctionTypeNode(
+          undefined,
+          [ts.factory.createParameterDeclaration(undefined, undefined, 'response', undefined, ts.factory.createTypeReferenceNode('Response'))],
+          ts.factory.createKeywordTypeNode(ts.SyntaxKind.VoidKeyword)
+        )
+      ),
+      optionalProperty(
+        'errorSchemas',
+        ts.factory.createTypeReferenceNode(ts.factory.createIdentifier('Record'), [
+          ts.factory.createKeywordTypeNode(ts.SyntaxKind.StringKeyword),
+          ts.factory.createTypeReferenceNode(ts.factory.createQualifiedName(ts.factory.createIdentifier('z'), 'ZodType'), undefined)
+        ])
+      ),
+      // Alternative security requirements, each listing the schemes whose credentials are sent together
+      ...(this.hasSecuritySchemes()
+        ? [optionalProperty('security', ts.factory.createArrayTypeNode(ts.factory.createArrayTypeNode(ts.factory.createKeywordTypeNode(ts.SyntaxKind.StringKeyword))))]
+        : [])
+    ]);
+  }
+
+  private buildHandleResponseMethod(): ts.MethodDeclaration {
+    return ts.factory.createMethodDeclaration(
+      [ts.factory.createToken(ts.SyntaxKind.ProtectedKeyword), ts.factory.createToken(ts.SyntaxKind.AsyncKeyword)],
+      undefined,
+      ts.factory.createIdentifier('handleResponse'),
+      undefined,
+      [this.typeBuilder.createGenericType('T')],
+      [
+        this.typeBuilder.createParameter('response', 'Response'),
+        this.typeBuilder.createParameter('method', 'string'),
+        this.typeBuilder.createParameter('path', 'string'),
+        this.typeBuilder.createParameter('options', this.buildRequestOptionsTypeNode())
+      ],
+      ts.factory.createTypeReferenceNode(ts.factory.createIdentifier('Promise'), [ts.factory.createTypeReferenceNode(ts.factory.createIdentifier('Response'), undefined)]),
+      ts.factory.createBlock([ts.factory.createReturnStatement(ts.factory.createIdentifier('response'))], true)
+    );
+  }
+
+  /**
+   * Builds the protected `createApiError` method, which reads a non-2xx response body, validates it against
+   * the schema declared for its status (exact code, then `4XX`/`5XX` range, then `default`) and wraps it in an `ApiError`.
+   */
+  private buildCreateApiErrorMethod(): ts.MethodDeclaration {
+    const response = ts.factory.createIdentifier('response');
+    const errorSchemas = ts.factory.createIdentifier('errorSchemas');
+    const text = ts.factory.createIdentifier('text');
+    const body = ts.factory.createIdentifier('body');
+    const schema = ts.factory.createIdentifier('schema');
+    const parsedBody = ts.factory.createIdentifier('parsedBody');
+    const status = ts.factory.createPropertyAccessExpression(response, 'status');
+    const statusString = ts.factory.createCallExpression(ts.factory.createIdentifier('String'), undefined, [status]);
+    const constStatement = (name: ts.Identifier, initializer: ts.Expression, type?: ts.TypeNode): ts.VariableStatement =>
+      ts.factory.createVariableStatement(
+        undefined,
+        ts.factory.createVariableDeclarationList([ts.factory.createVariableDeclaration(name, undefined, type, initializer)], ts.NodeFlags.Const)
+      );
+
+    const statements: ts.Statement[] = [
+      // const text = await response.text();
+      constStatement(text, ts.factory.createAwaitExpression(ts.factory.createCallExpression(ts.factory.createPropertyAccessExpression(response, 'text'), undefined, []))),
+      // let body: unknown = text; try { body = JSON.parse(text); } catch { /* keep the raw text */ }
+      ts.factory.createVariableStatement(
+        undefined,
+        ts.factory.createVariableDeclarationList(
+          [ts.factory.createVariableDeclaration(body, undefined, ts.factory.createKeywordTypeNode(ts.SyntaxKind.UnknownKeyword), text)],
+          ts.NodeFlags.Let
+        )
+      ),
+      ts.factory.createTryStatement(
+        ts.factory.createBlock([ts.factory.createExpressionStatement(ts.factory.createBinaryExpression(body, ts.SyntaxKind.EqualsToken, this.buildJsonCall('parse', text)))], true),
+        ts.factory.createCatchClause(undefined, ts.factory.createBlock([], false)),
+        undefined
+      ),
+      // const schema = errorSchemas[String(response.status)] ?? errorSchemas[`${String(response.status).charAt(0)}XX`] ?? errorSchemas['default'];
+      constStatement(
+        schema,
+        ts.factory.createBinaryExpression(
+          ts.factory.createBinaryExpression(
+            ts.factory.createElementAccessExpression(errorSchemas, statusString),
+            ts.SyntaxKind.QuestionQuestionToken,
+            ts.factory.createElementAccessExpression(
+              errorSchemas,
+              ts.factory.createTemplateExpression(ts.factory.createTemplateHead(''), [
+                ts.factory.createTemplateSpan(
+                  ts.factory.createCallExpression(ts.factory.createPropertyAccessExpression(statusString, 'charAt'), undefined, [ts.factory.createNumericLiteral(0)]),
+                  ts.factory.createTemplateTail('XX')
+                )
+              ])
+            )
+          ),
+          ts.SyntaxKind.QuestionQuestionToken,
+          ts.factory.createElementAccessExpression(errorSchemas, ts.factory.createStringLiteral('default', true))
+        )
+      ),
+      ts.factory.createIfStatement(
+        schema,
+        ts.factory.createBlock(
+          [
+            constStatement(parsedBody, ts.factory.createCallExpression(ts.factory.createPropertyAccessExpression(schema, 'safeParse'), undefined, [body])),
+            ts.factory.createIfStatement(
+              ts.factory.createPrefixUnaryExpression(ts.SyntaxKind.ExclamationToken, ts.factory.createPropertyAccessExpression(parsedBody, 'success')),
+              ts.factory.createBlock(
+                [
+                  ts.factory.createThrowStatement(
+                    ts.factory.createNewExpression(ts.factory.createIdentifier('ResponseValidationError'), undefined, [
+                      ts.factory.createTemplateExpression(ts.factory.createTemplateHead('Invalid error response for HTTP '), [
+                        ts.factory.createTemplateSpan(status, ts.factory.createTemplateMiddle(': ')),
+                        ts.factory.createTemplateSpan(
+                          ts.factory.createCallExpression(
+                            ts.factory.createPropertyAccessExpression(
+                              ts.factory.createCallExpression(
+                                ts.factory.createPropertyAccessExpression(
+                                  ts.factory.createPropertyAccessExpression(ts.factory.createPropertyAccessExpression(parsedBody, 'error'), 'issues'),
+                                  'map'
+                                ),
+                                undefined,
+                                [
+                                  ts.factory.createArrowFunction(
+                                    undefined,
+                                    undefined,
+                                    [ts.factory.createParameterDeclaration(undefined, undefined, 'issue')],
+                                    undefined,
+                                    ts.factory.createToken(ts.SyntaxKind.EqualsGreaterThanToken),
+                                    ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier('issue'), 'message')
+                                  )
+                                ]
+                              ),
+                              'join'
+                            ),
+                            undefined,
+                            [ts.factory.createStringLiteral(', ', true)]
+                          ),
+                          ts.factory.createTemplateTail('')
+                        )
+                      ]),
+                      response,
+                      ts.factory.createPropertyAccessExpression(parsedBody, 'error')
+                    ])
+                  )
+                ],
+                true
+              )
+            ),
+            ts.factory.createExpressionStatement(ts.factory.createBinaryExpression(body, ts.SyntaxKind.EqualsToken, ts.factory.createPropertyAccessExpression(parsedBody, 'data')))
+          ],
+          true
+        )
+      ),
+      // return new ApiError(`HTTP ${response.status}: ${response.statusText}`, response, { status: response.status, body });
+      ts.factory.createReturnStatement(
+        ts.factory.createNewExpression(ts.factory.createIdentifier('ApiError'), undefined, [
+          ts.factory.createTemplateExpression(ts.factory.createTemplateHead('HTTP '), [
+            ts.factory.createTemplateSpan(status, ts.factory.createTemplateMiddle(': ')),
+            ts.factory.createTemplateSpan(ts.factory.createPropertyAccessExpression(response, 'statusText'), ts.factory.createTemplateTail(''))
+          ]),
+          response,
+          ts.factory.createObjectLiteralExpression([ts.factory.createPropertyAssignment('status', status), ts.factory.createShorthandPropertyAssignment(body)], false)
+        ])
+      )
+    ];
+
+    return ts.factory.createMethodDeclaration(
+      [ts.factory.createToken(ts.SyntaxKind.ProtectedKeyword), ts.factory.createToken(ts.SyntaxKind.AsyncKeyword)],
+      undefined,
+      ts.factory.createIdentifier('createApiError'),
+      undefined,
+      undefined,
+      [
+        this.typeBuilder.createParameter('response', 'Response'),
+        ts.factory.createParameterDeclaration(
+          undefined,
+          undefined,
+          errorSchemas,
+          undefined,
+          ts.factory.createTypeReferenceNode(ts.factory.createIdentifier('Record'), [
+            ts.factory.createKeywordTypeNode(ts.SyntaxKind.StringKeyword),
+            ts.factory.createTypeReferenceNode(ts.factory.createQualifiedName(ts.factory.createIdentifier('z'), 'ZodType'), undefined)
+          ])
+        )
+      ],
+      ts.factory.createTypeReferenceNode(ts.factory.createIdentifier('Promise'), [ts.factory.createTypeReferenceNode(ts.factory.createIdentifier('ApiError'), undefined)]),
+      ts.factory.createBlock(statements, true)
+    );
+  }
+
+  /**
+   * Builds the protected `serializeQueryParameter` method, which turns a query parameter value into
+   * name/value pairs following the OpenAPI `style` (form, spaceDelimited, pipeDelimited, deepObject)
+   * and `explode` rules.
+   */
+  private buildSerializeQueryParameterMethod(): ts.MethodDeclaration {
+    const name = ts.factory.createIdentifier('name');
+    const value = ts.factory.createIdentifier('value');
+    const style = ts.factory.createIdentifier('style');
+    const explode = ts.factory.createIdentifier('explode');
+    const separator = ts.factory.createIdentifier('separator');
+    const items = ts.factory.createIdentifier('items');
+    const entries = ts.factory.createIdentifier('entries');
+    const item = ts.factory.createIdentifier('item');
+    const key = ts.factory.createIdentifier('key');
+
+    const pairType = ts.factory.createTupleTypeNode([ts.factory.createKeywordTypeNode(ts.SyntaxKind.StringKeyword), ts.factory.createKeywordTypeNode(ts.SyntaxKind.StringKeyword)]);
+    const stringOf = (expression: ts.Expression): ts.CallExpression => ts.factory.createCallExpression(ts.factory.createIdentifier('String'), undefined, [expression]);
+    const styleIs = (expected: string): ts.BinaryExpression =>
+      ts.factory.createBinaryExpression(style, ts.SyntaxKind.EqualsEqualsEqualsToken, ts.factory.createStringLiteral(expected, true));
+    const constStatement = (identifier: ts.Identifier, initializer: ts.Expression): ts.VariableStatement =>
+      ts.factory.createVariableStatement(
+        undefined,
+        ts.factory.createVariableDeclarationList([ts.factory.createVariableDeclaration(identifier, undefined, undefined, initializer)], ts.NodeFlags.Const)
+      );
+    const mapCall = (target: ts.Expression, parameters: ts.BindingName, body: ts.Expression): ts.CallExpression =>
+      ts.factory.createCallExpression(ts.factory.createPropertyAccessExpression(target, 'map'), undefined, [
+        ts.factory.createArrowFunction(
+          undefined,
+          undefined,
+          [ts.factory.createParameterDeclaration(undefined, undefined, parameters)],
+          pairType,
+          ts.factory.createToken(ts.SyntaxKind.EqualsGreaterThanToken),
+          body
+        )
+      ]);
+    const keyItemBinding = (): ts.ArrayBindingPattern =>
+      ts.factory.createArrayBindingPattern([ts.factory.createBindingElement(undefined, undefined, key), ts.factory.createBindingElement(undefined, undefined, item)]);
+    const joined = (list: ts.Expression): ts.ArrayLiteralExpression =>
+      ts.factory.createArrayLiteralExpression(
+        [ts.factory.createArrayLiteralExpression([name, ts.factory.createCallExpression(ts.factory.createPropertyAccessExpression(list, 'join'), undefined, [separator])], false)],
+        false
+      );
+
+    return ts.factory.createMethodDeclaration(
+      [ts.factory.createToken(ts.SyntaxKind.ProtectedKeyword)],
+      undefined,
+      ts.factory.createIdentifier('serializeQueryParameter'),
+      undefined,
+      undefined,
+      [
+        this.typeBuilder.createParameter('name', 'string'),
+        this.typeBuilder.createParameter('value', 'unknown'),
+        this.typeBuilder.createParameter('style', 'string'),
+        this.typeBuilder.createParameter('explode', 'boolean')
+      ],
+      ts.factory.createArrayTypeNode(pairType),
+      ts.factory.createBlock(
+        [
+          // const separator = style === 'spaceDelimited' ? ' ' : style === 'pipeDelimited' ? '|' : ','
+          constStatement(
+            separator,
+            ts.factory.createConditionalExpression(
+              styleIs('spaceDelimited'),
+              undefined,
+              ts.factory.createStringLiteral(' ', true),
+              undefined,
+              ts.factory.createConditionalExpression(
+                styleIs('pipeDelimited'),
+                undefined,
+                ts.factory.createStringLiteral('|', true),
+                undefined,
+                ts.factory.createStringLiteral(',', true)
+              )
+            )
+          ),
+          // Arrays: one pair per item when exploded, otherwise a single delimited value
+          ts.factory.createIfStatement(
+            ts.factory.createCallExpression(ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier('Array'), 'isArray'), undefined, [value]),
+            ts.factory.createBlock(
+              [
+                constStatement(
+                  items,
+                  ts.factory.createCallExpression(ts.factory.createPropertyAccessExpression(value, 'map'), undefined, [
+                    ts.factory.createArrowFunction(
+                      undefined,
+                      undefined,
+                      [ts.factory.createParameterDeclaration(undefined, undefined, item)],
+                      undefined,
+                      ts.factory.createToken(ts.SyntaxKind.EqualsGreaterThanToken),
+                      stringOf(item)
+                    )
+                  ])
+                ),
+                ts.factory.createReturnStatement(
+                  ts.factory.createConditionalExpression(
+                    explode,
+                    undefined,
+                    mapCall(items, item, ts.factory.createArrayLiteralExpression([name, item], false)),
+                    undefined,
+                    joined(items)
+                  )
+                )
+              ],
+              true
+            )
+          ),
+          // Objects: deepObject brackets, exploded key/value pairs, or a single delimited value
+          ts.factory.createIfStatement(
+            ts.factory.createLogicalAnd(
+              ts.factory.createBinaryExpression(ts.factory.createTypeOfExpression(value), ts.SyntaxKind.EqualsEqualsEqualsToken, ts.factory.createStringLiteral('object', true)),
+              ts.factory.createBinaryExpression(value, ts.SyntaxKind.ExclamationEqualsEqualsToken, ts.factory.createNull())
+            ),
+            ts.factory.createBlock(
+              [
+                constStatement(
+                  entries,
+                  mapCall(
+                    ts.factory.createCallExpression(
+                      ts.factory.createPropertyAccessExpression(
+                        ts.factory.createCallExpression(ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier('Object'), 'entries'), undefined, [value]),
+                        'filter'
+                      ),
+                      undefined,
+                      [
+                        ts.factory.createArrowFunction(
+                          undefined,
+                          undefined,
+                          [
+                            ts.factory.createParameterDeclaration(
+                              undefined,
+                              undefined,
+                              ts.factory.createArrayBindingPattern([ts.factory.createOmittedExpression(), ts.factory.createBindingElement(undefined, undefined, item)])
+                            )
+                          ],
+                          undefined,
+                          ts.factory.createToken(ts.SyntaxKind.EqualsGreaterThanToken),
+                          ts.factory.createBinaryExpression(item, ts.SyntaxKind.ExclamationEqualsEqualsToken, ts.factory.createIdentifier('undefined'))
+                        )
+                      ]
+                    ),
+                    keyItemBinding(),
+                    ts.factory.createArrayLiteralExpression([key, stringOf(item)], false)
+                  )
+                ),
+                ts.factory.createIfStatement(
+                  styleIs('deepObject'),
+                  ts.factory.createBlock(
+                    [
+                      ts.factory.createReturnStatement(
+                        mapCall(
+                          entries,
+                          keyItemBinding(),
+                          ts.factory.createArrayLiteralExpression(
+                            [
+                              ts.factory.createTemplateExpression(ts.factory.createTemplateHead('', ''), [
+                                ts.factory.createTemplateSpan(name, ts.factory.createTemplateMiddle('[', '[')),
+                                ts.factory.createTemplateSpan(key, ts.factory.createTemplateTail(']', ']'))
+                              ]),
+                              item
+                            ],
+                            false
+                          )
+                        )
+                      )
+                    ],
+                    true
+                  )
+                ),
+                ts.factory.createReturnStatement(
+                  ts.factory.createConditionalExpression(
+                    explode,
+                    undefined,
+                    entries,
+                    undefined,
+                    joined(ts.factory.createCallExpression(ts.factory.createPropertyAccessExpression(entries, 'flat'), undefined, []))
+                  )
+                )
+              ],
+              true
+            )
+          ),
+          // Primitives
+          ts.factory.createReturnStatement(ts.factory.createArrayLiteralExpression([ts.factory.createArrayLiteralExpression([name, stringOf(value)], false)], false))
+        ],
+        true
+      )
+    );
+  }
+
+  /**
+   * Builds `JSON.parse`/`JSON.stringify`. When bigints are coerced, integers beyond Number.MAX_SAFE_INTEGER are
+   * read from their source text and bigints are written as raw JSON numbers, where the runtime supports it. Other
+   * runtimes (e.g. Node.js 20) parse and write them as the nearest number, losing precision.
+   */
+  private buildJsonCall(method: 'parse' | 'stringify', value: ts.Expression): ts.CallExpression {
+    const json = ts.factory.createIdentifier('JSON');
+    if (!this.coercion.bigints) {
+      return ts.factory.createCallExpression(ts.factory.createPropertyAccessExpression(json, method), undefined, [value]);
+    }
+
+    const key = ts.factory.createParameterDeclaration(undefined, undefined, '_key');
+    const val = ts.factory.createIdentifier('value');
+    const typeOf = (type: string): ts.Expression =>
+      ts.factory.createBinaryExpression(ts.factory.createTypeOfExpression(val), ts.SyntaxKind.EqualsEqualsEqualsToken, ts.factory.createStringLiteral(type, true));
+    const callback = (parameters: ts.ParameterDeclaration[], body: ts.Expression): ts.ArrowFunction =>
+      ts.factory.createArrowFunction(undefined, undefined, parameters, undefined, ts.factory.createToken(ts.SyntaxKind.EqualsGreaterThanToken), body);
+
+    if (method === 'parse') {
+      // (_key, value, context) => typeof value === 'number' && !Number.isSafeInteger(value) && /^-?\d+$/.test(context?.source ?? '') ? BigInt(context.source) : value
+      const source = ts.factory.createPropertyAccessChain(ts.factory.createIdentifier('context'), ts.factory.createToken(ts.SyntaxKind.QuestionDotToken), 'source');
+      const reviver = callback(
+        [key, ts.factory.createParameterDeclaration(undefined, undefined, val), ts.factory.createParameterDeclaration(undefined, undefined, 'context')],
+        ts.factory.createConditionalExpression(
+          ts.factory.createBinaryExpression(
+            ts.factory.createBinaryExpression(
+              typeOf('number'),
+              ts.SyntaxKind.AmpersandAmpersandToken,
+              ts.factory.createPrefixUnaryExpression(
+                ts.SyntaxKind.ExclamationToken,
+                ts.factory.createCallExpression(ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier('Number'), 'isSafeInteger'), undefined, [val])
+              )
+            ),
+            ts.SyntaxKind.AmpersandAmpersandToken,
+            ts.factory.createCallExpression(ts.factory.createPropertyAccessExpression(ts.factory.createRegularExpressionLiteral('/^-?\\d+$/'), 'test'), undefined, [
+              ts.factory.createBinaryExpression(source, ts.SyntaxKind.QuestionQuestionToken, ts.factory.createStringLiteral('', true))
+            ])
+          ),
+          undefined,
+          ts.factory.createCallExpression(ts.factory.createIdentifier('BigInt'), undefined, [
+            ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier('context'), 'source')
+          ]),
+          undefined,
+          val
+        )
+      );
+      return ts.factory.createCallExpression(ts.factory.createPropertyAccessExpression(json, 'parse'), undefined, [value, reviver]);
+    }
+
+    // (_key, value) => typeof value === 'bigint' ? ('rawJSON' in JSON ? JSON.rawJSON(value.toString()) : Number(value)) : value
+    const replacer = callback(
+      [key, ts.factory.createParameterDeclaration(undefined, undefined, val)],
+      ts.factory.createConditionalExpression(
+        typeOf('bigint'),
+        undefined,
+        ts.factory.createParenthesizedExpression(
+          ts.factory.createConditionalExpression(
+            ts.factory.createBinaryExpression(ts.factory.createStringLiteral('rawJSON', true), ts.SyntaxKind.InKeyword, json),
+            undefined,
+            ts.factory.createCallExpression(ts.factory.createPropertyAccessExpression(json, 'rawJSON'), undefined, [
+              ts.factory.createCallExpression(ts.factory.createPropertyAccessExpression(val, 'toString'), undefined, [])
+            ]),
+            undefined,
+            ts.factory.createCallExpression(ts.factory.createIdentifier('Number'), undefined, [val])
+          )
+        ),
+        undefined,
+        val
+      )
+    );
+    return ts.factory.createCallExpression(ts.factory.createPropertyAccessExpression(json, 'stringify'), undefined, [value, replacer]);
+  }
+
+  private buildHttpRequestMethod(): ts.MethodDeclaration {
+    return ts.factory.createMethodDeclaration(
+      [ts.factory.createToken(ts.SyntaxKind.ProtectedKeyword), ts.factory.createToken(ts.SyntaxKind.AsyncKeyword)],
+      undefined,
+      ts.factory.createIdentifier('makeRequest'),
+      undefined,
+      [this.typeBuilder.createGenericType('T')],
+      [
+        this.typeBuilder.createParameter('method', 'string'),
+        this.typeBuilder.createParameter('path', 'string'),
+        this.typeBuilder.createParameter('options', this.buildRequestOptionsTypeNode(), ts.factory.createObjectLiteralExpression([], false), false)
+      ],
+      ts.factory.createTypeReferenceNode(ts.factory.createIdentifier('Promise'), [ts.factory.createTypeReferenceNode(ts.factory.createIdentifier('T'), undefined)]),
+      ts.factory.createBlock(
+        [
+          // Add the credentials required by the operation
+          ...(this.hasSecuritySchemes()
+            ? [
+                ts.factory.createExpressionStatement(
+                  ts.factory.createBinaryExpression(
+                    ts.factory.createIdentifier('options'),
+                    ts.SyntaxKind.EqualsToken,
+                    ts.factory.createAwaitExpression(
+                      ts.factory.createCallExpression(ts.factory.createPropertyAccessExpression(ts.factory.createThis(), 'applySecurity'), undefined, [
+                        ts.factory.createIdentifier('options')
+                      ])
+                    )
+                  )
+                )
+              ]
+            : []),
+          // Create initial URL object that we will use to build the final URL
+          ts.factory.createVariableStatement(
+            undefined,
+            ts.factory.createVariableDeclarationList(
+              [
+                ts.factory.createVariableDeclaration(
+                  ts.factory.createIdentifier('baseUrl'),
+                  undefined,
+                  undefined,
+                  ts.factory.createNewExpression(ts.factory.createIdentifier('URL'), undefined, [
+                    ts.factory.createIdentifier('path'),
+                    ts.factory.createPropertyAccessExpression(ts.factory.createThis(), ts.factory.createPrivateIdentifier('#baseUrl'))
+                  ])
+                )
+              ],
+              ts.NodeFlags.Const
+            )
+          ),
+          ts.factory.createVariableStatement(
+            undefined,
+            ts.factory.createVariableDeclarationList(
+              [
+                ts.factory.createVariableDeclaration(
+                  ts.factory.createIdentifier('url'),
+                  undefined,
+                  undefined,
+                  ts.factory.createConditionalExpression(
+                    ts.factory.createBinaryExpression(
+                      ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier('options'), ts.factory.createIdentifier('params')),
+                      ts.factory.createToken(ts.SyntaxKind.AmpersandAmpersandToken),
+                      ts.factory.createBinaryExpression(
+                        ts.factory.createPropertyAccessExpression(
+                          ts.factory.createCallExpression(
+                            ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier('Object'), ts.factory.createIdentifier('keys')),
+                            undefined,
+                            [ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier('options'), ts.factory.createIdentifier('params'))]
+                          ),
+                          ts.factory.createIdentifier('length')
+                        ),
+                        ts.factory.createToken(ts.SyntaxKind.GreaterThanToken),
+                        ts.factory.createNumericLiteral('0')
+                      )
+                    ),
+                    undefined,
+                    ts.factory.createCallExpression(
+                      ts.factory.createParenthesizedExpression(
+                        ts.factory.createArrowFunction(
+                          undefined,
+                          undefined,
+                          [],
+                          undefined,
+                          ts.factory.createToken(ts.SyntaxKind.EqualsGreaterThanToken),
+                          ts.factory.createBlock(
+                            [
+                              ts.factory.createExpressionStatement(
+                                ts.factory.createCallExpression(
+                                  ts.factory.createPropertyAccessExpression(
+                                    ts.factory.createCallExpression(
+                                      ts.factory.createPropertyAccessExpression(
+                                        ts.factory.createCallExpression(
+                                          ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier('Object'), ts.factory.createIdentifier('entries')),
+                                          undefined,
+                                          [ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier('options'), ts.factory.createIdentifier('params'))]
+                                        ),
+                                        ts.factory.createIdentifier('filter')
+                                      ),
+                                      undefined,
+                                      [
+                                        ts.factory.createArrowFunction(
+                                          undefined,
+                                          undefined,
+                                          [
+                                            ts.factory.createParameterDeclaration(
+                                              undefined,
+                                              undefined,
+                                              ts.factory.createArrayBindingPattern([
+                                                ts.factory.createBindingElement(undefined, undefined, ts.factory.createIdentifier(''), undefined),
+                                                ts.factory.createBindingElement(undefined, undefined, ts.factory.createIdentifier('value'), undefined)
+                                              ]),
+                                              undefined,
+                                              undefined
+                                            )
+                                          ],
+                                          undefined,
+                                          ts.factory.createToken(ts.SyntaxKind.EqualsGreaterThanToken),
+                                          ts.factory.createBinaryExpression(
+                                            ts.factory.createIdentifier('value'),
+                                            ts.SyntaxKind.ExclamationEqualsEqualsToken,
+                                            ts.factory.createIdentifier('undefined')
+                                          )
+                                        )
+                                      ]
+                                    ),
+                                    ts.factory.createIdentifier('forEach')
+                                  ),
+                                  undefined,
+                                  [
+                                    ts.factory.createArrowFunction(
+                                      undefined,
+                                      undefined,
+                                      [
+                                        ts.factory.createParameterDeclaration(
+                                          undefined,
+                                          undefined,
+                                          ts.factory.createArrayBindingPattern([
+                                            ts.factory.createBindingElement(undefined, undefined, ts.factory.createIdentifier('key'), undefined),
+                                            ts.factory.createBindingElement(undefined, undefined, ts.factory.createIdentifier('value'), undefined)
+                                          ]),
+                                          undefined,
+                                          undefined
+                                        )
+                                      ],
+                                      undefined,
+                                      ts.factory.createToken(ts.SyntaxKind.EqualsGreaterThanToken),
+                                      ts.factory.createBlock(
+                                        [
+                                          // Look up the declared style/explode for this parameter, defaulting to form + explode
+                                          ts.factory.createVariableStatement(
+                                            undefined,
+                                            ts.factory.createVariableDeclarationList(
+                                              [
+                                                ts.factory.createVariableDeclaration(
+                                                  ts.factory.createIdentifier('serialization'),
+                                                  undefined,
+                                                  undefined,
+                                                  ts.factory.createElementAccessChain(
+                                                    ts.factory.createPropertyAccessExpression(
+                                                      ts.factory.createIdentifier('options'),
+                                                      ts.factory.createIdentifier('querySerialization')
+                                                    ),
+                                                    ts.factory.createToken(ts.SyntaxKind.QuestionDotToken),
+                                                    ts.factory.createIdentifier('key')
+                                                  )
+                                                )
+                                              ],
+                                              ts.NodeFlags.Const
+                                            )
+                                          ),
+                                          ts.factory.createExpressionStatement(
+                                            ts.factory.createCallExpression(
+                                              ts.factory.createPropertyAccessExpression(
+                                                ts.factory.createCallExpression(
+                                                  ts.factory.createPropertyAccessExpression(ts.factory.createThis(), ts.factory.createIdentifier('serializeQueryParameter')),
+                                                  undefined,
+                                                  [
+                                                    ts.factory.createIdentifier('key'),
+                                                    ts.factory.createIdentifier('value'),
+                                                    ts.factory.createBinaryExpression(
+                                                      ts.factory.createPropertyAccessChain(
+                                                        ts.factory.createIdentifier('serialization'),
+                                                        ts.factory.createToken(ts.SyntaxKind.QuestionDotToken),
+                                                        ts.factory.createIdentifier('style')
+                                                      ),
+                                                      ts.factory.createToken(ts.SyntaxKind.QuestionQuestionToken),
+                                                      ts.factory.createStringLiteral('form', true)
+                                                    ),
+                                                    ts.factory.createBinaryExpression(
+                                                      ts.factory.createPropertyAccessChain(
+                                                        ts.factory.createIdentifier('serialization'),
+                                                        ts.factory.createToken(ts.SyntaxKind.QuestionDotToken),
+                                                        ts.factory.createIdentifier('explode')
+                                                      ),
+                                                      ts.factory.createToken(ts.SyntaxKind.QuestionQuestionToken),
+                                                      ts.factory.createTrue()
+                                                    )
+                                                  ]
+                                                ),
+                                                ts.factory.createIdentifier('forEach')
+                                              ),
+                                              undefined,
+                                              [
+                                                ts.factory.createArrowFunction(
+                                                  undefined,
+                                                  undefined,
+                                                  [
+                                                    ts.factory.createParameterDeclaration(
+                                                      undefined,
+                                                      undefined,
+                                                      ts.factory.createArrayBindingPattern([
+                                                        ts.factory.createBindingElement(undefined, undefined, ts.factory.createIdentifier('name'), undefined),
+                                                        ts.factory.createBindingElement(undefined, undefined, ts.factory.createIdentifier('serialized'), undefined)
+                                                      ])
+                                                    )
+                                                  ],
+                                                  undefined,
+                                                  ts.factory.createToken(ts.SyntaxKind.EqualsGreaterThanToken),
+                                                  ts.factory.createBlock(
+                                                    [
+                                                      ts.factory.createExpressionStatement(
+                                                        ts.factory.createCallExpression(
+                                                          ts.factory.createPropertyAccessExpression(
+                                                            ts.factory.createPropertyAccessExpression(
+                                                              ts.factory.createIdentifier('baseUrl'),
+                                                              ts.factory.createIdentifier('searchParams')
+                                                            ),
+                                                            ts.factory.createIdentifier('append')
+                                                          ),
+                                                          undefined,
+                                                          [ts.factory.createIdentifier('name'), ts.factory.createIdentifier('serialized')]
+                                                        )
+                                                      )
+                                                    ],
+                                                    false
+                                                  )
+                                                )
+                                              ]
+                                            )
+                                          )
+                                        ],
+                                        true
+                                      )
+                                    )
+                                  ]
+                                )
+                              ),
+                              ts.factory.createReturnStatement(
+                                ts.factory.createCallExpression(
+                                  ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier('baseUrl'), ts.factory.createIdentifier('toString')),
+                                  undefined,
+                                  []
+                                )
+                              )
+                            ],
+                            true
+                          )
+                        )
+                      ),
+                      undefined,
+                      []
+                    ),
+                    undefined,
                     ts.factory.createCallExpression(
-                      ts.factory.createParenthesizedExpression(
-                        ts.factory.createArrowFunction(
+                      ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier('baseUrl'), ts.factory.createIdentifier('toString')),
+                      undefined,
+                      []
+                    )
+                  )
+                )
+              ],
+              ts.NodeFlags.Const
+            )
+          ),
+          // Get base request options (headers, signal, credentials, etc.)
+          ts.factory.createVariableStatement(
+            undefined,
+            ts.factory.createVariableDeclarationList(
+              [
+                ts.factory.createVariableDeclaration(
+                  ts.factory.createIdentifier('baseOptions'),
+                  undefined,
+                  undefined,
+                  ts.factory.createCallExpression(
+                    ts.factory.createPropertyAccessExpression(ts.factory.createThis(), ts.factory.createIdentifier('getBaseRequestOptions')),
+                    undefined,
+                    []
+                  )
+                )
+              ],
+              ts.NodeFlags.Const
+            )
+          ),
+          // Build Content-Type header
+          ts.factory.createVariableStatement(
+            undefined,
+            ts.factory.createVariableDeclarationList(
+              [
+                ts.factory.createVariableDeclaration(
+                  ts.factory.createIdentifier('contentType'),
+                  undefined,
+                  undefined,
+                  ts.factory.createBinaryExpression(
+                    ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier('options'), ts.factory.createIdentifier('contentType')),
+                    ts.factory.createToken(ts.SyntaxKind.QuestionQuestionToken),
+                    ts.factory.createStringLiteral('application/json', true)
+                  )
+                )
+              ],
+              ts.NodeFlags.Const
+            )
+          ),
+          // Merge headers: base headers, Content-Type, and request-specific headers
+          ts.factory.createVariableStatement(
+            undefined,
+            ts.factory.createVariableDeclarationList(
+              [
+                ts.factory.createVariableDeclaration(
+                  ts.factory.createIdentifier('baseHeaders'),
+                  undefined,
+                  undefined,
+                  ts.factory.createConditionalExpression(
+                    ts.factory.createBinaryExpression(
+                      ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier('baseOptions'), ts.factory.createIdentifier('headers')),
+                      ts.factory.createToken(ts.SyntaxKind.ExclamationEqualsEqualsToken),
+                      ts.factory.createIdentifier('undefined')
+                    ),
+                    undefined,
+                    ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier('baseOptions'), ts.factory.createIdentifier('headers')),
+                    undefined,
+                    ts.factory.createObjectLiteralExpression([], false)
+                  )
+                )
+              ],
+              ts.NodeFlags.Const
+            )
+          ),
+          // Stringify operation header parameters, dropping the ones left undefined
+          ts.factory.createVariableStatement(
+            undefined,
+            ts.factory.createVariableDeclarationList(
+              [
+                ts.factory.createVariableDeclaration(
+                  ts.factory.createIdentifier('requestHeaders'),
+                  undefined,
+                  undefined,
+                  ts.factory.createCallExpression(
+                    ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier('Object'), ts.factory.createIdentifier('fromEntries')),
+                    undefined,
+                    [
+                      ts.factory.createCallExpression(
+                        ts.factory.createPropertyAccessExpression(this.buildDefinedEntriesExpression('headers'), ts.factory.createIdentifier('map')),
+                        undefined,
+                        [
+                          this.buildEntryMapper(
+                            ts.factory.createArrayLiteralExpression(
+                              [
+                                ts.factory.createIdentifier('key'),
+                                ts.factory.createCallExpression(ts.factory.createIdentifier('String'), undefined, [ts.factory.createIdentifier('value')])
+                              ],
+                              false
+                            )
+                          )
+                        ]
+                      )
+                    ]
+                  )
+                )
+              ],
+              ts.NodeFlags.Const
+            )
+          ),
+          // Serialize cookie parameters into a single Cookie header
+          ts.factory.createVariableStatement(
+            undefined,
+            ts.factory.createVariableDeclarationList(
+              [
+                ts.factory.createVariableDeclaration(
+                  ts.factory.createIdentifier('cookieHeader'),
+                  undefined,
+                  undefined,
+                  ts.factory.createCallExpression(
+                    ts.factory.createPropertyAccessExpression(
+                      ts.factory.createCallExpression(
+                        ts.factory.createPropertyAccessExpression(this.buildDefinedEntriesExpression('cookies'), ts.factory.createIdentifier('map')),
+                        undefined,
+                        [
+                          this.buildEntryMapper(
+                            ts.factory.createTemplateExpression(ts.factory.createTemplateHead('', ''), [
+                              ts.factory.createTemplateSpan(ts.factory.createIdentifier('key'), ts.factory.createTemplateMiddle('=', '=')),
+                              ts.factory.createTemplateSpan(
+                                ts.factory.createCallExpression(ts.factory.createIdentifier('encodeURIComponent'), undefined, [
+                                  ts.factory.createCallExpression(ts.factory.createIdentifier('String'), undefined, [ts.factory.createIdentifier('value')])
+                                ]),
+                                ts.factory.createTemplateTail('', '')
+                              )
+                            ])
+                          )
+                        ]
+                      ),
+                      ts.factory.createIdentifier('join')
+                    ),
+                    undefined,
+                    [ts.factory.createStringLiteral('; ', true)]
+                  )
+                )
+              ],
+              ts.NodeFlags.Const
+            )
+          ),
+          ts.factory.createVariableStatement(
+            undefined,
+            ts.factory.createVariableDeclarationList(
+              [
+                ts.factory.createVariableDeclaration(
+                  ts.factory.createIdentifier('headers'),
+                  undefined,
+                  undefined,
+                  ts.factory.createCallExpression(
+                    ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier('Object'), ts.factory.createIdentifier('assign')),
+                    undefined,
+                    [
+                      ts.factory.createObjectLiteralExpression([], false),
+                      ts.factory.createIdentifier('baseHeaders'),
+                      // Multipart bodies must let fetch set Content-Type so the boundary is included
+                      ts.factory.createConditionalExpression(
+                        ts.factory.createBinaryExpression(
+                          ts.factory.createIdentifier('contentType'),
+                          ts.factory.createToken(ts.SyntaxKind.EqualsEqualsEqualsToken),
+                          ts.factory.createStringLiteral('multipart/form-data', true)
+                        ),
+                        undefined,
+                        ts.factory.createObjectLiteralExpression([], false),
+                        undefined,
+                        ts.factory.createObjectLiteralExpression(
+                          [ts.factory.createPropertyAssignment(ts.factory.createStringLiteral('Content-Type', true), ts.factory.createIdentifier('contentType'))],
+                          false
+                        )
+                      ),
+                      ts.factory.createIdentifier('requestHeaders'),
+                      ts.factory.createConditionalExpression(
+                        ts.factory.createIdentifier('cookieHeader'),
+                        undefined,
+                        ts.factory.createObjectLiteralExpression(
+                          [ts.factory.createPropertyAssignment(ts.factory.createIdentifier('Cookie'), ts.factory.createIdentifier('cookieHeader'))],
+                          false
+                        ),
+                        undefined,
+                        ts.factory.createObjectLiteralExpression([], false)
+                      )
+                    ]
+                  )
+                )
+              ],
+              ts.NodeFlags.Const
+            )
+          ),
+          // Build body: form-urlencoded, multipart, JSON, or raw binary passthrough
+          ts.factory.createVariableStatement(
+            undefined,
+            ts.factory.createVariableDeclarationList(
+              [
+                ts.factory.createVariableDeclaration(
+                  ts.factory.createIdentifier('body'),
+                  undefined,
+                  undefined,
+                  ts.factory.createConditionalExpression(
+                    ts.factory.createBinaryExpression(
+                      ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier('options'), ts.factory.createIdentifier('data')),
+                      ts.factory.createToken(ts.SyntaxKind.ExclamationEqualsEqualsToken),
+                      ts.factory.createIdentifier('undefined')
+                    ),
+                    undefined,
+                    ts.factory.createConditionalExpression(
+                      ts.factory.createBinaryExpression(
+                        ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier('options'), ts.factory.createIdentifier('contentType')),
+                        ts.factory.createToken(ts.SyntaxKind.EqualsEqualsEqualsToken),
+                        ts.factory.createStringLiteral('application/x-www-form-urlencoded', true)
+                      ),
+                      undefined,
+                      // Form-urlencoded: convert object to URLSearchParams
+                      ts.factory.createCallExpression(
+                        ts.factory.createParenthesizedExpression(
+                          ts.factory.createArrowFunction(
+                            undefined,
+                            undefined,
+                            [],
+                            undefined,
+                            ts.factory.createToken(ts.SyntaxKind.EqualsGreaterThanToken),
+                            ts.factory.createBlock(
+                              [
+                                ts.factory.createVariableStatement(
+                                  undefined,
+                                  ts.factory.createVariableDeclarationList(
+                                    [
+                                      ts.factory.createVariableDeclaration(
+                                        ts.factory.createIdentifier('params'),
+                                        undefined,
+                                        undefined,
+                                        ts.factory.createNewExpression(ts.factory.createIdentifier('URLSearchParams'), undefined, [])
+                                      )
+                                    ],
+                                    ts.NodeFlags.Const
+                                  )
+                                ),
+                                ts.factory.createExpressionStatement(
+                                  ts.factory.createCallExpression(
+                                    ts.factory.createPropertyAccessExpression(
+                                      ts.factory.createCallExpression(
+                                        ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier('Object'), ts.factory.createIdentifier('entries')),
+                                        undefined,
+                                        [ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier('options'), ts.factory.createIdentifier('data'))]
+                                      ),
+                                      ts.factory.createIdentifier('forEach')
+                                    ),
+                                    undefined,
+                                    [
+                                      ts.factory.createArrowFunction(
+                                        undefined,
+                                        undefined,
+                                        [
+                                          ts.factory.createParameterDeclaration(
+                                            undefined,
+                                            undefined,
+                                            ts.factory.createArrayBindingPattern([
+                                              ts.factory.createBindingElement(undefined, undefined, ts.factory.createIdentifier('key'), undefined),
+                                              ts.factory.createBindingElement(undefined, undefined, ts.factory.createIdentifier('value'), undefined)
+                                            ]),
+                                            undefined,
+                                            undefined
+                                          )
+                                        ],
+                                        undefined,
+                                        ts.factory.createToken(ts.SyntaxKind.EqualsGreaterThanToken),
+                                        ts.factory.createBlock(
+                                          [
+                                            ts.factory.createExpressionStatement(
+                                              ts.factory.createCallExpression(
+                                                ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier('params'), ts.factory.createIdentifier('set')),
+                                                undefined,
+                                                [
+                                                  ts.factory.createIdentifier('key'),
+                                                  ts.factory.createCallExpression(ts.factory.createIdentifier('String'), undefined, [ts.factory.createIdentifier('value')])
+                                                ]
+                                              )
+                                            )
+                                          ],
+                                          false
+                                        )
+                                      )
+                                    ]
+                                  )
+                                ),
+                                ts.factory.createReturnStatement(
+                                  ts.factory.createCallExpression(
+                                    ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier('params'), ts.factory.createIdentifier('toString')),
+                                    undefined,
+                                    []
+                                  )
+                                )
+                              ],
+                              false
+                            )
+                          )
+                        ),
+                        undefined,
+                        []
+                      ),
+                      undefined,
+                      ts.factory.createConditionalExpression(
+                        ts.factory.createBinaryExpression(
+                          ts.factory.createIdentifier('contentType'),
+                          ts.factory.createToken(ts.SyntaxKind.EqualsEqualsEqualsToken),
+                          ts.factory.createStringLiteral('multipart/form-data', true)
+                        ),
+                        undefined,
+                        // Multipart: convert object to FormData
+                        this.buildFormDataExpression(),
+                        undefined,
+                        ts.factory.createConditionalExpression(
+                          ts.factory.createBinaryExpression(
+                            ts.factory.createIdentifier('contentType'),
+                            ts.factory.createToken(ts.SyntaxKind.EqualsEqualsEqualsToken),
+                            ts.factory.createStringLiteral('application/json', true)
+                          ),
                           undefined,
+                          // JSON: stringify the data
+                          this.buildJsonCall('stringify', ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier('options'), ts.factory.createIdentifier('data'))),
                           undefined,
-                          [],
+                          // Binary: pass Blob / ArrayBuffer / typed arrays through untouched
+                          ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier('options'), ts.factory.createIdentifier('data'))
+                        )
+                      )
+                    ),
+                    undefined,
+                    ts.factory.createNull()
+                  )
+                )
+              ],
+              ts.NodeFlags.Const
+            )
+          ),
+          // Make fetch request: merge base options with method, headers, and body
+          ts.factory.createVariableStatement(
+            undefined,
+            ts.factory.createVariableDeclarationList(
+              [
+                ts.factory.createVariableDeclaration(
+                  ts.factory.createIdentifier('rawResponse'),
+                  undefined,
+                  undefined,
+                  ts.factory.createAwaitExpression(
+                    ts.factory.createCallExpression(ts.factory.createIdentifier('fetch'), undefined, [
+                      ts.factory.createIdentifier('url'),
+                      ts.factory.createCallExpression(
+                        ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier('Object'), ts.factory.createIdentifier('assign')),
+                        undefined,
+                        [
+                          ts.factory.createObjectLiteralExpression([], false),
+                          ts.factory.createIdentifier('baseOptions'),
+                          ts.factory.createObjectLiteralExpression(
+                            [
+                              ts.factory.createShorthandPropertyAssignment(ts.factory.createIdentifier('method'), undefined),
+                              ts.factory.createPropertyAssignment(ts.factory.createIdentifier('headers'), ts.factory.createIdentifier('headers')),
+                              ts.factory.createPropertyAssignment(ts.factory.createIdentifier('body'), ts.factory.createIdentifier('body'))
+                            ],
+                            false
+                          )
+                        ]
+                      )
+                    ])
+                  )
+                )
+              ],
+              ts.NodeFlags.Const
+            )
+          ),
+          // Handle response through hook (allows subclasses to intercept and modify response)
+          ts.factory.createVariableStatement(
+            undefined,
+            ts.factory.createVariableDeclarationList(
+              [
+                ts.factory.createVariableDeclaration(
+                  ts.factory.createIdentifier('response'),
+                  undefined,
+                  undefined,
+                  ts.factory.createAwaitExpression(
+                    ts.factory.createCallExpression(
+                      ts.factory.createPropertyAccessExpression(ts.factory.createThis(), ts.factory.createIdentifier('handleResponse')),
+                      [ts.factory.createTypeReferenceNode(ts.factory.createIdentifier('T'), undefined)],
+                      [
+                        ts.factory.createIdentifier('rawResponse'),
+                        ts.factory.createIdentifier('method'),
+                        ts.factory.createIdentifier('path'),
+                        ts.factory.createIdentifier('options')
+                      ]
+                    )
+                  )
+                )
+              ],
+              ts.NodeFlags.Const
+            )
+          ),
+          // Expose the response to Result-style methods
+          ts.factory.createExpressionStatement(
+            ts.factory.createCallChain(
+              ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier('options'), ts.factory.createIdentifier('onResponse')),
+              ts.factory.createToken(ts.SyntaxKind.QuestionDotToken),
+              undefined,
+              [ts.factory.createIdentifier('response')]
+            )
+          ),
+          // Check response status, throwing an ApiError with the declared error body
+          ts.factory.createIfStatement(
+            ts.factory.createPrefixUnaryExpression(
+              ts.SyntaxKind.ExclamationToken,
+              ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier('response'), ts.factory.createIdentifier('ok'))
+            ),
+            ts.factory.createThrowStatement(
+              ts.factory.createAwaitExpression(
+                ts.factory.createCallExpression(ts.factory.createPropertyAccessExpression(ts.factory.createThis(), ts.factory.createIdentifier('createApiError')), undefined, [
+                  ts.factory.createIdentifier('response'),
+                  ts.factory.createBinaryExpression(
+                    ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier('options'), ts.factory.createIdentifier('errorSchemas')),
+                    ts.factory.createToken(ts.SyntaxKind.QuestionQuestionToken),
+                    ts.factory.createObjectLiteralExpression([], false)
+                  )
+                ])
+              )
+            ),
+            undefined
+          ),
+          // Skip JSON parse for 204 No Content / 205 Reset Content (RFC 7231: bodies MUST be empty)
+          ts.factory.createIfStatement(
+            ts.factory.createBinaryExpression(
+              ts.factory.createBinaryExpression(
+                ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier('response'), ts.factory.createIdentifier('status')),
+                ts.factory.createToken(ts.SyntaxKind.EqualsEqualsEqualsToken),
+                ts.factory.createNumericLiteral(204)
+              ),
+              ts.factory.createToken(ts.SyntaxKind.BarBarToken),
+              ts.factory.createBinaryExpression(
+                ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier('response'), ts.factory.createIdentifier('status')),
+                ts.factory.createToken(ts.SyntaxKind.EqualsEqualsEqualsToken),
+                ts.factory.createNumericLiteral(205)
+              )
+            ),
+            ts.factory.createBlock(
+              [
+                ts.factory.createReturnStatement(
+                  ts.factory.createAsExpression(ts.factory.createIdentifier('undefined'), ts.factory.createTypeReferenceNode(ts.factory.createIdentifier('T'), undefined))
+                )
+              ],
+              true
+            ),
+            undefined
+          ),
+          // Operations declaring no response body never parse one
+          ts.factory.createIfStatement(
+            ts.factory.createBinaryExpression(
+              ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier('options'), ts.factory.createIdentifier('responseType')),
+              ts.factory.createToken(ts.SyntaxKind.EqualsEqualsEqualsToken),
+              ts.factory.createStringLiteral('void', true)
+            ),
+            ts.factory.createBlock(
+              [
+                ts.factory.createReturnStatement(
+                  ts.factory.createAsExpression(ts.factory.createIdentifier('undefined'), ts.factory.createTypeReferenceNode(ts.factory.createIdentifier('T'), undefined))
+                )
+              ],
+              true
+            ),
+            undefined
+          ),
+          // Text and binary media types are read without JSON parsing
+          ts.factory.createIfStatement(
+            ts.factory.createBinaryExpression(
+              ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier('options'), ts.factory.createIdentifier('responseType')),
+              ts.factory.createToken(ts.SyntaxKind.EqualsEqualsEqualsToken),
+              ts.factory.createStringLiteral('text', true)
+            ),
+            ts.factory.createBlock(
+              [
+                ts.factory.createReturnStatement(
+                  ts.factory.createAsExpression(
+                    ts.factory.createParenthesizedExpression(
+                      ts.factory.createAwaitExpression(
+                        ts.factory.createCallExpression(
+                          ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier('response'), ts.factory.createIdentifier('text')),
+                          undefined,
+                          []
+                        )
+                      )
+                    ),
+                    ts.factory.createTypeReferenceNode(ts.factory.createIdentifier('T'), undefined)
+                  )
+                )
+              ],
+              true
+            ),
+            undefined
+          ),
+          ts.factory.createIfStatement(
+            ts.factory.createBinaryExpression(
+              ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier('options'), ts.factory.createIdentifier('responseType')),
+              ts.factory.createToken(ts.SyntaxKind.EqualsEqualsEqualsToken),
+              ts.factory.createStringLiteral('blob', true)
+            ),
+            ts.factory.createBlock(
+              [
+                ts.factory.createReturnStatement(
+                  ts.factory.createAsExpression(
+                    ts.factory.createParenthesizedExpression(
+                      ts.factory.createAwaitExpression(
+                        ts.factory.createCallExpression(
+                          ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier('response'), ts.factory.createIdentifier('blob')),
                           undefined,
-                          ts.factory.createToken(ts.SyntaxKind.EqualsGreaterThanToken),
-                          ts.factory.createBlock(
-                            [
-                              ts.factory.createExpressionStatement(
-                                ts.factory.createCallExpression(
-                                  ts.factory.createPropertyAccessExpression(
-                                    ts.factory.createCallExpression(
-                                      ts.factory.createPropertyAccessExpression(
-                                        ts.factory.createCallExpression(
-                                          ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier('Object'), ts.factory.createIdentifier('entries')),
-                                          undefined,
-                                          [ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier('options'), ts.factory.createIdentifier('params'))]
-                                        ),
-                                        ts.factory.createIdentifier('filter')
-                                      ),
-                                      undefined,
-                                      [
-                                        ts.factory.createArrowFunction(
-                                          undefined,
-                                          undefined,
-                                          [
-                                            ts.factory.createParameterDeclaration(
-                                              undefined,
-                                              undefined,
-                                              ts.factory.createArrayBindingPattern([
-                                                ts.factory.createBindingElement(undefined, undefined, ts.factory.createIdentifier(''), undefined),
-                                                ts.factory.createBindingElement(undefined, undefined, ts.factory.createIdentifier('value'), undefined)
-                                              ]),
-                                              undefined,
-                                              undefined
-                                            )
-                                          ],
-                                          undefined,
-                                          ts.factory.createToken(ts.SyntaxKind.EqualsGreaterThanToken),
-                                          ts.factory.createBinaryExpression(
-                                            ts.factory.createIdentifier('value'),
-                                            ts.SyntaxKind.ExclamationEqualsEqualsToken,
-                                            ts.factory.createIdentifier('undefined')
-                                          )
-                                        )
-                                      ]
-                                    ),
-                                    ts.factory.createIdentifier('forEach')
-                                  ),
-                                  undefined,
-                                  [
-                                    ts.factory.createArrowFunction(
-                                      undefined,
-                                      undefined,
-                                      [
-                                        ts.factory.createParameterDeclaration(
-                                          undefined,
-                                          undefined,
-                                          ts.factory.createArrayBindingPattern([
-                                            ts.factory.createBindingElement(undefined, undefined, ts.factory.createIdentifier('key'), undefined),
-                                            ts.factory.createBindingElement(undefined, undefined, ts.factory.createIdentifier('value'), undefined)
-                                          ]),
-                                          undefined,
-                                          undefined
-                                        )
-                                      ],
-                                      undefined,
-                                      ts.factory.createToken(ts.SyntaxKind.EqualsGreaterThanToken),
-                                      ts.factory.createBlock(
-                                        [
-                                          ts.factory.createExpressionStatement(
-                                            ts.factory.createCallExpression(
-                                              ts.factory.createPropertyAccessExpression(
-                                                ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier('baseUrl'), ts.factory.createIdentifier('searchParams')),
-                                                ts.factory.createIdentifier('set')
-                                              ),
-                                              undefined,
-                                              [
-                                                ts.factory.createIdentifier('key'),
-                                                ts.factory.createCallExpression(ts.factory.createIdentifier('String'), undefined, [ts.factory.createIdentifier('value')])
-                                              ]
-                                            )
-                                          )
-                                        ],
-                                        false
-                                      )
-                                    )
-                                  ]
-                                )
-                              ),
-                              ts.factory.createReturnStatement(
-                                ts.factory.createCallExpression(
-                                  ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier('baseUrl'), ts.factory.createIdentifier('toString')),
-                                  undefined,
-                                  []
-                                )
-                              )
-                            ],
-                            true
-                          )
+                          []
                         )
-                      ),
-                      undefined,
-                      []
+                      )
                     ),
-                    undefined,
+                    ts.factory.createTypeReferenceNode(ts.factory.createIdentifier('T'), undefined)
+                  )
+                )
+              ],
+              true
+            ),
+            undefined
+          ),
+          // Return parsed JSON, reading the raw text when large integers must keep their precision
+          ts.factory.createReturnStatement(
+            this.coercion.bigints
+              ? this.buildJsonCall(
+                  'parse',
+                  ts.factory.createAwaitExpression(
                     ts.factory.createCallExpression(
-                      ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier('baseUrl'), ts.factory.createIdentifier('toString')),
+                      ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier('response'), ts.factory.createIdentifier('text')),
                       undefined,
                       []
                     )
                   )
                 )
-              ],
-              ts.NodeFlags.Const
-            )
-          ),
-          // Get base request options (headers, signal, credentials, etc.)
-          ts.factory.createVariableStatement(
+              : ts.factory.createAwaitExpression(
+                  ts.factory.createCallExpression(
+                    ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier('response'), ts.factory.createIdentifier('json')),
+                    undefined,
+                    []
+                  )
+                )
+          )
+        ],
+        true
+      )
+    );
+  }
+
+  /**
+   * Builds an IIFE converting `options.data` to `FormData`. Blobs and files are appended as-is,
+   * arrays produce one part per item and nested objects are sent as JSON strings.
+   */
+  private buildFormDataExpression(): ts.CallExpression {
+    const formData = ts.factory.createIdentifier('formData');
+    const item = ts.factory.createIdentifier('item');
+
+    const appendItem = ts.factory.createExpressionStatement(
+      ts.factory.createCallExpression(ts.factory.createPropertyAccessExpression(formData, 'append'), undefined, [
+        ts.factory.createIdentifier('key'),
+        ts.factory.createConditionalExpression(
+          ts.factory.createBinaryExpression(item, ts.SyntaxKind.InstanceOfKeyword, ts.factory.createIdentifier('Blob')),
+          undefined,
+          item,
+          undefined,
+          ts.factory.createConditionalExpression(
+            ts.factory.createLogicalAnd(
+              ts.factory.createBinaryExpression(ts.factory.createTypeOfExpression(item), ts.SyntaxKind.EqualsEqualsEqualsToken, ts.factory.createStringLiteral('object', true)),
+              ts.factory.createBinaryExpression(item, ts.SyntaxKind.ExclamationEqualsEqualsToken, ts.factory.createNull())
+            ),
+            undefined,
+            ts.factory.createCallExpression(ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier('JSON'), 'stringify'), undefined, [item]),
+            undefined,
+            ts.factory.createCallExpression(ts.factory.createIdentifier('String'), undefined, [item])
+          )
+        )
+      ])
+    );
+
+    const appendEntry = this.buildEntryMapper(
+      ts.factory.createBlock(
+        [
+          ts.factory.createExpressionStatement(
+            ts.factory.createCallExpression(
+              ts.factory.createPropertyAccessExpression(
+                ts.factory.createParenthesizedExpression(
+                  ts.factory.createConditionalExpression(
+                    ts.factory.createCallExpression(ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier('Array'), 'isArray'), undefined, [
+                      ts.factory.createIdentifier('value')
+                    ]),
+                    undefined,
+                    ts.factory.createIdentifier('value'),
+                    undefined,
+                    ts.factory.createArrayLiteralExpression([ts.factory.createIdentifier('value')], false)
+                  )
+                ),
+                'forEach'
+              ),
+              undefined,
+              [
+                ts.factory.createArrowFunction(
+                  undefined,
+                  undefined,
+                  [ts.factory.createParameterDeclaration(undefined, undefined, item)],
+                  undefined,
+                  ts.factory.createToken(ts.SyntaxKind.EqualsGreaterThanToken),
+                  ts.factory.createBlock([appendItem], false)
+                )
+              ]
+            )
+          )
+        ],
+        false
+      )
+    );
+
+    return ts.factory.createCallExpression(
+      ts.factory.createParenthesizedExpression(
+        ts.factory.createArrowFunction(
+          undefined,
+          undefined,
+          [],
+          undefined,
+          ts.factory.createToken(ts.SyntaxKind.EqualsGreaterThanToken),
+          ts.factory.createBlock(
+            [
+              ts.factory.createVariableStatement(
+                undefined,
+                ts.factory.createVariableDeclarationList(
+                  [ts.factory.createVariableDeclaration(formData, undefined, undefined, ts.factory.createNewExpression(ts.factory.createIdentifier('FormData'), undefined, []))],
+                  ts.NodeFlags.Const
+                )
+              ),
+              ts.factory.createExpressionStatement(
+                ts.factory.createCallExpression(ts.factory.createPropertyAccessExpression(this.buildDefinedEntriesExpression('data'), 'forEach'), undefined, [appendEntry])
+              ),
+              ts.factory.createReturnStatement(formData)
+            ],
+            false
+          )
+        )
+      ),
+      undefined,
+      []
+    );
+  }
+
+  /**
+   * Builds `Object.entries(options.<key> ?? {}).filter(([, value]) => value !== undefined)`.
+   */
+  private buildDefinedEntriesExpression(key: string): ts.CallExpression {
+    return ts.factory.createCallExpression(
+      ts.factory.createPropertyAccessExpression(
+        ts.factory.createCallExpression(ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier('Object'), ts.factory.createIdentifier('entries')), undefined, [
+          ts.factory.createBinaryExpression(
+            ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier('options'), ts.factory.createIdentifier(key)),
+            ts.factory.createToken(ts.SyntaxKind.QuestionQuestionToken),
+            ts.factory.createObjectLiteralExpression([], false)
+          )
+        ]),
+        ts.factory.createIdentifier('filter')
+      ),
+      undefined,
+      [
+        ts.factory.createArrowFunction(
+          undefined,
+          undefined,
+          [
+            ts.factory.createParameterDeclaration(
+              undefined,
+              undefined,
+              ts.factory.createArrayBindingPattern([
+                ts.factory.createOmittedExpression(),
+                ts.factory.createBindingElement(undefined, undefined, ts.factory.createIdentifier('value'), undefined)
+              ])
+            )
+          ],
+          undefined,
+          ts.factory.createToken(ts.SyntaxKind.EqualsGreaterThanToken),
+          ts.factory.createBinaryExpression(ts.factory.createIdentifier('value'), ts.SyntaxKind.ExclamationEqualsEqualsToken, ts.factory.createIdentifier('undefined'))
+        )
+      ]
+    );
+  }
+
+  /**
+   * Builds `([key, value]) => <body>` for mapping over object entries.
+   */
+  private buildEntryMapper(body: ts.ConciseBody): ts.ArrowFunction {
+    return ts.factory.createArrowFunction(
+      undefined,
+      undefined,
+      [
+        ts.factory.createParameterDeclaration(
+          undefined,
+          undefined,
+          ts.factory.createArrayBindingPattern([
+            ts.factory.createBindingElement(undefined, undefined, ts.factory.createIdentifier('key'), undefined),
+            ts.factory.createBindingElement(undefined, undefined, ts.factory.createIdentifier('value'), undefined)
+          ])
+        )
+      ],
+      undefined,
+      ts.factory.createToken(ts.SyntaxKind.EqualsGreaterThanToken),
+      body
+    );
+  }
+
+  /**
+   * Builds the client methods of every operation, in path order, along with the first tag of the operation.
+   */
+  private buildClientMethods(openapi: OpenApiSpecType, schemas: Record<string, ts.VariableStatement>): OperationMethods[] {
+    // Track operation IDs to detect duplicates
+    const operationIdMap = new Map<string, { method: string; path: string }[]>();
+
+    // First pass: collect all operation IDs and their methods/paths
+    Object.entries(openapi.paths).forEach(([path, pathItem]) => {
+      Object.entries(pathItem)
+        .filter(([method]) => ['get', 'post', 'put', 'patch', 'delete', 'head', 'options'].includes(method))
+        .forEach(([method, methodSchema]) => {
+          const safeMethodSchema = MethodSchema.parse(methodSchema);
+          if (safeMethodSchema.operationId) {
+            const operationId = safeMethodSchema.operationId;
+            const existing = operationIdMap.get(operationId);
+            if (existing) {
+              existing.push({ method, path });
+            } else {
+              operationIdMap.set(operationId, [{ method, path }]);
+            }
+          }
+        });
+    });
+
+    // Second pass: build methods, appending method name for HEAD/OPTIONS or when duplicates exist
+    return Object.entries(openapi.paths).reduce<OperationMethods[]>((endpoints, [path, pathItem]) => {
+      const methods = Object.entries(pathItem)
+        .filter(([method]) => ['get', 'post', 'put', 'patch', 'delete', 'head', 'options'].includes(method))
+        .map(([method, methodSchema]) => {
+          const safeMethodSchema = MethodSchema.parse(methodSchema);
+
+          if (!safeMethodSchema.operationId) {
+            return null;
+          }
+
+          const operationId = safeMethodSchema.operationId;
+          const methodLower = method.toLowerCase();
+
+          // Check if this operationId is used by multiple methods
+          const operations = operationIdMap.get(operationId);
+          const hasDuplicates = operations !== undefined && operations.length > 1;
+
+          // For HEAD/OPTIONS or when duplicates exist, we need to ensure uniqueness
+          // We'll handle this in transformOperationName by appending the method
+          // But we need to mark it here so transformOperationName knows to append
+          if (hasDuplicates || methodLower === 'head' || methodLower === 'options') {
+            // Temporarily modify the operationId to include method for uniqueness
+            // This will be handled in transformOperationName
+            const modifiedSchema = {
+              ...safeMethodSchema,
+              operationId: `${operationId}_${methodLower}`
+            };
+            return { tag: safeMethodSchema.tags?.[0], methods: this.buildEndpointMethodVariants(method, path, modifiedSchema, schemas) };
+          }
+
+          return { tag: safeMethodSchema.tags?.[0], methods: this.buildEndpointMethodVariants(method, path, safeMethodSchema, schemas) };
+        })
+        .filter((operation): operation is OperationMethods => operation !== null);
+
+      return [...endpoints, ...methods];
+    }, []);
+  }
+
+  /**
+   * Transforms operation ID according to the configured naming convention or transformer
+   * Ensures the result is a valid TypeScript identifier
+   * For HEAD and OPTIONS methods, appends the method name to ensure uniqueness when same operationId is used
+   */
+  private transformOperationName(operationId: string, method: string, path: string, schema: MethodSchemaType): string {
+    let transformed: string;
+
+    // Custom transformer takes precedence
+    if (this.operationNameTransformer) {
+      const details: OperationDetails = {
+        operationId,
+        method,
+        path,
+        ...(schema.tags !== undefined && { tags: schema.tags }),
+        ...(schema.summary !== undefined && { summary: schema.summary }),
+        ...(schema.description !== undefined && { description: schema.description })
+      };
+      transformed = this.operationNameTransformer(details);
+    } else if (this.namingConvention) {
+      // Apply naming convention if specified
+      transformed = transformNamingConvention(operationId, this.namingConvention);
+    } else {
+      // Return original operationId if no transformation is configured
+      transformed = operationId;
+    }
+
+    // For HEAD and OPTIONS methods, append method name to ensure uniqueness
+    // This prevents duplicate method names when GET and HEAD share the same operationId
+    const methodLower = method.toLowerCase();
+    if (methodLower === 'head' || methodLower === 'options') {
+      // Only append if not already present to avoid double-appending
+      if (!transformed.toLowerCase().endsWith(`_${methodLower}`)) {
+        transformed = `${transformed}_${methodLower}`;
+      }
+    }
+
+    // Sanitize to ensure valid TypeScript identifier (handles edge cases from custom transformers)
+    return this.typeBuilder.sanitizeIdentifier(transformed);
+  }
+
+  /**
+   * Builds the client methods for one operation according to `methodStyle`: the throwing method,
+   * the Result-style method, or both (the Result-style one suffixed with `Result`).
+   */
+  private buildEndpointMethodVariants(method: string, path: string, schema: MethodSchemaType, schemas: Record<string, ts.VariableStatement>): ts.MethodDeclaration[] {
+    switch (this.methodStyle) {
+      case 'result':
+        return [this.buildEndpointMethod(method, path, schema, schemas, 'result')];
+      case 'both':
+        return [this.buildEndpointMethod(method, path, schema, schemas, 'throw'), this.buildEndpointMethod(method, path, schema, schemas, 'result')];
+      default:
+        return [this.buildEndpointMethod(method, path, schema, schemas, 'throw')];
+    }
+  }
+
+  private buildEndpointMethod(
+    method: string,
+    path: string,
+    schema: MethodSchemaType,
+    schemas: Record<string, ts.VariableStatement>,
+    style: 'throw' | 'result'
+  ): ts.MethodDeclaration {
+    const { parameters, pathParams, queryParams, headerParams, cookieParams, hasRequestBody, contentType } = this.buildMethodParameters(schema, schemas);
+    const responseType = this.getResponseType(method, path, schema, schemas);
+    const responseSchema = this.getResponseSchema(method, path, schema, schemas);
+
+    const statements: ts.Statement[] = this.validateRequests ? this.buildRequestValidationStatements(schema) : [];
+
+    // Build path with parameter substitution
+    const pathExpression = this.buildPathExpression(path, pathParams);
+
+    // Build query, header and cookie parameter objects
+    const queryParamsExpression = this.buildParameterObjectExpression(queryParams);
+    const headerParamsExpression = this.buildParameterObjectExpression(headerParams);
+    const cookieParamsExpression = this.buildParameterObjectExpression(cookieParams);
+
+    // Build request body
+    const requestBodyExpression: ts.Expression | undefined = hasRequestBody ? this.buildRequestBodyExpression(schema) : undefined;
+
+    // Build options object for makeRequest
+    const optionsProps: ts.ObjectLiteralElementLike[] = [];
+    if (queryParamsExpression) {
+      optionsProps.push(ts.factory.createPropertyAssignment(ts.factory.createIdentifier('params'), queryParamsExpression));
+    }
+
+    // Only parameters that deviate from the default form + explode serialization need explicit rules
+    const customSerializedParams = queryParams.filter((param) => param.style !== 'form' || !param.explode);
+    if (customSerializedParams.length > 0) {
+      optionsProps.push(
+        ts.factory.createPropertyAssignment(
+          ts.factory.createIdentifier('querySerialization'),
+          ts.factory.createObjectLiteralExpression(
+            customSerializedParams.map((param) =>
+              ts.factory.createPropertyAssignment(
+                ts.factory.createStringLiteral(param.name, true),
+                ts.factory.createObjectLiteralExpression(
+                  [
+                    ts.factory.createPropertyAssignment('style', ts.factory.createStringLiteral(param.style, true)),
+                    ts.factory.createPropertyAssignment('explode', param.explode ? ts.factory.createTrue() : ts.factory.createFalse())
+                  ],
+                  false
+                )
+              )
+            ),
+            false
+          )
+        )
+      );
+    }
+
+    if (headerParamsExpression) {
+      optionsProps.push(ts.factory.createPropertyAssignment(ts.factory.createIdentifier('headers'), headerParamsExpression));
+    }
+
+    if (cookieParamsExpression) {
+      optionsProps.push(ts.factory.createPropertyAssignment(ts.factory.createIdentifier('cookies'), cookieParamsExpression));
+    }
+
+    const security = this.getOperationSecurity(schema);
+    if (security.length > 0) {
+      optionsProps.push(
+        ts.factory.createPropertyAssignment(
+          'security',
+          ts.factory.createArrayLiteralExpression(
+            security.map((names) =>
+              ts.factory.createArrayLiteralExpression(
+                names.map((name) => ts.factory.createStringLiteral(name, true)),
+                false
+              )
+            ),
+            false
+          )
+        )
+      );
+    }
+
+    if (requestBodyExpression) {
+      optionsProps.push(ts.factory.createPropertyAssignment(ts.factory.createIdentifier('data'), requestBodyExpression));
+    }
+
+    // Add content type unless it's the JSON default
+    if (hasRequestBody && contentType !== 'application/json') {
+      optionsProps.push(ts.factory.createPropertyAssignment(ts.factory.createIdentifier('contentType'), ts.factory.createStringLiteral(contentType, true)));
+    }
+
+    // Add response parsing strategy unless it's the JSON default
+    const responseParsing = this.getResponseParsing(schema);
+    if (responseParsing !== 'json') {
+      optionsProps.push(ts.factory.createPropertyAssignment(ts.factory.createIdentifier('responseType'), ts.factory.createStringLiteral(responseParsing, true)));
+    }
+
+    // Add schemas for declared error bodies so makeRequest can throw a typed ApiError.
+    // Statuses without a JSON body map to z.unknown() so they don't fall back to a range or default schema.
+    const errorBodySchemas = this.getErrorResponses(schema).map(([status, response]) => {
+      const media = this.selectResponseMedia(response);
+      return { status, schema: media?.kind === 'json' && media.schema !== undefined ? this.buildSchema(media.schema) : undefined };
+    });
+    if (errorBodySchemas.some((errorBody) => errorBody.schema !== undefined)) {
+      optionsProps.push(
+        ts.factory.createPropertyAssignment(
+          ts.factory.createIdentifier('errorSchemas'),
+          ts.factory.createObjectLiteralExpression(
+            errorBodySchemas.map((errorBody) =>
+              ts.factory.createPropertyAssignment(
+                ts.factory.createStringLiteral(errorBody.status, true),
+                errorBody.schema ?? ts.factory.createCallExpression(ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier('z'), 'unknown'), undefined, [])
+              )
+            ),
+            false
+          )
+        )
+      );
+    }
+
+    // Result-style methods capture the raw response for both outcomes
+    const rawResponse = ts.factory.createIdentifier('rawResponse');
+    if (style === 'result') {
+      optionsProps.push(
+        ts.factory.createPropertyAssignment(
+          ts.factory.createIdentifier('onResponse'),
+          ts.factory.createArrowFunction(
             undefined,
-            ts.factory.createVariableDeclarationList(
-              [
-                ts.factory.createVariableDeclaration(
-                  ts.factory.createIdentifier('baseOptions'),
-                  undefined,
-                  undefined,
-                  ts.factory.createCallExpression(
-                    ts.factory.createPropertyAccessExpression(ts.factory.createThis(), ts.factory.createIdentifier('getBaseRequestOptions')),
-                    undefined,
-                    []
-                  )
-                )
-              ],
-              ts.NodeFlags.Const
-            )
-          ),
-          // Build Content-Type header
-          ts.factory.createVariableStatement(
             undefined,
-            ts.factory.createVariableDeclarationList(
-              [
-                ts.factory.createVariableDeclaration(
-                  ts.factory.createIdentifier('contentType'),
-                  undefined,
-                  undefined,
-                  ts.factory.createConditionalExpression(
-                    ts.factory.createBinaryExpression(
-                      ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier('options'), ts.factory.createIdentifier('contentType')),
-                      ts.factory.createToken(ts.SyntaxKind.EqualsEqualsEqualsToken),
-                      ts.factory.createStringLiteral('application/x-www-form-urlencoded', true)
-                    ),
-                    undefined,
-                    ts.factory.createStringLiteral('application/x-www-form-urlencoded', true),
-                    undefined,
-                    ts.factory.createStringLiteral('application/json', true)
-                  )
-                )
-              ],
-              ts.NodeFlags.Const
-            )
-          ),
-          // Merge headers: base headers, Content-Type, and request-specific headers
-          ts.factory.createVariableStatement(
+            [ts.factory.createParameterDeclaration(undefined, undefined, 'received')],
             undefined,
-            ts.factory.createVariableDeclarationList(
-              [
-                ts.factory.createVariableDeclaration(
-                  ts.factory.createIdentifier('baseHeaders'),
-                  undefined,
-                  undefined,
-                  ts.factory.createConditionalExpression(
-                    ts.factory.createBinaryExpression(
-                      ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier('baseOptions'), ts.factory.createIdentifier('headers')),
-                      ts.factory.createToken(ts.SyntaxKind.ExclamationEqualsEqualsToken),
-                      ts.factory.createIdentifier('undefined')
-                    ),
-                    undefined,
-                    ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier('baseOptions'), ts.factory.createIdentifier('headers')),
-                    undefined,
-                    ts.factory.createObjectLiteralExpression([], false)
-                  )
-                )
-              ],
-              ts.NodeFlags.Const
+            ts.factory.createToken(ts.SyntaxKind.EqualsGreaterThanToken),
+            ts.factory.createBlock(
+              [ts.factory.createExpressionStatement(ts.factory.createBinaryExpression(rawResponse, ts.SyntaxKind.EqualsToken, ts.factory.createIdentifier('received')))],
+              false
             )
-          ),
-          ts.factory.createVariableStatement(
-            undefined,
-            ts.factory.createVariableDeclarationList(
+          )
+        )
+      );
+    }
+
+    // Throwing methods return the data, Result-style methods wrap it as { ok: true, data, response }
+    const returnData = (data: ts.Expression): ts.ReturnStatement =>
+      ts.factory.createReturnStatement(
+        style === 'result'
+          ? ts.factory.createObjectLiteralExpression(
               [
-                ts.factory.createVariableDeclaration(
-                  ts.factory.createIdentifier('headers'),
-                  undefined,
-                  undefined,
-                  ts.factory.createCallExpression(
-                    ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier('Object'), ts.factory.createIdentifier('assign')),
-                    undefined,
-                    [
-                      ts.factory.createObjectLiteralExpression([], false),
-                      ts.factory.createIdentifier('baseHeaders'),
-                      ts.factory.createObjectLiteralExpression(
-                        [ts.factory.createPropertyAssignment(ts.factory.createStringLiteral('Content-Type', true), ts.factory.createIdentifier('contentType'))],
-                        false
-                      ),
-                      ts.factory.createConditionalExpression(
-                        ts.factory.createBinaryExpression(
-                          ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier('options'), ts.factory.createIdentifier('headers')),
-                          ts.factory.createToken(ts.SyntaxKind.ExclamationEqualsEqualsToken),
-                          ts.factory.createIdentifier('undefined')
-                        ),
-                        undefined,
-                        ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier('options'), ts.factory.createIdentifier('headers')),
-                        undefined,
-                        ts.factory.createObjectLiteralExpression([], false)
-                      )
-                    ]
-                  )
-                )
+                ts.factory.createPropertyAssignment('ok', ts.factory.createTrue()),
+                ts.factory.createPropertyAssignment('data', data),
+                ts.factory.createPropertyAssignment('response', ts.factory.createAsExpression(rawResponse, ts.factory.createTypeReferenceNode('Response')))
               ],
-              ts.NodeFlags.Const
-            )
-          ),
-          // Build body with form-urlencoded support
-          ts.factory.createVariableStatement(
-            undefined,
-            ts.factory.createVariableDeclarationList(
-              [
-                ts.factory.createVariableDeclaration(
-                  ts.factory.createIdentifier('body'),
-                  undefined,
-                  undefined,
-                  ts.factory.createConditionalExpression(
-                    ts.factory.createBinaryExpression(
-                      ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier('options'), ts.factory.createIdentifier('data')),
-                      ts.factory.createToken(ts.SyntaxKind.ExclamationEqualsEqualsToken),
-                      ts.factory.createIdentifier('undefined')
-                    ),
-                    undefined,
-                    ts.factory.createConditionalExpression(
-                      ts.factory.createBinaryExpression(
-                        ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier('options'), ts.factory.createIdentifier('contentType')),
-                        ts.factory.createToken(ts.SyntaxKind.EqualsEqualsEqualsToken),
-                        ts.factory.createStringLiteral('application/x-www-form-urlencoded', true)
-                      ),
-                      undefined,
-                      // Form-urlencoded: convert object to URLSearchParams
-                      ts.factory.createCallExpression(
-                        ts.factory.createParenthesizedExpression(
-                          ts.factory.createArrowFunction(
-                            undefined,
-                            undefined,
-                            [],
-                            undefined,
-                            ts.factory.createToken(ts.SyntaxKind.EqualsGreaterThanToken),
-                            ts.factory.createBlock(
+              false
+            )
+          : data
+      );
+
+    const optionsExpression = ts.factory.createObjectLiteralExpression(optionsProps, false);
+
+    // Call makeRequest
+    const makeRequestCall = ts.factory.createCallExpression(
+      ts.factory.createPropertyAccessExpression(ts.factory.createThis(), ts.factory.createIdentifier('makeRequest')),
+      undefined,
+      [ts.factory.createStringLiteral(method.toUpperCase(), true), pathExpression, optionsExpression]
+    );
+
+    if (responseSchema) {
+      const schemaName = responseSchema.text;
+      const schemaNameLower = schemaName.charAt(0).toLowerCase() + schemaName.slice(1);
+      const parsedVarName = `parsed${schemaName}`;
+
+      // const response = await this.makeRequest(...)
+      statements.push(
+        ts.factory.createVariableStatement(
+          undefined,
+          ts.factory.createVariableDeclarationList(
+            [ts.factory.createVariableDeclaration('response', undefined, undefined, ts.factory.createAwaitExpression(makeRequestCall))],
+            ts.NodeFlags.Const
+          )
+        )
+      );
+
+      // if (response === undefined) { return undefined; } when a declared 2xx response has no body to validate
+      if (this.hasNoContentSuccessResponse(schema)) {
+        statements.push(
+          ts.factory.createIfStatement(
+            ts.factory.createBinaryExpression(ts.factory.createIdentifier('response'), ts.SyntaxKind.EqualsEqualsEqualsToken, ts.factory.createIdentifier('undefined')),
+            ts.factory.createBlock([returnData(ts.factory.createIdentifier('undefined'))], true)
+          )
+        );
+      }
+
+      // const parsed{Name} = {Schema}.safeParse(response)
+      statements.push(
+        ts.factory.createVariableStatement(
+          undefined,
+          ts.factory.createVariableDeclarationList(
+            [
+              ts.factory.createVariableDeclaration(
+                parsedVarName,
+                undefined,
+                undefined,
+                ts.factory.createCallExpression(ts.factory.createPropertyAccessExpression(responseSchema, ts.factory.createIdentifier('safeParse')), undefined, [
+                  ts.factory.createIdentifier('response')
+                ])
+              )
+            ],
+            ts.NodeFlags.Const
+          )
+        )
+      );
+
+      // if (!parsed{Name}.success) { throw new ResponseValidationError<{Type}>(...) }
+      statements.push(
+        ts.factory.createIfStatement(
+          ts.factory.createPrefixUnaryExpression(ts.SyntaxKind.ExclamationToken, ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier(parsedVarName), 'success')),
+          ts.factory.createBlock(
+            [
+              ts.factory.createThrowStatement(
+                ts.factory.createNewExpression(
+                  ts.factory.createIdentifier('ResponseValidationError'),
+                  [ts.factory.createTypeReferenceNode(schemaName)],
+                  [
+                    ts.factory.createTemplateExpression(ts.factory.createTemplateHead(`Invalid ${schemaNameLower}: `), [
+                      ts.factory.createTemplateSpan(
+                        ts.factory.createCallExpression(
+                          ts.factory.createPropertyAccessExpression(
+                            ts.factory.createCallExpression(
+                              ts.factory.createPropertyAccessExpression(
+                                ts.factory.createPropertyAccessExpression(ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier(parsedVarName), 'error'), 'issues'),
+                                'map'
+                              ),
+                              undefined,
                               [
-                                ts.factory.createVariableStatement(
+                                ts.factory.createArrowFunction(
                                   undefined,
-                                  ts.factory.createVariableDeclarationList(
-                                    [
-                                      ts.factory.createVariableDeclaration(
-                                        ts.factory.createIdentifier('params'),
-                                        undefined,
-                                        undefined,
-                                        ts.factory.createNewExpression(ts.factory.createIdentifier('URLSearchParams'), undefined, [])
-                                      )
-                                    ],
-                                    ts.NodeFlags.Const
-                                  )
-                                ),
-                                ts.factory.createExpressionStatement(
-                                  ts.factory.createCallExpression(
-                                    ts.factory.createPropertyAccessExpression(
-                                      ts.factory.createCallExpression(
-                                        ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier('Object'), ts.factory.createIdentifier('entries')),
-                                        undefined,
-                                        [ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier('options'), ts.factory.createIdentifier('data'))]
-                                      ),
-                                      ts.factory.createIdentifier('forEach')
-                                    ),
-                                    undefined,
-                                    [
-                                      ts.factory.createArrowFunction(
-                                        undefined,
-                                        undefined,
-                                        [
-                                          ts.factory.createParameterDeclaration(
-                                            undefined,
-                                            undefined,
-                                            ts.factory.createArrayBindingPattern([
-                                              ts.factory.createBindingElement(undefined, undefined, ts.factory.createIdentifier('key'), undefined),
-                                              ts.factory.createBindingElement(undefined, undefined, ts.factory.createIdentifier('value'), undefined)
-                                            ]),
-                                            undefined,
-                                            undefined
-                                          )
-                                        ],
-                                        undefined,
-                                        ts.factory.createToken(ts.SyntaxKind.EqualsGreaterThanToken),
-                                        ts.factory.createBlock(
-                                          [
-                                            ts.factory.createExpressionStatement(
-                                              ts.factory.createCallExpression(
-                                                ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier('params'), ts.factory.createIdentifier('set')),
-                                                undefined,
-                                                [
-                                                  ts.factory.createIdentifier('key'),
-                                                  ts.factory.createCallExpression(ts.factory.createIdentifier('String'), undefined, [ts.factory.createIdentifier('value')])
-                                                ]
-                                              )
-                                            )
-                                          ],
-                                          false
-                                        )
-                                      )
-                                    ]
-                                  )
-                                ),
-                                ts.factory.createReturnStatement(
-                                  ts.factory.createCallExpression(
-                                    ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier('params'), ts.factory.createIdentifier('toString')),
-                                    undefined,
-                                    []
-                                  )
+                                  undefined,
+                                  [ts.factory.createParameterDeclaration(undefined, undefined, 'issue')],
+                                  undefined,
+                                  ts.factory.createToken(ts.SyntaxKind.EqualsGreaterThanToken),
+                                  ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier('issue'), 'message')
                                 )
-                              ],
-                              false
-                            )
-                          )
+                              ]
+                            ),
+                            'join'
+                          ),
+                          undefined,
+                          [ts.factory.createStringLiteral(', ', true)]
                         ),
-                        undefined,
-                        []
-                      ),
-                      undefined,
-                      // JSON: stringify the data
-                      ts.factory.createCallExpression(
-                        ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier('JSON'), ts.factory.createIdentifier('stringify')),
-                        undefined,
-                        [ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier('options'), ts.factory.createIdentifier('data'))]
+                        ts.factory.createTemplateTail('')
                       )
-                    ),
-                    undefined,
-                    ts.factory.createNull()
-                  )
+                    ]),
+                    ts.factory.createIdentifier('response'),
+                    ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier(parsedVarName), 'error')
+                  ]
                 )
-              ],
-              ts.NodeFlags.Const
+              )
+            ],
+            true
+          )
+        )
+      );
+
+      // return parsed{Name}.data
+      statements.push(returnData(ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier(parsedVarName), 'data')));
+    } else {
+      statements.push(returnData(ts.factory.createAwaitExpression(makeRequestCall)));
+    }
+
+    const errorTypeName = this.errorResponseTypeNames.get(`${method} ${path}`);
+    const operationName = this.transformOperationName(String(schema.operationId), method, path, schema);
+    const transformedOperationId = style === 'result' && this.methodStyle === 'both' ? `${operationName}Result` : operationName;
+    const methodReturnType = style === 'result' ? this.buildApiResultReturnType(responseType, errorTypeName) : responseType;
+    const methodStatements = style === 'result' ? this.wrapInResultTryCatch(statements) : statements;
+
+    const methodDeclaration = ts.factory.createMethodDeclaration(
+      [ts.factory.createToken(ts.SyntaxKind.AsyncKeyword)],
+      undefined,
+      ts.factory.createIdentifier(transformedOperationId),
+      undefined,
+      undefined,
+      parameters,
+      methodReturnType,
+      ts.factory.createBlock(methodStatements, true)
+    );
+
+    // Add JSDoc comment if summary or description exists
+    const jsdocComment = this.buildJSDocComment(schema.summary, schema.description, schema, methodReturnType, style === 'throw' ? errorTypeName : undefined);
+
+    if (jsdocComment) {
+      // addSyntheticLeadingComment expects the comment content without delimiters
+      // and will wrap it in /** */ for JSDoc-style comments
+      ts.addSyntheticLeadingComment(methodDeclaration, ts.SyntaxKind.MultiLineCommentTrivia, `*\n${jsdocComment}\n `, true);
+    }
+
+    return methodDeclaration;
+  }
+
+  /**
+   * Converts `Promise<T>` into `Promise<ApiResult<T, OperationErrorResponse>>` for Result-style methods.
+   */
+  private buildApiResultReturnType(responseType: ts.TypeNode | undefined, errorTypeName: string | undefined): ts.TypeNode {
+    const dataType =
+      responseType && ts.isTypeReferenceNode(responseType) && responseType.typeArguments?.[0]
+        ? responseType.typeArguments[0]
+        : ts.factory.createKeywordTypeNode(ts.SyntaxKind.UnknownKeyword);
+
+    return ts.factory.createTypeReferenceNode(ts.factory.createIdentifier('Promise'), [
+      ts.factory.createTypeReferenceNode('ApiResult', [dataType, ...(errorTypeName ? [ts.factory.createTypeReferenceNode(errorTypeName)] : [])])
+    ]);
+  }
+
+  /**
+   * Wraps endpoint statements so failures resolve to `{ ok: false, error, response }` instead of throwing.
+   * Errors other than the generated API and validation errors are wrapped in a `NetworkError`.
+   */
+  private wrapInResultTryCatch(statements: ts.Statement[]): ts.Statement[] {
+    const rawResponse = ts.factory.createIdentifier('rawResponse');
+    const error = ts.factory.createIdentifier('error');
+    const knownErrorClasses = ['ApiError', 'ResponseValidationError', ...(this.validateRequests ? ['RequestValidationError'] : [])];
+
+    return [
+      ts.factory.createVariableStatement(
+        undefined,
+        ts.factory.createVariableDeclarationList(
+          [
+            ts.factory.createVariableDeclaration(
+              rawResponse,
+              undefined,
+              ts.factory.createUnionTypeNode([ts.factory.createTypeReferenceNode('Response'), ts.factory.createKeywordTypeNode(ts.SyntaxKind.UndefinedKeyword)])
             )
-          ),
-          // Make fetch request: merge base options with method, headers, and body
-          ts.factory.createVariableStatement(
-            undefined,
-            ts.factory.createVariableDeclarationList(
-              [
-                ts.factory.createVariableDeclaration(
-                  ts.factory.createIdentifier('rawResponse'),
-                  undefined,
-                  undefined,
-                  ts.factory.createAwaitExpression(
-                    ts.factory.createCallExpression(ts.factory.createIdentifier('fetch'), undefined, [
-                      ts.factory.createIdentifier('url'),
-                      ts.factory.createCallExpression(
-                        ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier('Object'), ts.factory.createIdentifier('assign')),
-                        undefined,
-                        [
-                          ts.factory.createObjectLiteralExpression([], false),
-                          ts.factory.createIdentifier('baseOptions'),
-                          ts.factory.createObjectLiteralExpression(
-                            [
-                              ts.factory.createShorthandPropertyAssignment(ts.factory.createIdentifier('method'), undefined),
-                              ts.factory.createPropertyAssignment(ts.factory.createIdentifier('headers'), ts.factory.createIdentifier('headers')),
-                              ts.factory.createPropertyAssignment(ts.factory.createIdentifier('body'), ts.factory.createIdentifier('body'))
-                            ],
-                            false
-                          )
-                        ]
+          ],
+          ts.NodeFlags.Let
+        )
+      ),
+      ts.factory.createTryStatement(
+        ts.factory.createBlock(statements, true),
+        ts.factory.createCatchClause(
+          ts.factory.createVariableDeclaration(error),
+          ts.factory.createBlock(
+            [
+              ts.factory.createReturnStatement(
+                ts.factory.createObjectLiteralExpression(
+                  [
+                    ts.factory.createPropertyAssignment('ok', ts.factory.createFalse()),
+                    ts.factory.createPropertyAssignment(
+                      'error',
+                      ts.factory.createConditionalExpression(
+                        knownErrorClasses
+                          .map((errorClass) => ts.factory.createBinaryExpression(error, ts.SyntaxKind.InstanceOfKeyword, ts.factory.createIdentifier(errorClass)))
+                          .reduce((condition, check) => ts.factory.createBinaryExpression(condition, ts.SyntaxKind.BarBarToken, check)),
+                        ts.factory.createToken(ts.SyntaxKind.QuestionToken),
+                        error,
+                        ts.factory.createToken(ts.SyntaxKind.ColonToken),
+                        ts.factory.createNewExpression(ts.factory.createIdentifier('NetworkError'), undefined, [
+                          ts.factory.createConditionalExpression(
+                            ts.factory.createBinaryExpression(error, ts.SyntaxKind.InstanceOfKeyword, ts.factory.createIdentifier('Error')),
+                            ts.factory.createToken(ts.SyntaxKind.QuestionToken),
+                            ts.factory.createPropertyAccessExpression(error, 'message'),
+                            ts.factory.createToken(ts.SyntaxKind.ColonToken),
+                            ts.factory.createCallExpression(ts.factory.createIdentifier('String'), undefined, [error])
+                          ),
+                          error
+                        ])
                       )
-                    ])
-                  )
-                )
-              ],
-              ts.NodeFlags.Const
-            )
-          ),
-          // Handle response through hook (allows subclasses to intercept and modify response)
-          ts.factory.createVariableStatement(
-            undefined,
-            ts.factory.createVariableDeclarationList(
-              [
-                ts.factory.createVariableDeclaration(
-                  ts.factory.createIdentifier('response'),
-                  undefined,
-                  undefined,
-                  ts.factory.createAwaitExpression(
-                    ts.factory.createCallExpression(
-                      ts.factory.createPropertyAccessExpression(ts.factory.createThis(), ts.factory.createIdentifier('handleResponse')),
-                      [ts.factory.createTypeReferenceNode(ts.factory.createIdentifier('T'), undefined)],
-                      [
-                        ts.factory.createIdentifier('rawResponse'),
-                        ts.factory.createIdentifier('method'),
-                        ts.factory.createIdentifier('path'),
-                        ts.factory.createIdentifier('options')
-                      ]
-                    )
-                  )
+                    ),
+                    ts.factory.createPropertyAssignment('response', rawResponse)
+                  ],
+                  false
                 )
-              ],
-              ts.NodeFlags.Const
-            )
-          ),
-          // Check response status
-          ts.factory.createIfStatement(
-            ts.factory.createPrefixUnaryExpression(
-              ts.SyntaxKind.ExclamationToken,
-              ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier('response'), ts.factory.createIdentifier('ok'))
-            ),
-            ts.factory.createThrowStatement(
-              ts.factory.createNewExpression(ts.factory.createIdentifier('Error'), undefined, [
-                ts.factory.createTemplateExpression(ts.factory.createTemplateHead('HTTP ', 'HTTP '), [
-                  ts.factory.createTemplateSpan(
-                    ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier('response'), ts.factory.createIdentifier('status')),
-                    ts.factory.createTemplateMiddle(': ', ': ')
-                  ),
-                  ts.factory.createTemplateSpan(
-                    ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier('response'), ts.factory.createIdentifier('statusText')),
-                    ts.factory.createTemplateTail('', '')
-                  )
-                ])
-              ])
-            ),
-            undefined
-          ),
-          // Skip JSON parse for 204 No Content / 205 Reset Content (RFC 7231: bodies MUST be empty)
-          ts.factory.createIfStatement(
-            ts.factory.createBinaryExpression(
-              ts.factory.createBinaryExpression(
-                ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier('response'), ts.factory.createIdentifier('status')),
-                ts.factory.createToken(ts.SyntaxKind.EqualsEqualsEqualsToken),
-                ts.factory.createNumericLiteral(204)
-              ),
-              ts.factory.createToken(ts.SyntaxKind.BarBarToken),
-              ts.factory.createBinaryExpression(
-                ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier('response'), ts.factory.createIdentifier('status')),
-                ts.factory.createToken(ts.SyntaxKind.EqualsEqualsEqualsToken),
-                ts.factory.createNumericLiteral(205)
               )
-            ),
-            ts.factory.createBlock(
-              [
-                ts.factory.createReturnStatement(
-                  ts.factory.createAsExpression(ts.factory.createIdentifier('undefined'), ts.factory.createTypeReferenceNode(ts.factory.createIdentifier('T'), undefined))
-                )
-              ],
-              true
-            ),
-            undefined
+            ],
+            true
+          )
+        ),
+        undefined
+      )
+    ];
+  }
+
+  /**
+   * Builds the checks run before sending a request when `validateRequests` is enabled:
+   * path/query parameters against their schema constraints, then JSON or form bodies against their schema.
+   */
+  private buildRequestValidationStatements(schema: MethodSchemaType): ts.Statement[] {
+    const statements: ts.Statement[] = [];
+
+    const validatedParams = (schema.parameters ?? []).filter((param) => (param.in === 'path' || param.in === 'query') && param.schema !== undefined);
+    const paramValuesExpression = this.buildParameterObjectExpression(validatedParams.map((param) => ({ name: param.name })));
+    if (paramValuesExpression) {
+      const paramsSchema = ts.factory.createCallExpression(ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier('z'), 'object'), undefined, [
+        ts.factory.createObjectLiteralExpression(
+          validatedParams.map((param) =>
+            ts.factory.createPropertyAssignment(ts.factory.createStringLiteral(param.name, true), this.buildSchema(param.schema, param.required ?? false))
           ),
-          // Return parsed JSON
-          ts.factory.createReturnStatement(
-            ts.factory.createAwaitExpression(
-              ts.factory.createCallExpression(
-                ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier('response'), ts.factory.createIdentifier('json')),
-                undefined,
-                []
-              )
-            )
+          true
+        )
+      ]);
+      // Coerced parameters are validated while encoding them back to their wire format
+      const method = validatedParams.some((param) => this.containsCoercedValue(param.schema)) ? 'safeEncode' : 'safeParse';
+      statements.push(...this.buildRequestValidationCheck('parsedParameters', paramsSchema, paramValuesExpression, 'parameters', method));
+    }
+
+    const requestBodyMedia = this.selectRequestBodyMedia(schema.requestBody?.content);
+    if (requestBodyMedia?.schema && VALIDATED_REQUEST_BODY_TYPES.includes(requestBodyMedia.contentType)) {
+      const bodySchema = this.buildSchema(requestBodyMedia.schema, schema.requestBody?.required ?? false);
+      // Coerced bodies are validated while encoding them back to their wire format
+      const method = this.containsCoercedValue(requestBodyMedia.schema) ? 'safeEncode' : 'safeParse';
+      statements.push(...this.buildRequestValidationCheck('parsedBody', bodySchema, ts.factory.createIdentifier('body'), 'request body', method));
+    }
+
+    return statements;
+  }
+
+  private buildRequestValidationCheck(
+    parsedVarName: string,
+    schemaExpression: ts.Expression,
+    valueExpression: ts.Expression,
+    label: string,
+    method: 'safeParse' | 'safeEncode' = 'safeParse'
+  ): ts.Statement[] {
+    const parsed = ts.factory.createIdentifier(parsedVarName);
+    const parsedError = ts.factory.createPropertyAccessExpression(parsed, 'error');
+
+    // const parsed{Name} = {Schema}.safeParse(value)
+    const parseStatement = ts.factory.createVariableStatement(
+      undefined,
+      ts.factory.createVariableDeclarationList(
+        [
+          ts.factory.createVariableDeclaration(
+            parsed,
+            undefined,
+            undefined,
+            ts.factory.createCallExpression(ts.factory.createPropertyAccessExpression(schemaExpression, method), undefined, [valueExpression])
+          )
+        ],
+        ts.NodeFlags.Const
+      )
+    );
+
+    // if (!parsed{Name}.success) { throw new RequestValidationError(...) }
+    const errorMessages = ts.factory.createCallExpression(
+      ts.factory.createPropertyAccessExpression(
+        ts.factory.createCallExpression(ts.factory.createPropertyAccessExpression(ts.factory.createPropertyAccessExpression(parsedError, 'issues'), 'map'), undefined, [
+          ts.factory.createArrowFunction(
+            undefined,
+            undefined,
+            [ts.factory.createParameterDeclaration(undefined, undefined, 'issue')],
+            undefined,
+            ts.factory.createToken(ts.SyntaxKind.EqualsGreaterThanToken),
+            ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier('issue'), 'message')
+          )
+        ]),
+        'join'
+      ),
+      undefined,
+      [ts.factory.createStringLiteral(', ', true)]
+    );
+
+    const guardStatement = ts.factory.createIfStatement(
+      ts.factory.createPrefixUnaryExpression(ts.SyntaxKind.ExclamationToken, ts.factory.createPropertyAccessExpression(parsed, 'success')),
+      ts.factory.createBlock(
+        [
+          ts.factory.createThrowStatement(
+            ts.factory.createNewExpression(ts.factory.createIdentifier('RequestValidationError'), undefined, [
+              ts.factory.createTemplateExpression(ts.factory.createTemplateHead(`Invalid ${label}: `), [
+                ts.factory.createTemplateSpan(errorMessages, ts.factory.createTemplateTail(''))
+              ]),
+              parsedError
+            ])
           )
         ],
         true
       )
     );
+
+    return [parseStatement, guardStatement];
   }
 
-  private buildClientMethods(openapi: OpenApiSpecType, schemas: Record<string, ts.VariableStatement>): ts.MethodDeclaration[] {
-    // Track operation IDs to detect duplicates
-    const operationIdMap = new Map<string, { method: string; path: string }[]>();
+  /**
+   * Builds an object literal mapping each parameter's wire name to its value, the method argument by default.
+   * Returns undefined when the operation declares no such parameters.
+   */
+  private buildParameterObjectExpression(params: { name: string; value?: ts.Expression }[]): ts.ObjectLiteralExpression | undefined {
+    if (params.length === 0) {
+      return undefined;
+    }
 
-    // First pass: collect all operation IDs and their methods/paths
-    Object.entries(openapi.paths).forEach(([path, pathItem]) => {
-      Object.entries(pathItem)
-        .filter(([method]) => ['get', 'post', 'put', 'patch', 'delete', 'head', 'options'].includes(method))
-        .forEach(([method, methodSchema]) => {
-          const safeMethodSchema = MethodSchema.parse(methodSchema);
-          if (safeMethodSchema.operationId) {
-            const operationId = safeMethodSchema.operationId;
-            const existing = operationIdMap.get(operationId);
-            if (existing) {
-              existing.push({ method, path });
-            } else {
-              operationIdMap.set(operationId, [{ method, path }]);
-            }
-          }
+    return ts.factory.createObjectLiteralExpression(
+      params.map((param) =>
+        ts.factory.createPropertyAssignment(
+          ts.factory.createStringLiteral(param.name, true),
+          param.value ?? ts.factory.createIdentifier(this.typeBuilder.sanitizeIdentifier(param.name))
+        )
+      ),
+      false
+    );
+  }
+
+  /**
+   * Sends parameters holding coerced values (e.g. `bigint`) in their wire format: the value encoded by the
+   * request validation check when there is one, otherwise the argument encoded through its schema.
+   */
+  private buildParameterValueExpression(param: ParameterType): ts.Expression {
+    const argument = ts.factory.createIdentifier(this.typeBuilder.sanitizeIdentifier(param.name));
+    if (param.schema === undefined || !this.containsCoercedValue(param.schema)) {
+      return argument;
+    }
+
+    if (this.validateRequests && (param.in === 'path' || param.in === 'query')) {
+      return ts.factory.createElementAccessExpression(
+        ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier('parsedParameters'), 'data'),
+        ts.factory.createStringLiteral(param.name, true)
+      );
+    }
+
+    const paramSchema = this.buildSchema(param.schema, param.required ?? false);
+    return ts.factory.createCallExpression(ts.factory.createPropertyAccessExpression(paramSchema, 'encode'), undefined, [argument]);
+  }
+
+  private buildPathExpression(path: string, pathParams: { name: string; type: string; value: ts.Expression }[]): ts.Expression {
+    // Replace {param} with ${param} for template literal
+    const pathParamValues = new Map(pathParams.map((p) => [p.name, p.value]));
+    const pathParamRegex = /\{([^}]+)\}/g;
+    const matches: { index: number; length: number; value: ts.Expression }[] = [];
+
+    // Find all path parameters
+    for (const match of path.matchAll(pathParamRegex)) {
+      const paramName = match[1];
+      const value = paramName === undefined ? undefined : pathParamValues.get(paramName);
+      if (value) {
+        matches.push({
+          index: match.index,
+          length: match[0].length,
+          value
         });
-    });
+      }
+    }
+
+    if (matches.length === 0) {
+      // No path parameters, return as string literal
+      return ts.factory.createStringLiteral(path, true);
+    }
+
+    // Build template expression
+    const templateSpans: ts.TemplateSpan[] = [];
+
+    for (const [index, m] of matches.entries()) {
+      const next = matches[index + 1];
+
+      if (next === undefined) {
+        const after = path.substring(m.index + m.length);
+        templateSpans.push(ts.factory.createTemplateSpan(m.value, ts.factory.createTemplateTail(after, after)));
+      } else {
+        const middle = path.substring(m.index + m.length, next.index);
+        templateSpans.push(ts.factory.createTemplateSpan(m.value, ts.factory.createTemplateMiddle(middle, middle)));
+      }
+    }
+
+    const firstMatch = matches[0];
+    if (!firstMatch) {
+      return ts.factory.createStringLiteral(path, true);
+    }
+
+    const head = path.substring(0, firstMatch.index);
+    return ts.factory.createTemplateExpression(ts.factory.createTemplateHead(head, head), templateSpans);
+  }
+
+  private buildMethodParameters(
+    schema: MethodSchemaType,
+    schemas: Record<string, ts.VariableStatement>
+  ): {
+    parameters: ts.ParameterDeclaration[];
+    pathParams: { name: string; type: string; value: ts.Expression }[];
+    queryParams: { name: string; type: string; value: ts.Expression; required: boolean; style: string; explode: boolean }[];
+    headerParams: { name: string; type: string; value: ts.Expression; required: boolean }[];
+    cookieParams: { name: string; type: string; value: ts.Expression; required: boolean }[];
+    hasRequestBody: boolean;
+    contentType: string;
+  } {
+    const parameters: ts.ParameterDeclaration[] = [];
+    const pathParams: { name: string; type: string; value: ts.Expression }[] = [];
+    const queryParams: { name: string; type: string; value: ts.Expression; required: boolean; style: string; explode: boolean }[] = [];
+    const headerParams: { name: string; type: string; value: ts.Expression; required: boolean }[] = [];
+    const cookieParams: { name: string; type: string; value: ts.Expression; required: boolean }[] = [];
+
+    // Extract path, query, header and cookie parameters
+    if (schema.parameters) {
+      for (const param of schema.parameters) {
+        const paramName = this.typeBuilder.sanitizeIdentifier(param.name);
+        const paramType = this.getParameterType(param.schema);
+        const value = this.buildParameterValueExpression(param);
+
+        if (param.in === 'path') {
+          pathParams.push({ name: param.name, type: paramType, value });
+          parameters.push(this.typeBuilder.createParameter(paramName, paramType, undefined, false));
+        } else if (param.in === 'query') {
+          // Improve type inference for query parameters
+          const queryParamType =
+            // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition
+            typeof param.schema === 'object' && param.schema !== null
+              ? (() => {
+                  const paramSchema = param.schema as { type?: string; items?: unknown; enum?: unknown[] };
+                  // eslint-disable-next-line @typescript-eslint/dot-notation
+                  if (paramSchema['type'] === 'array' && paramSchema['items']) {
+                    // eslint-disable-next-line @typescript-eslint/dot-notation
+                    const itemSchema = paramSchema['items'] as Record<string, unknown>;
+                    if (itemSchema['type'] === 'string') {
+                      return 'string[]' as const;
+                    }
+
+                    if ((itemSchema['type'] === 'number' || itemSchema['type'] === 'integer') && this.getCoercedFormat(itemSchema) === undefined) {
+                      return 'number[]' as const;
+                    }
+                  }
+
+                  return paramType;
+                })()
+              : paramType;
+          const style = param.style ?? 'form';
+          queryParams.push({ name: param.name, type: queryParamType, value, required: param.required ?? false, style, explode: param.explode ?? style === 'form' });
+          parameters.push(this.typeBuilder.createParameter(paramName, queryParamType, undefined, !param.required));
+        } else if (param.in === 'header') {
+          headerParams.push({ name: param.name, type: paramType, value, required: param.required ?? false });
+          parameters.push(this.typeBuilder.createParameter(paramName, paramType, undefined, !param.required));
+        } else {
+          cookieParams.push({ name: param.name, type: paramType, value, required: param.required ?? false });
+          parameters.push(this.typeBuilder.createParameter(paramName, paramType, undefined, !param.required));
+        }
+      }
+    }
+
+    // Add request body parameter if present
+    const requestBodyMedia = this.selectRequestBodyMedia(schema.requestBody?.content);
+    const hasRequestBody = requestBodyMedia !== undefined;
+
+    if (requestBodyMedia) {
+      parameters.push(this.typeBuilder.createParameter('body', this.getRequestBodyType(requestBodyMedia, schemas), undefined, !schema.requestBody?.required));
+    }
+
+    // Determine content type for request body
+    const contentType = requestBodyMedia?.contentType ?? 'application/json';
+
+    // Required arguments must come before optional ones in the generated signature
+    const orderedParameters = [...parameters].sort((a, b) => Number(a.questionToken !== undefined) - Number(b.questionToken !== undefined));
+
+    return { parameters: orderedParameters, pathParams, queryParams, headerParams, cookieParams, hasRequestBody, contentType };
+  }
+
+  /**
+   * Sends bodies holding coerced values (e.g. `Date`) in their wire format: the value encoded by the
+   * request validation check when there is one, otherwise the body encoded through its schema.
+   */
+  private buildRequestBodyExpression(schema: MethodSchemaType): ts.Expression {
+    const body = ts.factory.createIdentifier('body');
+    const requestBodyMedia = this.selectRequestBodyMedia(schema.requestBody?.content);
+    if (!requestBodyMedia?.schema || !this.containsCoercedValue(requestBodyMedia.schema)) {
+      return body;
+    }
+
+    if (this.validateRequests && VALIDATED_REQUEST_BODY_TYPES.includes(requestBodyMedia.contentType)) {
+      return ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier('parsedBody'), 'data');
+    }
+
+    const bodySchema = this.buildSchema(requestBodyMedia.schema, schema.requestBody?.required ?? false);
+    return ts.factory.createCallExpression(ts.factory.createPropertyAccessExpression(bodySchema, 'encode'), undefined, [body]);
+  }
+
+  /**
+   * Picks the request body media type the client will send, preferring JSON, then form-urlencoded,
+   * then multipart, then any raw binary media type.
+   */
+  private selectRequestBodyMedia(content: Record<string, { schema?: unknown }> | undefined): { contentType: string; schema: unknown } | undefined {
+    if (!content) {
+      return undefined;
+    }
 
-    // Second pass: build methods, appending method name for HEAD/OPTIONS or when duplicates exist
-    return Object.entries(openapi.paths).reduce<ts.MethodDeclaration[]>((endpoints, [path, pathItem]) => {
-      const methods = Object.entries(pathItem)
-        .filter(([method]) => ['get', 'post', 'put', 'patch', 'delete', 'head', 'options'].includes(method))
-        .map(([method, methodSchema]) => {
-          const safeMethodSchema = MethodSchema.parse(methodSchema);
+    for (const contentType of ['application/json', 'application/x-www-form-urlencoded', 'multipart/form-data']) {
+      const media = content[contentType];
+      if (media) {
+        return { contentType, schema: media.schema };
+      }
+    }
 
-          if (!safeMethodSchema.operationId) {
-            return null;
-          }
+    const binaryEntry = Object.entries(content).find(([contentType, media]) => contentType === 'application/octet-stream' || this.isBinarySchema(media.schema));
+    if (!binaryEntry) {
+      return undefined;
+    }
 
-          const operationId = safeMethodSchema.operationId;
-          const methodLower = method.toLowerCase();
+    // Wildcard media ranges (e.g. image/*) are not valid Content-Type values
+    const [binaryContentType, binaryMedia] = binaryEntry;
+    return { contentType: binaryContentType.includes('*') ? 'application/octet-stream' : binaryContentType, schema: binaryMedia.schema };
+  }
 
-          // Check if this operationId is used by multiple methods
-          const operations = operationIdMap.get(operationId);
-          const hasDuplicates = operations !== undefined && operations.length > 1;
+  private getRequestBodyType(media: { contentType: string; schema: unknown }, schemas: Record<string, ts.VariableStatement>): string | ts.TypeNode {
+    if (media.contentType === 'multipart/form-data') {
+      return this.buildMultipartBodyTypeNode(media.schema);
+    }
 
-          // For HEAD/OPTIONS or when duplicates exist, we need to ensure uniqueness
-          // We'll handle this in transformOperationName by appending the method
-          // But we need to mark it here so transformOperationName knows to append
-          if (hasDuplicates || methodLower === 'head' || methodLower === 'options') {
-            // Temporarily modify the operationId to include method for uniqueness
-            // This will be handled in transformOperationName
-            const modifiedSchema = {
-              ...safeMethodSchema,
-              operationId: `${operationId}_${methodLower}`
-            };
-            return this.buildEndpointMethod(method, path, modifiedSchema, schemas);
-          }
+    if (media.contentType !== 'application/json' && media.contentType !== 'application/x-www-form-urlencoded') {
+      return ts.factory.createUnionTypeNode([
+        ts.factory.createTypeReferenceNode('Blob'),
+        ts.factory.createTypeReferenceNode('ArrayBuffer'),
+        ts.factory.createTypeReferenceNode('ArrayBufferView')
+      ]);
+    }
 
-          return this.buildEndpointMethod(method, path, safeMethodSchema, schemas);
-        })
-        .filter((method): method is ts.MethodDeclaration => method !== null);
+    const requestBodySchema = media.schema;
+    if (typeof requestBodySchema !== 'object' || requestBodySchema === null) {
+      return 'unknown';
+    }
 
-      return [...endpoints, ...methods];
-    }, []);
+    const ref = (requestBodySchema as Record<string, unknown>)['$ref'];
+    if (ref && typeof ref === 'string' && ref.startsWith('#/components/schemas/')) {
+      const refName = ref.split('/').pop() ?? 'unknown';
+      return this.typeBuilder.sanitizeIdentifier(refName);
+    }
+
+    // Fallback to getSchemaTypeName for non-ref schemas
+    return this.getSchemaTypeName(requestBodySchema, schemas);
   }
 
   /**
-   * Transforms operation ID according to the configured naming convention or transformer
-   * Ensures the result is a valid TypeScript identifier
-   * For HEAD and OPTIONS methods, appends the method name to ensure uniqueness when same operationId is used
+   * Builds the type of a multipart/form-data body, mapping `format: binary` properties to `Blob | File`.
    */
-  private transformOperationName(operationId: string, method: string, path: string, schema: MethodSchemaType): string {
-    let transformed: string;
-
-    // Custom transformer takes precedence
-    if (this.operationNameTransformer) {
-      const details: OperationDetails = {
-        operationId,
-        method,
-        path,
-        ...(schema.tags !== undefined && { tags: schema.tags }),
-        ...(schema.summary !== undefined && { summary: schema.summary }),
-        ...(schema.description !== undefined && { description: schema.description })
-      };
-      transformed = this.operationNameTransformer(details);
-    } else if (this.namingConvention) {
-      // Apply naming convention if specified
-      transformed = transformNamingConvention(operationId, this.namingConvention);
-    } else {
-      // Return original operationId if no transformation is configured
-      transformed = operationId;
+  private buildMultipartBodyTypeNode(schema: unknown): ts.TypeNode {
+    const resolved = this.isReference(schema) ? this.componentSchemas[Reference.parse(schema).$ref?.split('/').pop() ?? ''] : schema;
+    const safeSchema = SchemaProperties.safeParse(resolved);
+    const properties = safeSchema.success ? ((safeSchema.data['properties'] ?? {}) as Record<string, unknown>) : {};
+
+    if (Object.keys(properties).length === 0) {
+      return ts.factory.createTypeReferenceNode(ts.factory.createIdentifier('Record'), [
+        ts.factory.createKeywordTypeNode(ts.SyntaxKind.StringKeyword),
+        ts.factory.createKeywordTypeNode(ts.SyntaxKind.UnknownKeyword)
+      ]);
     }
 
-    // For HEAD and OPTIONS methods, append method name to ensure uniqueness
-    // This prevents duplicate method names when GET and HEAD share the same operationId
-    const methodLower = method.toLowerCase();
-    if (methodLower === 'head' || methodLower === 'options') {
-      // Only append if not already present to avoid double-appending
-      if (!transformed.toLowerCase().endsWith(`_${methodLower}`)) {
-        transformed = `${transformed}_${methodLower}`;
-      }
-    }
+    const requiredProps = safeSchema.success ? ((safeSchema.data['required'] ?? []) as string[]) : [];
+    const fileType = (): ts.TypeNode => ts.factory.createUnionTypeNode([ts.factory.createTypeReferenceNode('Blob'), ts.factory.createTypeReferenceNode('File')]);
 
-    // Sanitize to ensure valid TypeScript identifier (handles edge cases from custom transformers)
-    return this.typeBuilder.sanitizeIdentifier(transformed);
+    return ts.factory.createTypeLiteralNode(
+      Object.entries(properties).map(([name, propSchema]) => {
+        const items = (propSchema as { type?: unknown; items?: unknown }).type === 'array' ? (propSchema as { items?: unknown }).items : undefined;
+        const typeNode = this.isBinarySchema(propSchema)
+          ? fileType()
+          : this.isBinarySchema(items)
+            ? ts.factory.createArrayTypeNode(ts.factory.createParenthesizedType(fileType()))
+            : this.buildTypeNode(propSchema);
+
+        return ts.factory.createPropertySignature(
+          undefined,
+          this.buildPropertyName(name),
+          requiredProps.includes(name) ? undefined : ts.factory.createToken(ts.SyntaxKind.QuestionToken),
+          typeNode
+        );
+      })
+    );
   }
 
-  private buildEndpointMethod(method: string, path: string, schema: MethodSchemaType, schemas: Record<string, ts.VariableStatement>): ts.MethodDeclaration {
-    const { parameters, pathParams, queryParams, hasRequestBody, contentType } = this.buildMethodParameters(schema, schemas);
-    const responseType = this.getResponseType(schema, schemas);
-    const responseSchema = this.getResponseSchema(schema, schemas);
+  private isBinarySchema(schema: unknown): boolean {
+    if (typeof schema !== 'object' || schema === null) {
+      return false;
+    }
 
-    const statements: ts.Statement[] = [];
+    const schemaObj = schema as { type?: unknown; format?: unknown };
+    return schemaObj.type === 'string' && schemaObj.format === 'binary';
+  }
 
-    // Build path with parameter substitution
-    const pathExpression = this.buildPathExpression(path, pathParams);
+  private getParameterType(schema: unknown): string {
+    if (!schema || typeof schema !== 'object') {
+      return 'string';
+    }
 
-    // Build query parameters object
-    const queryParamsExpression: ts.Expression | undefined =
-      queryParams.length > 0
-        ? ts.factory.createObjectLiteralExpression(
-            queryParams.map((param) => {
-              const paramName = this.typeBuilder.sanitizeIdentifier(param.name);
-              return ts.factory.createPropertyAssignment(ts.factory.createStringLiteral(param.name, true), ts.factory.createIdentifier(paramName));
-            }),
-            false
-          )
-        : undefined;
+    const schemaObj = schema as {
+      type?: string;
+      format?: string;
+      $ref?: string;
+      enum?: unknown[];
+      items?: unknown;
+    };
 
-    // Build request body
-    const requestBodyExpression: ts.Expression | undefined = hasRequestBody ? ts.factory.createIdentifier('body') : undefined;
+    if (schemaObj.$ref) {
+      const refName = schemaObj.$ref.split('/').pop() ?? 'unknown';
+      return this.typeBuilder.sanitizeIdentifier(refName);
+    }
 
-    // Build options object for makeRequest
-    const optionsProps: ts.ObjectLiteralElementLike[] = [];
-    if (queryParamsExpression) {
-      optionsProps.push(ts.factory.createPropertyAssignment(ts.factory.createIdentifier('params'), queryParamsExpression));
+    if (schemaObj.type === 'array' && schemaObj.items) {
+      const itemType = this.getParameterType(schemaObj.items);
+      return `${itemType}[]`;
     }
 
-    if (requestBodyExpression) {
-      optionsProps.push(ts.factory.createPropertyAssignment(ts.factory.createIdentifier('data'), requestBodyExpression));
+    // Values decoded into richer runtime types are passed in that type, like in bodies
+    switch (this.getCoercedFormat(schemaObj)) {
+      case 'date-time':
+      case 'date':
+        return 'Date';
+      case 'int64':
+        return 'bigint';
+      case 'decimal':
+        return this.coercion.decimal?.name ?? 'string';
+      case undefined:
+        break;
+    }
+
+    switch (schemaObj.type) {
+      case 'integer':
+      case 'number':
+        return 'number';
+      case 'boolean':
+        return 'boolean';
+      case 'array':
+        return 'unknown[]';
+      case 'object':
+        return 'Record<string, unknown>';
+      case 'string':
+        // If it has enum values, we could generate a union type, but for simplicity, keep as string
+        // The Zod schema will handle the validation
+        return 'string';
+      default:
+        return 'string';
     }
+  }
 
-    // Add content type if it's form-urlencoded
-    if (hasRequestBody && contentType === 'application/x-www-form-urlencoded') {
-      optionsProps.push(ts.factory.createPropertyAssignment(ts.factory.createIdentifier('contentType'), ts.factory.createStringLiteral('application/x-www-form-urlencoded', true)));
+  private getSchemaTypeName(schema: unknown, _schemas: Record<string, ts.VariableStatement>): string {
+    if (typeof schema !== 'object' || schema === null) {
+      return 'unknown';
     }
 
-    const optionsExpression = ts.factory.createObjectLiteralExpression(optionsProps, false);
+    const schemaObj = schema as { $ref?: string; type?: string; items?: unknown };
 
-    // Call makeRequest
-    const makeRequestCall = ts.factory.createCallExpression(
-      ts.factory.createPropertyAccessExpression(ts.factory.createThis(), ts.factory.createIdentifier('makeRequest')),
-      undefined,
-      [ts.factory.createStringLiteral(method.toUpperCase(), true), pathExpression, optionsExpression]
-    );
+    // Check for $ref using both dot notation and bracket notation
+    // eslint-disable-next-line @typescript-eslint/dot-notation
+    const ref = schemaObj['$ref'];
+    if (ref && typeof ref === 'string') {
+      const refName = ref.split('/').pop() ?? 'unknown';
+      return this.typeBuilder.sanitizeIdentifier(refName);
+    }
 
-    if (responseSchema) {
-      const schemaName = responseSchema.text;
-      const schemaNameLower = schemaName.charAt(0).toLowerCase() + schemaName.slice(1);
-      const parsedVarName = `parsed${schemaName}`;
+    if (schemaObj.type === 'array' && schemaObj.items) {
+      const itemType = this.getSchemaTypeName(schemaObj.items, _schemas);
+      return `${itemType}[]`;
+    }
 
-      // const response = await this.makeRequest(...)
-      statements.push(
-        ts.factory.createVariableStatement(
-          undefined,
-          ts.factory.createVariableDeclarationList(
-            [ts.factory.createVariableDeclaration('response', undefined, undefined, ts.factory.createAwaitExpression(makeRequestCall))],
-            ts.NodeFlags.Const
-          )
-        )
-      );
+    switch (schemaObj.type) {
+      case 'integer':
+      case 'number':
+        return 'number';
+      case 'boolean':
+        return 'boolean';
+      case 'string':
+        return 'string';
+      case 'object':
+        return 'Record<string, unknown>';
+      default:
+        return 'unknown';
+    }
+  }
 
-      // const parsed{Name} = {Schema}.safeParse(response)
-      statements.push(
-        ts.factory.createVariableStatement(
-          undefined,
-          ts.factory.createVariableDeclarationList(
-            [
-              ts.factory.createVariableDeclaration(
-                parsedVarName,
-                undefined,
-                undefined,
-                ts.factory.createCallExpression(ts.factory.createPropertyAccessExpression(responseSchema, ts.factory.createIdentifier('safeParse')), undefined, [
-                  ts.factory.createIdentifier('response')
-                ])
-              )
-            ],
-            ts.NodeFlags.Const
-          )
-        )
-      );
+  /**
+   * Returns all declared 2xx responses (including the `2XX` range) in status order, falling back to `default`
+   * when the operation declares no 2xx response.
+   */
+  private getSuccessResponses(schema: MethodSchemaType): ResponseType[] {
+    const responses = Object.entries(schema.responses ?? {});
+    const successResponses = responses
+      .filter(([status]) => /^2(\d\d|XX)$/i.test(status))
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([, response]) => response);
+    const defaultResponse = schema.responses?.['default'];
+
+    return successResponses.length > 0 || !defaultResponse ? successResponses : [defaultResponse];
+  }
 
-      // if (!parsed{Name}.success) { throw new ResponseValidationError<{Type}>(...) }
-      statements.push(
-        ts.factory.createIfStatement(
-          ts.factory.createPrefixUnaryExpression(ts.SyntaxKind.ExclamationToken, ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier(parsedVarName), 'success')),
-          ts.factory.createBlock(
-            [
-              ts.factory.createThrowStatement(
-                ts.factory.createNewExpression(
-                  ts.factory.createIdentifier('ResponseValidationError'),
-                  [ts.factory.createTypeReferenceNode(schemaName)],
-                  [
-                    ts.factory.createTemplateExpression(ts.factory.createTemplateHead(`Invalid ${schemaNameLower}: `), [
-                      ts.factory.createTemplateSpan(
-                        ts.factory.createCallExpression(
-                          ts.factory.createPropertyAccessExpression(
-                            ts.factory.createCallExpression(
-                              ts.factory.createPropertyAccessExpression(
-                                ts.factory.createPropertyAccessExpression(ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier(parsedVarName), 'error'), 'errors'),
-                                'map'
-                              ),
-                              undefined,
-                              [
-                                ts.factory.createArrowFunction(
-                                  undefined,
-                                  undefined,
-                                  [ts.factory.createParameterDeclaration(undefined, undefined, 'error')],
-                                  undefined,
-                                  ts.factory.createToken(ts.SyntaxKind.EqualsGreaterThanToken),
-                                  ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier('error'), 'message')
-                                )
-                              ]
-                            ),
-                            'join'
-                          ),
-                          undefined,
-                          [ts.factory.createStringLiteral(', ', true)]
-                        ),
-                        ts.factory.createTemplateTail('')
-                      )
-                    ]),
-                    ts.factory.createIdentifier('response'),
-                    ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier(parsedVarName), 'error')
-                  ]
-                )
-              )
-            ],
-            true
-          )
-        )
-      );
+  /**
+   * Whether a 2xx response without a body (e.g. `204`) is declared next to responses with one.
+   */
+  private hasNoContentSuccessResponse(schema: MethodSchemaType): boolean {
+    const successResponses = this.getSuccessResponses(schema);
+    const hasBody = (response: ResponseType): boolean => Object.keys(response.content ?? {}).length > 0;
 
-      // return parsed{Name}.data
-      statements.push(ts.factory.createReturnStatement(ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier(parsedVarName), 'data')));
-    } else {
-      statements.push(ts.factory.createReturnStatement(ts.factory.createAwaitExpression(makeRequestCall)));
+    return successResponses.some(hasBody) && successResponses.some((response) => !hasBody(response));
+  }
+
+  /**
+   * Returns the declared 4xx/5xx responses (including `4XX`/`5XX` ranges) and `default` when it is not the success response.
+   */
+  private getErrorResponses(schema: MethodSchemaType): [string, ResponseType][] {
+    const responses = Object.entries(schema.responses ?? {});
+    const hasSuccessResponses = responses.some(([status]) => /^2(\d\d|XX)$/i.test(status));
+
+    return responses.filter(([status]) => /^[45](\d\d|XX)$/i.test(status) || (status === 'default' && hasSuccessResponses));
+  }
+
+  /**
+   * Picks the success media type to decode across all 2xx responses, preferring JSON over text over binary.
+   */
+  private getSuccessMedia(schema: MethodSchemaType): { kind: 'json' | 'text' | 'binary'; schema: unknown } | undefined {
+    const media = this.getSuccessResponses(schema)
+      .map((response) => this.selectResponseMedia(response))
+      .filter((m) => m !== undefined);
+
+    return media.find((m) => m.kind === 'json') ?? media.find((m) => m.kind === 'text') ?? media.find((m) => m.kind === 'binary');
+  }
+
+  /**
+   * Returns the distinct JSON schemas declared across the operation's 2xx responses.
+   */
+  private getSuccessJsonSchemas(schema: MethodSchemaType): unknown[] {
+    const jsonSchemas = this.getSuccessResponses(schema)
+      .map((response) => this.selectResponseMedia(response))
+      .filter((media) => media?.kind === 'json' && media.schema !== undefined)
+      .map((media) => media?.schema);
+
+    return jsonSchemas.filter((jsonSchema, index) => jsonSchemas.findIndex((other) => JSON.stringify(other) === JSON.stringify(jsonSchema)) === index);
+  }
+
+  /**
+   * Classifies a media type as JSON (`application/json`, `*+json`), text (`text/*`, XML) or binary.
+   */
+  private getMediaKind(contentType: string): 'json' | 'text' | 'binary' {
+    const mediaType = contentType.split(';')[0]?.trim().toLowerCase() ?? '';
+
+    if (mediaType === 'application/json' || mediaType.endsWith('+json')) {
+      return 'json';
     }
 
-    const transformedOperationId = this.transformOperationName(String(schema.operationId), method, path, schema);
+    if (mediaType.startsWith('text/') || mediaType === 'application/xml' || mediaType.endsWith('+xml')) {
+      return 'text';
+    }
 
-    const methodDeclaration = ts.factory.createMethodDeclaration(
-      [ts.factory.createToken(ts.SyntaxKind.AsyncKeyword)],
-      undefined,
-      ts.factory.createIdentifier(transformedOperationId),
-      undefined,
-      undefined,
-      parameters,
-      responseType,
-      ts.factory.createBlock(statements, true)
-    );
+    return 'binary';
+  }
 
-    // Add JSDoc comment if summary or description exists
-    const jsdocComment = this.buildJSDocComment(schema.summary, schema.description, schema, responseType);
+  /**
+   * Picks the response media type to decode, preferring JSON over text over binary.
+   */
+  private selectResponseMedia(response: ResponseType | undefined): { kind: 'json' | 'text' | 'binary'; schema: unknown } | undefined {
+    const media = Object.entries(response?.content ?? {}).map(([contentType, mediaType]) => ({ kind: this.getMediaKind(contentType), schema: mediaType.schema }));
 
-    if (jsdocComment) {
-      // addSyntheticLeadingComment expects the comment content without delimiters
-      // and will wrap it in /** */ for JSDoc-style comments
-      ts.addSyntheticLeadingComment(methodDeclaration, ts.SyntaxKind.MultiLineCommentTrivia, `*\n${jsdocComment}\n `, true);
+    return media.find((m) => m.kind === 'json') ?? media.find((m) => m.kind === 'text') ?? media.find((m) => m.kind === 'binary');
+  }
+
+  /**
+   * Determines how makeRequest reads the response body for an operation.
+   */
+  private getResponseParsing(schema: MethodSchemaType): 'json' | 'text' | 'blob' | 'void' {
+    const media = this.getSuccessMedia(schema);
+
+    switch (media?.kind) {
+      case 'json':
+        return 'json';
+      case 'text':
+        return 'text';
+      case 'binary':
+        return 'blob';
+      default:
+        return 'void';
     }
+  }
 
-    return methodDeclaration;
+  /**
+   * Returns the JSON success response schema, substituting a reference to the synthesized schema for inline bodies.
+   */
+  private getJsonResponseSchema(method: string, path: string, schema: MethodSchemaType): unknown {
+    const inlineSchemaName = this.inlineResponseSchemaNames.get(`${method} ${path}`);
+    return inlineSchemaName ? { $ref: `#/components/schemas/${inlineSchemaName}` } : this.getSuccessJsonSchemas(schema)[0];
   }
 
-  private buildPathExpression(path: string, pathParams: { name: string; type: string }[]): ts.Expression {
-    // Replace {param} with ${param} for template literal
-    const pathParamNames = new Set(pathParams.map((p) => p.name));
-    const pathParamRegex = /\{([^}]+)\}/g;
-    const matches: { index: number; length: number; name: string }[] = [];
+  private getResponseSchema(method: string, path: string, schema: MethodSchemaType, _schemas: Record<string, ts.VariableStatement>): ts.Identifier | undefined {
+    const responseSchema = this.getJsonResponseSchema(method, path, schema);
+    if (!responseSchema) {
+      return undefined;
+    }
 
-    // Find all path parameters
-    for (const match of path.matchAll(pathParamRegex)) {
-      const paramName = match[1];
-      // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition
-      if (paramName && pathParamNames.has(paramName) && match.index !== undefined) {
-        matches.push({
-          index: match.index,
-          length: match[0].length,
-          name: paramName
-        });
+    // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition
+    if (responseSchema !== null && typeof responseSchema === 'object' && '$ref' in responseSchema) {
+      // eslint-disable-next-line @typescript-eslint/dot-notation
+      const ref = (responseSchema as { $ref: string })['$ref'];
+      if (typeof ref === 'string') {
+        const refName = ref.split('/').pop() ?? 'unknown';
+        return ts.factory.createIdentifier(this.typeBuilder.sanitizeIdentifier(refName));
       }
     }
 
-    if (matches.length === 0) {
-      // No path parameters, return as string literal
-      return ts.factory.createStringLiteral(path, true);
+    return undefined;
+  }
+
+  private getResponseType(method: string, path: string, schema: MethodSchemaType, schemas: Record<string, ts.VariableStatement>): ts.TypeNode | undefined {
+    const media = this.getSuccessMedia(schema);
+    // makeRequest resolves 2xx responses without a body to undefined
+    const promiseOf = (type: ts.TypeNode): ts.TypeNode =>
+      ts.factory.createTypeReferenceNode(ts.factory.createIdentifier('Promise'), [
+        this.hasNoContentSuccessResponse(schema) ? ts.factory.createUnionTypeNode([type, ts.factory.createKeywordTypeNode(ts.SyntaxKind.UndefinedKeyword)]) : type
+      ]);
+
+    if (media?.kind === 'text') {
+      return promiseOf(ts.factory.createKeywordTypeNode(ts.SyntaxKind.StringKeyword));
     }
 
-    // Build template expression
-    const templateSpans: ts.TemplateSpan[] = [];
+    if (media?.kind === 'binary') {
+      return promiseOf(ts.factory.createTypeReferenceNode(ts.factory.createIdentifier('Blob'), undefined));
+    }
 
-    for (const [index, m] of matches.entries()) {
-      const sanitizedName = this.typeBuilder.sanitizeIdentifier(m.name);
-      const next = matches[index + 1];
+    const responseSchema = this.getJsonResponseSchema(method, path, schema);
+    if (!responseSchema) {
+      return ts.factory.createTypeReferenceNode(ts.factory.createIdentifier('Promise'), [ts.factory.createKeywordTypeNode(ts.SyntaxKind.VoidKeyword)]);
+    }
 
-      if (next === undefined) {
-        const after = path.substring(m.index + m.length);
-        templateSpans.push(ts.factory.createTemplateSpan(ts.factory.createIdentifier(sanitizedName), ts.factory.createTemplateTail(after, after)));
-      } else {
-        const middle = path.substring(m.index + m.length, next.index);
-        templateSpans.push(ts.factory.createTemplateSpan(ts.factory.createIdentifier(sanitizedName), ts.factory.createTemplateMiddle(middle, middle)));
+    const typeName = this.getSchemaTypeName(responseSchema, schemas);
+
+    // Handle array types like "Pet[]"
+    if (typeName.endsWith('[]')) {
+      const itemTypeName = typeName.slice(0, -2);
+      const sanitizedItemTypeName = this.typeBuilder.sanitizeIdentifier(itemTypeName);
+
+      // Check if the item type is a custom schema (we have a type alias for it)
+      if (schemas[sanitizedItemTypeName]) {
+        // Use the type alias directly (it already uses z.infer)
+        return promiseOf(ts.factory.createArrayTypeNode(ts.factory.createTypeReferenceNode(ts.factory.createIdentifier(sanitizedItemTypeName), undefined)));
       }
+
+      // If it's a primitive array, use the type name as-is
+      return promiseOf(ts.factory.createTypeReferenceNode(ts.factory.createIdentifier(typeName), undefined));
     }
 
-    const firstMatch = matches[0];
-    if (!firstMatch) {
-      return ts.factory.createStringLiteral(path, true);
+    const sanitizedTypeName = this.typeBuilder.sanitizeIdentifier(typeName);
+
+    // Check if it's a custom schema type (we have a type alias for it)
+    if (schemas[sanitizedTypeName]) {
+      // Use the type name directly (we have a type alias that already uses z.infer)
+      return promiseOf(ts.factory.createTypeReferenceNode(ts.factory.createIdentifier(sanitizedTypeName), undefined));
     }
 
-    const head = path.substring(0, firstMatch.index);
-    return ts.factory.createTemplateExpression(ts.factory.createTemplateHead(head, head), templateSpans);
+    // For primitive types and Record types, use the type name directly
+    return promiseOf(ts.factory.createTypeReferenceNode(ts.factory.createIdentifier(typeName), undefined));
   }
 
-  private buildMethodParameters(
-    schema: MethodSchemaType,
-    schemas: Record<string, ts.VariableStatement>
-  ): {
-    parameters: ts.ParameterDeclaration[];
-    pathParams: { name: string; type: string }[];
-    queryParams: { name: string; type: string; required: boolean }[];
-    hasRequestBody: boolean;
-    contentType: string;
-  } {
-    const parameters: ts.ParameterDeclaration[] = [];
-    const pathParams: { name: string; type: string }[] = [];
-    const queryParams: { name: string; type: string; required: boolean }[] = [];
+  private buildServerConfiguration(openapi: OpenApiSpecType): ts.Statement[] {
+    const servers = openapi.servers;
 
-    // Extract path and query parameters
-    if (schema.parameters) {
-      for (const param of schema.parameters) {
-        const paramName = this.typeBuilder.sanitizeIdentifier(param.name);
-        const paramType = this.getParameterType(param.schema);
+    if (!servers || servers.length === 0) {
+      return [];
+    }
 
-        if (param.in === 'path') {
-          pathParams.push({ name: param.name, type: paramType });
-          parameters.push(this.typeBuilder.createParameter(paramName, paramType, undefined, false));
-        } else if (param.in === 'query') {
-          // Improve type inference for query parameters
-          const queryParamType =
-            // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition
-            typeof param.schema === 'object' && param.schema !== null
-              ? (() => {
-                  const paramSchema = param.schema as { type?: string; items?: unknown; enum?: unknown[] };
-                  // eslint-disable-next-line @typescript-eslint/dot-notation
-                  if (paramSchema['type'] === 'array' && paramSchema['items']) {
-                    // eslint-disable-next-line @typescript-eslint/dot-notation
-                    const itemSchema = paramSchema['items'] as { type?: string };
-                    // eslint-disable-next-line @typescript-eslint/dot-notation
-                    if (itemSchema['type'] === 'string') {
-                      return 'string[]' as const;
-                    }
+    const statements: ts.Statement[] = [];
 
-                    // eslint-disable-next-line @typescript-eslint/dot-notation
-                    if (itemSchema['type'] === 'number' || itemSchema['type'] === 'integer') {
-                      return 'number[]' as const;
-                    }
-                  }
+    // Build server configuration array
+    const serverConfigElements = servers.map((server) => {
+      const properties: ts.PropertyAssignment[] = [ts.factory.createPropertyAssignment('url', ts.factory.createStringLiteral(server.url, true))];
 
-                  return paramType;
-                })()
-              : paramType;
-          queryParams.push({ name: param.name, type: queryParamType, required: param.required ?? false });
-          parameters.push(this.typeBuilder.createParameter(paramName, queryParamType, undefined, !param.required));
-        }
+      if (server.description) {
+        properties.push(ts.factory.createPropertyAssignment('description', ts.factory.createStringLiteral(server.description, true)));
       }
-    }
 
-    // Add request body parameter if present
-    // Check for both application/json and application/x-www-form-urlencoded
-    const jsonContent = schema.requestBody?.content?.['application/json'];
-    const formContent = schema.requestBody?.content?.['application/x-www-form-urlencoded'];
-    const hasRequestBody = !!(jsonContent ?? formContent);
+      if (server.variables && Object.keys(server.variables).length > 0) {
+        const variableProperties = Object.entries(server.variables).map(([varName, varDef]) => {
+          const varProps: ts.PropertyAssignment[] = [ts.factory.createPropertyAssignment('default', ts.factory.createStringLiteral(varDef.default, true))];
+
+          if (varDef.enum && varDef.enum.length > 0) {
+            varProps.push(
+              ts.factory.createPropertyAssignment(
+                'enum',
+                ts.factory.createArrayLiteralExpression(
+                  varDef.enum.map((val) => ts.factory.createStringLiteral(val, true)),
+                  false
+                )
+              )
+            );
+          }
+
+          if (varDef.description) {
+            varProps.push(ts.factory.createPropertyAssignment('description', ts.factory.createStringLiteral(varDef.description, true)));
+          }
+
+          return ts.factory.createPropertyAssignment(varName, ts.factory.createObjectLiteralExpression(varProps, true));
+        });
+
+        properties.push(ts.factory.createPropertyAssignment('variables', ts.factory.createObjectLiteralExpression(variableProperties, true)));
+      }
+
+      return ts.factory.createObjectLiteralExpression(properties, true);
+    });
+
+    // Export server configuration
+    statements.push(
+      ts.factory.createVariableStatement(
+        [ts.factory.createToken(ts.SyntaxKind.ExportKeyword)],
+        ts.factory.createVariableDeclarationList(
+          [
+            ts.factory.createVariableDeclaration(
+              ts.factory.createIdentifier('serverConfigurations'),
+              undefined,
+              undefined,
+              ts.factory.createArrayLiteralExpression(serverConfigElements, false)
+            )
+          ],
+          ts.NodeFlags.Const
+        )
+      )
+    );
+
+    // Export default base URL (first server with default variables)
+    const firstServer = servers[0];
+    const defaultBaseUrl = firstServer ? this.resolveServerUrl(firstServer, {}) : '/';
+    statements.push(
+      ts.factory.createVariableStatement(
+        [ts.factory.createToken(ts.SyntaxKind.ExportKeyword)],
+        ts.factory.createVariableDeclarationList(
+          [ts.factory.createVariableDeclaration(ts.factory.createIdentifier('defaultBaseUrl'), undefined, undefined, ts.factory.createStringLiteral(defaultBaseUrl, true))],
+          ts.NodeFlags.Const
+        )
+      )
+    );
+
+    // Build ClientOptions type
+    const optionProperties: ts.PropertySignature[] = [
+      ts.factory.createPropertySignature(
+        undefined,
+        ts.factory.createIdentifier('baseUrl'),
+        ts.factory.createToken(ts.SyntaxKind.QuestionToken),
+        ts.factory.createKeywordTypeNode(ts.SyntaxKind.StringKeyword)
+      ),
+      ts.factory.createPropertySignature(
+        undefined,
+        ts.factory.createIdentifier('serverIndex'),
+        ts.factory.createToken(ts.SyntaxKind.QuestionToken),
+        ts.factory.createKeywordTypeNode(ts.SyntaxKind.NumberKeyword)
+      ),
+      ts.factory.createPropertySignature(
+        undefined,
+        ts.factory.createIdentifier('serverVariables'),
+        ts.factory.createToken(ts.SyntaxKind.QuestionToken),
+        ts.factory.createTypeReferenceNode(ts.factory.createIdentifier('Record'), [
+          ts.factory.createKeywordTypeNode(ts.SyntaxKind.StringKeyword),
+          ts.factory.createKeywordTypeNode(ts.SyntaxKind.StringKeyword)
+        ])
+      ),
+      ...(this.hasSecuritySchemes() ? [this.buildAuthOptionProperty()] : [])
+    ];
+
+    statements.push(
+      ts.factory.createTypeAliasDeclaration(
+        [ts.factory.createToken(ts.SyntaxKind.ExportKeyword)],
+        ts.factory.createIdentifier('ClientOptions'),
+        undefined,
+        ts.factory.createTypeLiteralNode(optionProperties)
+      )
+    );
 
-    if (hasRequestBody) {
-      const requestBodyContent = jsonContent ?? formContent;
-      const requestBodySchema = requestBodyContent?.schema;
-      const bodyType =
-        typeof requestBodySchema === 'object' && requestBodySchema !== null
-          ? (() => {
-              const schemaObj = requestBodySchema as Record<string, unknown>;
-              const ref = schemaObj['$ref'];
+    // Build resolveServerUrl helper function
+    statements.push(this.buildResolveServerUrlFunction(servers));
 
-              if (ref && typeof ref === 'string' && ref.startsWith('#/components/schemas/')) {
-                const refName = ref.split('/').pop() ?? 'unknown';
-                return this.typeBuilder.sanitizeIdentifier(refName);
-              }
+    return statements;
+  }
 
-              // Fallback to getSchemaTypeName for non-ref schemas
-              return this.getSchemaTypeName(requestBodySchema, schemas);
-            })()
-          : 'unknown';
+  private resolveServerUrl(
+    server: {
+      url: string;
+      variables?: Record<string, { default: string; enum?: string[] | undefined; description?: string | undefined }> | undefined;
+    },
+    variables: Record<string, string>
+  ): string {
+    let url = server.url;
 
-      parameters.push(this.typeBuilder.createParameter('body', bodyType, undefined, !schema.requestBody?.required));
+    if (server.variables) {
+      for (const [varName, varDef] of Object.entries(server.variables)) {
+        const value = variables[varName] ?? varDef.default;
+        url = url.replace(`{${varName}}`, value);
+      }
     }
 
-    // Determine content type for request body
-    const contentType = hasRequestBody && schema.requestBody?.content?.['application/x-www-form-urlencoded'] ? 'application/x-www-form-urlencoded' : 'application/json';
-
-    return { parameters, pathParams, queryParams, hasRequestBody, contentType };
+    return url;
   }
 
-  private getParameterType(schema: unknown): string {
-    if (!schema || typeof schema !== 'object') {
-      return 'string';
-    }
+  private buildResolveServerUrlFunction(
+    servers: {
+      url: string;
+      description?: string | undefined;
+      variables?: Record<string, { default: string; enum?: string[] | undefined; description?: string | undefined }> | undefined;
+    }[]
+  ): ts.FunctionDeclaration {
+    // Build server configs array inline
+    const serverConfigElements = servers.map((server) => {
+      const properties: ts.PropertyAssignment[] = [ts.factory.createPropertyAssignment('url', ts.factory.createStringLiteral(server.url, true))];
 
-    const schemaObj = schema as {
-      type?: string;
-      format?: string;
-      $ref?: string;
-      enum?: unknown[];
-      items?: unknown;
-    };
+      if (server.variables && Object.keys(server.variables).length > 0) {
+        const variableProperties = Object.entries(server.variables).map(([varName, varDef]) => {
+          const varProps: ts.PropertyAssignment[] = [ts.factory.createPropertyAssignment('default', ts.factory.createStringLiteral(varDef.default, true))];
 
-    if (schemaObj.$ref) {
-      const refName = schemaObj.$ref.split('/').pop() ?? 'unknown';
-      return this.typeBuilder.sanitizeIdentifier(refName);
-    }
+          if (varDef.enum && varDef.enum.length > 0) {
+            varProps.push(
+              ts.factory.createPropertyAssignment(
+                'enum',
+                ts.factory.createArrayLiteralExpression(
+                  varDef.enum.map((val) => ts.factory.createStringLiteral(val, true)),
+                  false
+                )
+              )
+            );
+          }
 
-    if (schemaObj.type === 'array' && schemaObj.items) {
-      const itemType = this.getParameterType(schemaObj.items);
-      return `${itemType}[]`;
-    }
+          return ts.factory.createPropertyAssignment(varName, ts.factory.createObjectLiteralExpression(varProps, true));
+        });
 
-    switch (schemaObj.type) {
-      case 'integer':
-      case 'number':
-        return 'number';
-      case 'boolean':
-        return 'boolean';
-      case 'array':
-        return 'unknown[]';
-      case 'object':
-        return 'Record<string, unknown>';
-      case 'string':
-        // If it has enum values, we could generate a union type, but for simplicity, keep as string
-        // The Zod schema will handle the validation
-        return 'string';
-      default:
-        return 'string';
-    }
-  }
+        properties.push(ts.factory.createPropertyAssignment('variables', ts.factory.createObjectLiteralExpression(variableProperties, true)));
+      }
 
-  private getSchemaTypeName(schema: unknown, _schemas: Record<string, ts.VariableStatement>): string {
-    if (typeof schema !== 'object' || schema === null) {
-      return 'unknown';
-    }
+      return ts.factory.createObjectLiteralExpression(properties, true);
+    });
 
-    const schemaObj = schema as { $ref?: string; type?: string; items?: unknown };
+    // Build function body - simplified version
+    const idx = ts.factory.createIdentifier('idx');
+    const configs = ts.factory.createIdentifier('configs');
+    const config = ts.factory.createIdentifier('config');
+    const url = ts.factory.createIdentifier('url');
+    const key = ts.factory.createIdentifier('key');
+    const value = ts.factory.createIdentifier('value');
 
-    // Check for $ref using both dot notation and bracket notation
-    // eslint-disable-next-line @typescript-eslint/dot-notation
-    const ref = schemaObj['$ref'];
-    if (ref && typeof ref === 'string') {
-      const refName = ref.split('/').pop() ?? 'unknown';
-      return this.typeBuilder.sanitizeIdentifier(refName);
-    }
+    const bodyStatements: ts.Statement[] = [
+      // const configs = [...]
+      ts.factory.createVariableStatement(
+        undefined,
+        ts.factory.createVariableDeclarationList(
+          [ts.factory.createVariableDeclaration(configs, undefined, undefined, ts.factory.createArrayLiteralExpression(serverConfigElements, false))],
+          ts.NodeFlags.Const
+        )
+      ),
+      // const idx = serverIndex ?? 0
+      ts.factory.createVariableStatement(
+        undefined,
+        ts.factory.createVariableDeclarationList(
+          [
+            ts.factory.createVariableDeclaration(
+              idx,
+              undefined,
+              undefined,
+              ts.factory.createBinaryExpression(
+                ts.factory.createIdentifier('serverIndex'),
+                ts.factory.createToken(ts.SyntaxKind.QuestionQuestionToken),
+                ts.factory.createNumericLiteral('0')
+              )
+            )
+          ],
+          ts.NodeFlags.Const
+        )
+      ),
+      // if (idx < configs.length) { ... }
+      ts.factory.createIfStatement(
+        ts.factory.createBinaryExpression(
+          idx,
+          ts.factory.createToken(ts.SyntaxKind.LessThanToken),
+          ts.factory.createPropertyAccessExpression(configs, ts.factory.createIdentifier('length'))
+        ),
+        ts.factory.createBlock(
+          [
+            // const config = configs[idx]
+            ts.factory.createVariableStatement(
+              undefined,
+              ts.factory.createVariableDeclarationList(
+                [ts.factory.createVariableDeclaration(config, undefined, undefined, ts.factory.createElementAccessExpression(configs, idx))],
+                ts.NodeFlags.Const
+              )
+            ),
+            // let url = config.url
+            ts.factory.createVariableStatement(
+              undefined,
+              ts.factory.createVariableDeclarationList(
+                [ts.factory.createVariableDeclaration(url, undefined, undefined, ts.factory.createPropertyAccessExpression(config, ts.factory.createIdentifier('url')))],
+                ts.NodeFlags.Let
+              )
+            ),
+            // if (config.variables && serverVariables) { ... }
+            ts.factory.createIfStatement(
+              ts.factory.createLogicalAnd(
+                ts.factory.createPropertyAccessExpression(config, ts.factory.createIdentifier('variables')),
+                ts.factory.createIdentifier('serverVariables')
+              ),
+              ts.factory.createBlock(
+                [
+                  // for (const [key, value] of Object.entries(serverVariables)) { url = url.replace(...) }
+                  ts.factory.createForOfStatement(
+                    undefined,
+                    ts.factory.createVariableDeclarationList(
+                      [
+                        ts.factory.createVariableDeclaration(
+                          ts.factory.createArrayBindingPattern([
+                            ts.factory.createBindingElement(undefined, undefined, key),
+                            ts.factory.createBindingElement(undefined, undefined, value)
+                          ]),
+                          undefined,
+                          undefined
+                        )
+                      ],
+                      ts.NodeFlags.Const
+                    ),
+                    ts.factory.createCallExpression(
+                      ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier('Object'), ts.factory.createIdentifier('entries')),
+                      undefined,
+                      [ts.factory.createIdentifier('serverVariables')]
+                    ),
+                    ts.factory.createBlock(
+                      [
+                        ts.factory.createExpressionStatement(
+                          ts.factory.createBinaryExpression(
+                            url,
+                            ts.factory.createToken(ts.SyntaxKind.EqualsToken),
+                            ts.factory.createCallExpression(ts.factory.createPropertyAccessExpression(url, ts.factory.createIdentifier('replace')), undefined, [
+                              ts.factory.createNewExpression(ts.factory.createIdentifier('RegExp'), undefined, [
+                                ts.factory.createBinaryExpression(
+                                  ts.factory.createBinaryExpression(ts.factory.createStringLiteral('\\{'), ts.factory.createToken(ts.SyntaxKind.PlusToken), key),
+                                  ts.factory.createToken(ts.SyntaxKind.PlusToken),
+                                  ts.factory.createStringLiteral('\\}')
+                                ),
+                                ts.factory.createStringLiteral('g')
+                              ]),
+                              value
+                            ])
+                          )
+                        )
+                      ],
+                      true
+                    )
+                  )
+                ],
+                true
+              )
+            ),
+            // return url
+            ts.factory.createReturnStatement(url)
+          ],
+          true
+        )
+      ),
+      // return default (first server with defaults)
+      ts.factory.createReturnStatement(ts.factory.createStringLiteral(servers[0] ? this.resolveServerUrl(servers[0], {}) : '/', true))
+    ];
 
-    if (schemaObj.type === 'array' && schemaObj.items) {
-      const itemType = this.getSchemaTypeName(schemaObj.items, _schemas);
-      return `${itemType}[]`;
-    }
+    return ts.factory.createFunctionDeclaration(
+      undefined,
+      undefined,
+      ts.factory.createIdentifier('resolveServerUrl'),
+      undefined,
+      [
+        ts.factory.createParameterDeclaration(
+          undefined,
+          undefined,
+          ts.factory.createIdentifier('serverIndex'),
+          ts.factory.createToken(ts.SyntaxKind.QuestionToken),
+          ts.factory.createUnionTypeNode([ts.factory.createKeywordTypeNode(ts.SyntaxKind.NumberKeyword), ts.factory.createKeywordTypeNode(ts.SyntaxKind.UndefinedKeyword)]),
+          undefined
+        ),
+        ts.factory.createParameterDeclaration(
+          undefined,
+          undefined,
+          ts.factory.createIdentifier('serverVariables'),
+          ts.factory.createToken(ts.SyntaxKind.QuestionToken),
+          ts.factory.createTypeReferenceNode(ts.factory.createIdentifier('Record'), [
+            ts.factory.createKeywordTypeNode(ts.SyntaxKind.StringKeyword),
+            ts.factory.createKeywordTypeNode(ts.SyntaxKind.StringKeyword)
+          ]),
+          ts.factory.createObjectLiteralExpression([], false)
+        )
+      ],
+      ts.factory.createKeywordTypeNode(ts.SyntaxKind.StringKeyword),
+      ts.factory.createBlock(bodyStatements, true)
+    );
+  }
 
-    switch (schemaObj.type) {
-      case 'integer':
-      case 'number':
-        return 'number';
-      case 'boolean':
-        return 'boolean';
-      case 'string':
-        return 'string';
-      case 'object':
-        return 'Record<string, unknown>';
-      default:
-        return 'unknown';
-    }
+  private generateClientName(title: string): string {
+    return title
+      .split(/[^a-zA-Z0-9]/g)
+      .map((word) => this.typeBuilder.toPascalCase(word))
+      .join('');
   }
 
-  private getResponseSchema(schema: MethodSchemaType, _schemas: Record<string, ts.VariableStatement>): ts.Identifier | undefined {
-    // Try to find a 200 response first, then 201, then default
-    const response200 = schema.responses?.['200'];
-    const response201 = schema.responses?.['201'];
-    const responseDefault = schema.responses?.['default'];
+  private createComment(text: string): ts.Statement {
+    const commentNode = ts.factory.createIdentifier('\n');
+    ts.addSyntheticTrailingComment(commentNode, ts.SyntaxKind.SingleLineCommentTrivia, ` ${text}`, true);
+    return ts.factory.createExpressionStatement(commentNode);
+  }
 
-    const response = response200 ?? response201 ?? responseDefault;
-    if (!response?.content?.['application/json']?.schema) {
-      return undefined;
-    }
+  /**
+   * Builds a JSDoc comment string from operation metadata
+   */
+  private buildJSDocComment(
+    summary: string | undefined,
+    description: string | undefined,
+    schema: MethodSchemaType,
+    responseType: ts.TypeNode | undefined,
+    errorTypeName?: string
+  ): string {
+    const lines: string[] = [];
 
-    const responseSchema = response.content['application/json'].schema;
-    // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition
-    if (responseSchema !== null && typeof responseSchema === 'object' && '$ref' in responseSchema) {
-      // eslint-disable-next-line @typescript-eslint/dot-notation
-      const ref = (responseSchema as { $ref: string })['$ref'];
-      if (typeof ref === 'string') {
-        const refName = ref.split('/').pop() ?? 'unknown';
-        return ts.factory.createIdentifier(this.typeBuilder.sanitizeIdentifier(refName));
+    // Add summary or description as the main comment
+    if (summary) {
+      lines.push(` * ${summary}`);
+    } else if (description) {
+      // Use first line of description as summary if no summary exists
+      const firstLine = description.split('\n')[0]?.trim();
+      if (firstLine) {
+        lines.push(` * ${firstLine}`);
       }
     }
 
-    // For inline schemas, we'd need to generate a schema, but for now return undefined
-    // This could be enhanced to generate inline schemas
-    return undefined;
-  }
-
-  private getResponseType(schema: MethodSchemaType, schemas: Record<string, ts.VariableStatement>): ts.TypeNode | undefined {
-    // Try to find a 200 response first, then 201, then default
-    const response200 = schema.responses?.['200'];
-    const response201 = schema.responses?.['201'];
-    const responseDefault = schema.responses?.['default'];
+    // Add full description if it exists and is different from summary
+    if (description && description !== summary) {
+      const descLines = description.split('\n');
+      if (descLines.length > 1 || descLines[0] !== summary) {
+        if (lines.length > 0) {
+          lines.push(' *');
+        }
 
-    const response = response200 ?? response201 ?? responseDefault;
-    if (!response?.content?.['application/json']?.schema) {
-      return ts.factory.createTypeReferenceNode(ts.factory.createIdentifier('Promise'), [ts.factory.createKeywordTypeNode(ts.SyntaxKind.VoidKeyword)]);
+        descLines.forEach((line) => {
+          lines.push(` * ${line.trim() || ''}`);
+        });
+      }
     }
 
-    const responseSchema = response.content['application/json'].schema;
-    const typeName = this.getSchemaTypeName(responseSchema, schemas);
-
-    // Handle array types like "Pet[]"
-    if (typeName.endsWith('[]')) {
-      const itemTypeName = typeName.slice(0, -2);
-      const sanitizedItemTypeName = this.typeBuilder.sanitizeIdentifier(itemTypeName);
-
-      // Check if the item type is a custom schema (we have a type alias for it)
-      if (schemas[sanitizedItemTypeName]) {
-        // Use the type alias directly (it already uses z.infer)
-        return ts.factory.createTypeReferenceNode(ts.factory.createIdentifier('Promise'), [
-          ts.factory.createArrayTypeNode(ts.factory.createTypeReferenceNode(ts.factory.createIdentifier(sanitizedItemTypeName), undefined))
-        ]);
+    // Add @param tags for each parameter
+    if (schema.parameters && schema.parameters.length > 0) {
+      if (lines.length > 0) {
+        lines.push(' *');
       }
 
-      // If it's a primitive array, use the type name as-is
-      return ts.factory.createTypeReferenceNode(ts.factory.createIdentifier('Promise'), [ts.factory.createTypeReferenceNode(ts.factory.createIdentifier(typeName), undefined)]);
+      for (const param of schema.parameters) {
+        const paramName = this.typeBuilder.sanitizeIdentifier(param.name);
+        const paramDesc = param.description ? ` ${param.description}` : '';
+        lines.push(` * @param ${paramName}${paramDesc}`);
+      }
     }
 
-    const sanitizedTypeName = this.typeBuilder.sanitizeIdentifier(typeName);
-
-    // Check if it's a custom schema type (we have a type alias for it)
-    if (schemas[sanitizedTypeName]) {
-      // Use the type name directly (we have a type alias that already uses z.infer)
-      return ts.factory.createTypeReferenceNode(ts.factory.createIdentifier('Promise'), [
-        ts.factory.createTypeReferenceNode(ts.factory.createIdentifier(sanitizedTypeName), undefined)
-      ]);
+    // Add @param tag for request body if present
+    if (schema.requestBody) {
+      const bodyDesc = schema.requestBody.description ? ` ${schema.requestBody.description}` : '';
+      lines.push(` * @param body${bodyDesc}`);
     }
 
-    // For primitive types and Record types, use the type name directly
-    return ts.factory.createTypeReferenceNode(ts.factory.createIdentifier('Promise'), [ts.factory.createTypeReferenceNode(ts.factory.createIdentifier(typeName), undefined)]);
-  }
-
-  private buildServerConfiguration(openapi: OpenApiSpecType): ts.Statement[] {
-    const servers = openapi.servers;
+    // Add @returns tag if we have a response type
+    if (responseType) {
+      // Extract the inner type from Promise<T> for JSDoc
+      let returnTypeText: string;
+      if (
+        ts.isTypeReferenceNode(responseType) &&
+        ts.isIdentifier(responseType.typeName) &&
+        responseType.typeName.text === 'Promise' &&
+        responseType.typeArguments &&
+        responseType.typeArguments.length > 0 &&
+        responseType.typeArguments[0]
+      ) {
+        // Extract the inner type from Promise<T>
+        const innerType = responseType.typeArguments[0];
+        returnTypeText = this.printer.printNode(ts.EmitHint.Unspecified, innerType, ts.createSourceFile('', '', ts.ScriptTarget.Latest));
+      } else {
+        returnTypeText = this.printer.printNode(ts.EmitHint.Unspecified, responseType, ts.createSourceFile('', '', ts.ScriptTarget.Latest));
+      }
 
-    if (!servers || servers.length === 0) {
-      return [];
+      lines.push(` * @returns {${returnTypeText}}`);
     }
 
-    const statements: ts.Statement[] = [];
-
-    // Build server configuration array
-    const serverConfigElements = servers.map((server) => {
-      const properties: ts.PropertyAssignment[] = [ts.factory.createPropertyAssignment('url', ts.factory.createStringLiteral(server.url, true))];
+    // Add @throws tag for operations declaring error responses
+    if (errorTypeName) {
+      lines.push(` * @throws {ApiError<${errorTypeName}>}`);
+    }
 
-      if (server.description) {
-        properties.push(ts.factory.createPropertyAssignment('description', ts.factory.createStringLiteral(server.description, true)));
-      }
+    // Build the complete JSDoc comment (without delimiters, as addSyntheticLeadingComment adds them)
+    if (lines.length === 0) {
+      return '';
+    }
 
-      if (server.variables && Object.keys(server.variables).length > 0) {
-        const variableProperties = Object.entries(server.variables).map(([varName, varDef]) => {
-          const varProps: ts.PropertyAssignment[] = [ts.factory.createPropertyAssignment('default', ts.factory.createStringLiteral(varDef.default, true))];
+    return lines.join('\n');
+  }
 
-          if (varDef.enum && varDef.enum.length > 0) {
-            varProps.push(
-              ts.factory.createPropertyAssignment(
-                'enum',
-                ts.factory.createArrayLiteralExpression(
-                  varDef.enum.map((val) => ts.factory.createStringLiteral(val, true)),
-                  false
-                )
-              )
-            );
-          }
+  private buildZodAST(input: (string | z.infer<typeof this.ZodAST>)[]): ts.CallExpression {
+    const [initial, ...rest] = input;
 
-          if (varDef.description) {
-            varProps.push(ts.factory.createPropertyAssignment('description', ts.factory.createStringLiteral(varDef.description, true)));
-          }
+    const safeInitial = this.ZodAST.safeParse(initial);
 
-          return ts.factory.createPropertyAssignment(varName, ts.factory.createObjectLiteralExpression(varProps, true));
-        });
+    const initialExpression = !safeInitial.success
+      ? ts.factory.createCallExpression(
+          ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier('z'), ts.factory.createIdentifier(this.ZodAST.shape.type.parse(initial))),
+          undefined,
+          []
+        )
+      : ts.factory.createCallExpression(
+          ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier('z'), ts.factory.createIdentifier(safeInitial.data.type)),
+          undefined,
+          (safeInitial.data.args ?? []) as ts.Expression[]
+        );
 
-        properties.push(ts.factory.createPropertyAssignment('variables', ts.factory.createObjectLiteralExpression(variableProperties, true)));
-      }
+    return rest.reduce((expression, exp: unknown) => {
+      const safeExp = this.ZodAST.safeParse(exp);
+      return !safeExp.success
+        ? ts.factory.createCallExpression(
+            ts.factory.createPropertyAccessExpression(expression, ts.factory.createIdentifier(typeof exp === 'string' ? exp : String(exp))),
+            undefined,
+            []
+          )
+        : ts.factory.createCallExpression(
+            ts.factory.createPropertyAccessExpression(expression, ts.factory.createIdentifier(safeExp.data.type)),
+            undefined,
+            (safeExp.data.args ?? []) as ts.Expression[]
+          );
+    }, initialExpression);
+  }
 
-      return ts.factory.createObjectLiteralExpression(properties, true);
-    });
+  private buildProperty(property: unknown, required = false): ts.Expression {
+    const safeProperty = SchemaProperties.safeParse(property);
 
-    // Export server configuration
-    statements.push(
-      ts.factory.createVariableStatement(
-        [ts.factory.createToken(ts.SyntaxKind.ExportKeyword)],
-        ts.factory.createVariableDeclarationList(
-          [
-            ts.factory.createVariableDeclaration(
-              ts.factory.createIdentifier('serverConfigurations'),
-              undefined,
-              undefined,
-              ts.factory.createArrayLiteralExpression(serverConfigElements, false)
-            )
-          ],
-          ts.NodeFlags.Const
-        )
-      )
-    );
+    if (!safeProperty.success) {
+      return this.buildZodAST(['unknown']);
+    }
 
-    // Export default base URL (first server with default variables)
-    const firstServer = servers[0];
-    const defaultBaseUrl = firstServer ? this.resolveServerUrl(firstServer, {}) : '/';
-    statements.push(
-      ts.factory.createVariableStatement(
-        [ts.factory.createToken(ts.SyntaxKind.ExportKeyword)],
-        ts.factory.createVariableDeclarationList(
-          [ts.factory.createVariableDeclaration(ts.factory.createIdentifier('defaultBaseUrl'), undefined, undefined, ts.factory.createStringLiteral(defaultBaseUrl, true))],
-          ts.NodeFlags.Const
-        )
-      )
-    );
+    const prop = safeProperty.data;
 
-    // Build ClientOptions type
-    const optionProperties: ts.PropertySignature[] = [
-      ts.factory.createPropertySignature(
-        undefined,
-        ts.factory.createIdentifier('baseUrl'),
-        ts.factory.createToken(ts.SyntaxKind.QuestionToken),
-        ts.factory.createKeywordTypeNode(ts.SyntaxKind.StringKeyword)
-      ),
-      ts.factory.createPropertySignature(
-        undefined,
-        ts.factory.createIdentifier('serverIndex'),
-        ts.factory.createToken(ts.SyntaxKind.QuestionToken),
-        ts.factory.createKeywordTypeNode(ts.SyntaxKind.NumberKeyword)
-      ),
-      ts.factory.createPropertySignature(
+    if (prop['nullable'] === true) {
+      const nullableSchema = ts.factory.createCallExpression(
+        ts.factory.createPropertyAccessExpression(this.buildProperty({ ...prop, nullable: false }, true), ts.factory.createIdentifier('nullable')),
         undefined,
-        ts.factory.createIdentifier('serverVariables'),
-        ts.factory.createToken(ts.SyntaxKind.QuestionToken),
-        ts.factory.createTypeReferenceNode(ts.factory.createIdentifier('Record'), [
-          ts.factory.createKeywordTypeNode(ts.SyntaxKind.StringKeyword),
-          ts.factory.createKeywordTypeNode(ts.SyntaxKind.StringKeyword)
-        ])
-      )
-    ];
+        []
+      );
+      return required
+        ? nullableSchema
+        : ts.factory.createCallExpression(ts.factory.createPropertyAccessExpression(nullableSchema, ts.factory.createIdentifier('optional')), undefined, []);
+    }
 
-    statements.push(
-      ts.factory.createTypeAliasDeclaration(
-        [ts.factory.createToken(ts.SyntaxKind.ExportKeyword)],
-        ts.factory.createIdentifier('ClientOptions'),
-        undefined,
-        ts.factory.createTypeLiteralNode(optionProperties)
-      )
-    );
+    if (prop['if'] !== undefined && (prop['then'] !== undefined || prop['else'] !== undefined)) {
+      return this.buildConditionalSchema(prop, required);
+    }
+
+    if (this.isReference(prop)) {
+      const refSchema = this.buildFromReference(prop);
+      return required ? refSchema : ts.factory.createCallExpression(ts.factory.createPropertyAccessExpression(refSchema, ts.factory.createIdentifier('optional')), undefined, []);
+    }
 
-    // Build resolveServerUrl helper function
-    statements.push(this.buildResolveServerUrlFunction(servers));
+    if (prop['anyOf'] && Array.isArray(prop['anyOf']) && prop['anyOf'].length > 0) {
+      return this.handleLogicalOperator('anyOf', prop['anyOf'], required, this.getDiscriminator(prop));
+    }
 
-    return statements;
-  }
+    if (prop['oneOf'] && Array.isArray(prop['oneOf']) && prop['oneOf'].length > 0) {
+      return this.handleLogicalOperator('oneOf', prop['oneOf'], required, this.getDiscriminator(prop));
+    }
 
-  private resolveServerUrl(
-    server: {
-      url: string;
-      variables?: Record<string, { default: string; enum?: string[] | undefined; description?: string | undefined }> | undefined;
-    },
-    variables: Record<string, string>
-  ): string {
-    let url = server.url;
+    if (prop['allOf'] && Array.isArray(prop['allOf']) && prop['allOf'].length > 0) {
+      return this.handleLogicalOperator('allOf', prop['allOf'], required);
+    }
 
-    if (server.variables) {
-      for (const [varName, varDef] of Object.entries(server.variables)) {
-        const value = variables[varName] ?? varDef.default;
-        url = url.replace(`{${varName}}`, value);
-      }
+    if (prop['not']) {
+      return this.handleLogicalOperator('not', [prop['not']], required);
     }
 
-    return url;
-  }
+    // Handle const (OpenAPI 3.1)
+    if (prop['const'] !== undefined && (prop['const'] === null || ['string', 'number', 'boolean'].includes(typeof prop['const']))) {
+      const literalExpression = ts.factory.createCallExpression(
+        ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier('z'), ts.factory.createIdentifier('literal')),
+        undefined,
+        [this.buildDefaultValue(prop['const'])]
+      );
 
-  private buildResolveServerUrlFunction(
-    servers: {
-      url: string;
-      description?: string | undefined;
-      variables?: Record<string, { default: string; enum?: string[] | undefined; description?: string | undefined }> | undefined;
-    }[]
-  ): ts.FunctionDeclaration {
-    // Build server configs array inline
-    const serverConfigElements = servers.map((server) => {
-      const properties: ts.PropertyAssignment[] = [ts.factory.createPropertyAssignment('url', ts.factory.createStringLiteral(server.url, true))];
+      return required
+        ? literalExpression
+        : ts.factory.createCallExpression(ts.factory.createPropertyAccessExpression(literalExpression, ts.factory.createIdentifier('optional')), undefined, []);
+    }
 
-      if (server.variables && Object.keys(server.variables).length > 0) {
-        const variableProperties = Object.entries(server.variables).map(([varName, varDef]) => {
-          const varProps: ts.PropertyAssignment[] = [ts.factory.createPropertyAssignment('default', ts.factory.createStringLiteral(varDef.default, true))];
+    // Handle enum
+    if (prop['enum'] && Array.isArray(prop['enum']) && prop['enum'].length > 0) {
+      // Check if all enum values are strings (z.enum only works with strings)
+      const allStrings = prop['enum'].every((val) => typeof val === 'string');
 
-          if (varDef.enum && varDef.enum.length > 0) {
-            varProps.push(
-              ts.factory.createPropertyAssignment(
-                'enum',
-                ts.factory.createArrayLiteralExpression(
-                  varDef.enum.map((val) => ts.factory.createStringLiteral(val, true)),
-                  false
-                )
-              )
-            );
+      if (allStrings) {
+        // Use z.enum() for string enums
+        const enumValues = prop['enum'].map((val) => ts.factory.createStringLiteral(val as string, true));
+        const enumExpression = ts.factory.createCallExpression(
+          ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier('z'), ts.factory.createIdentifier('enum')),
+          undefined,
+          [ts.factory.createArrayLiteralExpression(enumValues, false)]
+        );
+
+        return required
+          ? enumExpression
+          : ts.factory.createCallExpression(ts.factory.createPropertyAccessExpression(enumExpression, ts.factory.createIdentifier('optional')), undefined, []);
+      } else {
+        // Use z.union([z.literal(...), ...]) for numeric/boolean/mixed enums
+        const literalSchemas = prop['enum'].map((val) => {
+          let literalValue: ts.Expression;
+          if (typeof val === 'string') {
+            literalValue = ts.factory.createStringLiteral(val, true);
+          } else if (typeof val === 'number') {
+            // Handle negative numbers correctly
+            if (val < 0) {
+              literalValue = ts.factory.createPrefixUnaryExpression(ts.SyntaxKind.MinusToken, ts.factory.createNumericLiteral(String(Math.abs(val))));
+            } else {
+              literalValue = ts.factory.createNumericLiteral(String(val));
+            }
+          } else if (typeof val === 'boolean') {
+            literalValue = val ? ts.factory.createTrue() : ts.factory.createFalse();
+          } else {
+            literalValue = ts.factory.createStringLiteral(String(val), true);
           }
 
-          return ts.factory.createPropertyAssignment(varName, ts.factory.createObjectLiteralExpression(varProps, true));
+          return ts.factory.createCallExpression(ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier('z'), ts.factory.createIdentifier('literal')), undefined, [
+            literalValue
+          ]);
         });
 
-        properties.push(ts.factory.createPropertyAssignment('variables', ts.factory.createObjectLiteralExpression(variableProperties, true)));
+        const unionExpression = ts.factory.createCallExpression(
+          ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier('z'), ts.factory.createIdentifier('union')),
+          undefined,
+          [ts.factory.createArrayLiteralExpression(literalSchemas, false)]
+        );
+
+        return required
+          ? unionExpression
+          : ts.factory.createCallExpression(ts.factory.createPropertyAccessExpression(unionExpression, ts.factory.createIdentifier('optional')), undefined, []);
       }
+    }
 
-      return ts.factory.createObjectLiteralExpression(properties, true);
-    });
+    const format = prop['format'];
+    const customFormat = typeof format === 'string' ? this.customFormats[format] : undefined;
+    if (typeof format === 'string' && customFormat) {
+      const customSchema = this.buildCustomFormatSchema(format, customFormat);
+      return required
+        ? customSchema
+        : ts.factory.createCallExpression(ts.factory.createPropertyAccessExpression(customSchema, ts.factory.createIdentifier('optional')), undefined, []);
+    }
 
-    // Build function body - simplified version
-    const idx = ts.factory.createIdentifier('idx');
-    const configs = ts.factory.createIdentifier('configs');
-    const config = ts.factory.createIdentifier('config');
-    const url = ts.factory.createIdentifier('url');
-    const key = ts.factory.createIdentifier('key');
-    const value = ts.factory.createIdentifier('value');
+    let coercedSchema = this.buildCoercedSchema(prop);
+    if (coercedSchema) {
+      // Defaults are wire values, so they are applied before decoding
+      if (!required && prop['default'] !== undefined) {
+        coercedSchema = ts.factory.createCallExpression(ts.factory.createPropertyAccessExpression(coercedSchema, ts.factory.createIdentifier('prefault')), undefined, [
+          this.buildDefaultValue(prop['default'])
+        ]);
+      }
 
-    const bodyStatements: ts.Statement[] = [
-      // const configs = [...]
-      ts.factory.createVariableStatement(
-        undefined,
-        ts.factory.createVariableDeclarationList(
-          [ts.factory.createVariableDeclaration(configs, undefined, undefined, ts.factory.createArrayLiteralExpression(serverConfigElements, false))],
-          ts.NodeFlags.Const
-        )
-      ),
-      // const idx = serverIndex ?? 0
-      ts.factory.createVariableStatement(
-        undefined,
-        ts.factory.createVariableDeclarationList(
-          [
-            ts.factory.createVariableDeclaration(
-              idx,
-              undefined,
-              undefined,
-              ts.factory.createBinaryExpression(
-                ts.factory.createIdentifier('serverIndex'),
-                ts.factory.createToken(ts.SyntaxKind.QuestionQuestionToken),
-                ts.factory.createNumericLiteral('0')
-              )
-            )
-          ],
-          ts.NodeFlags.Const
-        )
-      ),
-      // if (idx < configs.length) { ... }
-      ts.factory.createIfStatement(
-        ts.factory.createBinaryExpression(
-          idx,
-          ts.factory.createToken(ts.SyntaxKind.LessThanToken),
-          ts.factory.createPropertyAccessExpression(configs, ts.factory.createIdentifier('length'))
-        ),
-        ts.factory.createBlock(
-          [
-            // const config = configs[idx]
-            ts.factory.createVariableStatement(
-              undefined,
-              ts.factory.createVariableDeclarationList(
-                [ts.factory.createVariableDeclaration(config, undefined, undefined, ts.factory.createElementAccessExpression(configs, idx))],
-                ts.NodeFlags.Const
-              )
-            ),
-            // let url = config.url
-            ts.factory.createVariableStatement(
-              undefined,
-              ts.factory.createVariableDeclarationList(
-                [ts.factory.createVariableDeclaration(url, undefined, undefined, ts.factory.createPropertyAccessExpression(config, ts.factory.createIdentifier('url')))],
-                ts.NodeFlags.Let
-              )
-            ),
-            // if (config.variables && serverVariables) { ... }
-            ts.factory.createIfStatement(
-              ts.factory.createLogicalAnd(
-                ts.factory.createPropertyAccessExpression(config, ts.factory.createIdentifier('variables')),
-                ts.factory.createIdentifier('serverVariables')
-              ),
-              ts.factory.createBlock(
-                [
-                  // for (const [key, value] of Object.entries(serverVariables)) { url = url.replace(...) }
-                  ts.factory.createForOfStatement(
-                    undefined,
-                    ts.factory.createVariableDeclarationList(
-                      [
-                        ts.factory.createVariableDeclaration(
-                          ts.factory.createArrayBindingPattern([
-                            ts.factory.createBindingElement(undefined, undefined, key),
-                            ts.factory.createBindingElement(undefined, undefined, value)
-                          ]),
-                          undefined,
-                          undefined
-                        )
-                      ],
-                      ts.NodeFlags.Const
-                    ),
-                    ts.factory.createCallExpression(
-                      ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier('Object'), ts.factory.createIdentifier('entries')),
-                      undefined,
-                      [ts.factory.createIdentifier('serverVariables')]
-                    ),
-                    ts.factory.createBlock(
-                      [
-                        ts.factory.createExpressionStatement(
-                          ts.factory.createBinaryExpression(
-                            url,
-                            ts.factory.createToken(ts.SyntaxKind.EqualsToken),
-                            ts.factory.createCallExpression(ts.factory.createPropertyAccessExpression(url, ts.factory.createIdentifier('replace')), undefined, [
-                              ts.factory.createNewExpression(ts.factory.createIdentifier('RegExp'), undefined, [
-                                ts.factory.createBinaryExpression(
-                                  ts.factory.createBinaryExpression(ts.factory.createStringLiteral('\\{'), ts.factory.createToken(ts.SyntaxKind.PlusToken), key),
-                                  ts.factory.createToken(ts.SyntaxKind.PlusToken),
-                                  ts.factory.createStringLiteral('\\}')
-                                ),
-                                ts.factory.createStringLiteral('g')
-                              ]),
-                              value
-                            ])
-                          )
-                        )
-                      ],
-                      true
-                    )
-                  )
-                ],
-                true
+      return required
+        ? coercedSchema
+        : ts.factory.createCallExpression(ts.factory.createPropertyAccessExpression(coercedSchema, ts.factory.createIdentifier('optional')), undefined, []);
+    }
+
+    switch (prop['type']) {
+      case 'array': {
+        if (Array.isArray(prop['prefixItems'])) {
+          const tupleSchema = this.buildTupleSchema(prop['prefixItems'], prop['items']);
+          return required
+            ? tupleSchema
+            : ts.factory.createCallExpression(ts.factory.createPropertyAccessExpression(tupleSchema, ts.factory.createIdentifier('optional')), undefined, []);
+        }
+
+        const itemsSchema = prop['items'] ? this.buildProperty(prop['items'], true) : this.buildZodAST(['unknown']);
+        let arraySchema = this.buildZodAST([
+          {
+            type: 'array',
+            args: [itemsSchema]
+          }
+        ]);
+
+        // Apply array constraints
+        if (typeof prop['minItems'] === 'number') {
+          arraySchema = ts.factory.createCallExpression(ts.factory.createPropertyAccessExpression(arraySchema, ts.factory.createIdentifier('min')), undefined, [
+            ts.factory.createNumericLiteral(String(prop['minItems']))
+          ]);
+        }
+
+        if (typeof prop['maxItems'] === 'number') {
+          arraySchema = ts.factory.createCallExpression(ts.factory.createPropertyAccessExpression(arraySchema, ts.factory.createIdentifier('max')), undefined, [
+            ts.factory.createNumericLiteral(String(prop['maxItems']))
+          ]);
+        }
+
+        return required
+          ? arraySchema
+          : ts.factory.createCallExpression(ts.factory.createPropertyAccessExpression(arraySchema, ts.factory.createIdentifier('optional')), undefined, []);
+      }
+      case 'object': {
+        let constrainedSchema = this.buildObjectSchema(prop);
+
+        // Apply object constraints
+        if (typeof prop['minProperties'] === 'number') {
+          constrainedSchema = ts.factory.createCallExpression(ts.factory.createPropertyAccessExpression(constrainedSchema, ts.factory.createIdentifier('refine')), undefined, [
+            ts.factory.createArrowFunction(
+              undefined,
+              undefined,
+              [ts.factory.createParameterDeclaration(undefined, undefined, 'obj', undefined, undefined, undefined)],
+              undefined,
+              ts.factory.createToken(ts.SyntaxKind.EqualsGreaterThanToken),
+              ts.factory.createBinaryExpression(
+                ts.factory.createPropertyAccessExpression(
+                  ts.factory.createCallExpression(
+                    ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier('Object'), ts.factory.createIdentifier('keys')),
+                    undefined,
+                    [ts.factory.createIdentifier('obj')]
+                  ),
+                  ts.factory.createIdentifier('length')
+                ),
+                ts.factory.createToken(ts.SyntaxKind.GreaterThanEqualsToken),
+                ts.factory.createNumericLiteral(String(prop['minProperties']))
               )
             ),
-            // return url
-            ts.factory.createReturnStatement(url)
-          ],
-          true
-        )
-      ),
-      // return default (first server with defaults)
-      ts.factory.createReturnStatement(ts.factory.createStringLiteral(servers[0] ? this.resolveServerUrl(servers[0], {}) : '/', true))
-    ];
+            ts.factory.createObjectLiteralExpression([
+              ts.factory.createPropertyAssignment(
+                ts.factory.createIdentifier('message'),
+                ts.factory.createStringLiteral(`Object must have at least ${String(prop['minProperties'])} properties`)
+              )
+            ])
+          ]);
+        }
 
-    return ts.factory.createFunctionDeclaration(
-      undefined,
-      undefined,
-      ts.factory.createIdentifier('resolveServerUrl'),
-      undefined,
-      [
-        ts.factory.createParameterDeclaration(
-          undefined,
-          undefined,
-          ts.factory.createIdentifier('serverIndex'),
-          ts.factory.createToken(ts.SyntaxKind.QuestionToken),
-          ts.factory.createUnionTypeNode([ts.factory.createKeywordTypeNode(ts.SyntaxKind.NumberKeyword), ts.factory.createKeywordTypeNode(ts.SyntaxKind.UndefinedKeyword)]),
-          undefined
-        ),
-        ts.factory.createParameterDeclaration(
-          undefined,
-          undefined,
-          ts.factory.createIdentifier('serverVariables'),
-          ts.factory.createToken(ts.SyntaxKind.QuestionToken),
-          ts.factory.createTypeReferenceNode(ts.factory.createIdentifier('Record'), [
-            ts.factory.createKeywordTypeNode(ts.SyntaxKind.StringKeyword),
-            ts.factory.createKeywordTypeNode(ts.SyntaxKind.StringKeyword)
-          ]),
-          ts.factory.createObjectLiteralExpression([], false)
-        )
-      ],
-      ts.factory.createKeywordTypeNode(ts.SyntaxKind.StringKeyword),
-      ts.factory.createBlock(bodyStatements, true)
-    );
-  }
+        if (typeof prop['maxProperties'] === 'number') {
+          constrainedSchema = ts.factory.createCallExpression(ts.factory.createPropertyAccessExpression(constrainedSchema, ts.factory.createIdentifier('refine')), undefined, [
+            ts.factory.createArrowFunction(
+              undefined,
+              undefined,
+              [ts.factory.createParameterDeclaration(undefined, undefined, 'obj', undefined, undefined, undefined)],
+              undefined,
+              ts.factory.createToken(ts.SyntaxKind.EqualsGreaterThanToken),
+              ts.factory.createBinaryExpression(
+                ts.factory.createPropertyAccessExpression(
+                  ts.factory.createCallExpression(
+                    ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier('Object'), ts.factory.createIdentifier('keys')),
+                    undefined,
+                    [ts.factory.createIdentifier('obj')]
+                  ),
+                  ts.factory.createIdentifier('length')
+                ),
+                ts.factory.createToken(ts.SyntaxKind.LessThanEqualsToken),
+                ts.factory.createNumericLiteral(String(prop['maxProperties']))
+              )
+            ),
+            ts.factory.createObjectLiteralExpression([
+              ts.factory.createPropertyAssignment(
+                ts.factory.createIdentifier('message'),
+                ts.factory.createStringLiteral(`Object must have at most ${String(prop['maxProperties'])} properties`)
+              )
+            ])
+          ]);
+        }
 
-  private generateClientName(title: string): string {
-    return title
-      .split(/[^a-zA-Z0-9]/g)
-      .map((word) => this.typeBuilder.toPascalCase(word))
-      .join('');
-  }
+        return required
+          ? constrainedSchema
+          : ts.factory.createCallExpression(ts.factory.createPropertyAccessExpression(constrainedSchema, ts.factory.createIdentifier('optional')), undefined, []);
+      }
+      case 'integer': {
+        let numberSchema = this.buildZodAST(['number', 'int']);
 
-  private createComment(text: string): ts.Statement {
-    const commentNode = ts.factory.createIdentifier('\n');
-    ts.addSyntheticTrailingComment(commentNode, ts.SyntaxKind.SingleLineCommentTrivia, ` ${text}`, true);
-    return ts.factory.createExpressionStatement(commentNode);
-  }
+        // Apply number constraints
+        numberSchema = this.applyNumberBounds(numberSchema, prop);
 
-  /**
-   * Builds a JSDoc comment string from operation metadata
-   */
-  private buildJSDocComment(summary: string | undefined, description: string | undefined, schema: MethodSchemaType, responseType: ts.TypeNode | undefined): string {
-    const lines: string[] = [];
+        if (typeof prop['multipleOf'] === 'number') {
+          const refineFunction = ts.factory.createArrowFunction(
+            undefined,
+            undefined,
+            [ts.factory.createParameterDeclaration(undefined, undefined, 'val', undefined, undefined, undefined)],
+            undefined,
+            ts.factory.createToken(ts.SyntaxKind.EqualsGreaterThanToken),
+            ts.factory.createBinaryExpression(
+              ts.factory.createBinaryExpression(
+                ts.factory.createIdentifier('val'),
+                ts.factory.createToken(ts.SyntaxKind.PercentToken),
+                ts.factory.createNumericLiteral(String(prop['multipleOf']))
+              ),
+              ts.factory.createToken(ts.SyntaxKind.EqualsEqualsEqualsToken),
+              ts.factory.createNumericLiteral('0')
+            )
+          );
+          const refineOptions = ts.factory.createObjectLiteralExpression([
+            ts.factory.createPropertyAssignment(
+              ts.factory.createIdentifier('message'),
+              ts.factory.createStringLiteral(`Number must be a multiple of ${String(prop['multipleOf'])}`)
+            )
+          ]);
+          numberSchema = ts.factory.createCallExpression(ts.factory.createPropertyAccessExpression(numberSchema, ts.factory.createIdentifier('refine')), undefined, [
+            refineFunction,
+            refineOptions
+          ]);
+        }
 
-    // Add summary or description as the main comment
-    if (summary) {
-      lines.push(` * ${summary}`);
-    } else if (description) {
-      // Use first line of description as summary if no summary exists
-      const firstLine = description.split('\n')[0]?.trim();
-      if (firstLine) {
-        lines.push(` * ${firstLine}`);
+        return required
+          ? numberSchema
+          : ts.factory.createCallExpression(ts.factory.createPropertyAccessExpression(numberSchema, ts.factory.createIdentifier('optional')), undefined, []);
       }
-    }
+      case 'number': {
+        let numberSchema = this.buildZodAST(['number']);
 
-    // Add full description if it exists and is different from summary
-    if (description && description !== summary) {
-      const descLines = description.split('\n');
-      if (descLines.length > 1 || descLines[0] !== summary) {
-        if (lines.length > 0) {
-          lines.push(' *');
+        // Apply number constraints
+        numberSchema = this.applyNumberBounds(numberSchema, prop);
+
+        if (typeof prop['multipleOf'] === 'number') {
+          const refineFunction = ts.factory.createArrowFunction(
+            undefined,
+            undefined,
+            [ts.factory.createParameterDeclaration(undefined, undefined, 'val', undefined, undefined, undefined)],
+            undefined,
+            ts.factory.createToken(ts.SyntaxKind.EqualsGreaterThanToken),
+            ts.factory.createBinaryExpression(
+              ts.factory.createBinaryExpression(
+                ts.factory.createIdentifier('val'),
+                ts.factory.createToken(ts.SyntaxKind.PercentToken),
+                ts.factory.createNumericLiteral(String(prop['multipleOf']))
+              ),
+              ts.factory.createToken(ts.SyntaxKind.EqualsEqualsEqualsToken),
+              ts.factory.createNumericLiteral('0')
+            )
+          );
+          const refineOptions = ts.factory.createObjectLiteralExpression([
+            ts.factory.createPropertyAssignment(
+              ts.factory.createIdentifier('message'),
+              ts.factory.createStringLiteral(`Number must be a multiple of ${String(prop['multipleOf'])}`)
+            )
+          ]);
+          numberSchema = ts.factory.createCallExpression(ts.factory.createPropertyAccessExpression(numberSchema, ts.factory.createIdentifier('refine')), undefined, [
+            refineFunction,
+            refineOptions
+          ]);
         }
 
-        descLines.forEach((line) => {
-          lines.push(` * ${line.trim() || ''}`);
-        });
+        return required
+          ? numberSchema
+          : ts.factory.createCallExpression(ts.factory.createPropertyAccessExpression(numberSchema, ts.factory.createIdentifier('optional')), undefined, []);
       }
-    }
+      case 'string': {
+        if (prop['format'] === 'binary') {
+          const binarySchema = ts.factory.createCallExpression(
+            ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier('z'), ts.factory.createIdentifier('instanceof')),
+            undefined,
+            [ts.factory.createIdentifier('Blob')]
+          );
+          return required
+            ? binarySchema
+            : ts.factory.createCallExpression(ts.factory.createPropertyAccessExpression(binarySchema, ts.factory.createIdentifier('optional')), undefined, []);
+        }
 
-    // Add @param tags for each parameter
-    if (schema.parameters && schema.parameters.length > 0) {
-      if (lines.length > 0) {
-        lines.push(' *');
-      }
+        const formatSchemas = typeof prop['format'] === 'string' ? (STRING_FORMATS[prop['format']] ?? []).map((factory) => this.buildStringFormatSchema(factory)) : [];
+        const [formatSchema] = formatSchemas;
+        // Formats accepting several shapes (`ip`, `cidr`) validate the constrained string through a union
+        let stringSchema = formatSchemas.length === 1 && formatSchema ? formatSchema : this.buildZodAST(['string']);
 
-      for (const param of schema.parameters) {
-        const paramName = this.typeBuilder.sanitizeIdentifier(param.name);
-        const paramDesc = param.description ? ` ${param.description}` : '';
-        lines.push(` * @param ${paramName}${paramDesc}`);
-      }
-    }
+        if (typeof prop['format'] === 'string' && INTEGER_STRING_FORMATS.has(prop['format'])) {
+          stringSchema = ts.factory.createCallExpression(ts.factory.createPropertyAccessExpression(stringSchema, ts.factory.createIdentifier('regex')), undefined, [
+            ts.factory.createNewExpression(ts.factory.createIdentifier('RegExp'), undefined, [ts.factory.createStringLiteral('^-?\\d+$', true)])
+          ]);
+        }
 
-    // Add @param tag for request body if present
-    if (schema.requestBody) {
-      const bodyDesc = schema.requestBody.description ? ` ${schema.requestBody.description}` : '';
-      lines.push(` * @param body${bodyDesc}`);
-    }
+        // Apply string constraints
+        if (typeof prop['minLength'] === 'number') {
+          stringSchema = ts.factory.createCallExpression(ts.factory.createPropertyAccessExpression(stringSchema, ts.factory.createIdentifier('min')), undefined, [
+            ts.factory.createNumericLiteral(String(prop['minLength']))
+          ]);
+        }
 
-    // Add @returns tag if we have a response type
-    if (responseType) {
-      // Extract the inner type from Promise<T> for JSDoc
-      let returnTypeText: string;
-      if (
-        ts.isTypeReferenceNode(responseType) &&
-        ts.isIdentifier(responseType.typeName) &&
-        responseType.typeName.text === 'Promise' &&
-        responseType.typeArguments &&
-        responseType.typeArguments.length > 0 &&
-        responseType.typeArguments[0]
-      ) {
-        // Extract the inner type from Promise<T>
-        const innerType = responseType.typeArguments[0];
-        returnTypeText = this.printer.printNode(ts.EmitHint.Unspecified, innerType, ts.createSourceFile('', '', ts.ScriptTarget.Latest));
-      } else {
-        returnTypeText = this.printer.printNode(ts.EmitHint.Unspecified, responseType, ts.createSourceFile('', '', ts.ScriptTarget.Latest));
+        if (typeof prop['maxLength'] === 'number') {
+          stringSchema = ts.factory.createCallExpression(ts.factory.createPropertyAccessExpression(stringSchema, ts.factory.createIdentifier('max')), undefined, [
+            ts.factory.createNumericLiteral(String(prop['maxLength']))
+          ]);
+        }
+
+        if (prop['pattern'] && typeof prop['pattern'] === 'string') {
+          stringSchema = ts.factory.createCallExpression(ts.factory.createPropertyAccessExpression(stringSchema, ts.factory.createIdentifier('regex')), undefined, [
+            ts.factory.createNewExpression(ts.factory.createIdentifier('RegExp'), undefined, [ts.factory.createStringLiteral(prop['pattern'], true)])
+          ]);
+        }
+
+        if (formatSchemas.length > 1) {
+          stringSchema = ts.factory.createCallExpression(ts.factory.createPropertyAccessExpression(stringSchema, ts.factory.createIdentifier('pipe')), undefined, [
+            ts.factory.createCallExpression(ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier('z'), ts.factory.createIdentifier('union')), undefined, [
+              ts.factory.createArrayLiteralExpression(formatSchemas, false)
+            ])
+          ]);
+        }
+
+        // Apply default value if not required
+        if (!required && prop['default'] !== undefined) {
+          const defaultValue = this.buildDefaultValue(prop['default']);
+          stringSchema = ts.factory.createCallExpression(ts.factory.createPropertyAccessExpression(stringSchema, ts.factory.createIdentifier('default')), undefined, [
+            defaultValue
+          ]);
+        }
+
+        return required
+          ? stringSchema
+          : ts.factory.createCallExpression(ts.factory.createPropertyAccessExpression(stringSchema, ts.factory.createIdentifier('optional')), undefined, []);
       }
+      case 'boolean': {
+        let booleanSchema = this.buildZodAST(['boolean']);
 
-      lines.push(` * @returns {${returnTypeText}}`);
-    }
+        // Apply default value if not required
+        if (!required && prop['default'] !== undefined) {
+          const defaultValue = typeof prop['default'] === 'boolean' ? (prop['default'] ? ts.factory.createTrue() : ts.factory.createFalse()) : ts.factory.createFalse();
+          booleanSchema = ts.factory.createCallExpression(ts.factory.createPropertyAccessExpression(booleanSchema, ts.factory.createIdentifier('default')), undefined, [
+            defaultValue
+          ]);
+        }
 
-    // Build the complete JSDoc comment (without delimiters, as addSyntheticLeadingComment adds them)
-    if (lines.length === 0) {
-      return '';
+        return required
+          ? booleanSchema
+          : ts.factory.createCallExpression(ts.factory.createPropertyAccessExpression(booleanSchema, ts.factory.createIdentifier('optional')), undefined, []);
+      }
+      case 'null': {
+        const nullSchema = ts.factory.createCallExpression(
+          ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier('z'), ts.factory.createIdentifier('null')),
+          undefined,
+          []
+        );
+        return required
+          ? nullSchema
+          : ts.factory.createCallExpression(ts.factory.createPropertyAccessExpression(nullSchema, ts.factory.createIdentifier('optional')), undefined, []);
+      }
+      case 'unknown':
+      default:
+        return this.buildZodAST(['unknown', ...(!required ? ['optional'] : [])]);
     }
+  }
 
-    return lines.join('\n');
+  private buildStringFormatSchema({ path, options }: { path: string[]; options?: Record<string, unknown> }): ts.CallExpression {
+    const factory = path.reduce<ts.Expression>(
+      (expression, name) => ts.factory.createPropertyAccessExpression(expression, ts.factory.createIdentifier(name)),
+      ts.factory.createIdentifier('z')
+    );
+
+    return ts.factory.createCallExpression(factory, undefined, options ? [this.buildDefaultValue(options)] : []);
   }
 
-  private buildZodAST(input: (string | z.infer<typeof this.ZodAST>)[]): ts.CallExpression {
-    const [initial, ...rest] = input;
+  /**
+   * Parses the configured expression of a custom format and records the import it needs.
+   *
+   * @throws {Error} When the configured schema is not a single expression
+   */
+  private buildCustomFormatSchema(format: string, { schema, from }: CustomFormat): ts.Expression {
+    const fileName = `${format}.ts`;
+    const { diagnostics = [] } = ts.transpileModule(schema, { fileName, reportDiagnostics: true });
+    const [statement, ...otherStatements] = ts.createSourceFile(fileName, schema, ts.ScriptTarget.Latest).statements;
+    if (diagnostics.length > 0 || statement === undefined || otherStatements.length > 0 || !ts.isExpressionStatement(statement)) {
+      throw new Error(`Invalid schema for format "${format}": expected a single expression, got ${JSON.stringify(schema)}`);
+    }
 
-    const safeInitial = this.ZodAST.safeParse(initial);
+    const importedName = /^[A-Za-z_$][\w$]*/.exec(schema)?.[0];
+    if (from !== undefined && importedName !== undefined) {
+      this.addExternalImport(from, importedName);
+    }
 
-    const initialExpression = !safeInitial.success
-      ? ts.factory.createCallExpression(
-          ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier('z'), ts.factory.createIdentifier(this.ZodAST.shape.type.parse(initial))),
-          undefined,
-          []
-        )
-      : ts.factory.createCallExpression(
-          ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier('z'), ts.factory.createIdentifier(safeInitial.data.type)),
-          undefined,
-          (safeInitial.data.args ?? []) as ts.Expression[]
-        );
+    // Parsed nodes are printed from their positions in the parsed text unless they are marked as synthesized
+    const detach = (node: ts.Node): void => {
+      ts.setTextRange(node, { pos: -1, end: -1 });
+      ts.forEachChild(node, detach);
+    };
+    detach(statement.expression);
 
-    return rest.reduce((expression, exp: unknown) => {
-      const safeExp = this.ZodAST.safeParse(exp);
-      return !safeExp.success
-        ? ts.factory.createCallExpression(
-            ts.factory.createPropertyAccessExpression(expression, ts.factory.createIdentifier(typeof exp === 'string' ? exp : String(exp))),
-            undefined,
-            []
-          )
-        : ts.factory.createCallExpression(
-            ts.factory.createPropertyAccessExpression(expression, ts.factory.createIdentifier(safeExp.data.type)),
-            undefined,
-            (safeExp.data.args ?? []) as ts.Expression[]
-          );
-    }, initialExpression);
+    return statement.expression;
   }
 
-  private buildProperty(property: unknown, required = false): ts.CallExpression | ts.Identifier {
-    const safeProperty = SchemaProperties.safeParse(property);
+  private addExternalImport(from: string, name: string): void {
+    const names = this.externalImports.get(from) ?? new Set<string>();
+    this.externalImports.set(from, names.add(name));
+  }
 
-    if (!safeProperty.success) {
-      return this.buildZodAST(['unknown']);
+  /**
+   * Returns which coercion applies to a schema, if coercion mode decodes its wire value into a richer runtime type.
+   */
+  private getCoercedFormat(prop: Record<string, unknown>): 'date-time' | 'date' | 'int64' | 'decimal' | undefined {
+    const format = prop['format'];
+    if (typeof format !== 'string' || this.customFormats[format] !== undefined) {
+      return undefined;
     }
 
-    const prop = safeProperty.data;
+    if (this.coercion.dates && prop['type'] === 'string' && (format === 'date-time' || format === 'date')) {
+      return format;
+    }
 
-    if (this.isReference(prop)) {
-      const refSchema = this.buildFromReference(prop);
-      return required ? refSchema : ts.factory.createCallExpression(ts.factory.createPropertyAccessExpression(refSchema, ts.factory.createIdentifier('optional')), undefined, []);
+    if (this.coercion.bigints && format === 'int64' && (prop['type'] === 'integer' || prop['type'] === 'string')) {
+      return 'int64';
     }
 
-    if (prop['anyOf'] && Array.isArray(prop['anyOf']) && prop['anyOf'].length > 0) {
-      return this.handleLogicalOperator('anyOf', prop['anyOf'], required);
+    if (this.coercion.decimal !== undefined && prop['type'] === 'string' && format === 'decimal') {
+      return 'decimal';
     }
 
-    if (prop['oneOf'] && Array.isArray(prop['oneOf']) && prop['oneOf'].length > 0) {
-      return this.handleLogicalOperator('oneOf', prop['oneOf'], required);
+    return undefined;
+  }
+
+  /**
+   * Whether a schema, or any schema it references, decodes into a richer runtime type that must be encoded before sending.
+   */
+  private containsCoercedValue(schema: unknown, visited = new Set<string>()): boolean {
+    if (Array.isArray(schema)) {
+      return schema.some((item) => this.containsCoercedValue(item, visited));
     }
 
-    if (prop['allOf'] && Array.isArray(prop['allOf']) && prop['allOf'].length > 0) {
-      return this.handleLogicalOperator('allOf', prop['allOf'], required);
+    if (typeof schema !== 'object' || schema === null) {
+      return false;
     }
 
-    if (prop['not']) {
-      return this.handleLogicalOperator('not', [prop['not']], required);
+    const node = schema as Record<string, unknown>;
+    const ref = node['$ref'];
+    if (typeof ref === 'string' && ref.startsWith('#/components/schemas/')) {
+      const name = ref.replace('#/components/schemas/', '');
+      if (visited.has(name)) {
+        return false;
+      }
+
+      visited.add(name);
+      return this.containsCoercedValue(this.componentSchemas[name], visited);
     }
 
-    // Handle enum
-    if (prop['enum'] && Array.isArray(prop['enum']) && prop['enum'].length > 0) {
-      // Check if all enum values are strings (z.enum only works with strings)
-      const allStrings = prop['enum'].every((val) => typeof val === 'string');
+    return this.getCoercedFormat(node) !== undefined || Object.values(node).some((value) => this.containsCoercedValue(value, visited));
+  }
 
-      if (allStrings) {
-        // Use z.enum() for string enums
-        const enumValues = prop['enum'].map((val) => ts.factory.createStringLiteral(val as string, true));
-        const enumExpression = ts.factory.createCallExpression(
-          ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier('z'), ts.factory.createIdentifier('enum')),
-          undefined,
-          [ts.factory.createArrayLiteralExpression(enumValues, false)]
+  /**
+   * Builds the Zod codec decoding a wire value into its coerced runtime type, and encoding it back.
+   */
+  private buildCoercedSchema(prop: Record<string, unknown>): ts.CallExpression | undefined {
+    const z = ts.factory.createIdentifier('z');
+    const call = (target: ts.Expression, name: string, args: ts.Expression[] = []): ts.CallExpression =>
+      ts.factory.createCallExpression(ts.factory.createPropertyAccessExpression(target, ts.factory.createIdentifier(name)), undefined, args);
+    const integerString = (): ts.CallExpression =>
+      call(this.buildZodAST(['string']), 'regex', [
+        ts.factory.createNewExpression(ts.factory.createIdentifier('RegExp'), undefined, [ts.factory.createStringLiteral('^-?\\d+$', true)])
+      ]);
+    const toBigInt = (value: ts.Expression): ts.Expression => ts.factory.createCallExpression(ts.factory.createIdentifier('BigInt'), undefined, [value]);
+
+    switch (this.getCoercedFormat(prop)) {
+      case 'date-time':
+      case 'date': {
+        const isDateTime = prop['format'] === 'date-time';
+        const [wireFormat] = STRING_FORMATS[isDateTime ? 'date-time' : 'date'] ?? [];
+        return this.buildCodec(
+          wireFormat ? this.buildStringFormatSchema(wireFormat) : this.buildZodAST(['string']),
+          call(z, 'date'),
+          (value) => ts.factory.createNewExpression(ts.factory.createIdentifier('Date'), undefined, [value]),
+          (value) =>
+            isDateTime ? call(value, 'toISOString') : call(call(value, 'toISOString'), 'slice', [ts.factory.createNumericLiteral(0), ts.factory.createNumericLiteral(10)])
         );
+      }
+      case 'int64': {
+        if (prop['type'] === 'string') {
+          return this.buildCodec(integerString(), call(z, 'bigint'), toBigInt, (value) => call(value, 'toString'));
+        }
 
-        return required
-          ? enumExpression
-          : ts.factory.createCallExpression(ts.factory.createPropertyAccessExpression(enumExpression, ts.factory.createIdentifier('optional')), undefined, []);
-      } else {
-        // Use z.union([z.literal(...), ...]) for numeric/boolean/mixed enums
-        const literalSchemas = prop['enum'].map((val) => {
-          let literalValue: ts.Expression;
-          if (typeof val === 'string') {
-            literalValue = ts.factory.createStringLiteral(val, true);
-          } else if (typeof val === 'number') {
-            // Handle negative numbers correctly
-            if (val < 0) {
-              literalValue = ts.factory.createPrefixUnaryExpression(ts.SyntaxKind.MinusToken, ts.factory.createNumericLiteral(String(Math.abs(val))));
-            } else {
-              literalValue = ts.factory.createNumericLiteral(String(val));
-            }
-          } else if (typeof val === 'boolean') {
-            literalValue = val ? ts.factory.createTrue() : ts.factory.createFalse();
-          } else {
-            literalValue = ts.factory.createStringLiteral(String(val), true);
-          }
+        // Safe integers go back on the wire as numbers, larger ones as bigints the JSON replacer writes verbatim.
+        // Numbers are checked with multipleOf(1) rather than int(), which rejects the imprecise numbers large integers
+        // are parsed into on runtimes without JSON source text access.
+        const asNumber = (value: ts.Expression): ts.Expression => ts.factory.createCallExpression(ts.factory.createIdentifier('Number'), undefined, [value]);
+        const wireNumber = call(this.buildZodAST(['number']), 'multipleOf', [ts.factory.createNumericLiteral(1)]);
+        return this.buildCodec(
+          call(z, 'union', [ts.factory.createArrayLiteralExpression([this.applyNumberBounds(wireNumber, prop), call(z, 'bigint')], false)]),
+          call(z, 'bigint'),
+          toBigInt,
+          (value) =>
+            ts.factory.createConditionalExpression(call(ts.factory.createIdentifier('Number'), 'isSafeInteger', [asNumber(value)]), undefined, asNumber(value), undefined, value)
+        );
+      }
+      case 'decimal': {
+        const decimal = this.coercion.decimal;
+        if (decimal === undefined) {
+          return undefined;
+        }
 
-          return ts.factory.createCallExpression(ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier('z'), ts.factory.createIdentifier('literal')), undefined, [
-            literalValue
-          ]);
-        });
+        if (decimal.from !== undefined) {
+          this.addExternalImport(decimal.from, decimal.name);
+        }
 
-        const unionExpression = ts.factory.createCallExpression(
-          ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier('z'), ts.factory.createIdentifier('union')),
-          undefined,
-          [ts.factory.createArrayLiteralExpression(literalSchemas, false)]
+        const decimalClass = ts.factory.createIdentifier(decimal.name);
+        return this.buildCodec(
+          this.buildZodAST(['string']),
+          call(z, 'instanceof', [decimalClass]),
+          (value) => ts.factory.createNewExpression(decimalClass, undefined, [value]),
+          (value) => call(value, 'toString')
         );
-
-        return required
-          ? unionExpression
-          : ts.factory.createCallExpression(ts.factory.createPropertyAccessExpression(unionExpression, ts.factory.createIdentifier('optional')), undefined, []);
       }
+      case undefined:
+        return undefined;
     }
+  }
 
-    switch (prop['type']) {
-      case 'array': {
-        const itemsSchema = prop['items'] ? this.buildProperty(prop['items'], true) : this.buildZodAST(['unknown']);
-        let arraySchema = this.buildZodAST([
-          {
-            type: 'array',
-            args: [itemsSchema]
-          }
-        ]);
+  private buildCodec(
+    wireSchema: ts.Expression,
+    runtimeSchema: ts.Expression,
+    decode: (value: ts.Identifier) => ts.Expression,
+    encode: (value: ts.Identifier) => ts.Expression
+  ): ts.CallExpression {
+    const value = ts.factory.createIdentifier('value');
+    const transform = (body: ts.Expression): ts.ArrowFunction =>
+      ts.factory.createArrowFunction(
+        undefined,
+        undefined,
+        [ts.factory.createParameterDeclaration(undefined, undefined, value)],
+        undefined,
+        ts.factory.createToken(ts.SyntaxKind.EqualsGreaterThanToken),
+        body
+      );
 
-        // Apply array constraints
-        if (typeof prop['minItems'] === 'number') {
-          arraySchema = ts.factory.createCallExpression(ts.factory.createPropertyAccessExpression(arraySchema, ts.factory.createIdentifier('min')), undefined, [
-            ts.factory.createNumericLiteral(String(prop['minItems']))
-          ]);
-        }
+    return ts.factory.createCallExpression(ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier('z'), ts.factory.createIdentifier('codec')), undefined, [
+      wireSchema,
+      runtimeSchema,
+      ts.factory.createObjectLiteralExpression(
+        [ts.factory.createPropertyAssignment('decode', transform(decode(value))), ts.factory.createPropertyAssignment('encode', transform(encode(value)))],
+        false
+      )
+    ]);
+  }
 
-        if (typeof prop['maxItems'] === 'number') {
-          arraySchema = ts.factory.createCallExpression(ts.factory.createPropertyAccessExpression(arraySchema, ts.factory.createIdentifier('max')), undefined, [
-            ts.factory.createNumericLiteral(String(prop['maxItems']))
-          ]);
-        }
+  /**
+   * Applies `minimum`/`maximum`, exclusive when `exclusiveMinimum`/`exclusiveMaximum` is `true` (OpenAPI 3.0),
+   * and numeric `exclusiveMinimum`/`exclusiveMaximum` bounds (OpenAPI 3.1).
+   */
+  private applyNumberBounds(numberSchema: ts.CallExpression, prop: Record<string, unknown>): ts.CallExpression {
+    const bounds: [string, unknown][] = [
+      [prop['exclusiveMinimum'] === true ? 'gt' : 'gte', prop['minimum']],
+      [prop['exclusiveMaximum'] === true ? 'lt' : 'lte', prop['maximum']],
+      ['gt', prop['exclusiveMinimum']],
+      ['lt', prop['exclusiveMaximum']]
+    ];
 
-        return required
-          ? arraySchema
-          : ts.factory.createCallExpression(ts.factory.createPropertyAccessExpression(arraySchema, ts.factory.createIdentifier('optional')), undefined, []);
-      }
-      case 'object': {
-        const propObj = prop satisfies {
-          properties?: Record<string, unknown>;
-          required?: string[];
-        };
-        const properties = (propObj['properties'] ?? {}) as Record<string, unknown>;
-        const propRequired = (propObj['required'] ?? []) as string[];
+    return bounds.reduce(
+      (schema, [method, value]) =>
+        typeof value === 'number'
+          ? ts.factory.createCallExpression(ts.factory.createPropertyAccessExpression(schema, ts.factory.createIdentifier(method)), undefined, [this.buildDefaultValue(value)])
+          : schema,
+      numberSchema
+    );
+  }
+
+  /**
+   * Builds `z.tuple([...prefixItems], rest)`. Items past `prefixItems` follow `items`, are unconstrained when `items`
+   * is absent and are forbidden when `items` is `false`.
+   */
+  private buildTupleSchema(prefixItems: unknown[], items: unknown): ts.CallExpression {
+    const restSchema = items === false ? [] : [items && typeof items === 'object' ? this.buildProperty(items, true) : this.buildZodAST(['unknown'])];
+
+    return ts.factory.createCallExpression(ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier('z'), ts.factory.createIdentifier('tuple')), undefined, [
+      ts.factory.createArrayLiteralExpression(
+        prefixItems.map((item) => this.buildProperty(item, true)),
+        false
+      ),
+      ...restSchema
+    ]);
+  }
 
-        const propertiesEntries = Object.entries(properties);
+  /**
+   * Classifies `additionalProperties`: `false` forbids undeclared keys, `true` (or `{}`) allows any value,
+   * a schema types their values and `undefined` leaves them unspecified. Without `additionalProperties`,
+   * `unevaluatedProperties` is classified the same way.
+   */
+  private getAdditionalProperties(prop: Record<string, unknown>): boolean | Record<string, unknown> | undefined {
+    const additionalProperties = prop['additionalProperties'] ?? prop['unevaluatedProperties'];
+    if (typeof additionalProperties === 'boolean') {
+      return additionalProperties;
+    }
+
+    if (typeof additionalProperties === 'object' && additionalProperties !== null && !Array.isArray(additionalProperties)) {
+      return Object.keys(additionalProperties).length === 0 ? true : (additionalProperties as Record<string, unknown>);
+    }
+
+    return undefined;
+  }
 
-        if (propertiesEntries.length > 0) {
-          const objectSchema = this.buildZodAST([
+  /**
+   * Builds the Zod schema of an object without `minProperties`/`maxProperties`:
+   * - `z.record(z.string(), <schema>)` when only `additionalProperties` describes the keys;
+   * - `z.object({...}).catchall(<schema>)` when declared properties are mixed with additional ones, or `.strict()` when
+   *   `additionalProperties` is `false`;
+   * - `patternProperties` keep every key and validate them in a refinement.
+   */
+  private buildObjectSchema(prop: Record<string, unknown>): ts.CallExpression {
+    const properties = (prop['properties'] ?? {}) as Record<string, unknown>;
+    const propRequired = (prop['required'] ?? []) as string[];
+    const patternProperties = (prop['patternProperties'] ?? {}) as Record<string, unknown>;
+    const additionalProperties = this.getAdditionalProperties(prop);
+    const propertiesEntries = Object.entries(properties);
+
+    const objectSchema =
+      propertiesEntries.length > 0 || additionalProperties === false
+        ? this.buildZodAST([
             {
               type: 'object',
               args: [
                 ts.factory.createObjectLiteralExpression(
                   propertiesEntries.map(([name, propValue]): ts.ObjectLiteralElementLike => {
-                    return ts.factory.createPropertyAssignment(ts.factory.createIdentifier(name), this.buildProperty(propValue, propRequired.includes(name)));
+                    return ts.factory.createPropertyAssignment(this.buildPropertyName(name), this.buildProperty(propValue, propRequired.includes(name)));
                   }),
                   true
                 )
               ]
             }
-          ]);
-
-          // Apply object constraints
-          let constrainedSchema = objectSchema;
-          if (typeof prop['minProperties'] === 'number') {
-            constrainedSchema = ts.factory.createCallExpression(ts.factory.createPropertyAccessExpression(constrainedSchema, ts.factory.createIdentifier('refine')), undefined, [
-              ts.factory.createArrowFunction(
-                undefined,
-                undefined,
-                [ts.factory.createParameterDeclaration(undefined, undefined, 'obj', undefined, undefined, undefined)],
-                undefined,
-                ts.factory.createToken(ts.SyntaxKind.EqualsGreaterThanToken),
-                ts.factory.createBinaryExpression(
-                  ts.factory.createPropertyAccessExpression(
-                    ts.factory.createCallExpression(
-                      ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier('Object'), ts.factory.createIdentifier('keys')),
-                      undefined,
-                      [ts.factory.createIdentifier('obj')]
-                    ),
-                    ts.factory.createIdentifier('length')
-                  ),
-                  ts.factory.createToken(ts.SyntaxKind.GreaterThanEqualsToken),
-                  ts.factory.createNumericLiteral(String(prop['minProperties']))
-                )
-              ),
-              ts.factory.createObjectLiteralExpression([
-                ts.factory.createPropertyAssignment(
-                  ts.factory.createIdentifier('message'),
-                  ts.factory.createStringLiteral(`Object must have at least ${String(prop['minProperties'])} properties`)
-                )
-              ])
-            ]);
-          }
-
-          if (typeof prop['maxProperties'] === 'number') {
-            constrainedSchema = ts.factory.createCallExpression(ts.factory.createPropertyAccessExpression(constrainedSchema, ts.factory.createIdentifier('refine')), undefined, [
-              ts.factory.createArrowFunction(
-                undefined,
-                undefined,
-                [ts.factory.createParameterDeclaration(undefined, undefined, 'obj', undefined, undefined, undefined)],
-                undefined,
-                ts.factory.createToken(ts.SyntaxKind.EqualsGreaterThanToken),
-                ts.factory.createBinaryExpression(
-                  ts.factory.createPropertyAccessExpression(
-                    ts.factory.createCallExpression(
-                      ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier('Object'), ts.factory.createIdentifier('keys')),
-                      undefined,
-                      [ts.factory.createIdentifier('obj')]
-                    ),
-                    ts.factory.createIdentifier('length')
-                  ),
-                  ts.factory.createToken(ts.SyntaxKind.LessThanEqualsToken),
-                  ts.factory.createNumericLiteral(String(prop['maxProperties']))
-                )
-              ),
-              ts.factory.createObjectLiteralExpression([
-                ts.factory.createPropertyAssignment(
-                  ts.factory.createIdentifier('message'),
-                  ts.factory.createStringLiteral(`Object must have at most ${String(prop['maxProperties'])} properties`)
-                )
-              ])
-            ]);
-          }
-
-          return required
-            ? constrainedSchema
-            : ts.factory.createCallExpression(ts.factory.createPropertyAccessExpression(constrainedSchema, ts.factory.createIdentifier('optional')), undefined, []);
-        }
+          ])
+        : undefined;
 
-        return this.buildZodAST([
-          {
-            type: 'record',
-            args: [this.buildZodAST(['string']), this.buildZodAST(['unknown'])]
-          }
-        ]);
-      }
-      case 'integer': {
-        let numberSchema = this.buildZodAST(['number', 'int']);
+    if (Object.keys(patternProperties).length > 0) {
+      const baseSchema = objectSchema
+        ? ts.factory.createCallExpression(ts.factory.createPropertyAccessExpression(objectSchema, ts.factory.createIdentifier('catchall')), undefined, [
+            this.buildZodAST(['unknown'])
+          ])
+        : this.buildZodAST([{ type: 'record', args: [this.buildZodAST(['string']), this.buildZodAST(['unknown'])] }]);
+
+      return ts.factory.createCallExpression(ts.factory.createPropertyAccessExpression(baseSchema, ts.factory.createIdentifier('refine')), undefined, [
+        this.buildPatternPropertiesCheck(patternProperties, Object.keys(properties), additionalProperties),
+        ts.factory.createObjectLiteralExpression([
+          ts.factory.createPropertyAssignment(
+            ts.factory.createIdentifier('message'),
+            ts.factory.createStringLiteral('Object properties must match patternProperties and additionalProperties')
+          )
+        ])
+      ]);
+    }
 
-        // Apply number constraints
-        if (prop['minimum'] !== undefined && typeof prop['minimum'] === 'number') {
-          const minValue = prop['exclusiveMinimum'] && typeof prop['exclusiveMinimum'] === 'boolean' ? prop['minimum'] + 1 : prop['minimum'];
-          numberSchema = ts.factory.createCallExpression(
-            ts.factory.createPropertyAccessExpression(
-              numberSchema,
-              ts.factory.createIdentifier(prop['exclusiveMinimum'] && typeof prop['exclusiveMinimum'] === 'boolean' ? 'gt' : 'gte')
-            ),
-            undefined,
-            [ts.factory.createNumericLiteral(String(minValue))]
-          );
-        }
+    if (!objectSchema) {
+      const valueSchema = typeof additionalProperties === 'object' ? this.buildProperty(additionalProperties, true) : this.buildZodAST(['unknown']);
+      return this.buildZodAST([{ type: 'record', args: [this.buildZodAST(['string']), valueSchema] }]);
+    }
 
-        if (prop['maximum'] !== undefined && typeof prop['maximum'] === 'number') {
-          const maxValue = prop['exclusiveMaximum'] && typeof prop['exclusiveMaximum'] === 'boolean' ? prop['maximum'] - 1 : prop['maximum'];
-          numberSchema = ts.factory.createCallExpression(
-            ts.factory.createPropertyAccessExpression(numberSchema, ts.factory.createIdentifier(prop['exclusiveMaximum'] ? 'lt' : 'lte')),
-            undefined,
-            [ts.factory.createNumericLiteral(String(maxValue))]
-          );
-        }
+    if (additionalProperties === false) {
+      return ts.factory.createCallExpression(ts.factory.createPropertyAccessExpression(objectSchema, ts.factory.createIdentifier('strict')), undefined, []);
+    }
 
-        if (typeof prop['multipleOf'] === 'number') {
-          const refineFunction = ts.factory.createArrowFunction(
-            undefined,
-            undefined,
-            [ts.factory.createParameterDeclaration(undefined, undefined, 'val', undefined, undefined, undefined)],
-            undefined,
-            ts.factory.createToken(ts.SyntaxKind.EqualsGreaterThanToken),
-            ts.factory.createBinaryExpression(
-              ts.factory.createBinaryExpression(
-                ts.factory.createIdentifier('val'),
-                ts.factory.createToken(ts.SyntaxKind.PercentToken),
-                ts.factory.createNumericLiteral(String(prop['multipleOf']))
-              ),
-              ts.factory.createToken(ts.SyntaxKind.EqualsEqualsEqualsToken),
-              ts.factory.createNumericLiteral('0')
-            )
-          );
-          const refineOptions = ts.factory.createObjectLiteralExpression([
-            ts.factory.createPropertyAssignment(
-              ts.factory.createIdentifier('message'),
-              ts.factory.createStringLiteral(`Number must be a multiple of ${String(prop['multipleOf'])}`)
-            )
-          ]);
-          numberSchema = ts.factory.createCallExpression(ts.factory.createPropertyAccessExpression(numberSchema, ts.factory.createIdentifier('refine')), undefined, [
-            refineFunction,
-            refineOptions
-          ]);
-        }
+    if (additionalProperties === undefined) {
+      return objectSchema;
+    }
 
-        return required
-          ? numberSchema
-          : ts.factory.createCallExpression(ts.factory.createPropertyAccessExpression(numberSchema, ts.factory.createIdentifier('optional')), undefined, []);
-      }
-      case 'number': {
-        let numberSchema = this.buildZodAST(['number']);
+    return ts.factory.createCallExpression(ts.factory.createPropertyAccessExpression(objectSchema, ts.factory.createIdentifier('catchall')), undefined, [
+      additionalProperties === true ? this.buildZodAST(['unknown']) : this.buildProperty(additionalProperties, true)
+    ]);
+  }
 
-        // Apply number constraints
-        if (prop['minimum'] !== undefined && typeof prop['minimum'] === 'number') {
-          const minValue = prop['exclusiveMinimum'] && typeof prop['exclusiveMinimum'] === 'boolean' ? prop['minimum'] + 1 : prop['minimum'];
-          numberSchema = ts.factory.createCallExpression(
-            ts.factory.createPropertyAccessExpression(
-              numberSchema,
-              ts.factory.createIdentifier(prop['exclusiveMinimum'] && typeof prop['exclusiveMinimum'] === 'boolean' ? 'gt' : 'gte')
-            ),
-            undefined,
-            [ts.factory.createNumericLiteral(String(minValue))]
-          );
-        }
+  /**
+   * Builds the `patternProperties` refinement: values of keys matching a pattern must match its schema, and keys that
+   * are neither declared nor matched must satisfy `additionalProperties`:
+   * `obj => Object.entries(obj).every(([key, value]) => { const matches = [[new RegExp('^x-'), z.string()]].filter(...); ... })`
+   */
+  private buildPatternPropertiesCheck(
+    patternProperties: Record<string, unknown>,
+    declaredKeys: string[],
+    additionalProperties: boolean | Record<string, unknown> | undefined
+  ): ts.ArrowFunction {
+    const patterns = ts.factory.createArrayLiteralExpression(
+      Object.entries(patternProperties).map(([pattern, schema]) =>
+        ts.factory.createArrayLiteralExpression(
+          [ts.factory.createNewExpression(ts.factory.createIdentifier('RegExp'), undefined, [ts.factory.createStringLiteral(pattern, true)]), this.buildProperty(schema, true)],
+          false
+        )
+      ),
+      false
+    );
 
-        if (prop['maximum'] !== undefined && typeof prop['maximum'] === 'number') {
-          const maxValue = prop['exclusiveMaximum'] && typeof prop['exclusiveMaximum'] === 'boolean' ? prop['maximum'] - 1 : prop['maximum'];
-          numberSchema = ts.factory.createCallExpression(
-            ts.factory.createPropertyAccessExpression(numberSchema, ts.factory.createIdentifier(prop['exclusiveMaximum'] ? 'lt' : 'lte')),
-            undefined,
-            [ts.factory.createNumericLiteral(String(maxValue))]
-          );
-        }
+    const matches = ts.factory.createCallExpression(ts.factory.createPropertyAccessExpression(patterns, ts.factory.createIdentifier('filter')), undefined, [
+      ts.factory.createArrowFunction(
+        undefined,
+        undefined,
+        [ts.factory.createParameterDeclaration(undefined, undefined, ts.factory.createArrayBindingPattern([ts.factory.createBindingElement(undefined, undefined, 'pattern')]))],
+        undefined,
+        ts.factory.createToken(ts.SyntaxKind.EqualsGreaterThanToken),
+        ts.factory.createCallExpression(ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier('pattern'), ts.factory.createIdentifier('test')), undefined, [
+          ts.factory.createIdentifier('key')
+        ])
+      )
+    ]);
 
-        if (typeof prop['multipleOf'] === 'number') {
-          const refineFunction = ts.factory.createArrowFunction(
-            undefined,
-            undefined,
-            [ts.factory.createParameterDeclaration(undefined, undefined, 'val', undefined, undefined, undefined)],
-            undefined,
-            ts.factory.createToken(ts.SyntaxKind.EqualsGreaterThanToken),
-            ts.factory.createBinaryExpression(
-              ts.factory.createBinaryExpression(
-                ts.factory.createIdentifier('val'),
-                ts.factory.createToken(ts.SyntaxKind.PercentToken),
-                ts.factory.createNumericLiteral(String(prop['multipleOf']))
-              ),
-              ts.factory.createToken(ts.SyntaxKind.EqualsEqualsEqualsToken),
-              ts.factory.createNumericLiteral('0')
-            )
-          );
-          const refineOptions = ts.factory.createObjectLiteralExpression([
-            ts.factory.createPropertyAssignment(
-              ts.factory.createIdentifier('message'),
-              ts.factory.createStringLiteral(`Number must be a multiple of ${String(prop['multipleOf'])}`)
+    const matchedValuesAreValid = ts.factory.createCallExpression(
+      ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier('matches'), ts.factory.createIdentifier('every')),
+      undefined,
+      [
+        ts.factory.createArrowFunction(
+          undefined,
+          undefined,
+          [
+            ts.factory.createParameterDeclaration(
+              undefined,
+              undefined,
+              ts.factory.createArrayBindingPattern([ts.factory.createOmittedExpression(), ts.factory.createBindingElement(undefined, undefined, 'schema')])
             )
-          ]);
-          numberSchema = ts.factory.createCallExpression(ts.factory.createPropertyAccessExpression(numberSchema, ts.factory.createIdentifier('refine')), undefined, [
-            refineFunction,
-            refineOptions
-          ]);
-        }
+          ],
+          undefined,
+          ts.factory.createToken(ts.SyntaxKind.EqualsGreaterThanToken),
+          ts.factory.createPropertyAccessExpression(
+            ts.factory.createCallExpression(ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier('schema'), ts.factory.createIdentifier('safeParse')), undefined, [
+              ts.factory.createIdentifier('value')
+            ]),
+            ts.factory.createIdentifier('success')
+          )
+        )
+      ]
+    );
 
-        return required
-          ? numberSchema
-          : ts.factory.createCallExpression(ts.factory.createPropertyAccessExpression(numberSchema, ts.factory.createIdentifier('optional')), undefined, []);
-      }
-      case 'string': {
-        let stringSchema = this.buildZodAST(['string']);
-
-        // Apply string format
-        if (prop['format']) {
-          switch (prop['format']) {
-            case 'email':
-              stringSchema = ts.factory.createCallExpression(
-                ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier('z'), ts.factory.createIdentifier('email')),
-                undefined,
-                []
-              );
-              break;
-            case 'uri':
-            case 'url':
-              stringSchema = ts.factory.createCallExpression(
-                ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier('z'), ts.factory.createIdentifier('url')),
-                undefined,
-                []
-              );
-              break;
-            case 'uuid':
-              stringSchema = ts.factory.createCallExpression(
-                ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier('z'), ts.factory.createIdentifier('uuid')),
-                undefined,
-                []
-              );
-              break;
-            case 'date-time':
-              stringSchema = ts.factory.createCallExpression(
-                ts.factory.createPropertyAccessExpression(
-                  ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier('z'), ts.factory.createIdentifier('iso')),
-                  ts.factory.createIdentifier('datetime')
-                ),
-                undefined,
-                [this.buildDefaultValue({ local: true })]
-              );
-              break;
-            case 'date':
-              stringSchema = ts.factory.createCallExpression(
+    // Undeclared keys matching no pattern fall back to `additionalProperties`, which allows anything unless it is `false` or a schema
+    const unmatchedValueIsValid =
+      additionalProperties === false || typeof additionalProperties === 'object'
+        ? ts.factory.createParenthesizedExpression(
+            [
+              ts.factory.createBinaryExpression(
+                ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier('matches'), ts.factory.createIdentifier('length')),
+                ts.factory.createToken(ts.SyntaxKind.GreaterThanToken),
+                ts.factory.createNumericLiteral('0')
+              ),
+              ts.factory.createCallExpression(
                 ts.factory.createPropertyAccessExpression(
-                  ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier('z'), ts.factory.createIdentifier('iso')),
-                  ts.factory.createIdentifier('date')
+                  ts.factory.createArrayLiteralExpression(
+                    declaredKeys.map((key) => ts.factory.createStringLiteral(key, true)),
+                    false
+                  ),
+                  ts.factory.createIdentifier('includes')
                 ),
                 undefined,
-                []
-              );
-              break;
-            case 'time':
-              stringSchema = ts.factory.createCallExpression(ts.factory.createPropertyAccessExpression(stringSchema, ts.factory.createIdentifier('time')), undefined, []);
-              break;
-            // Add more formats as needed
-          }
-        }
-
-        // Apply string constraints
-        if (typeof prop['minLength'] === 'number') {
-          stringSchema = ts.factory.createCallExpression(ts.factory.createPropertyAccessExpression(stringSchema, ts.factory.createIdentifier('min')), undefined, [
-            ts.factory.createNumericLiteral(String(prop['minLength']))
-          ]);
-        }
-
-        if (typeof prop['maxLength'] === 'number') {
-          stringSchema = ts.factory.createCallExpression(ts.factory.createPropertyAccessExpression(stringSchema, ts.factory.createIdentifier('max')), undefined, [
-            ts.factory.createNumericLiteral(String(prop['maxLength']))
-          ]);
-        }
+                [ts.factory.createIdentifier('key')]
+              ),
+              ...(typeof additionalProperties === 'object'
+                ? [
+                    ts.factory.createPropertyAccessExpression(
+                      ts.factory.createCallExpression(
+                        ts.factory.createPropertyAccessExpression(this.buildProperty(additionalProperties, true), ts.factory.createIdentifier('safeParse')),
+                        undefined,
+                        [ts.factory.createIdentifier('value')]
+                      ),
+                      ts.factory.createIdentifier('success')
+                    )
+                  ]
+                : [])
+            ].reduce((left, right) => ts.factory.createBinaryExpression(left, ts.factory.createToken(ts.SyntaxKind.BarBarToken), right))
+          )
+        : undefined;
 
-        if (prop['pattern'] && typeof prop['pattern'] === 'string') {
-          stringSchema = ts.factory.createCallExpression(ts.factory.createPropertyAccessExpression(stringSchema, ts.factory.createIdentifier('regex')), undefined, [
-            ts.factory.createNewExpression(ts.factory.createIdentifier('RegExp'), undefined, [ts.factory.createStringLiteral(prop['pattern'], true)])
-          ]);
-        }
+    const entryCheck = ts.factory.createArrowFunction(
+      undefined,
+      undefined,
+      [
+        ts.factory.createParameterDeclaration(
+          undefined,
+          undefined,
+          ts.factory.createArrayBindingPattern([ts.factory.createBindingElement(undefined, undefined, 'key'), ts.factory.createBindingElement(undefined, undefined, 'value')])
+        )
+      ],
+      undefined,
+      ts.factory.createToken(ts.SyntaxKind.EqualsGreaterThanToken),
+      ts.factory.createBlock(
+        [
+          ts.factory.createVariableStatement(
+            undefined,
+            ts.factory.createVariableDeclarationList([ts.factory.createVariableDeclaration('matches', undefined, undefined, matches)], ts.NodeFlags.Const)
+          ),
+          ts.factory.createReturnStatement(
+            unmatchedValueIsValid
+              ? ts.factory.createBinaryExpression(matchedValuesAreValid, ts.factory.createToken(ts.SyntaxKind.AmpersandAmpersandToken), unmatchedValueIsValid)
+              : matchedValuesAreValid
+          )
+        ],
+        true
+      )
+    );
 
-        // Apply default value if not required
-        if (!required && prop['default'] !== undefined) {
-          const defaultValue = this.buildDefaultValue(prop['default']);
-          stringSchema = ts.factory.createCallExpression(ts.factory.createPropertyAccessExpression(stringSchema, ts.factory.createIdentifier('default')), undefined, [
-            defaultValue
-          ]);
-        }
+    return ts.factory.createArrowFunction(
+      undefined,
+      undefined,
+      [ts.factory.createParameterDeclaration(undefined, undefined, 'obj')],
+      undefined,
+      ts.factory.createToken(ts.SyntaxKind.EqualsGreaterThanToken),
+      ts.factory.createCallExpression(
+        ts.factory.createPropertyAccessExpression(
+          ts.factory.createCallExpression(ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier('Object'), ts.factory.createIdentifier('entries')), undefined, [
+            ts.factory.createIdentifier('obj')
+          ]),
+          ts.factory.createIdentifier('every')
+        ),
+        undefined,
+        [entryCheck]
+      )
+    );
+  }
 
-        return required
-          ? stringSchema
-          : ts.factory.createCallExpression(ts.factory.createPropertyAccessExpression(stringSchema, ts.factory.createIdentifier('optional')), undefined, []);
-      }
-      case 'boolean': {
-        let booleanSchema = this.buildZodAST(['boolean']);
+  /**
+   * Builds an `if`/`then`/`else` schema as a refinement of the remaining keywords: values matching `if` must match
+   * `then`, other values must match `else`.
+   */
+  private buildConditionalSchema(prop: Record<string, unknown>, required: boolean): ts.CallExpression {
+    const { if: condition, then: consequent, else: alternative, ...base } = prop;
+    const matches = (schema: unknown): ts.Expression =>
+      schema === undefined
+        ? ts.factory.createTrue()
+        : ts.factory.createPropertyAccessExpression(
+            ts.factory.createCallExpression(ts.factory.createPropertyAccessExpression(this.buildProperty(schema, true), ts.factory.createIdentifier('safeParse')), undefined, [
+              ts.factory.createIdentifier('val')
+            ]),
+            ts.factory.createIdentifier('success')
+          );
 
-        // Apply default value if not required
-        if (!required && prop['default'] !== undefined) {
-          const defaultValue = typeof prop['default'] === 'boolean' ? (prop['default'] ? ts.factory.createTrue() : ts.factory.createFalse()) : ts.factory.createFalse();
-          booleanSchema = ts.factory.createCallExpression(ts.factory.createPropertyAccessExpression(booleanSchema, ts.factory.createIdentifier('default')), undefined, [
-            defaultValue
-          ]);
-        }
+    const conditionalSchema = ts.factory.createCallExpression(
+      ts.factory.createPropertyAccessExpression(this.buildProperty(base, true), ts.factory.createIdentifier('refine')),
+      undefined,
+      [
+        ts.factory.createArrowFunction(
+          undefined,
+          undefined,
+          [ts.factory.createParameterDeclaration(undefined, undefined, 'val', undefined, undefined, undefined)],
+          undefined,
+          ts.factory.createToken(ts.SyntaxKind.EqualsGreaterThanToken),
+          ts.factory.createConditionalExpression(
+            matches(condition),
+            ts.factory.createToken(ts.SyntaxKind.QuestionToken),
+            matches(consequent),
+            ts.factory.createToken(ts.SyntaxKind.ColonToken),
+            matches(alternative)
+          )
+        ),
+        ts.factory.createObjectLiteralExpression([
+          ts.factory.createPropertyAssignment(ts.factory.createIdentifier('message'), ts.factory.createStringLiteral('Value must match the if/then/else schemas'))
+        ])
+      ]
+    );
 
-        return required
-          ? booleanSchema
-          : ts.factory.createCallExpression(ts.factory.createPropertyAccessExpression(booleanSchema, ts.factory.createIdentifier('optional')), undefined, []);
-      }
-      case 'unknown':
-      default:
-        return this.buildZodAST(['unknown', ...(!required ? ['optional'] : [])]);
-    }
+    return required
+      ? conditionalSchema
+      : ts.factory.createCallExpression(ts.factory.createPropertyAccessExpression(conditionalSchema, ts.factory.createIdentifier('optional')), undefined, []);
   }
 
   private buildDefaultValue(value: unknown): ts.Expression {
@@ -2577,7 +6311,9 @@ export class TypeScriptCodeGeneratorService implements CodeGenerator, SchemaBuil
     }
 
     if (typeof value === 'number') {
-      return ts.factory.createNumericLiteral(String(value));
+      return value < 0
+        ? ts.factory.createPrefixUnaryExpression(ts.SyntaxKind.MinusToken, ts.factory.createNumericLiteral(String(Math.abs(value))))
+        : ts.factory.createNumericLiteral(String(value));
     }
 
     if (typeof value === 'boolean') {
@@ -2602,7 +6338,7 @@ export class TypeScriptCodeGeneratorService implements CodeGenerator, SchemaBuil
       }
 
       return ts.factory.createObjectLiteralExpression(
-        Object.entries(value).map(([key, val]) => ts.factory.createPropertyAssignment(ts.factory.createIdentifier(key), this.buildDefaultValue(val))),
+        Object.entries(value).map(([key, val]) => ts.factory.createPropertyAssignment(this.buildPropertyName(key), this.buildDefaultValue(val))),
         true
       );
     }
@@ -2616,17 +6352,22 @@ export class TypeScriptCodeGeneratorService implements CodeGenerator, SchemaBuil
     return ts.factory.createStringLiteral(JSON.stringify(value), true);
   }
 
-  private handleLogicalOperator(operator: 'anyOf' | 'oneOf' | 'allOf' | 'not', schemas: unknown[], required: boolean): ts.CallExpression {
-    const logicalExpression = this.buildLogicalOperator(operator, schemas);
+  private handleLogicalOperator(operator: 'anyOf' | 'oneOf' | 'allOf' | 'not', schemas: unknown[], required: boolean, discriminator?: DiscriminatorType): ts.CallExpression {
+    const logicalExpression = this.buildLogicalOperator(operator, schemas, discriminator);
     return required
       ? logicalExpression
       : ts.factory.createCallExpression(ts.factory.createPropertyAccessExpression(logicalExpression, ts.factory.createIdentifier('optional')), undefined, []);
   }
 
-  private buildLogicalOperator(operator: 'anyOf' | 'oneOf' | 'allOf' | 'not', schemas: unknown[]): ts.CallExpression {
+  private buildLogicalOperator(operator: 'anyOf' | 'oneOf' | 'allOf' | 'not', schemas: unknown[], discriminator?: DiscriminatorType): ts.CallExpression {
     switch (operator) {
       case 'anyOf':
       case 'oneOf': {
+        const variants = discriminator ? this.getDiscriminatedVariants(schemas, discriminator) : undefined;
+        if (discriminator && variants) {
+          return this.buildDiscriminatedUnion(discriminator.propertyName, variants);
+        }
+
         const unionSchemas = schemas.map((schema) => this.buildSchemaFromLogicalOperator(schema));
         return ts.factory.createCallExpression(ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier('z'), ts.factory.createIdentifier('union')), undefined, [
           ts.factory.createArrayLiteralExpression(unionSchemas, false)
@@ -2680,7 +6421,75 @@ export class TypeScriptCodeGeneratorService implements CodeGenerator, SchemaBuil
     }
   }
 
-  private buildSchemaFromLogicalOperator(schema: unknown): ts.CallExpression | ts.Identifier {
+  private getDiscriminator(schema: Record<string, unknown>): DiscriminatorType | undefined {
+    const safeDiscriminator = Discriminator.safeParse(schema['discriminator']);
+    return safeDiscriminator.success ? safeDiscriminator.data : undefined;
+  }
+
+  /**
+   * Pairs each `oneOf`/`anyOf` variant with the discriminator values selecting it: explicit `mapping` entries first,
+   * then an `enum` declared on the variant's discriminator property, then the referenced schema name (implicit mapping).
+   * Returns `undefined` when a variant has no value or two variants share one, so a plain union is generated instead.
+   */
+  private getDiscriminatedVariants(schemas: unknown[], discriminator: DiscriminatorType): { schema: unknown; values: string[] }[] | undefined {
+    const mapping = Object.entries(discriminator.mapping ?? {});
+    const variants = schemas.map((schema) => {
+      const ref = this.isReference(schema) ? (Reference.parse(schema).$ref ?? '') : undefined;
+      const refName = ref?.split('/').pop();
+      // Input/Output variants are still selected by the mapping and name of the schema they derive from
+      const originName = refName === undefined ? undefined : (this.derivedSchemaOrigins.get(refName) ?? refName);
+      const mappedValues = mapping.filter(([, target]) => originName !== undefined && (target.split('/').pop() ?? target) === originName).map(([value]) => value);
+      if (mappedValues.length > 0) {
+        return { schema, values: mappedValues };
+      }
+
+      const resolved = SchemaProperties.safeParse(refName === undefined ? schema : this.componentSchemas[refName]);
+      const properties = (resolved.success ? (resolved.data['properties'] ?? {}) : {}) as Record<string, { enum?: unknown[] } | undefined>;
+      const enumValues = (properties[discriminator.propertyName]?.enum ?? []).filter((value): value is string => typeof value === 'string');
+      if (enumValues.length > 0) {
+        return { schema, values: enumValues };
+      }
+
+      return { schema, values: originName === undefined ? [] : [originName] };
+    });
+
+    const allValues = variants.flatMap(({ values }) => values);
+    const isComplete = variants.every(({ values }) => values.length > 0) && new Set(allValues).size === allValues.length;
+    return isComplete ? variants : undefined;
+  }
+
+  /**
+   * Builds `z.discriminatedUnion(propertyName, [...])`. Each variant is piped through an object pinning the discriminator
+   * to its literal value(s), since the variant schema itself usually only declares the property as a string.
+   */
+  private buildDiscriminatedUnion(propertyName: string, variants: { schema: unknown; values: string[] }[]): ts.CallExpression {
+    const options = variants.map(({ schema, values }) => {
+      const literals = values.map((value) => ts.factory.createStringLiteral(value, true));
+      const [firstLiteral] = literals;
+      const literal = ts.factory.createCallExpression(
+        ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier('z'), ts.factory.createIdentifier('literal')),
+        undefined,
+        [literals.length === 1 && firstLiteral ? firstLiteral : ts.factory.createArrayLiteralExpression(literals, false)]
+      );
+      const discriminatorObject = ts.factory.createCallExpression(
+        ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier('z'), ts.factory.createIdentifier('looseObject')),
+        undefined,
+        [ts.factory.createObjectLiteralExpression([ts.factory.createPropertyAssignment(ts.factory.createStringLiteral(propertyName, true), literal)], false)]
+      );
+
+      return ts.factory.createCallExpression(ts.factory.createPropertyAccessExpression(discriminatorObject, ts.factory.createIdentifier('pipe')), undefined, [
+        this.buildSchemaFromLogicalOperator(schema)
+      ]);
+    });
+
+    return ts.factory.createCallExpression(
+      ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier('z'), ts.factory.createIdentifier('discriminatedUnion')),
+      undefined,
+      [ts.factory.createStringLiteral(propertyName, true), ts.factory.createArrayLiteralExpression(options, false)]
+    );
+  }
+
+  private buildSchemaFromLogicalOperator(schema: unknown): ts.Expression {
     if (this.isReference(schema)) {
       // In logical operators, references are always required (they're part of a union/intersection)
       return this.buildFromReference(schema);
@@ -2729,7 +6538,7 @@ export class TypeScriptCodeGeneratorService implements CodeGenerator, SchemaBuil
           args: [
             ts.factory.createObjectLiteralExpression(
               properties.map(([name, property]): ts.ObjectLiteralElementLike => {
-                return ts.factory.createPropertyAssignment(ts.factory.createIdentifier(name), this.buildSchemaFromLogicalOperator(property));
+                return ts.factory.createPropertyAssignment(this.buildPropertyName(name), this.buildSchemaFromLogicalOperator(property));
               }),
               true
             )
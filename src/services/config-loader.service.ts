@@ -0,0 +1,105 @@
+import { load } from 'js-yaml';
+import { randomUUID } from 'node:crypto';
+import { existsSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { basename, dirname, extname, join, resolve } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import * as ts from 'typescript';
+import { z } from 'zod';
+import type { ConfigLoader, GenerationTarget } from '../interfaces/config-loader';
+import type { CodegenConfigType } from '../types/config';
+import { CodegenConfig } from '../types/config';
+
+export const CONFIG_FILE_NAMES = [
+  'zod-codegen.config.ts',
+  'zod-codegen.config.mjs',
+  'zod-codegen.config.js',
+  'zod-codegen.config.json',
+  'zod-codegen.config.yaml',
+  'zod-codegen.config.yml'
+] as const;
+
+/**
+ * Finds, loads and validates `zod-codegen.config.*` files.
+ *
+ * JSON and YAML files can only hold plain options; TypeScript and JavaScript modules export the config as their
+ * default export, so they can also pass functions such as `operationNameTransformer`.
+ */
+export class ConfigLoaderService implements ConfigLoader<CodegenConfigType> {
+  find(directory: string): string | undefined {
+    return CONFIG_FILE_NAMES.map((fileName) => join(directory, fileName)).find((path) => existsSync(path));
+  }
+
+  async load(path: string): Promise<CodegenConfigType> {
+    const configPath = resolve(path);
+    const result = CodegenConfig.safeParse(await this.readConfig(configPath));
+    if (!result.success) {
+      throw new Error(`Invalid config file ${path}:\n${z.prettifyError(result.error)}`);
+    }
+
+    return result.data;
+  }
+
+  /**
+   * Expands a config into the targets to generate. Top-level options apply to every target, and relative input and
+   * output paths are resolved against the directory of the config file.
+   */
+  resolveTargets(config: CodegenConfigType, configPath: string): GenerationTarget[] {
+    const { input, output, targets, ...options } = config;
+    const directory = dirname(resolve(configPath));
+    const entries = targets ? Object.entries(targets) : input === undefined ? [] : [['default', output === undefined ? { input } : { input, output }] as const];
+
+    return entries.map(([name, { input: targetInput, output: targetOutput, ...targetOptions }]) => ({
+      name,
+      input: this.isUrl(targetInput) ? targetInput : resolve(directory, targetInput),
+      output: targetOutput === undefined ? undefined : resolve(directory, targetOutput),
+      options: { ...options, ...targetOptions }
+    }));
+  }
+
+  private async readConfig(path: string): Promise<unknown> {
+    switch (extname(path)) {
+      case '.json':
+        return JSON.parse(readFileSync(path, 'utf8')) as unknown;
+      case '.yaml':
+      case '.yml':
+        return load(readFileSync(path, 'utf8'));
+      case '.ts':
+        return await this.importTypeScript(path);
+      default:
+        return await this.importModule(path);
+    }
+  }
+
+  private async importModule(path: string): Promise<unknown> {
+    const module = (await import(pathToFileURL(path).href)) as { default?: unknown };
+    return module.default ?? module;
+  }
+
+  /**
+   * Node cannot import TypeScript on every supported version, so the config is transpiled to a temporary module next
+   * to the original, where its relative imports and packages still resolve.
+   */
+  private async importTypeScript(path: string): Promise<unknown> {
+    const { outputText } = ts.transpileModule(readFileSync(path, 'utf8'), {
+      fileName: path,
+      compilerOptions: { module: ts.ModuleKind.ESNext, target: ts.ScriptTarget.ES2022 }
+    });
+    const modulePath = join(dirname(path), `.${basename(path, '.ts')}.${randomUUID()}.mjs`);
+
+    writeFileSync(modulePath, outputText);
+    try {
+      return await this.importModule(modulePath);
+    } finally {
+      rmSync(modulePath, { force: true });
+    }
+  }
+
+  private isUrl(path: string): boolean {
+    try {
+      const url = new URL(path);
+      return url.protocol === 'http:' || url.protocol === 'https:';
+    } catch {
+      return false;
+    }
+  }
+}
@@ -1,10 +1,14 @@
 import { load } from 'js-yaml';
 import { readFileSync } from 'node:fs';
-import type { OpenApiFileParser, OpenApiFileReader } from '../interfaces/file-reader';
+import type { OpenApiFileParser, OpenApiFileReader, RemoteVersion } from '../interfaces/file-reader';
 import type { OpenApiSpecType } from '../types/openapi';
 import { OpenApiSpec } from '../types/openapi';
+import { OpenApiReferenceResolverService } from './reference-resolver.service';
+import { SwaggerConverterService } from './swagger-converter.service';
 
 export class SyncFileReaderService implements OpenApiFileReader {
+  private readonly remoteVersions = new Map<string, RemoteVersion>();
+
   private isUrl(path: string): boolean {
     try {
       const url = new URL(path);
@@ -22,10 +26,37 @@ export class SyncFileReaderService implements OpenApiFileReader {
     return readFileSync(path, 'utf8');
   }
 
+  /**
+   * Fetches a URL unless the server reports it unchanged since `etag` was received.
+   *
+   * @returns The content and its ETag, or undefined when the server answered `304 Not Modified`
+   */
+  async fetchIfModified(path: string, etag?: string): Promise<RemoteVersion | undefined> {
+    const response = await this.request(path, etag === undefined ? {} : { 'If-None-Match': etag });
+    if (response.status === 304) {
+      return undefined;
+    }
+
+    return { content: await response.text(), etag: response.headers.get('ETag') ?? undefined };
+  }
+
+  /**
+   * Returns the content and ETag of the last response {@link readFile} received for a URL.
+   */
+  getRemoteVersion(path: string): RemoteVersion | undefined {
+    return this.remoteVersions.get(path);
+  }
+
   private async fetchUrl(path: string): Promise<string> {
+    const response = await this.request(path);
+    const version = { content: await response.text(), etag: response.headers.get('ETag') ?? undefined };
+    this.remoteVersions.set(path, version);
+    return version.content;
+  }
+
+  private async request(path: string, headers: Record<string, string> = {}): Promise<Response> {
     const url = new URL(path);
 
-    const headers: Record<string, string> = {};
     if (url.username || url.password) {
       const credentials = `${decodeURIComponent(url.username)}:${decodeURIComponent(url.password)}`;
       headers['Authorization'] = `Basic ${btoa(credentials)}`;
@@ -34,15 +65,23 @@ export class SyncFileReaderService implements OpenApiFileReader {
     }
 
     const response = await fetch(url.toString(), { headers });
-    if (!response.ok) {
+    if (!response.ok && response.status !== 304) {
       throw new Error(`Failed to fetch ${path}: ${String(response.status)} ${response.statusText}`);
     }
 
-    return await response.text();
+    return response;
   }
 }
 
 export class OpenApiFileParserService implements OpenApiFileParser<OpenApiSpecType> {
+  private readonly swaggerConverter = new SwaggerConverterService();
+  private readonly referenceResolver = new OpenApiReferenceResolverService();
+
+  /**
+   * @param onWarning - Receives a message for every part of a Swagger 2.0 document that could not be upgraded exactly
+   */
+  constructor(private readonly onWarning: (message: string) => void = () => undefined) {}
+
   parse(input: unknown): OpenApiSpecType {
     // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
     const parsedInput =
@@ -57,6 +96,20 @@ export class OpenApiFileParserService implements OpenApiFileParser<OpenApiSpecTy
           })()
         : input;
 
-    return OpenApiSpec.parse(parsedInput);
+    // Shared parameters, responses, request bodies and headers must be inlined before validation
+    return OpenApiSpec.parse(this.referenceResolver.resolve(this.upgrade(parsedInput)));
+  }
+
+  private upgrade(document: unknown): unknown {
+    if (!this.swaggerConverter.canConvert(document)) {
+      return document;
+    }
+
+    const { document: converted, warnings } = this.swaggerConverter.convert(document);
+    for (const warning of warnings) {
+      this.onWarning(warning);
+    }
+
+    return converted;
   }
 }
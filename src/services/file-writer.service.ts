@@ -1,7 +1,10 @@
 import { existsSync, mkdirSync, writeFileSync } from 'node:fs';
-import { dirname, resolve } from 'node:path';
+import { dirname, relative, resolve } from 'node:path';
 import type { FileWriter } from '../interfaces/code-generator';
 
+/** First line of every generated file */
+export const GENERATED_FILE_MARKER = '// THIS IS AN AUTOGENERATED FILE. DO NOT EDIT THIS FILE DIRECTLY.';
+
 export class SyncFileWriterService implements FileWriter {
   constructor(
     private readonly name: string,
@@ -9,6 +12,24 @@ export class SyncFileWriterService implements FileWriter {
     private readonly inputPath: string
   ) {}
 
+  /**
+   * Local paths are shown relative to the generated file, so neither the working directory nor the spelling of the
+   * input path changes them. Together with the lack of a timestamp, this keeps the header identical between runs on
+   * the same spec.
+   */
+  private describeSource(path: string, filePath: string): string {
+    return this.isUrl(path) ? this.redactUrl(path) : relative(dirname(resolve(filePath)), resolve(path)).replaceAll('\\', '/');
+  }
+
+  private isUrl(path: string): boolean {
+    try {
+      const url = new URL(path);
+      return url.protocol === 'http:' || url.protocol === 'https:';
+    } catch {
+      return false;
+    }
+  }
+
   private redactUrl(path: string): string {
     try {
       const url = new URL(path);
@@ -22,25 +43,33 @@ export class SyncFileWriterService implements FileWriter {
     return path;
   }
 
-  writeFile(filePath: string, content: string): void {
-    const generatedContent = [
-      '// THIS IS AN AUTOGENERATED FILE. DO NOT EDIT THIS FILE DIRECTLY.',
+  /**
+   * Prepends the generated file header to the content.
+   *
+   * @param content - The generated code
+   * @param filePath - Path the content is written to
+   * @returns The content written by {@link writeFile}
+   */
+  render(content: string, filePath: string): string {
+    return [
+      GENERATED_FILE_MARKER,
       `// Built with ${this.name}@${this.version}`,
-      `// Latest edit: ${new Date().toUTCString()}`,
-      `// Source file: ${this.redactUrl(this.inputPath)}`,
+      `// Source file: ${this.describeSource(this.inputPath, filePath)}`,
       '/* eslint-disable */',
       '// @ts-nocheck',
       '',
       content
     ].join('\n');
+  }
 
+  writeFile(filePath: string, content: string): void {
     const dirPath = dirname(filePath);
 
     if (!existsSync(dirPath)) {
       mkdirSync(dirPath, { recursive: true });
     }
 
-    writeFileSync(filePath, generatedContent);
+    writeFileSync(filePath, this.render(content, filePath));
   }
 
   resolveOutputPath(outputDir: string, fileName = 'api.ts'): string {
@@ -7,7 +7,9 @@ const ImportedElement = z.record(z.string(), IsTypeImport);
 
 const ImportOptions = z.object({
   defaultImport: ImportedElement.optional(),
-  namedImports: ImportedElement.optional()
+  namedImports: ImportedElement.optional(),
+  namespaceImport: z.string().optional(),
+  typeOnly: z.boolean().optional()
 });
 
 type ImportOptionsType = z.infer<typeof ImportOptions>;
@@ -39,8 +41,11 @@ export class TypeScriptImportBuilderService implements ImportBuilder {
           )
         : undefined;
 
+    // A namespace import (`* as name`) takes the place of named imports
+    const namedBindings = safeOptions.namespaceImport !== undefined ? ts.factory.createNamespaceImport(ts.factory.createIdentifier(safeOptions.namespaceImport)) : namedImports;
+
     // Check if we have any imports at all
-    const hasAnyImports = hasDefaultImport || namedImports;
+    const hasAnyImports = hasDefaultImport || namedBindings;
 
     // For side effects imports, we can pass undefined as the import clause
     // For imports with bindings, we need to create the clause using the factory
@@ -48,7 +53,11 @@ export class TypeScriptImportBuilderService implements ImportBuilder {
       undefined,
       hasAnyImports
         ? // eslint-disable-next-line @typescript-eslint/no-deprecated
-          ts.factory.createImportClause(false, hasDefaultImport && defaultImport ? ts.factory.createIdentifier(defaultImport) : undefined, namedImports ?? undefined)
+          ts.factory.createImportClause(
+            safeOptions.typeOnly ?? false,
+            hasDefaultImport && defaultImport ? ts.factory.createIdentifier(defaultImport) : undefined,
+            namedBindings ?? undefined
+          )
         : undefined,
       ts.factory.createStringLiteral(target, true),
       undefined
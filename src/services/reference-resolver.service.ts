@@ -0,0 +1,58 @@
+import type { ReferenceResolver } from '../interfaces/reference-resolver';
+import { getJsonPointerValue } from '../utils/json-pointer';
+
+/**
+ * Component sections whose `$ref`s are inlined before parsing. Schema references are kept as-is
+ * because the code generator emits named schemas and refers to them by name.
+ */
+const INLINED_COMPONENTS = ['parameters', 'responses', 'requestBodies', 'headers'] as const;
+
+const INLINED_REFERENCE = new RegExp(`^#/components/(${INLINED_COMPONENTS.join('|')})/`);
+
+/**
+ * Replaces local references to shared parameters, responses, request bodies and headers
+ * (e.g. `#/components/parameters/Limit`) with the referenced objects, so every operation
+ * sees complete definitions. Sibling keys next to a `$ref` override the referenced object's keys.
+ */
+export class OpenApiReferenceResolverService implements ReferenceResolver {
+  resolve(document: unknown): unknown {
+    return this.resolveNode(document, document, []);
+  }
+
+  private resolveNode(node: unknown, document: unknown, referenceChain: string[]): unknown {
+    if (Array.isArray(node)) {
+      return node.map((item) => this.resolveNode(item, document, referenceChain));
+    }
+
+    if (!this.isObject(node)) {
+      return node;
+    }
+
+    const { $ref: ref, ...siblings } = node;
+    if (typeof ref === 'string' && INLINED_REFERENCE.test(ref)) {
+      if (referenceChain.includes(ref)) {
+        throw new Error(`Circular reference: ${[...referenceChain, ref].join(' -> ')}`);
+      }
+
+      const resolved = this.resolveNode(this.lookup(document, ref), document, [...referenceChain, ref]);
+      const resolvedSiblings = this.resolveNode(siblings, document, referenceChain);
+
+      return this.isObject(resolved) && this.isObject(resolvedSiblings) ? { ...resolved, ...resolvedSiblings } : resolved;
+    }
+
+    return Object.fromEntries(Object.entries(node).map(([key, value]) => [key, this.resolveNode(value, document, referenceChain)]));
+  }
+
+  private lookup(document: unknown, ref: string): unknown {
+    const target = getJsonPointerValue(document, ref.slice(1));
+    if (target === undefined) {
+      throw new Error(`Unable to resolve reference "${ref}"`);
+    }
+
+    return target;
+  }
+
+  private isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+}
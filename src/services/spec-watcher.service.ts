@@ -0,0 +1,207 @@
+import { type FSWatcher, watch } from 'node:fs';
+import { dirname, join, resolve } from 'node:path';
+import type { RemoteVersion } from '../interfaces/file-reader';
+import type { Watcher } from '../interfaces/watcher';
+import type { Reporter } from '../utils/reporter';
+import { SyncFileReaderService } from './file-reader.service';
+
+export const DEFAULT_DEBOUNCE_MS = 100;
+export const DEFAULT_POLL_INTERVAL_MS = 5000;
+
+export interface WatchOptions {
+  /** Milliseconds without further changes to wait for before regenerating */
+  debounce?: number;
+  /** Milliseconds between two requests for a remote specification */
+  pollInterval?: number;
+}
+
+export interface WatchedSources {
+  /** Files and URLs read by the generation */
+  sources: readonly string[];
+  /** Content and ETag of the URLs as the generation read them, compared with the next poll of each URL */
+  remoteVersions?: ReadonlyMap<string, RemoteVersion>;
+}
+
+/**
+ * Regenerates whenever one of the sources of the last generation changes.
+ *
+ * Local files are watched through their directory, so editors that save by replacing the file are noticed too.
+ * Remote files are polled, sending the ETag of the last version seen, starting with the one the generation read, so
+ * unchanged specifications are not downloaded again. The watched sources are updated after every generation, following
+ * `$ref`s that were added or removed.
+ */
+export class SpecWatcherService implements Watcher {
+  private readonly debounce: number;
+  private readonly pollInterval: number;
+  private readonly files = new Set<string>();
+  private readonly directoryWatchers = new Map<string, FSWatcher>();
+  private readonly pollTimers = new Map<string, NodeJS.Timeout>();
+  private readonly remoteVersions = new Map<string, RemoteVersion>();
+  private debounceTimer: NodeJS.Timeout | undefined;
+  private generating = false;
+  private pending = false;
+  private closed = false;
+
+  /**
+   * @param regenerate - Runs the generation and returns the files and URLs it read, with the versions of the URLs.
+   *   Errors are expected to be reported by it; the watcher keeps running either way.
+   * @param reporter - Reporter for changes and sources that cannot be watched
+   * @param options - Debounce and polling intervals
+   * @param fileReader - Reader used to poll remote specifications
+   */
+  constructor(
+    private readonly regenerate: () => Promise<WatchedSources>,
+    private readonly reporter: Reporter,
+    options: WatchOptions = {},
+    private readonly fileReader = new SyncFileReaderService()
+  ) {
+    this.debounce = options.debounce ?? DEFAULT_DEBOUNCE_MS;
+    this.pollInterval = options.pollInterval ?? DEFAULT_POLL_INTERVAL_MS;
+  }
+
+  async start(): Promise<void> {
+    await this.generate();
+  }
+
+  close(): void {
+    this.closed = true;
+    clearTimeout(this.debounceTimer);
+    this.directoryWatchers.forEach((directoryWatcher) => {
+      directoryWatcher.close();
+    });
+    this.pollTimers.forEach((timer) => {
+      clearInterval(timer);
+    });
+    this.directoryWatchers.clear();
+    this.pollTimers.clear();
+  }
+
+  private schedule(source: string): void {
+    if (this.closed) {
+      return;
+    }
+
+    clearTimeout(this.debounceTimer);
+    this.debounceTimer = setTimeout(() => {
+      this.reporter.log(`🔄 ${source} changed, regenerating...`);
+      void this.generate();
+    }, this.debounce);
+  }
+
+  /** Changes arriving during a generation trigger one more generation once it is done */
+  private async generate(): Promise<void> {
+    if (this.generating) {
+      this.pending = true;
+      return;
+    }
+
+    this.generating = true;
+    try {
+      do {
+        this.pending = false;
+        this.watch(await this.regenerate());
+        // `pending` is set by schedule() while regenerate() is awaited
+        // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition
+      } while (this.pending && !this.closed);
+    } catch (error) {
+      this.reporter.error(`❌ Error: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      this.generating = false;
+    }
+  }
+
+  private watch({ sources, remoteVersions }: WatchedSources): void {
+    if (this.closed) {
+      return;
+    }
+
+    const urls = new Set(sources.filter((source) => this.isUrl(source)));
+    this.files.clear();
+    sources.filter((source) => !urls.has(source)).forEach((source) => this.files.add(resolve(source)));
+
+    const directories = new Set([...this.files].map((file) => dirname(file)));
+    for (const [directory, directoryWatcher] of this.directoryWatchers) {
+      if (!directories.has(directory)) {
+        directoryWatcher.close();
+        this.directoryWatchers.delete(directory);
+      }
+    }
+
+    for (const directory of directories) {
+      if (!this.directoryWatchers.has(directory)) {
+        this.watchDirectory(directory);
+      }
+    }
+
+    for (const [url, timer] of this.pollTimers) {
+      if (!urls.has(url)) {
+        clearInterval(timer);
+        this.pollTimers.delete(url);
+        this.remoteVersions.delete(url);
+      }
+    }
+
+    for (const url of urls) {
+      const version = remoteVersions?.get(url);
+      if (version !== undefined) {
+        this.remoteVersions.set(url, version);
+      }
+
+      if (!this.pollTimers.has(url)) {
+        this.pollTimers.set(
+          url,
+          setInterval(() => void this.poll(url), this.pollInterval)
+        );
+      }
+    }
+  }
+
+  private watchDirectory(directory: string): void {
+    try {
+      const directoryWatcher = watch(directory, (_event, fileName) => {
+        const file = fileName === null ? undefined : join(directory, fileName);
+        if (file !== undefined && this.files.has(file)) {
+          this.schedule(file);
+        }
+      });
+      directoryWatcher.on('error', (error) => {
+        this.reporter.error(`⚠️ Warning: stopped watching ${directory}: ${error.message}`);
+        directoryWatcher.close();
+        this.directoryWatchers.delete(directory);
+      });
+      this.directoryWatchers.set(directory, directoryWatcher);
+    } catch (error) {
+      this.reporter.error(`⚠️ Warning: cannot watch ${directory}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Regenerates when the content differs from the version the last generation read. Without that version, the first
+   * response only records the version the generation is assumed to be based on.
+   */
+  private async poll(url: string): Promise<void> {
+    const previous = this.remoteVersions.get(url);
+    try {
+      const current = await this.fileReader.fetchIfModified(url, previous?.etag);
+      if (current === undefined || this.closed || !this.pollTimers.has(url)) {
+        return;
+      }
+
+      this.remoteVersions.set(url, current);
+      if (previous !== undefined && previous.content !== current.content) {
+        this.schedule(url);
+      }
+    } catch (error) {
+      this.reporter.error(`⚠️ Warning: failed to poll ${url}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  private isUrl(path: string): boolean {
+    try {
+      const url = new URL(path);
+      return url.protocol === 'http:' || url.protocol === 'https:';
+    } catch {
+      return false;
+    }
+  }
+}
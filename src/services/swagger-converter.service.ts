@@ -0,0 +1,419 @@
+import type { ConversionResult, DocumentConverter } from '../interfaces/document-converter';
+import { getJsonPointerValue } from '../utils/json-pointer';
+
+type JsonObject = Record<string, unknown>;
+
+const OPENAPI_VERSION = '3.0.3';
+
+const DEFAULT_MEDIA_TYPE = 'application/json';
+
+const HTTP_METHODS = new Set(['get', 'put', 'post', 'delete', 'options', 'head', 'patch']);
+
+/**
+ * Swagger 2.0 reference prefixes and the OpenAPI 3 locations their targets move to.
+ */
+const REFERENCE_PREFIXES: readonly (readonly [string, string])[] = [
+  ['#/definitions/', '#/components/schemas/'],
+  ['#/responses/', '#/components/responses/'],
+  ['#/parameters/', '#/components/parameters/']
+];
+
+/**
+ * Keywords of non-body parameters and headers that describe the value and therefore move into `schema`.
+ */
+const SCHEMA_KEYWORDS = new Set([
+  'type',
+  'format',
+  'items',
+  'enum',
+  'default',
+  'maximum',
+  'exclusiveMaximum',
+  'minimum',
+  'exclusiveMinimum',
+  'maxLength',
+  'minLength',
+  'pattern',
+  'maxItems',
+  'minItems',
+  'uniqueItems',
+  'multipleOf'
+]);
+
+const OAUTH2_FLOWS: Record<string, string> = {
+  implicit: 'implicit',
+  password: 'password',
+  application: 'clientCredentials',
+  accessCode: 'authorizationCode'
+};
+
+/**
+ * Upgrades a Swagger 2.0 document to the OpenAPI 3.0 layout:
+ * - `definitions` become `components.schemas` and `securityDefinitions` become `components.securitySchemes`;
+ * - `host`, `basePath` and `schemes` become `servers`;
+ * - `body` and `formData` parameters become a `requestBody` using the operation's `consumes` media types;
+ * - response schemas are wrapped in `content` using the operation's `produces` media types.
+ *
+ * Shared parameters are inlined because body parameters have no OpenAPI 3 parameter equivalent.
+ * Anything that cannot be expressed exactly is reported in `warnings`.
+ */
+export class SwaggerConverterService implements DocumentConverter {
+  canConvert(document: unknown): boolean {
+    return this.isObject(document) && typeof document['swagger'] === 'string' && document['swagger'].startsWith('2.');
+  }
+
+  convert(document: unknown): ConversionResult {
+    if (!this.isObject(document) || !this.canConvert(document)) {
+      throw new Error('Expected a Swagger 2.0 document');
+    }
+
+    const warnings: string[] = [];
+    const consumes = this.getMediaTypes(document['consumes']) ?? [DEFAULT_MEDIA_TYPE];
+    const produces = this.getMediaTypes(document['produces']) ?? [DEFAULT_MEDIA_TYPE];
+    const servers = this.convertServers(document, warnings);
+    const paths = this.isObject(document['paths']) ? document['paths'] : {};
+
+    const convertedPaths = Object.fromEntries(
+      Object.entries(paths).map(([path, pathItem]) => [path, this.convertPathItem(path, pathItem, document, consumes, produces, warnings)])
+    );
+
+    const components: JsonObject = this.isObject(document['components']) ? { ...document['components'] } : {};
+    // Schemas already hoisted into `components` while bundling external files are converted alongside the definitions
+    const schemas = {
+      ...this.mapValues(document['definitions'], (schema) => this.convertSchema(schema)),
+      ...this.mapValues(components['schemas'], (schema) => this.convertSchema(schema))
+    };
+    const responses = this.mapValues(document['responses'], (response) => this.convertResponse(response, produces));
+    const securitySchemes = this.mapValues(document['securityDefinitions'], (definition) => this.convertSecurityScheme(definition));
+
+    const converted: JsonObject = {
+      ...this.pickExtensions(document),
+      openapi: OPENAPI_VERSION,
+      info: document['info'],
+      ...(servers.length > 0 ? { servers } : {}),
+      paths: convertedPaths,
+      components: {
+        ...components,
+        ...(Object.keys(schemas).length > 0 ? { schemas } : {}),
+        ...(Object.keys(responses).length > 0 ? { responses } : {}),
+        ...(Object.keys(securitySchemes).length > 0 ? { securitySchemes } : {})
+      },
+      ...this.pick(document, ['security', 'tags', 'externalDocs'])
+    };
+
+    return { document: this.rewriteReferences(converted), warnings };
+  }
+
+  private convertServers(document: JsonObject, warnings: string[]): JsonObject[] {
+    const host = document['host'];
+    const basePath = typeof document['basePath'] === 'string' ? document['basePath'] : '';
+    const schemes = Array.isArray(document['schemes']) ? document['schemes'].filter((scheme): scheme is string => typeof scheme === 'string') : [];
+
+    if (typeof host !== 'string') {
+      if (schemes.length > 0) {
+        warnings.push('`schemes` were ignored because the document has no `host`');
+      }
+
+      return basePath ? [{ url: basePath }] : [];
+    }
+
+    return (schemes.length > 0 ? schemes : ['https']).map((scheme) => ({ url: `${scheme}://${host}${basePath}` }));
+  }
+
+  private convertPathItem(path: string, pathItem: unknown, document: JsonObject, consumes: string[], produces: string[], warnings: string[]): unknown {
+    if (!this.isObject(pathItem)) {
+      return pathItem;
+    }
+
+    const pathParameters = this.resolveParameters(pathItem['parameters'], document);
+    const result: JsonObject = {};
+
+    for (const [key, value] of Object.entries(pathItem)) {
+      if (key === 'parameters') {
+        const parameters = pathParameters.filter((parameter) => !this.isBodyParameter(parameter)).map((parameter) => this.convertParameter(parameter, path, warnings));
+        if (parameters.length > 0) {
+          result[key] = parameters;
+        }
+      } else if (HTTP_METHODS.has(key) && this.isObject(value)) {
+        result[key] = this.convertOperation(value, `${key.toUpperCase()} ${path}`, pathParameters, document, consumes, produces, warnings);
+      } else {
+        result[key] = value;
+      }
+    }
+
+    return result;
+  }
+
+  private convertOperation(
+    operation: JsonObject,
+    location: string,
+    pathParameters: JsonObject[],
+    document: JsonObject,
+    defaultConsumes: string[],
+    defaultProduces: string[],
+    warnings: string[]
+  ): JsonObject {
+    const { parameters, consumes, produces, schemes, responses, ...rest } = operation;
+    const operationParameters = this.resolveParameters(parameters, document);
+
+    if (schemes !== undefined) {
+      warnings.push(`${location}: operation-level \`schemes\` are not supported and were ignored`);
+    }
+
+    // Body and form parameters declared on the path item apply unless the operation redeclares them
+    const isOverridden = (parameter: JsonObject) => operationParameters.some((own) => own['name'] === parameter['name'] && own['in'] === parameter['in']);
+    const bodyParameters = [
+      ...pathParameters.filter((parameter) => this.isBodyParameter(parameter) && !isOverridden(parameter)),
+      ...operationParameters.filter((parameter) => this.isBodyParameter(parameter))
+    ];
+
+    const convertedParameters = operationParameters
+      .filter((parameter) => !this.isBodyParameter(parameter))
+      .map((parameter) => this.convertParameter(parameter, location, warnings));
+    const requestBody = this.convertRequestBody(bodyParameters, this.getMediaTypes(consumes) ?? defaultConsumes);
+    const operationProduces = this.getMediaTypes(produces) ?? defaultProduces;
+
+    return {
+      ...rest,
+      ...(convertedParameters.length > 0 ? { parameters: convertedParameters } : {}),
+      ...(requestBody ? { requestBody } : {}),
+      ...(this.isObject(responses)
+        ? {
+            responses: this.mapValues(responses, (response) =>
+              this.isObject(response) && typeof response['$ref'] === 'string' ? response : this.convertResponse(response, operationProduces)
+            )
+          }
+        : {})
+    };
+  }
+
+  private resolveParameters(parameters: unknown, document: JsonObject): JsonObject[] {
+    if (!Array.isArray(parameters)) {
+      return [];
+    }
+
+    return parameters
+      .filter((parameter) => this.isObject(parameter))
+      .map((parameter) => {
+        const { $ref: ref, ...siblings } = parameter;
+        if (typeof ref !== 'string') {
+          return parameter;
+        }
+
+        const target = getJsonPointerValue(document, ref.slice(1));
+        if (!this.isObject(target)) {
+          throw new Error(`Unable to resolve reference "${ref}"`);
+        }
+
+        return { ...target, ...siblings };
+      });
+  }
+
+  private convertParameter(parameter: JsonObject, location: string, warnings: string[]): JsonObject {
+    const schema = this.convertSchema(this.pickSchemaKeywords(parameter));
+    const rest = Object.fromEntries(Object.entries(parameter).filter(([key]) => !SCHEMA_KEYWORDS.has(key) && key !== 'collectionFormat'));
+
+    return { ...rest, ...this.getSerialization(parameter, location, warnings), schema };
+  }
+
+  /**
+   * Maps `collectionFormat` (csv by default) of array parameters to the matching `style` and `explode`.
+   */
+  private getSerialization(parameter: JsonObject, location: string, warnings: string[]): JsonObject {
+    if (parameter['type'] !== 'array') {
+      return {};
+    }
+
+    const collectionFormat = typeof parameter['collectionFormat'] === 'string' ? parameter['collectionFormat'] : 'csv';
+    const csv = { style: parameter['in'] === 'query' ? 'form' : 'simple', explode: false };
+
+    switch (collectionFormat) {
+      case 'csv':
+        return csv;
+      case 'ssv':
+        return { style: 'spaceDelimited', explode: false };
+      case 'pipes':
+        return { style: 'pipeDelimited', explode: false };
+      case 'multi':
+        return { style: 'form', explode: true };
+      default:
+        warnings.push(
+          `${location}: parameter "${String(parameter['name'])}" uses collectionFormat "${collectionFormat}", which has no OpenAPI 3 equivalent; it is serialized as csv`
+        );
+        return csv;
+    }
+  }
+
+  private convertRequestBody(parameters: JsonObject[], consumes: string[]): JsonObject | undefined {
+    const body = parameters.find((parameter) => parameter['in'] === 'body');
+    if (body) {
+      const schema = this.convertSchema(body['schema'] ?? {});
+
+      return {
+        ...this.pick(body, ['description']),
+        ...(body['required'] === true ? { required: true } : {}),
+        content: Object.fromEntries(consumes.map((mediaType) => [mediaType, { schema }]))
+      };
+    }
+
+    const formParameters = parameters.filter((parameter) => parameter['in'] === 'formData');
+    if (formParameters.length === 0) {
+      return undefined;
+    }
+
+    const formMediaTypes = consumes.filter((mediaType) => mediaType === 'multipart/form-data' || mediaType === 'application/x-www-form-urlencoded');
+    const hasFile = formParameters.some((parameter) => parameter['type'] === 'file');
+    const mediaTypes = formMediaTypes.length > 0 ? formMediaTypes : [hasFile ? 'multipart/form-data' : 'application/x-www-form-urlencoded'];
+    const required = formParameters.filter((parameter) => parameter['required'] === true).map((parameter) => String(parameter['name']));
+
+    const schema = {
+      type: 'object',
+      properties: Object.fromEntries(
+        formParameters.map((parameter) => [String(parameter['name']), this.convertSchema({ ...this.pick(parameter, ['description']), ...this.pickSchemaKeywords(parameter) })])
+      ),
+      ...(required.length > 0 ? { required } : {})
+    };
+
+    return {
+      ...(required.length > 0 ? { required: true } : {}),
+      content: Object.fromEntries(mediaTypes.map((mediaType) => [mediaType, { schema }]))
+    };
+  }
+
+  private convertResponse(response: unknown, produces: string[]): unknown {
+    if (!this.isObject(response)) {
+      return response;
+    }
+
+    const { schema, headers, examples, ...rest } = response;
+    const convertedSchema = schema === undefined ? undefined : this.convertSchema(schema);
+
+    return {
+      ...rest,
+      ...(this.isObject(headers)
+        ? {
+            headers: this.mapValues(headers, (header) =>
+              this.isObject(header) ? { ...this.pick(header, ['description']), schema: this.convertSchema(this.pickSchemaKeywords(header)) } : header
+            )
+          }
+        : {}),
+      ...(convertedSchema === undefined
+        ? {}
+        : {
+            content: Object.fromEntries(
+              produces.map((mediaType) => [
+                mediaType,
+                { schema: convertedSchema, ...(this.isObject(examples) && examples[mediaType] !== undefined ? { example: examples[mediaType] } : {}) }
+              ])
+            )
+          })
+    };
+  }
+
+  private convertSecurityScheme(definition: unknown): unknown {
+    if (!this.isObject(definition)) {
+      return definition;
+    }
+
+    switch (definition['type']) {
+      case 'basic':
+        return { ...this.pick(definition, ['description']), type: 'http', scheme: 'basic' };
+      case 'oauth2': {
+        const flow = typeof definition['flow'] === 'string' ? (OAUTH2_FLOWS[definition['flow']] ?? definition['flow']) : 'implicit';
+
+        return {
+          ...this.pick(definition, ['description']),
+          type: 'oauth2',
+          flows: { [flow]: { ...this.pick(definition, ['authorizationUrl', 'tokenUrl']), scopes: definition['scopes'] ?? {} } }
+        };
+      }
+      default:
+        return definition;
+    }
+  }
+
+  /**
+   * Replaces Swagger-only schema keywords: `x-nullable`, `type: file` and string discriminators.
+   */
+  private convertSchema(schema: unknown): unknown {
+    if (Array.isArray(schema)) {
+      return schema.map((item) => this.convertSchema(item));
+    }
+
+    if (!this.isObject(schema)) {
+      return schema;
+    }
+
+    const { 'x-nullable': nullable, ...rest } = schema;
+    const converted = Object.fromEntries(Object.entries(rest).map(([key, value]) => [key, this.convertSchema(value)]));
+
+    if (nullable === true) {
+      converted['nullable'] = true;
+    }
+
+    if (converted['type'] === 'file') {
+      converted['type'] = 'string';
+      converted['format'] = 'binary';
+    }
+
+    if (typeof converted['discriminator'] === 'string') {
+      converted['discriminator'] = { propertyName: converted['discriminator'] };
+    }
+
+    return converted;
+  }
+
+  private rewriteReferences(node: unknown): unknown {
+    if (Array.isArray(node)) {
+      return node.map((item) => this.rewriteReferences(item));
+    }
+
+    if (!this.isObject(node)) {
+      return node;
+    }
+
+    return Object.fromEntries(
+      Object.entries(node).map(([key, value]) => {
+        if (key === '$ref' && typeof value === 'string') {
+          const prefix = REFERENCE_PREFIXES.find(([from]) => value.startsWith(from));
+          return [key, prefix ? `${prefix[1]}${value.slice(prefix[0].length)}` : value];
+        }
+
+        return [key, this.rewriteReferences(value)];
+      })
+    );
+  }
+
+  private getMediaTypes(value: unknown): string[] | undefined {
+    if (!Array.isArray(value)) {
+      return undefined;
+    }
+
+    const mediaTypes = value.filter((item): item is string => typeof item === 'string');
+    return mediaTypes.length > 0 ? mediaTypes : undefined;
+  }
+
+  private isBodyParameter(parameter: JsonObject): boolean {
+    return parameter['in'] === 'body' || parameter['in'] === 'formData';
+  }
+
+  private pickSchemaKeywords(value: JsonObject): JsonObject {
+    return Object.fromEntries(Object.entries(value).filter(([key]) => SCHEMA_KEYWORDS.has(key)));
+  }
+
+  private pickExtensions(value: JsonObject): JsonObject {
+    return Object.fromEntries(Object.entries(value).filter(([key]) => key.startsWith('x-')));
+  }
+
+  private pick(value: JsonObject, keys: string[]): JsonObject {
+    return Object.fromEntries(keys.filter((key) => value[key] !== undefined).map((key) => [key, value[key]]));
+  }
+
+  private mapValues(value: unknown, transform: (item: unknown) => unknown): JsonObject {
+    return this.isObject(value) ? Object.fromEntries(Object.entries(value).map(([key, item]) => [key, transform(item)])) : {};
+  }
+
+  private isObject(value: unknown): value is JsonObject {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+}
@@ -0,0 +1,54 @@
+import { z } from 'zod';
+import type { OperationNameTransformer } from '../utils/naming-convention';
+
+const GeneratorOptions = z.strictObject({
+  namingConvention: z.enum(['camelCase', 'PascalCase', 'snake_case', 'kebab-case', 'SCREAMING_SNAKE_CASE', 'SCREAMING-KEBAB-CASE']).exactOptional(),
+  operationNameTransformer: z.custom<OperationNameTransformer>((value) => typeof value === 'function', 'Expected a function').exactOptional(),
+  validateRequests: z.boolean().exactOptional(),
+  methodStyle: z.enum(['throw', 'result', 'both']).exactOptional(),
+  formats: z.record(z.string(), z.union([z.string(), z.strictObject({ schema: z.string(), from: z.string().exactOptional() })])).exactOptional(),
+  coerce: z
+    .union([
+      z.boolean(),
+      z.strictObject({
+        dates: z.boolean().exactOptional(),
+        bigints: z.boolean().exactOptional(),
+        decimal: z.strictObject({ name: z.string(), from: z.string().exactOptional() }).exactOptional()
+      })
+    ])
+    .exactOptional(),
+  enumStyle: z.enum(['union', 'const', 'enum']).exactOptional(),
+  outputMode: z.enum(['single-file', 'split']).exactOptional(),
+  clientStyle: z.enum(['flat', 'tags']).exactOptional()
+});
+
+const Paths = {
+  // Relative paths are resolved against the directory of the config file
+  input: z.string().min(1),
+  output: z.string().min(1).exactOptional()
+};
+
+export const TargetConfig = GeneratorOptions.extend(Paths);
+
+/**
+ * A config file generates either one client from `input`, or one per entry of `targets`. Top-level options apply to
+ * every target unless the target overrides them.
+ */
+export const CodegenConfig = GeneratorOptions.extend({
+  ...Paths,
+  input: Paths.input.exactOptional(),
+  targets: z.record(z.string().min(1), TargetConfig).exactOptional()
+}).check((ctx) => {
+  const { input, output, targets } = ctx.value;
+  if (targets === undefined && input === undefined) {
+    ctx.issues.push({ code: 'custom', message: 'Either `input` or `targets` is required', input: ctx.value, path: ['input'] });
+  }
+
+  if (targets !== undefined && (input !== undefined || output !== undefined)) {
+    ctx.issues.push({ code: 'custom', message: '`input` and `output` belong to each target when `targets` is used', input: ctx.value, path: ['targets'] });
+  }
+});
+
+export type GeneratorOptionsConfigType = z.infer<typeof GeneratorOptions>;
+export type TargetConfigType = z.infer<typeof TargetConfig>;
+export type CodegenConfigType = z.infer<typeof CodegenConfig>;
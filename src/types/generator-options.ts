@@ -1,5 +1,66 @@
 import type { NamingConvention, OperationNameTransformer } from '../utils/naming-convention';
 
+/**
+ * How generated client methods report failures.
+ *
+ * - `throw`: methods return the parsed data and throw `ApiError` / `ResponseValidationError`
+ * - `result`: methods never throw and resolve to an `ApiResult` discriminated on `ok`
+ * - `both`: throwing methods plus Result-style variants suffixed with `Result`
+ */
+export type MethodStyle = 'throw' | 'result' | 'both';
+
+/**
+ * How enum schemas are emitted.
+ *
+ * - `union`: literal union types with inline `z.enum([...])` schemas
+ * - `const`: an exported `as const` object per enum (e.g. `PetStatusEnum.Available`) the schema is built from
+ * - `enum`: an exported TypeScript `enum` per enum the schema is built from
+ */
+export type EnumStyle = 'union' | 'const' | 'enum';
+
+/**
+ * How operations are organized on the generated client.
+ *
+ * - `flat`: every operation is a method of the client class
+ * - `tags`: operations are grouped by their first tag into sub-clients exposed as properties (`client.pets.listPets()`)
+ */
+export type ClientStyle = 'flat' | 'tags';
+
+/**
+ * Layout of the generated code.
+ *
+ * - `single-file`: everything in one `api.ts`
+ * - `split`: a directory with `types.ts`, a module per component schema, a client per tag and an `index.ts` barrel
+ */
+export type OutputMode = 'single-file' | 'split';
+
+/**
+ * Zod schema used for a custom string `format`.
+ */
+export interface CustomFormat {
+  /** Zod expression emitted for the format, e.g. `ibanSchema` or `z.string().length(22)` */
+  schema: string;
+  /** Module the expression's leading identifier is imported from, e.g. `./validators` */
+  from?: string;
+}
+
+/**
+ * Richer runtime types decoded from wire values in coercion mode.
+ */
+export interface CoercionOptions {
+  /** Decode `date-time` and `date` strings into `Date` objects. @default true */
+  dates?: boolean;
+  /** Decode `int64` integers and strings into `bigint`. @default true */
+  bigints?: boolean;
+  /** Class decoded from `decimal` strings, e.g. `{ name: 'Decimal', from: 'decimal.js' }`. Left as strings when omitted. */
+  decimal?: {
+    /** Constructor called with the string value and serialized back with `toString()` */
+    name: string;
+    /** Module the class is imported from */
+    from?: string;
+  };
+}
+
 /**
  * Configuration options for the Generator class.
  *
@@ -57,4 +118,118 @@ export interface GeneratorOptions {
    * ```
    */
   operationNameTransformer?: OperationNameTransformer;
+
+  /**
+   * Validate outgoing requests before they are sent.
+   *
+   * When enabled, generated client methods check the request body against its Zod schema and
+   * path/query parameters against their schema constraints (e.g. `minimum`, `pattern`, `enum`).
+   * Invalid input throws a `RequestValidationError` instead of reaching the server.
+   *
+   * @default false
+   *
+   * @example
+   * ```typescript
+   * { validateRequests: true } // Emits Pet.safeParse(body) before calling makeRequest
+   * ```
+   */
+  validateRequests?: boolean;
+
+  /**
+   * Style of the generated client methods.
+   *
+   * With `result` or `both`, methods resolve to `{ ok: true, data, response } | { ok: false, error, response }`
+   * where `error` is the operation's typed `ApiError`, a validation error, or a network failure.
+   *
+   * @default 'throw'
+   *
+   * @example
+   * ```typescript
+   * { methodStyle: 'both' } // Generates getPetById() and getPetByIdResult()
+   * ```
+   */
+  methodStyle?: MethodStyle;
+
+  /**
+   * Zod schemas for custom `format` values, keyed by format name.
+   *
+   * A string is emitted as-is; with `from`, the expression's leading identifier is imported from that module.
+   * Entries take precedence over the built-in formats (`email`, `uuid`, `ipv4`, `byte`, ...).
+   *
+   * @example
+   * ```typescript
+   * {
+   *   formats: {
+   *     iban: { schema: 'ibanSchema', from: './validators' }, // import { ibanSchema } from './validators'
+   *     'country-code': 'z.string().length(2)'
+   *   }
+   * }
+   * ```
+   */
+  formats?: Record<string, string | CustomFormat>;
+
+  /**
+   * Decode wire values into richer runtime types.
+   *
+   * Schemas become Zod codecs: responses are decoded (e.g. `"2024-01-01T00:00:00Z"` → `Date`) and
+   * request bodies are encoded back before they are sent. Generated interfaces use the decoded types.
+   * `true` enables dates and bigints.
+   *
+   * @default false
+   *
+   * @example
+   * ```typescript
+   * { coerce: { dates: true, bigints: false, decimal: { name: 'Decimal', from: 'decimal.js' } } }
+   * ```
+   */
+  coerce?: boolean | CoercionOptions;
+
+  /**
+   * How enum schemas are emitted.
+   *
+   * With `const` or `enum`, every enum component schema gets a runtime object named `<Name>Enum`, and enums
+   * inlined in component properties are hoisted to named schemas first (e.g. `Pet.status` → `PetStatus`).
+   * Member names come from `x-enum-varnames`/`x-enumNames` when present, and `x-enum-descriptions` documents them.
+   *
+   * @default 'union'
+   *
+   * @example
+   * ```typescript
+   * { enumStyle: 'const' } // export const PetStatusEnum = { Available: 'available', ... } as const;
+   * ```
+   */
+  enumStyle?: EnumStyle;
+
+  /**
+   * Layout of the generated code.
+   *
+   * With `split`, the output is a directory (`./generated/api.ts` becomes `./generated/api/`) containing `types.ts`,
+   * `schemas/<Name>.ts` per component schema, `client.ts` with the untagged operations, `clients/<Tag>Client.ts`
+   * per operation tag (extending the client, or its sub-client with `clientStyle: 'tags'`), and an `index.ts` barrel
+   * re-exporting everything.
+   *
+   * @default 'single-file'
+   *
+   * @example
+   * ```typescript
+   * { outputMode: 'split' } // import Client, { Pet, PetClient } from './generated/api';
+   * ```
+   */
+  outputMode?: OutputMode;
+
+  /**
+   * How operations are organized on the generated client.
+   *
+   * With `tags`, each operation becomes a method of a `<Tag>Client` class for its first tag, exposed as a property of
+   * the client (`client.pets`, `client.store`). Sub-clients send their requests through the client's `makeRequest`,
+   * so they share its base URL, credentials and overrides. Untagged operations stay on the client.
+   *
+   * @default 'flat'
+   *
+   * @example
+   * ```typescript
+   * { clientStyle: 'tags' } // await client.pet.getPetById(1)
+   * ```
+   */
+  clientStyle?: ClientStyle;
 }
@@ -4,53 +4,74 @@ export const Reference = z.object({
   $ref: z.string().optional()
 });
 
+export const Discriminator = z.object({
+  propertyName: z.string(),
+  mapping: z.record(z.string(), z.string()).optional()
+});
+
 const BaseSchemaProperties = z.object({
-  $ref: z.string().optional(),
-  title: z.string().optional(),
-  multipleOf: z.number().positive().optional(),
-  maximum: z.number().optional(),
-  exclusiveMaximum: z.boolean().optional(),
-  minimum: z.number().optional(),
-  exclusiveMinimum: z.boolean().optional(),
-  maxLength: z.number().int().nonnegative().optional(),
-  minLength: z.number().int().nonnegative().optional(),
-  pattern: z.string().optional(),
-  maxItems: z.number().int().nonnegative().optional(),
-  minItems: z.number().int().nonnegative().optional(),
-  uniqueItems: z.boolean().optional(),
-  maxProperties: z.number().int().nonnegative().optional(),
-  minProperties: z.number().int().nonnegative().optional(),
-  required: z.array(z.string()).optional(),
-  enum: z.array(z.unknown()).optional(),
-  type: z.string().optional(),
-  allOf: z.array(z.unknown()).optional(),
-  oneOf: z.array(z.unknown()).optional(),
-  anyOf: z.array(z.unknown()).optional(),
-  not: z.unknown().optional(),
-  additionalProperties: z.unknown().optional(),
-  description: z.string().optional(),
-  format: z.string().optional(),
-  default: z.unknown().optional(),
-  nullable: z.boolean().optional(),
-  discriminator: Reference.optional(),
-  readOnly: z.boolean().optional(),
-  writeOnly: z.boolean().optional(),
-  xml: z
+  '$ref': z.string().optional(),
+  'title': z.string().optional(),
+  'multipleOf': z.number().positive().optional(),
+  'maximum': z.number().optional(),
+  // A boolean flag on `maximum`/`minimum` in OpenAPI 3.0, the bound itself in OpenAPI 3.1
+  'exclusiveMaximum': z.union([z.boolean(), z.number()]).optional(),
+  'minimum': z.number().optional(),
+  'exclusiveMinimum': z.union([z.boolean(), z.number()]).optional(),
+  'maxLength': z.number().int().nonnegative().optional(),
+  'minLength': z.number().int().nonnegative().optional(),
+  'pattern': z.string().optional(),
+  'maxItems': z.number().int().nonnegative().optional(),
+  'minItems': z.number().int().nonnegative().optional(),
+  'uniqueItems': z.boolean().optional(),
+  'maxProperties': z.number().int().nonnegative().optional(),
+  'minProperties': z.number().int().nonnegative().optional(),
+  'required': z.array(z.string()).optional(),
+  'enum': z.array(z.unknown()).optional(),
+  // Vendor extensions naming and documenting enum members, index-aligned with `enum`
+  'x-enum-varnames': z.array(z.string()).optional(),
+  'x-enumNames': z.array(z.string()).optional(),
+  'x-enum-descriptions': z.array(z.string()).optional(),
+  'const': z.unknown().optional(),
+  // OpenAPI 3.1 allows a list of types, e.g. `[string, 'null']`
+  'type': z.union([z.string(), z.array(z.string())]).optional(),
+  'allOf': z.array(z.unknown()).optional(),
+  'oneOf': z.array(z.unknown()).optional(),
+  'anyOf': z.array(z.unknown()).optional(),
+  'not': z.unknown().optional(),
+  'if': z.unknown().optional(),
+  'then': z.unknown().optional(),
+  'else': z.unknown().optional(),
+  'prefixItems': z.array(z.unknown()).optional(),
+  'additionalProperties': z.unknown().optional(),
+  'patternProperties': z.record(z.string(), z.unknown()).optional(),
+  'unevaluatedProperties': z.unknown().optional(),
+  '$defs': z.record(z.string(), z.unknown()).optional(),
+  'description': z.string().optional(),
+  'format': z.string().optional(),
+  'default': z.unknown().optional(),
+  'nullable': z.boolean().optional(),
+  'discriminator': Discriminator.optional(),
+  'readOnly': z.boolean().optional(),
+  'writeOnly': z.boolean().optional(),
+  'xml': z
     .object({
       name: z.string().optional(),
       wrapped: z.boolean().optional()
     })
     .optional(),
-  externalDocs: Reference.optional(),
-  example: z.unknown().optional(),
-  deprecated: z.boolean().optional()
+  'externalDocs': Reference.optional(),
+  'example': z.unknown().optional(),
+  'examples': z.array(z.unknown()).optional(),
+  'deprecated': z.boolean().optional()
 });
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 export const SchemaProperties: z.ZodLazy<z.ZodObject<any>> = z.lazy(() =>
   BaseSchemaProperties.extend({
     properties: z.record(z.string(), SchemaProperties).optional(),
-    items: SchemaProperties.optional()
+    // `items: false` forbids items beyond `prefixItems` in OpenAPI 3.1
+    items: z.union([SchemaProperties, z.boolean()]).optional()
   })
 );
 
@@ -110,6 +131,19 @@ export const RequestBody = z.object({
   content: z.record(z.string(), MediaType).optional()
 });
 
+const SecurityRequirement = z.record(z.string(), z.array(z.string()));
+
+export const SecurityScheme = z.object({
+  type: z.enum(['apiKey', 'http', 'mutualTLS', 'oauth2', 'openIdConnect']),
+  description: z.string().optional(),
+  name: z.string().optional(),
+  in: z.enum(['query', 'header', 'cookie']).optional(),
+  scheme: z.string().optional(),
+  bearerFormat: z.string().optional(),
+  flows: z.record(z.string(), z.unknown()).optional(),
+  openIdConnectUrl: z.string().optional()
+});
+
 export const MethodSchema = z.object({
   summary: z.string().optional(),
   description: z.string().optional(),
@@ -118,7 +152,9 @@ export const MethodSchema = z.object({
   requestBody: RequestBody.optional(),
   responses: z.record(z.string(), Response).optional(),
   tags: z.array(z.string()).optional(),
-  deprecated: z.boolean().optional()
+  deprecated: z.boolean().optional(),
+  // An empty list makes the operation anonymous, overriding the document-level requirements
+  security: z.array(SecurityRequirement).optional()
 });
 
 export const PathItem = z.object({
@@ -138,6 +174,7 @@ export const PathItem = z.object({
 
 const Info = z.object({
   title: z.string().min(1),
+  summary: z.string().optional(),
   version: z.string().min(1),
   description: z.string().optional(),
   termsOfService: z.url().optional(),
@@ -151,13 +188,12 @@ const Info = z.object({
   license: z
     .object({
       name: z.string().min(1),
+      identifier: z.string().optional(),
       url: z.url().optional()
     })
     .optional()
 });
 
-const SecurityRequirement = z.record(z.string(), z.array(z.string()));
-
 const Tag = z.object({
   name: z.string().min(1),
   description: z.string().optional(),
@@ -176,16 +212,20 @@ const Components = z.object({
   examples: z.record(z.string(), Reference).optional(),
   requestBodies: z.record(z.string(), RequestBody).optional(),
   headers: z.record(z.string(), ResponseHeader).optional(),
-  securitySchemes: z.record(z.string(), Reference).optional(),
+  securitySchemes: z.record(z.string(), z.union([SecurityScheme, Reference])).optional(),
   links: z.record(z.string(), Reference).optional(),
-  callbacks: z.record(z.string(), Reference).optional()
+  callbacks: z.record(z.string(), Reference).optional(),
+  pathItems: z.record(z.string(), PathItem).optional()
 });
 
 export const OpenApiSpec = z.object({
   openapi: z.string().regex(/^3\.\d+\.\d+$/, 'OpenAPI version must be in format 3.x.x'),
   info: Info,
+  jsonSchemaDialect: z.string().optional(),
   servers: z.array(Server).optional(),
-  paths: z.record(z.string(), PathItem),
+  // Optional since OpenAPI 3.1, where a document may only declare webhooks or components
+  paths: z.record(z.string(), PathItem).default({}),
+  webhooks: z.record(z.string(), PathItem).optional(),
   components: Components.optional(),
   security: z.array(SecurityRequirement).optional(),
   tags: z.array(Tag).optional(),
@@ -200,3 +240,5 @@ export type RequestBodyType = z.infer<typeof RequestBody>;
 export type MethodSchemaType = z.infer<typeof MethodSchema>;
 export type PathItemType = z.infer<typeof PathItem>;
 export type ReferenceType = z.infer<typeof Reference>;
+export type DiscriminatorType = z.infer<typeof Discriminator>;
+export type SecuritySchemeType = z.infer<typeof SecurityScheme>;
@@ -0,0 +1,23 @@
+/**
+ * Returns the value a JSON pointer fragment (e.g. `/components/parameters/Limit`) points to,
+ * decoding `~1` and `~0` escapes, or `undefined` when a segment does not exist.
+ * An empty pointer refers to the whole document.
+ */
+export function getJsonPointerValue(document: unknown, pointer: string): unknown {
+  if (pointer === '') {
+    return document;
+  }
+
+  const segments = pointer
+    .replace(/^\//, '')
+    .split('/')
+    .map((segment) => decodeURIComponent(segment).replace(/~1/g, '/').replace(/~0/g, '~'));
+
+  return segments.reduce<unknown>((current, segment) => {
+    if (typeof current !== 'object' || current === null || !(segment in current)) {
+      return undefined;
+    }
+
+    return (current as Record<string, unknown>)[segment];
+  }, document);
+}
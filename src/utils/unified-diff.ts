@@ -0,0 +1,149 @@
+interface LineEdit {
+  type: ' ' | '-' | '+';
+  line: string;
+}
+
+/** Edit graphs larger than this many cells are shown as a replacement of the changed region instead */
+const MAX_TRACE_SIZE = 20_000_000;
+
+const splitLines = (text: string): string[] => {
+  const lines = text.split('\n');
+  if (lines.at(-1) === '') {
+    lines.pop();
+  }
+
+  return lines;
+};
+
+const unchanged = (line: string): LineEdit => ({ type: ' ', line });
+const removed = (line: string): LineEdit => ({ type: '-', line });
+const added = (line: string): LineEdit => ({ type: '+', line });
+
+/**
+ * Shortest edit script between two lists of lines (Myers' algorithm).
+ */
+const diffMiddle = (a: readonly string[], b: readonly string[]): LineEdit[] => {
+  const max = a.length + b.length;
+  const v = new Int32Array(2 * max + 2);
+  const at = (array: Int32Array, k: number): number => array[k + max] ?? 0;
+  const trace: Int32Array[] = [];
+
+  search: for (let d = 0; d <= max; d++) {
+    if ((trace.length + 1) * v.length > MAX_TRACE_SIZE) {
+      return [...a.map(removed), ...b.map(added)];
+    }
+
+    trace.push(v.slice());
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && at(v, k - 1) < at(v, k + 1)) ? at(v, k + 1) : at(v, k - 1) + 1;
+      let y = x - k;
+      while (x < a.length && y < b.length && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+
+      v[k + max] = x;
+      if (x >= a.length && y >= b.length) {
+        break search;
+      }
+    }
+  }
+
+  const edits: LineEdit[] = [];
+  let x = a.length;
+  let y = b.length;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const previous = trace[d] ?? v;
+    const k = x - y;
+    const previousK = k === -d || (k !== d && at(previous, k - 1) < at(previous, k + 1)) ? k + 1 : k - 1;
+    const previousX = at(previous, previousK);
+    const previousY = previousX - previousK;
+    while (x > previousX && y > previousY) {
+      edits.push(unchanged(a[--x] ?? ''));
+      y--;
+    }
+
+    if (d > 0) {
+      edits.push(x === previousX ? added(b[--y] ?? '') : removed(a[--x] ?? ''));
+    }
+  }
+
+  return edits.reverse();
+};
+
+const diffLines = (a: readonly string[], b: readonly string[]): LineEdit[] => {
+  // Regenerated files mostly change in a few places, so the common ends are skipped before searching
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    start++;
+  }
+
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  return [...a.slice(0, start).map(unchanged), ...diffMiddle(a.slice(start, endA), b.slice(start, endB)), ...a.slice(endA).map(unchanged)];
+};
+
+/**
+ * Creates a unified diff (as printed by `diff -u` and `git diff`) between two texts.
+ *
+ * @param oldText - The current content
+ * @param newText - The expected content
+ * @param oldLabel - Name shown for the current content, e.g. `a/api.ts` or `/dev/null`
+ * @param newLabel - Name shown for the expected content
+ * @param context - Unchanged lines shown around every change
+ * @returns The diff, or an empty string when both texts are equal
+ */
+export function createUnifiedDiff(oldText: string, newText: string, oldLabel: string, newLabel: string, context = 3): string {
+  if (oldText === newText) {
+    return '';
+  }
+
+  const edits = diffLines(splitLines(oldText), splitLines(newText));
+  const oldLineNumbers: number[] = [];
+  const newLineNumbers: number[] = [];
+  const hunks: { first: number; last: number }[] = [];
+  let oldLine = 0;
+  let newLine = 0;
+
+  edits.forEach(({ type }, index) => {
+    oldLineNumbers.push(oldLine);
+    newLineNumbers.push(newLine);
+    oldLine += type === '+' ? 0 : 1;
+    newLine += type === '-' ? 0 : 1;
+    if (type === ' ') {
+      return;
+    }
+
+    const lastHunk = hunks.at(-1);
+    if (lastHunk !== undefined && index - lastHunk.last <= 2 * context) {
+      lastHunk.last = index;
+    } else {
+      hunks.push({ first: index, last: index });
+    }
+  });
+
+  // Only the line endings differ
+  if (hunks.length === 0) {
+    return '';
+  }
+
+  const lines = [`--- ${oldLabel}`, `+++ ${newLabel}`];
+  for (const { first, last } of hunks) {
+    const from = Math.max(0, first - context);
+    const hunkEdits = edits.slice(from, Math.min(edits.length, last + context + 1));
+    const oldCount = hunkEdits.filter(({ type }) => type !== '+').length;
+    const newCount = hunkEdits.filter(({ type }) => type !== '-').length;
+    // An empty range starts at the line before it
+    const oldStart = (oldLineNumbers[from] ?? 0) + (oldCount > 0 ? 1 : 0);
+    const newStart = (newLineNumbers[from] ?? 0) + (newCount > 0 ? 1 : 0);
+
+    lines.push(`@@ -${String(oldStart)},${String(oldCount)} +${String(newStart)},${String(newCount)} @@`, ...hunkEdits.map(({ type, line }) => `${type}${line}`));
+  }
+
+  return lines.join('\n');
+}
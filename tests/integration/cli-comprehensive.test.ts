@@ -1,5 +1,5 @@
-import { execSync } from 'node:child_process';
-import { existsSync, readFileSync, rmSync } from 'node:fs';
+import { execSync, spawnSync } from 'node:child_process';
+import { existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
 import { resolve } from 'node:path';
 import { describe, expect, it } from 'vitest';
 
@@ -66,6 +66,27 @@ describe('CLI Comprehensive Integration', () => {
       }).toThrow();
     });
 
+    it('should accept validate-requests option', () => {
+      execSync(`node ./dist/src/cli.js --input ./samples/swagger-petstore.yaml --output ${testOutputDir} --validate-requests`, {
+        encoding: 'utf-8',
+        cwd
+      });
+
+      const content = readFileSync(resolve(testOutputDir, 'api.ts'), 'utf-8');
+      expect(content).toContain('export class RequestValidationError');
+    });
+
+    it('should accept method-style option', () => {
+      execSync(`node ./dist/src/cli.js --input ./samples/swagger-petstore.yaml --output ${testOutputDir} --method-style both`, {
+        encoding: 'utf-8',
+        cwd
+      });
+
+      const content = readFileSync(resolve(testOutputDir, 'api.ts'), 'utf-8');
+      expect(content).toContain('export type ApiResult');
+      expect(content).toMatch(/async getPetByIdResult\(/);
+    });
+
     it('should write to custom file when output is a .ts path', () => {
       const outputFile = resolve(testOutputDir, 'client.ts');
       execSync(`node ./dist/src/cli.js --input ./samples/swagger-petstore.yaml --output "${outputFile}"`, {
@@ -142,4 +163,74 @@ describe('CLI Comprehensive Integration', () => {
       expect(content).toContain('import { z }');
     });
   });
+
+  describe('CLI with Config File', () => {
+    const writeConfig = (config: Record<string, unknown>) => {
+      mkdirSync(testOutputDir, { recursive: true });
+      const configPath = resolve(testOutputDir, 'zod-codegen.config.json');
+      writeFileSync(configPath, JSON.stringify(config));
+      return configPath;
+    };
+
+    it('should generate every target with the shared options', () => {
+      const configPath = writeConfig({
+        enumStyle: 'const',
+        targets: {
+          petstore: { input: '../samples/swagger-petstore.yaml', output: './petstore.ts' },
+          pokeapi: { input: '../samples/pokeapi-openapi.json', output: './pokeapi', outputMode: 'split' }
+        }
+      });
+
+      const result = execSync(`node ./dist/src/cli.js --config ${configPath}`, { encoding: 'utf-8', cwd });
+
+      expect(result).toContain('Target: petstore');
+      expect(result).toContain('Target: pokeapi');
+      expect(readFileSync(resolve(testOutputDir, 'petstore.ts'), 'utf-8')).toContain('export const PetStatusEnum');
+      expect(existsSync(resolve(testOutputDir, 'pokeapi/index.ts'))).toBe(true);
+    });
+
+    it('should only generate the selected targets and let CLI flags override the config', () => {
+      const configPath = writeConfig({
+        enumStyle: 'const',
+        targets: {
+          petstore: { input: '../samples/swagger-petstore.yaml', output: './petstore.ts' },
+          pokeapi: { input: '../samples/pokeapi-openapi.json', output: './pokeapi.ts' }
+        }
+      });
+
+      execSync(`node ./dist/src/cli.js --config ${configPath} --target petstore --enum-style union`, { encoding: 'utf-8', cwd });
+
+      expect(readFileSync(resolve(testOutputDir, 'petstore.ts'), 'utf-8')).not.toContain('PetStatusEnum');
+      expect(existsSync(resolve(testOutputDir, 'pokeapi.ts'))).toBe(false);
+    });
+
+    it('should fail with a readable message for an invalid config', () => {
+      const configPath = writeConfig({ input: '../samples/swagger-petstore.yaml', methodStyle: 'throws' });
+
+      expect(() => execSync(`node ./dist/src/cli.js --config ${configPath}`, { encoding: 'utf-8', cwd, stdio: 'pipe' })).toThrow(/Invalid config file[\s\S]*at methodStyle/);
+    });
+  });
+
+  describe('CLI Check Mode', () => {
+    it('should exit with 1 and print a diff when the output is stale', () => {
+      const args = ['./dist/src/cli.js', '--input', './samples/swagger-petstore.yaml', '--output', testOutputDir];
+      spawnSync('node', args, { encoding: 'utf-8', cwd });
+
+      const outputFile = resolve(testOutputDir, 'api.ts');
+      writeFileSync(outputFile, readFileSync(outputFile, 'utf-8').replace('async addPet(', 'async createPet('));
+
+      const result = spawnSync('node', [...args, '--check'], { encoding: 'utf-8', cwd });
+      expect(result.status).toBe(1);
+      expect(result.stdout).toMatch(/\n- {4}async createPet\([\s\S]*\n\+ {4}async addPet\(/);
+      expect(result.stderr).toContain('1 generated file(s) out of date');
+      expect(readFileSync(outputFile, 'utf-8')).toContain('async createPet(');
+    });
+
+    it('should print the generated code in dry-run mode', () => {
+      const result = execSync('node ./dist/src/cli.js --input ./samples/swagger-petstore.yaml --output test-output-cli --dry-run', { encoding: 'utf-8', cwd });
+
+      expect(result).toMatch(/^\/\/ THIS IS AN AUTOGENERATED FILE/);
+      expect(existsSync(testOutputDir)).toBe(false);
+    });
+  });
 });
@@ -0,0 +1,167 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import type { OpenApiFileReader } from '../../src/interfaces/file-reader';
+import { OpenApiBundlerService } from '../../src/services/bundler.service';
+
+class InMemoryFileReader implements OpenApiFileReader {
+  readonly reads: string[] = [];
+
+  constructor(private readonly files: Record<string, unknown>) {}
+
+  readFile(path: string): Promise<string> {
+    this.reads.push(path);
+    const file = this.files[path];
+    if (file === undefined) {
+      return Promise.reject(new Error(`ENOENT: ${path}`));
+    }
+
+    return Promise.resolve(JSON.stringify(file));
+  }
+}
+
+const createDocument = (paths: Record<string, unknown>, components?: Record<string, unknown>) => ({
+  openapi: '3.0.0',
+  info: { title: 'Test API', version: '1.0.0' },
+  paths,
+  ...(components ? { components } : {})
+});
+
+const jsonResponse = (schema: unknown) => ({ description: 'OK', content: { 'application/json': { schema } } });
+
+describe('OpenApiBundlerService', () => {
+  let files: Record<string, unknown>;
+
+  beforeEach(() => {
+    files = {};
+  });
+
+  const bundle = async (entry = '/api/openapi.json') => {
+    const reader = new InMemoryFileReader(files);
+    const document = (await new OpenApiBundlerService(reader).bundle(entry)) as any;
+    return { document, reader };
+  };
+
+  it('should return documents without external references unchanged', async () => {
+    files['/api/openapi.json'] = createDocument(
+      { '/pets': { get: { responses: { '200': jsonResponse({ $ref: '#/components/schemas/Pet' }) } } } },
+      { schemas: { Pet: { type: 'object' } } }
+    );
+
+    const { document } = await bundle();
+
+    expect(document).toEqual(files['/api/openapi.json']);
+  });
+
+  it('should copy external schemas into components and reference them locally', async () => {
+    files['/api/openapi.json'] = createDocument({ '/pets': { get: { responses: { '200': jsonResponse({ type: 'array', items: { $ref: './schemas/pet.json#/Pet' } }) } } } });
+    files['/api/schemas/pet.json'] = { Pet: { type: 'object', properties: { owner: { $ref: 'owner.json' } } } };
+    files['/api/schemas/owner.json'] = { type: 'object', properties: { name: { type: 'string' } } };
+
+    const { document } = await bundle();
+
+    expect(document.paths['/pets'].get.responses['200'].content['application/json'].schema.items).toEqual({ $ref: '#/components/schemas/Pet' });
+    expect(document.components.schemas).toEqual({
+      Pet: { type: 'object', properties: { owner: { $ref: '#/components/schemas/owner' } } },
+      owner: { type: 'object', properties: { name: { type: 'string' } } }
+    });
+  });
+
+  it('should inline external parameters and responses', async () => {
+    files['/api/openapi.json'] = createDocument({
+      '/pets': {
+        get: {
+          parameters: [{ $ref: 'common.json#/components/parameters/Limit' }],
+          responses: { '400': { $ref: 'common.json#/components/responses/BadRequest' } }
+        }
+      }
+    });
+    files['/api/common.json'] = {
+      components: {
+        parameters: { Limit: { name: 'limit', in: 'query', schema: { type: 'integer' } } },
+        responses: { BadRequest: jsonResponse({ $ref: '#/components/schemas/Error' }) },
+        schemas: { Error: { type: 'object', properties: { message: { type: 'string' } } } }
+      }
+    };
+
+    const { document } = await bundle();
+
+    expect(document.paths['/pets'].get).toEqual({
+      parameters: [{ name: 'limit', in: 'query', schema: { type: 'integer' } }],
+      responses: { '400': jsonResponse({ $ref: '#/components/schemas/Error' }) }
+    });
+    expect(document.components.schemas).toEqual({ Error: { type: 'object', properties: { message: { type: 'string' } } } });
+  });
+
+  it('should keep the name of root schemas that only reference another file', async () => {
+    files['/api/openapi.json'] = createDocument({}, { schemas: { Pet: { $ref: 'pet.json' } } });
+    files['/api/pet.json'] = { type: 'object', properties: { parent: { $ref: '#' } } };
+
+    const { document } = await bundle();
+
+    expect(document.components.schemas).toEqual({ Pet: { type: 'object', properties: { parent: { $ref: '#/components/schemas/Pet' } } } });
+  });
+
+  it('should support recursive external schemas', async () => {
+    files['/api/openapi.json'] = createDocument({ '/nodes': { get: { responses: { '200': jsonResponse({ $ref: 'node.json#/Node' }) } } } });
+    files['/api/node.json'] = { Node: { type: 'object', properties: { children: { type: 'array', items: { $ref: '#/Node' } } } } };
+
+    const { document } = await bundle();
+
+    expect(document.components.schemas.Node.properties.children.items).toEqual({ $ref: '#/components/schemas/Node' });
+  });
+
+  it('should merge identical schemas and rename conflicting ones', async () => {
+    files['/api/openapi.json'] = createDocument(
+      {
+        '/a': { get: { responses: { '200': jsonResponse({ $ref: 'a.json#/Error' }) } } },
+        '/b': { get: { responses: { '200': jsonResponse({ $ref: 'b.json#/Error' }) } } },
+        '/c': { get: { responses: { '200': jsonResponse({ $ref: 'c.json#/Error' }) } } }
+      },
+      { schemas: { Error: { type: 'object', properties: { message: { type: 'string' } } } } }
+    );
+    files['/api/a.json'] = { Error: { type: 'object', properties: { message: { type: 'string' } } } };
+    files['/api/b.json'] = { Error: { properties: { message: { type: 'string' } }, type: 'object' } };
+    files['/api/c.json'] = { Error: { type: 'object', properties: { code: { type: 'integer' } } } };
+
+    const { document } = await bundle();
+
+    expect(Object.keys(document.components.schemas)).toEqual(['Error', 'Error4']);
+    expect(document.paths['/a'].get.responses['200'].content['application/json'].schema).toEqual({ $ref: '#/components/schemas/Error' });
+    expect(document.paths['/b'].get.responses['200'].content['application/json'].schema).toEqual({ $ref: '#/components/schemas/Error' });
+    expect(document.paths['/c'].get.responses['200'].content['application/json'].schema).toEqual({ $ref: '#/components/schemas/Error4' });
+  });
+
+  it('should read each file once', async () => {
+    files['/api/openapi.json'] = createDocument({
+      '/a': { get: { parameters: [{ $ref: 'common.json#/Limit' }, { $ref: 'common.json#/Offset' }], responses: {} } }
+    });
+    files['/api/common.json'] = { Limit: { name: 'limit', in: 'query' }, Offset: { name: 'offset', in: 'query' } };
+
+    const { reader } = await bundle();
+
+    expect(reader.reads).toEqual(['/api/openapi.json', '/api/common.json']);
+  });
+
+  it('should resolve references relative to remote documents', async () => {
+    files['https://example.com/specs/openapi.json'] = createDocument({ '/pets': { get: { responses: { '200': jsonResponse({ $ref: '../common/pet.json' }) } } } });
+    files['https://example.com/common/pet.json'] = { type: 'object' };
+
+    const { document } = await bundle('https://example.com/specs/openapi.json');
+
+    expect(document.components.schemas).toEqual({ pet: { type: 'object' } });
+  });
+
+  it('should throw for circular references between files', async () => {
+    files['/api/openapi.json'] = createDocument({ '/a': { get: { parameters: [{ $ref: 'a.json' }], responses: {} } } });
+    files['/api/a.json'] = { $ref: 'b.json' };
+    files['/api/b.json'] = { $ref: 'a.json' };
+
+    await expect(bundle()).rejects.toThrow('Circular reference: /api/a.json# -> /api/b.json# -> /api/a.json#');
+  });
+
+  it('should throw for references to missing locations', async () => {
+    files['/api/openapi.json'] = createDocument({ '/a': { get: { parameters: [{ $ref: 'common.json#/Missing' }], responses: {} } } });
+    files['/api/common.json'] = {};
+
+    await expect(bundle()).rejects.toThrow('Unable to resolve reference "common.json#/Missing" (/api/common.json#/Missing)');
+  });
+});
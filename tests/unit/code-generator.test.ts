@@ -1,7 +1,29 @@
-import { beforeEach, describe, expect, it } from 'vitest';
+import { randomUUID } from 'node:crypto';
+import { mkdirSync, rmSync, writeFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
 import { TypeScriptCodeGeneratorService } from '../../src/services/code-generator.service';
 import type { OpenApiSpecType } from '../../src/types/openapi';
 
+const __dirname = dirname(fileURLToPath(import.meta.url));
+// Inside the repository, so the generated imports of `zod` resolve
+const runtimeDir = join(__dirname, '../../test-output-runtime');
+
+/**
+ * Imports generated code as a module, so tests can call the generated client.
+ */
+const importGenerated = async (code: string): Promise<Record<string, any>> => {
+  mkdirSync(runtimeDir, { recursive: true });
+  try {
+    const path = join(runtimeDir, `${randomUUID()}.ts`);
+    writeFileSync(path, code);
+    return (await import(path)) as Record<string, any>;
+  } finally {
+    rmSync(runtimeDir, { recursive: true, force: true });
+  }
+};
+
 describe('TypeScriptCodeGeneratorService', () => {
   let generator: TypeScriptCodeGeneratorService;
 
@@ -536,6 +558,1929 @@ describe('TypeScriptCodeGeneratorService', () => {
     });
   });
 
+  describe('header and cookie parameters', () => {
+    const spec: OpenApiSpecType = {
+      openapi: '3.0.0',
+      info: {
+        title: 'Test API',
+        version: '1.0.0'
+      },
+      paths: {
+        '/items/{id}': {
+          post: {
+            operationId: 'createItem',
+            parameters: [
+              { name: 'X-Request-Id', in: 'header', required: false, schema: { type: 'string' } },
+              { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+              { name: 'X-Tenant-Id', in: 'header', required: true, schema: { type: 'string' } },
+              { name: 'session', in: 'cookie', required: false, schema: { type: 'string' } }
+            ],
+            responses: {
+              '204': {
+                description: 'No Content'
+              }
+            }
+          }
+        }
+      }
+    };
+
+    it('should generate typed arguments with required ones first', () => {
+      const code = generator.generate(spec);
+      expect(code).toContain('async createItem(id: string, X_Tenant_Id: string, X_Request_Id?: string, session?: string): Promise<void>');
+    });
+
+    it('should pass header and cookie parameters to makeRequest', () => {
+      const code = generator.generate(spec);
+      expect(code).toContain("headers: { 'X-Request-Id': X_Request_Id, 'X-Tenant-Id': X_Tenant_Id }");
+      expect(code).toContain("cookies: { 'session': session }");
+    });
+
+    it('should serialize cookies and drop undefined headers in makeRequest', () => {
+      const code = generator.generate(spec);
+      expect(code).toContain('Object.entries(options.headers ?? {}).filter(([, value]) => value !== undefined)');
+      expect(code).toContain('`${key}=${encodeURIComponent(String(value))}`');
+      expect(code).toContain("join('; ')");
+      expect(code).toContain('cookieHeader ? { Cookie: cookieHeader } : {}');
+    });
+
+    it('should emit a readable options type instead of a mangled identifier', () => {
+      const code = generator.generate(spec);
+      expect(code).toContain('cookies?: Record<string, string | number | boolean | undefined>;');
+      expect(code).not.toContain('_params___Record');
+    });
+  });
+
+  describe('query parameter serialization', () => {
+    const spec: OpenApiSpecType = {
+      openapi: '3.0.0',
+      info: {
+        title: 'Test API',
+        version: '1.0.0'
+      },
+      paths: {
+        '/items': {
+          get: {
+            operationId: 'listItems',
+            parameters: [
+              { name: 'tags', in: 'query', schema: { type: 'array', items: { type: 'string' } } },
+              { name: 'ids', in: 'query', style: 'pipeDelimited', schema: { type: 'array', items: { type: 'integer' } } },
+              { name: 'filter', in: 'query', style: 'deepObject', explode: true, schema: { type: 'object' } },
+              { name: 'csv', in: 'query', explode: false, schema: { type: 'array', items: { type: 'string' } } }
+            ],
+            responses: {
+              '204': {
+                description: 'No Content'
+              }
+            }
+          }
+        }
+      }
+    };
+
+    it('should generate a serializeQueryParameter method honoring style and explode', () => {
+      const code = generator.generate(spec);
+      expect(code).toContain('protected serializeQueryParameter(name: string, value: unknown, style: string, explode: boolean)');
+      expect(code).toContain("style === 'spaceDelimited' ? ' ' : style === 'pipeDelimited' ? '|' : ','");
+      expect(code).toContain("if (style === 'deepObject')");
+      expect(code).toContain('`${name}[${key}]`');
+      expect(code).toContain('baseUrl.searchParams.append(name, serialized)');
+    });
+
+    it('should only emit serialization rules for parameters deviating from form + explode', () => {
+      const code = generator.generate(spec);
+      expect(code).toContain(
+        "querySerialization: { 'ids': { style: 'pipeDelimited', explode: false }, 'filter': { style: 'deepObject', explode: true }, 'csv': { style: 'form', explode: false } }"
+      );
+      expect(code).not.toContain("'tags': { style");
+    });
+  });
+
+  describe('request bodies', () => {
+    it('should type multipart bodies with Blob | File for binary properties', () => {
+      const spec: OpenApiSpecType = {
+        openapi: '3.0.0',
+        info: {
+          title: 'Test API',
+          version: '1.0.0'
+        },
+        paths: {
+          '/upload': {
+            post: {
+              operationId: 'upload',
+              requestBody: {
+                required: true,
+                content: {
+                  'multipart/form-data': {
+                    schema: {
+                      type: 'object',
+                      required: ['file'],
+                      properties: {
+                        'file': { type: 'string', format: 'binary' },
+                        'attachments': { type: 'array', items: { type: 'string', format: 'binary' } },
+                        'note': { type: 'string' },
+                        'file-name': { type: 'string' }
+                      }
+                    }
+                  }
+                }
+              },
+              responses: {
+                '204': {
+                  description: 'No Content'
+                }
+              }
+            }
+          }
+        }
+      };
+
+      const code = generator.generate(spec);
+      expect(code).toContain('file: Blob | File;');
+      expect(code).toContain('attachments?: (Blob | File)[];');
+      expect(code).toContain('note?: string;');
+      expect(code).toContain("'file-name'?: string;");
+      expect(code).toContain("{ data: body, contentType: 'multipart/form-data', responseType: 'void' }");
+      expect(code).toContain('const formData = new FormData()');
+      expect(code).toContain("contentType === 'multipart/form-data' ? {} : { 'Content-Type': contentType }");
+    });
+
+    it('should quote property names that are not identifiers', () => {
+      const code = generator.generate({
+        openapi: '3.0.0',
+        info: {
+          title: 'Test API',
+          version: '1.0.0'
+        },
+        paths: {},
+        components: {
+          schemas: {
+            Upload: {
+              type: 'object',
+              required: ['file-name'],
+              properties: {
+                'file-name': { type: 'string' },
+                'meta': { type: 'object', properties: { 'content-type': { type: 'string' } } }
+              }
+            }
+          }
+        }
+      });
+
+      expect(code).toContain("'file-name': string;");
+      expect(code).toContain("'content-type'?: string;");
+      expect(code).toContain("'file-name': z.string(),");
+      expect(code).toContain("'content-type': z.string().optional()");
+      expect(code).toContain('meta: z.object({');
+    });
+
+    it('should pass raw binary bodies through without JSON-stringifying', () => {
+      const spec: OpenApiSpecType = {
+        openapi: '3.0.0',
+        info: {
+          title: 'Test API',
+          version: '1.0.0'
+        },
+        paths: {
+          '/files/{id}': {
+            put: {
+              operationId: 'putFile',
+              parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
+              requestBody: {
+                required: true,
+                content: {
+                  'application/octet-stream': {
+                    schema: { type: 'string', format: 'binary' }
+                  }
+                }
+              },
+              responses: {
+                '204': {
+                  description: 'No Content'
+                }
+              }
+            }
+          }
+        }
+      };
+
+      const code = generator.generate(spec);
+      expect(code).toContain('async putFile(id: string, body: Blob | ArrayBuffer | ArrayBufferView): Promise<void>');
+      expect(code).toContain("{ data: body, contentType: 'application/octet-stream', responseType: 'void' }");
+      expect(code).toContain("contentType === 'application/json' ? JSON.stringify(options.data) : options.data");
+    });
+
+    it('should prefer JSON when a body is offered in several media types', () => {
+      const spec: OpenApiSpecType = {
+        openapi: '3.0.0',
+        info: {
+          title: 'Test API',
+          version: '1.0.0'
+        },
+        paths: {
+          '/pets': {
+            put: {
+              operationId: 'updatePet',
+              requestBody: {
+                content: {
+                  'application/x-www-form-urlencoded': {
+                    schema: { $ref: '#/components/schemas/Pet' }
+                  },
+                  'application/json': {
+                    schema: { $ref: '#/components/schemas/Pet' }
+                  }
+                }
+              },
+              responses: {
+                '204': {
+                  description: 'No Content'
+                }
+              }
+            }
+          }
+        },
+        components: {
+          schemas: {
+            Pet: {
+              type: 'object',
+              properties: {
+                name: { type: 'string' }
+              }
+            }
+          }
+        }
+      };
+
+      const code = generator.generate(spec);
+      expect(code).toContain("this.makeRequest('PUT', '/pets', { data: body, responseType: 'void' })");
+    });
+  });
+
+  describe('response handling', () => {
+    it('should return text for text and XML responses', () => {
+      const spec: OpenApiSpecType = {
+        openapi: '3.0.0',
+        info: {
+          title: 'Test API',
+          version: '1.0.0'
+        },
+        paths: {
+          '/health': {
+            get: {
+              operationId: 'getHealth',
+              responses: {
+                '200': {
+                  description: 'OK',
+                  content: {
+                    'text/plain': {
+                      schema: { type: 'string' }
+                    }
+                  }
+                }
+              }
+            }
+          },
+          '/feed': {
+            get: {
+              operationId: 'getFeed',
+              responses: {
+                '200': {
+                  description: 'OK',
+                  content: {
+                    'application/atom+xml': {
+                      schema: { type: 'string' }
+                    }
+                  }
+                }
+              }
+            }
+          }
+        }
+      };
+
+      const code = generator.generate(spec);
+      expect(code).toContain('async getHealth(): Promise<string>');
+      expect(code).toContain("this.makeRequest('GET', '/health', { responseType: 'text' })");
+      expect(code).toContain('async getFeed(): Promise<string>');
+      expect(code).toContain("this.makeRequest('GET', '/feed', { responseType: 'text' })");
+      expect(code).toContain("if (options.responseType === 'text') {");
+      expect(code).toContain('return (await response.text()) as T;');
+    });
+
+    it('should return a Blob for binary responses', () => {
+      const spec: OpenApiSpecType = {
+        openapi: '3.0.0',
+        info: {
+          title: 'Test API',
+          version: '1.0.0'
+        },
+        paths: {
+          '/files/{id}': {
+            get: {
+              operationId: 'downloadFile',
+              parameters: [
+                {
+                  name: 'id',
+                  in: 'path',
+                  required: true,
+                  schema: { type: 'string' }
+                }
+              ],
+              responses: {
+                '200': {
+                  description: 'OK',
+                  content: {
+                    'application/pdf': {
+                      schema: { type: 'string', format: 'binary' }
+                    }
+                  }
+                }
+              }
+            }
+          }
+        }
+      };
+
+      const code = generator.generate(spec);
+      expect(code).toContain('async downloadFile(id: string): Promise<Blob>');
+      expect(code).toContain("{ responseType: 'blob' }");
+      expect(code).toContain('return (await response.blob()) as T;');
+    });
+
+    it('should skip body parsing for operations without response content', () => {
+      const spec: OpenApiSpecType = {
+        openapi: '3.0.0',
+        info: {
+          title: 'Test API',
+          version: '1.0.0'
+        },
+        paths: {
+          '/pets/{id}': {
+            delete: {
+              operationId: 'deletePet',
+              parameters: [
+                {
+                  name: 'id',
+                  in: 'path',
+                  required: true,
+                  schema: { type: 'string' }
+                }
+              ],
+              responses: {
+                '200': {
+                  description: 'Deleted'
+                }
+              }
+            }
+          }
+        }
+      };
+
+      const code = generator.generate(spec);
+      expect(code).toContain('async deletePet(id: string): Promise<void>');
+      expect(code).toContain("{ responseType: 'void' }");
+      expect(code).toContain("if (options.responseType === 'void') {");
+    });
+
+    it('should treat +json media types as JSON', () => {
+      const spec: OpenApiSpecType = {
+        openapi: '3.0.0',
+        info: {
+          title: 'Test API',
+          version: '1.0.0'
+        },
+        paths: {
+          '/pets': {
+            get: {
+              operationId: 'getPet',
+              responses: {
+                '200': {
+                  description: 'OK',
+                  content: {
+                    'application/hal+json': {
+                      schema: { $ref: '#/components/schemas/Pet' }
+                    }
+                  }
+                }
+              }
+            }
+          }
+        },
+        components: {
+          schemas: {
+            Pet: {
+              type: 'object',
+              properties: {
+                name: { type: 'string' }
+              }
+            }
+          }
+        }
+      };
+
+      const code = generator.generate(spec);
+      expect(code).toContain('async getPet(): Promise<Pet>');
+      expect(code).toContain("this.makeRequest('GET', '/pets', {})");
+    });
+  });
+
+  describe('inline response schemas', () => {
+    it('should generate named schemas for inline array and object responses', () => {
+      const spec: OpenApiSpecType = {
+        openapi: '3.0.0',
+        info: {
+          title: 'Test API',
+          version: '1.0.0'
+        },
+        paths: {
+          '/pets': {
+            get: {
+              operationId: 'findPetsByStatus',
+              responses: {
+                '200': {
+                  description: 'OK',
+                  content: {
+                    'application/json': {
+                      schema: { type: 'array', items: { $ref: '#/components/schemas/Pet' } }
+                    }
+                  }
+                }
+              }
+            }
+          },
+          '/stats': {
+            get: {
+              operationId: 'get_stats',
+              responses: {
+                '200': {
+                  description: 'OK',
+                  content: {
+                    'application/json': {
+                      schema: {
+                        type: 'object',
+                        properties: {
+                          total: { type: 'integer' }
+                        },
+                        required: ['total']
+                      }
+                    }
+                  }
+                }
+              }
+            }
+          }
+        },
+        components: {
+          schemas: {
+            Pet: {
+              type: 'object',
+              properties: {
+                name: { type: 'string' }
+              }
+            }
+          }
+        }
+      };
+
+      const code = generator.generate(spec);
+      expect(code).toContain('export type FindPetsByStatusResponse = Pet[];');
+      expect(code).toContain('export const FindPetsByStatusResponse: z.ZodType<FindPetsByStatusResponse> = z.array(Pet);');
+      expect(code).toContain('async findPetsByStatus(): Promise<FindPetsByStatusResponse>');
+      expect(code).toContain('FindPetsByStatusResponse.safeParse(response)');
+      expect(code).toContain('export interface GetStatsResponse');
+      expect(code).toContain('async get_stats(): Promise<GetStatsResponse>');
+      expect(code).toContain('throw new ResponseValidationError<GetStatsResponse>');
+    });
+
+    it('should not clash with component schema names', () => {
+      const spec: OpenApiSpecType = {
+        openapi: '3.0.0',
+        info: {
+          title: 'Test API',
+          version: '1.0.0'
+        },
+        paths: {
+          '/tags': {
+            get: {
+              operationId: 'listTags',
+              responses: {
+                '200': {
+                  description: 'OK',
+                  content: {
+                    'application/json': {
+                      schema: { type: 'array', items: { type: 'string' } }
+                    }
+                  }
+                }
+              }
+            }
+          }
+        },
+        components: {
+          schemas: {
+            ListTagsResponse: {
+              type: 'object',
+              properties: {
+                tags: { type: 'array', items: { type: 'string' } }
+              }
+            }
+          }
+        }
+      };
+
+      const code = generator.generate(spec);
+      expect(code).toContain('export type ListTagsResponse2 = string[];');
+      expect(code).toContain('async listTags(): Promise<ListTagsResponse2>');
+    });
+
+    it('should name the response types of operations without an operationId after their method and path', () => {
+      const code = generator.generate({
+        openapi: '3.0.0',
+        info: {
+          title: 'Test API',
+          version: '1.0.0'
+        },
+        paths: {
+          '/pets/{petId}/toys': {
+            get: {
+              responses: {
+                '200': {
+                  description: 'OK',
+                  content: {
+                    'application/json': {
+                      schema: { type: 'array', items: { type: 'string' } }
+                    }
+                  }
+                },
+                '404': {
+                  description: 'Not found',
+                  content: {
+                    'application/json': {
+                      schema: { type: 'object', properties: { message: { type: 'string' } } }
+                    }
+                  }
+                }
+              }
+            }
+          }
+        }
+      });
+
+      expect(code).toContain('export type GetPetsPetIdToysResponse = string[];');
+      expect(code).toContain('export const GetPetsPetIdToysResponse: z.ZodType<GetPetsPetIdToysResponse> = z.array(z.string());');
+      expect(code).toMatch(/export type GetPetsPetIdToysErrorResponse = \{\s*status: 404;/);
+    });
+
+    it('should keep scalar responses inline', () => {
+      const spec: OpenApiSpecType = {
+        openapi: '3.0.0',
+        info: {
+          title: 'Test API',
+          version: '1.0.0'
+        },
+        paths: {
+          '/count': {
+            get: {
+              operationId: 'countPets',
+              responses: {
+                '200': {
+                  description: 'OK',
+                  content: {
+                    'application/json': {
+                      schema: { type: 'integer' }
+                    }
+                  }
+                }
+              }
+            }
+          }
+        }
+      };
+
+      const code = generator.generate(spec);
+      expect(code).toContain('async countPets(): Promise<number>');
+      expect(code).not.toContain('CountPetsResponse');
+    });
+  });
+
+  describe('request validation', () => {
+    const spec: OpenApiSpecType = {
+      openapi: '3.0.0',
+      info: {
+        title: 'Test API',
+        version: '1.0.0'
+      },
+      paths: {
+        '/pets/{petId}': {
+          put: {
+            operationId: 'updatePet',
+            parameters: [
+              {
+                name: 'petId',
+                in: 'path',
+                required: true,
+                schema: { type: 'integer', minimum: 1 }
+              },
+              {
+                name: 'limit',
+                in: 'query',
+                schema: { type: 'integer', maximum: 100 }
+              }
+            ],
+            requestBody: {
+              required: true,
+              content: {
+                'application/json': {
+                  schema: { $ref: '#/components/schemas/Pet' }
+                }
+              }
+            },
+            responses: {
+              '204': {
+                description: 'No Content'
+              }
+            }
+          }
+        }
+      },
+      components: {
+        schemas: {
+          Pet: {
+            type: 'object',
+            properties: {
+              name: { type: 'string' }
+            }
+          }
+        }
+      }
+    };
+
+    it('should not validate requests by default', () => {
+      const code = generator.generate(spec);
+      expect(code).not.toContain('RequestValidationError');
+      expect(code).not.toContain('Pet.safeParse(body)');
+    });
+
+    it('should validate bodies and parameters when validateRequests is enabled', () => {
+      const validatingGenerator = new TypeScriptCodeGeneratorService({ validateRequests: true });
+      const code = validatingGenerator.generate(spec);
+
+      expect(code).toContain('export class RequestValidationError<T> extends Error');
+      expect(code).toContain("'petId': z.number().int().gte(1)");
+      expect(code).toContain("'limit': z.number().int().lte(100).optional()");
+      expect(code).toContain("}).safeParse({ 'petId': petId, 'limit': limit });");
+      expect(code).toContain('throw new RequestValidationError(`Invalid parameters: ');
+      expect(code).toContain('const parsedBody = Pet.safeParse(body);');
+      expect(code).toContain('throw new RequestValidationError(`Invalid request body: ');
+
+      // Validation runs before the request is sent
+      expect(code.indexOf('Pet.safeParse(body)')).toBeLessThan(code.indexOf("this.makeRequest('PUT'"));
+    });
+
+    it('should throw RequestValidationError for an invalid body without sending it', async () => {
+      const originalFetch = global.fetch;
+      global.fetch = vi.fn();
+      const { default: Client, RequestValidationError } = await importGenerated(new TypeScriptCodeGeneratorService({ validateRequests: true }).generate(spec));
+
+      const error: unknown = await new Client('https://api.example.com').updatePet(1, { name: 42 }).catch((caught: unknown) => caught);
+
+      expect(error).toBeInstanceOf(RequestValidationError);
+      expect((error as Error).message).toMatch(/^Invalid request body: /);
+      expect(global.fetch).not.toHaveBeenCalled();
+
+      global.fetch = originalFetch;
+    });
+  });
+
+  describe('multi-status responses', () => {
+    const spec: OpenApiSpecType = {
+      openapi: '3.0.0',
+      info: {
+        title: 'Test API',
+        version: '1.0.0'
+      },
+      paths: {
+        '/pets/{id}': {
+          put: {
+            operationId: 'updatePet',
+            parameters: [
+              {
+                name: 'id',
+                in: 'path',
+                required: true,
+                schema: { type: 'string' }
+              }
+            ],
+            responses: {
+              '200': {
+                description: 'Updated',
+                content: {
+                  'application/json': {
+                    schema: { $ref: '#/components/schemas/Pet' }
+                  }
+                }
+              },
+              '202': {
+                description: 'Accepted',
+                content: {
+                  'application/json': {
+                    schema: { $ref: '#/components/schemas/Job' }
+                  }
+                }
+              },
+              '400': {
+                description: 'Invalid pet',
+                content: {
+                  'application/problem+json': {
+                    schema: { $ref: '#/components/schemas/ValidationProblem' }
+                  }
+                }
+              },
+              '404': {
+                description: 'Not found',
+                content: {
+                  'application/json': {
+                    schema: { $ref: '#/components/schemas/NotFound' }
+                  }
+                }
+              },
+              '5XX': {
+                description: 'Server error'
+              }
+            }
+          }
+        }
+      },
+      components: {
+        schemas: {
+          Pet: {
+            type: 'object',
+            properties: {
+              name: { type: 'string' }
+            }
+          },
+          Job: {
+            type: 'object',
+            properties: {
+              id: { type: 'string' }
+            }
+          },
+          ValidationProblem: {
+            type: 'object',
+            properties: {
+              title: { type: 'string' }
+            }
+          },
+          NotFound: {
+            type: 'object',
+            properties: {
+              message: { type: 'string' }
+            }
+          }
+        }
+      }
+    };
+
+    it('should union all 2xx response schemas on the success path', () => {
+      const code = generator.generate(spec);
+      expect(code).toContain('export type UpdatePetResponse = Pet | Job;');
+      expect(code).toContain('export const UpdatePetResponse: z.ZodType<UpdatePetResponse> = z.union([Pet, Job]);');
+      expect(code).toContain('async updatePet(id: string): Promise<UpdatePetResponse>');
+    });
+
+    it('should generate a status/body union type for declared error responses', () => {
+      const code = generator.generate(spec);
+      expect(code).toMatch(
+        /export type UpdatePetErrorResponse = \{\s*status: 400;\s*body: ValidationProblem;\s*\} \| \{\s*status: 404;\s*body: NotFound;\s*\} \| \{\s*status: number;\s*body: unknown;\s*\};/
+      );
+      expect(code).toContain('@throws {ApiError<UpdatePetErrorResponse>}');
+    });
+
+    it('should pass error body schemas to makeRequest', () => {
+      const code = generator.generate(spec);
+      expect(code).toContain("errorSchemas: { '400': ValidationProblem, '404': NotFound, '5XX': z.unknown() }");
+      expect(code).toContain('throw await this.createApiError(response, options.errorSchemas ?? {});');
+    });
+
+    it('should generate the ApiError class and createApiError hook', () => {
+      const code = generator.generate(spec);
+      expect(code).toMatch(/export class ApiError<T extends \{[\s\S]*?\}> extends Error/);
+      expect(code).toContain("readonly status: T['status'];");
+      expect(code).toContain("readonly body: T['body'];");
+      expect(code).toContain("hasStatus<S extends T['status']>(status: S): this is ApiError<Extract<T, {");
+      expect(code).toContain('protected async createApiError(response: Response, errorSchemas: Record<string, z.ZodType>): Promise<ApiError>');
+      expect(code).toContain("errorSchemas[String(response.status)] ?? errorSchemas[`${String(response.status).charAt(0)}XX`] ?? errorSchemas['default']");
+      expect(code).toContain('return new ApiError(`HTTP ${response.status}: ${response.statusText}`, response, { status: response.status, body });');
+    });
+
+    it('should throw ResponseValidationError when a declared error body does not match its schema', async () => {
+      const originalFetch = global.fetch;
+      global.fetch = vi.fn().mockResolvedValue(new Response(JSON.stringify({ message: 42 }), { status: 404, headers: { 'Content-Type': 'application/json' } }));
+      const { default: Client, ResponseValidationError } = await importGenerated(generator.generate(spec));
+
+      const error: unknown = await new Client('https://api.example.com').updatePet('1').catch((caught: unknown) => caught);
+
+      expect(error).toBeInstanceOf(ResponseValidationError);
+      expect((error as Error).message).toMatch(/^Invalid error response for HTTP 404: /);
+
+      global.fetch = originalFetch;
+    });
+
+    it('should resolve to undefined for a declared 2xx response without a body', async () => {
+      const noContentSpec: OpenApiSpecType = {
+        ...spec,
+        paths: {
+          '/pets/{id}': {
+            get: {
+              operationId: 'getPet',
+              parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
+              responses: {
+                '200': {
+                  description: 'Pet',
+                  content: {
+                    'application/json': {
+                      schema: { $ref: '#/components/schemas/Pet' }
+                    }
+                  }
+                },
+                '204': {
+                  description: 'No pet'
+                }
+              }
+            }
+          }
+        }
+      };
+      const code = generator.generate(noContentSpec);
+      expect(code).toContain('async getPet(id: string): Promise<Pet | undefined>');
+
+      const originalFetch = global.fetch;
+      global.fetch = vi.fn().mockResolvedValue(new Response(null, { status: 204 }));
+      const { default: Client } = await importGenerated(code);
+
+      await expect(new Client('https://api.example.com').getPet('1')).resolves.toBeUndefined();
+
+      global.fetch = originalFetch;
+    });
+
+    it('should treat default as the success response when no 2xx is declared', () => {
+      const code = generator.generate({
+        openapi: '3.0.0',
+        info: {
+          title: 'Test API',
+          version: '1.0.0'
+        },
+        paths: {
+          '/pets': {
+            get: {
+              operationId: 'getPet',
+              responses: {
+                default: {
+                  description: 'Pet',
+                  content: {
+                    'application/json': {
+                      schema: { $ref: '#/components/schemas/Pet' }
+                    }
+                  }
+                }
+              }
+            }
+          }
+        },
+        components: {
+          schemas: {
+            Pet: {
+              type: 'object',
+              properties: {
+                name: { type: 'string' }
+              }
+            }
+          }
+        }
+      });
+
+      expect(code).toContain('async getPet(): Promise<Pet>');
+      expect(code).not.toContain('GetPetErrorResponse');
+    });
+  });
+
+  describe('result-style methods', () => {
+    const spec: OpenApiSpecType = {
+      openapi: '3.0.0',
+      info: {
+        title: 'Test API',
+        version: '1.0.0'
+      },
+      paths: {
+        '/pets/{id}': {
+          get: {
+            operationId: 'getPetById',
+            parameters: [
+              {
+                name: 'id',
+                in: 'path',
+                required: true,
+                schema: { type: 'string' }
+              }
+            ],
+            responses: {
+              '200': {
+                description: 'OK',
+                content: {
+                  'application/json': {
+                    schema: { $ref: '#/components/schemas/Pet' }
+                  }
+                }
+              },
+              '404': {
+                description: 'Not found',
+                content: {
+                  'application/json': {
+                    schema: { $ref: '#/components/schemas/NotFound' }
+                  }
+                }
+              }
+            }
+          }
+        }
+      },
+      components: {
+        schemas: {
+          Pet: {
+            type: 'object',
+            properties: {
+              name: { type: 'string' }
+            }
+          },
+          NotFound: {
+            type: 'object',
+            properties: {
+              message: { type: 'string' }
+            }
+          }
+        }
+      }
+    };
+
+    it('should only generate throwing methods by default', () => {
+      const code = generator.generate(spec);
+      expect(code).toContain('async getPetById(id: string): Promise<Pet>');
+      expect(code).not.toContain('ApiResult');
+      expect(code).not.toContain('NetworkError');
+    });
+
+    it('should generate methods returning ApiResult in result mode', () => {
+      const resultGenerator = new TypeScriptCodeGeneratorService({ methodStyle: 'result' });
+      const code = resultGenerator.generate(spec);
+
+      expect(code).toContain('async getPetById(id: string): Promise<ApiResult<Pet, GetPetByIdErrorResponse>>');
+      expect(code).toContain('export type ApiResult<TData, TError extends {');
+      expect(code).toContain('error: ApiError<TError> | ResponseValidationError<unknown> | NetworkError;');
+      expect(code).toContain('export class NetworkError extends Error');
+      expect(code).toContain('let rawResponse: Response | undefined;');
+      expect(code).toContain('onResponse: received => { rawResponse = received; }');
+      expect(code).toContain('return { ok: true, data: parsedPet.data, response: rawResponse as Response };');
+      expect(code).toContain(
+        'return { ok: false, error: error instanceof ApiError || error instanceof ResponseValidationError ? error : new NetworkError(error instanceof Error ? error.message : String(error), error), response: rawResponse };'
+      );
+      expect(code).toContain('options.onResponse?.(response);');
+      expect(code).not.toContain('@throws');
+    });
+
+    it('should generate both variants in both mode', () => {
+      const bothGenerator = new TypeScriptCodeGeneratorService({ methodStyle: 'both' });
+      const code = bothGenerator.generate(spec);
+
+      expect(code).toContain('async getPetById(id: string): Promise<Pet>');
+      expect(code).toContain('async getPetByIdResult(id: string): Promise<ApiResult<Pet, GetPetByIdErrorResponse>>');
+    });
+
+    it('should return ResponseValidationError instead of NetworkError when a body does not match its schema', async () => {
+      const originalFetch = global.fetch;
+      global.fetch = vi
+        .fn()
+        .mockImplementation(() => Promise.resolve(new Response(JSON.stringify({ name: 42 }), { status: 200, headers: { 'Content-Type': 'application/json' } })));
+      const { default: Client, ResponseValidationError } = await importGenerated(new TypeScriptCodeGeneratorService({ methodStyle: 'both' }).generate(spec));
+      const client = new Client('https://api.example.com');
+
+      const result = await client.getPetByIdResult('1');
+
+      expect(result.ok).toBe(false);
+      expect(result.error).toBeInstanceOf(ResponseValidationError);
+      expect(result.error.message).toMatch(/^Invalid pet: /);
+      expect(result.response.status).toBe(200);
+      await expect(client.getPetById('1')).rejects.toBeInstanceOf(ResponseValidationError);
+
+      global.fetch = originalFetch;
+    });
+
+    it('should include RequestValidationError when requests are validated', () => {
+      const validatingGenerator = new TypeScriptCodeGeneratorService({ methodStyle: 'result', validateRequests: true });
+      const code = validatingGenerator.generate(spec);
+
+      expect(code).toContain('error: ApiError<TError> | ResponseValidationError<unknown> | RequestValidationError<unknown> | NetworkError;');
+      expect(code).toContain('error instanceof ApiError || error instanceof ResponseValidationError || error instanceof RequestValidationError ? error');
+    });
+  });
+
+  describe('path-level parameters', () => {
+    const spec: OpenApiSpecType = {
+      openapi: '3.0.0',
+      info: {
+        title: 'Test API',
+        version: '1.0.0'
+      },
+      paths: {
+        '/pets/{petId}': {
+          parameters: [
+            { name: 'petId', in: 'path', required: true, schema: { type: 'string' } },
+            { name: 'X-Tenant', in: 'header', required: false, schema: { type: 'string' } }
+          ],
+          get: {
+            operationId: 'getPet',
+            responses: { '204': { description: 'OK' } }
+          },
+          delete: {
+            operationId: 'deletePet',
+            parameters: [{ name: 'X-Tenant', in: 'header', required: true, schema: { type: 'string' } }],
+            responses: { '204': { description: 'Deleted' } }
+          }
+        }
+      }
+    };
+
+    it('should add path-level parameters to every operation of the path', () => {
+      const code = new TypeScriptCodeGeneratorService().generate(spec);
+
+      expect(code).toContain('async getPet(petId: string, X_Tenant?: string)');
+      expect(code).toContain('`/pets/${petId}`');
+      expect(code).not.toContain('/pets/{petId}');
+    });
+
+    it('should let operation parameters override path-level parameters with the same name and location', () => {
+      const code = new TypeScriptCodeGeneratorService().generate(spec);
+
+      expect(code).toContain('async deletePet(petId: string, X_Tenant: string)');
+    });
+  });
+
+  describe('discriminated unions', () => {
+    const createSpec = (discriminator: Record<string, unknown>): OpenApiSpecType => ({
+      openapi: '3.0.0',
+      info: {
+        title: 'Test API',
+        version: '1.0.0'
+      },
+      paths: {},
+      components: {
+        schemas: {
+          Event: {
+            oneOf: [{ $ref: '#/components/schemas/Created' }, { $ref: '#/components/schemas/Deleted' }],
+            discriminator
+          },
+          Created: {
+            type: 'object',
+            required: ['kind', 'id'],
+            properties: { kind: { type: 'string' }, id: { type: 'string' } }
+          },
+          Deleted: {
+            type: 'object',
+            required: ['kind'],
+            properties: { kind: { type: 'string', enum: ['deleted'] } }
+          }
+        }
+      }
+    });
+
+    it('should generate z.discriminatedUnion with explicit mapping entries', () => {
+      const code = new TypeScriptCodeGeneratorService().generate(
+        createSpec({ propertyName: 'kind', mapping: { created: '#/components/schemas/Created', create: 'Created', removed: '#/components/schemas/Deleted' } })
+      );
+
+      expect(code).toContain(
+        "z.discriminatedUnion('kind', [z.looseObject({ 'kind': z.literal(['created', 'create']) }).pipe(Created), z.looseObject({ 'kind': z.literal('removed') }).pipe(Deleted)])"
+      );
+    });
+
+    it('should fall back to the variant enum and then to the schema name', () => {
+      const code = new TypeScriptCodeGeneratorService().generate(createSpec({ propertyName: 'kind' }));
+
+      expect(code).toContain("z.looseObject({ 'kind': z.literal('Created') }).pipe(Created)");
+      expect(code).toContain("z.looseObject({ 'kind': z.literal('deleted') }).pipe(Deleted)");
+    });
+
+    it('should generate a union type narrowed by the discriminator', () => {
+      const code = new TypeScriptCodeGeneratorService().generate(createSpec({ propertyName: 'kind' }));
+
+      expect(code).toMatch(/export type Event = \(Created & \{\s*'kind': 'Created';\s*\}\) \| \(Deleted & \{\s*'kind': 'deleted';\s*\}\);/);
+    });
+
+    it('should generate a plain union when a variant has no discriminator value', () => {
+      const spec = createSpec({ propertyName: 'kind' });
+      (spec.components?.schemas?.['Event'] as { oneOf: unknown[] }).oneOf.push({ type: 'object', properties: { kind: { type: 'string' } } });
+
+      const code = new TypeScriptCodeGeneratorService().generate(spec);
+
+      expect(code).not.toContain('z.discriminatedUnion');
+      expect(code).toContain('z.union([Created, Deleted, z.object(');
+    });
+  });
+
+  describe('readOnly and writeOnly properties', () => {
+    const spec: OpenApiSpecType = {
+      openapi: '3.0.0',
+      info: {
+        title: 'Test API',
+        version: '1.0.0'
+      },
+      paths: {
+        '/users': {
+          post: {
+            operationId: 'createUser',
+            requestBody: {
+              required: true,
+              content: { 'application/json': { schema: { $ref: '#/components/schemas/User' } } }
+            },
+            responses: {
+              '201': {
+                description: 'Created',
+                content: { 'application/json': { schema: { $ref: '#/components/schemas/User' } } }
+              }
+            }
+          }
+        },
+        '/teams': {
+          get: {
+            operationId: 'listTeams',
+            responses: {
+              '200': {
+                description: 'OK',
+                content: { 'application/json': { schema: { $ref: '#/components/schemas/Team' } } }
+              }
+            }
+          }
+        }
+      },
+      components: {
+        schemas: {
+          User: {
+            type: 'object',
+            required: ['id', 'name', 'password'],
+            properties: {
+              id: { type: 'string', readOnly: true },
+              name: { type: 'string' },
+              password: { type: 'string', writeOnly: true }
+            }
+          },
+          Team: {
+            type: 'object',
+            properties: { members: { type: 'array', items: { $ref: '#/components/schemas/User' } } }
+          },
+          Tag: {
+            type: 'object',
+            properties: { label: { type: 'string' } }
+          }
+        }
+      }
+    };
+
+    it('should generate Input schemas without readOnly properties and Output schemas without writeOnly properties', () => {
+      const code = new TypeScriptCodeGeneratorService().generate(spec);
+
+      expect(code).toMatch(/export interface UserInput \{\s*name: string;\s*password: string;\s*\}/);
+      expect(code).toMatch(/export interface UserOutput \{\s*id: string;\s*name: string;\s*\}/);
+      expect(code).toContain('export const UserInput: z.ZodType<UserInput>');
+      expect(code).toContain('export const UserOutput: z.ZodType<UserOutput>');
+      expect(code).toMatch(/export interface User \{\s*id: string;\s*name: string;\s*password: string;\s*\}/);
+    });
+
+    it('should derive variants for schemas referencing affected schemas only', () => {
+      const code = new TypeScriptCodeGeneratorService().generate(spec);
+
+      expect(code).toContain('members: z.array(UserOutput).optional()');
+      expect(code).not.toContain('TagInput');
+      expect(code).not.toContain('TagOutput');
+    });
+
+    it('should use Input schemas for request bodies and Output schemas for responses', () => {
+      const code = new TypeScriptCodeGeneratorService().generate(spec);
+
+      expect(code).toContain('async createUser(body: UserInput): Promise<UserOutput>');
+      expect(code).toContain('async listTeams(): Promise<TeamOutput>');
+    });
+  });
+
+  describe('OpenAPI 3.1 schemas', () => {
+    const spec: OpenApiSpecType = {
+      openapi: '3.1.0',
+      info: {
+        title: 'Test API',
+        version: '1.0.0'
+      },
+      paths: {
+        '/things': {
+          get: {
+            operationId: 'listThings',
+            parameters: [{ name: 'q', in: 'query', schema: { type: ['string', 'null'] } }],
+            responses: {
+              '200': {
+                description: 'OK',
+                content: { 'application/json': { schema: { $ref: '#/components/schemas/Thing' } } }
+              }
+            }
+          }
+        }
+      },
+      components: {
+        schemas: {
+          Thing: {
+            type: 'object',
+            required: ['kind', 'point', 'score'],
+            properties: {
+              kind: { const: 'thing' },
+              point: { type: 'array', prefixItems: [{ type: 'number' }, { type: 'number' }], items: false },
+              score: { type: 'integer', exclusiveMinimum: 0, exclusiveMaximum: 10 },
+              label: { type: ['string', 'null'] },
+              value: { type: ['string', 'integer'] },
+              nothing: { type: 'null' },
+              tag: { $ref: '#/components/schemas/Thing/$defs/Tag' },
+              country: { type: 'string' },
+              postal: { type: 'string' }
+            },
+            if: { properties: { country: { const: 'US' } } },
+            then: { properties: { postal: { type: 'string', pattern: '^[0-9]{5}$' } } },
+            $defs: {
+              Tag: { type: 'string', minLength: 1 }
+            }
+          }
+        }
+      }
+    };
+
+    it('should map type arrays to nullable schemas and unions', () => {
+      const code = new TypeScriptCodeGeneratorService().generate(spec);
+
+      expect(code).toContain('label: z.string().nullable().optional()');
+      expect(code).toContain('value: z.union([z.string(), z.number().int()]).optional()');
+      expect(code).toContain('nothing: z.null().optional()');
+      expect(code).toContain('async listThings(q?: string)');
+    });
+
+    it('should generate literals, tuples and numeric exclusive bounds', () => {
+      const code = new TypeScriptCodeGeneratorService().generate(spec);
+
+      expect(code).toContain("kind: z.literal('thing')");
+      expect(code).toContain('point: z.tuple([z.number(), z.number()])');
+      expect(code).toContain('score: z.number().int().gt(0).lt(10)');
+      expect(code).toContain("kind: 'thing';");
+    });
+
+    it('should hoist $defs into component schemas', () => {
+      const code = new TypeScriptCodeGeneratorService().generate(spec);
+
+      expect(code).toContain('export const Tag: z.ZodType<Tag> = z.string().min(1);');
+      expect(code).toContain('tag: Tag.optional()');
+      expect(code.indexOf('export const Tag:')).toBeLessThan(code.indexOf('export const Thing:'));
+    });
+
+    it('should rename $defs whose name is already taken', () => {
+      const code = new TypeScriptCodeGeneratorService().generate({
+        ...spec,
+        components: {
+          schemas: {
+            ...spec.components?.schemas,
+            Tag: { type: 'integer' },
+            Other: {
+              type: 'object',
+              properties: { tag: { $ref: '#/components/schemas/Other/$defs/Tag' } },
+              $defs: { Tag: { type: 'boolean' } }
+            }
+          }
+        }
+      });
+
+      expect(code).toContain('export const Tag: z.ZodType<Tag> = z.number().int();');
+      expect(code).toContain('export const Tag2: z.ZodType<Tag2> = z.string().min(1);');
+      expect(code).toContain('export const Tag3: z.ZodType<Tag3> = z.boolean();');
+      expect(code).toMatch(/export const Thing[\s\S]*?tag: Tag2\.optional\(\)/);
+      expect(code).toMatch(/export const Other[\s\S]*?tag: Tag3\.optional\(\)/);
+    });
+
+    it('should validate if/then/else with a refinement', () => {
+      const code = new TypeScriptCodeGeneratorService().generate(spec);
+
+      expect(code).toContain('.refine(val => z.object({');
+      expect(code).toContain("country: z.literal('US').optional()");
+      expect(code).toContain('Value must match the if/then/else schemas');
+    });
+
+    it('should treat unevaluatedProperties like additionalProperties', () => {
+      const code = new TypeScriptCodeGeneratorService().generate({
+        ...spec,
+        components: {
+          schemas: {
+            ...spec.components?.schemas,
+            Sealed: {
+              type: 'object',
+              properties: { id: { type: 'string' } },
+              unevaluatedProperties: false
+            },
+            Tagged: {
+              type: 'object',
+              required: ['name'],
+              properties: { name: { type: 'string' } },
+              unevaluatedProperties: { type: 'string' }
+            }
+          }
+        }
+      });
+
+      expect(code).toMatch(/export const Sealed: z\.ZodType<Sealed> = z\.object\(\{\s*id: z\.string\(\)\.optional\(\)\s*\}\)\.strict\(\);/);
+      expect(code).toMatch(/export interface Tagged \{\s*name: string;\s*\[key: string\]: string;\s*\}/);
+      expect(code).toMatch(/export const Tagged: z\.ZodType<Tagged> = z\.object\(\{\s*name: z\.string\(\)\s*\}\)\.catchall\(z\.string\(\)\);/);
+    });
+  });
+
+  describe('additionalProperties and patternProperties', () => {
+    const spec: OpenApiSpecType = {
+      openapi: '3.0.0',
+      info: {
+        title: 'Test API',
+        version: '1.0.0'
+      },
+      paths: {},
+      components: {
+        schemas: {
+          Counts: {
+            type: 'object',
+            additionalProperties: { type: 'integer' }
+          },
+          Labels: {
+            type: 'object',
+            required: ['name'],
+            properties: { name: { type: 'string' } },
+            additionalProperties: { type: 'string' }
+          },
+          Closed: {
+            type: 'object',
+            properties: { id: { type: 'string' } },
+            additionalProperties: false
+          },
+          Extensions: {
+            type: 'object',
+            properties: { id: { type: 'integer' } },
+            patternProperties: { '^x-': { type: 'string' } },
+            additionalProperties: false
+          }
+        }
+      }
+    };
+
+    it('should generate records for schema-valued additionalProperties', () => {
+      const code = new TypeScriptCodeGeneratorService().generate(spec);
+
+      expect(code).toContain('export type Counts = Record<string, number>;');
+      expect(code).toContain('export const Counts: z.ZodType<Counts> = z.record(z.string(), z.number().int());');
+    });
+
+    it('should keep additional properties next to declared ones with catchall', () => {
+      const code = new TypeScriptCodeGeneratorService().generate(spec);
+
+      expect(code).toMatch(/export interface Labels \{\s*name: string;\s*\[key: string\]: string;\s*\}/);
+      expect(code).toMatch(/export const Labels: z\.ZodType<Labels> = z\.object\(\{\s*name: z\.string\(\)\s*\}\)\.catchall\(z\.string\(\)\);/);
+    });
+
+    it('should reject unknown keys when additionalProperties is false', () => {
+      const code = new TypeScriptCodeGeneratorService().generate(spec);
+
+      expect(code).toMatch(/export interface Closed \{\s*id\?: string;\s*\}/);
+      expect(code).toMatch(/export const Closed: z\.ZodType<Closed> = z\.object\(\{\s*id: z\.string\(\)\.optional\(\)\s*\}\)\.strict\(\);/);
+    });
+
+    it('should validate patternProperties in a refinement', () => {
+      const code = new TypeScriptCodeGeneratorService().generate(spec);
+
+      expect(code).toMatch(/export interface Extensions \{\s*id\?: number;\s*\[key: string\]: string \| number;\s*\}/);
+      expect(code).toContain('.catchall(z.unknown()).refine(obj => Object.entries(obj).every(([key, value]) => {');
+      expect(code).toContain("const matches = [[new RegExp('^x-'), z.string()]].filter(([pattern]) => pattern.test(key));");
+      expect(code).toContain("return matches.every(([, schema]) => schema.safeParse(value).success) && (matches.length > 0 || ['id'].includes(key));");
+    });
+  });
+
+  describe('string formats', () => {
+    const createSpec = (properties: Record<string, unknown>): OpenApiSpecType => ({
+      openapi: '3.0.0',
+      info: {
+        title: 'Test API',
+        version: '1.0.0'
+      },
+      paths: {},
+      components: {
+        schemas: {
+          Device: {
+            type: 'object',
+            required: Object.keys(properties),
+            properties
+          }
+        }
+      }
+    });
+
+    it('should map standard formats to Zod validators', () => {
+      const code = new TypeScriptCodeGeneratorService().generate(
+        createSpec({
+          address: { type: 'string', format: 'ipv4' },
+          host: { type: 'string', format: 'hostname' },
+          payload: { type: 'string', format: 'byte' },
+          uptime: { type: 'string', format: 'duration' },
+          serial: { type: 'string', format: 'int64' },
+          firmware: { type: 'string', format: 'binary' }
+        })
+      );
+
+      expect(code).toContain('address: z.ipv4()');
+      expect(code).toContain('host: z.hostname()');
+      expect(code).toContain('payload: z.base64()');
+      expect(code).toContain('uptime: z.iso.duration()');
+      expect(code).toContain("serial: z.string().regex(new RegExp('^-?\\\\d+$'))");
+      expect(code).toContain('firmware: z.instanceof(Blob)');
+      expect(code).toContain('firmware: Blob;');
+    });
+
+    it('should validate formats with several shapes through a union', () => {
+      const code = new TypeScriptCodeGeneratorService().generate(createSpec({ network: { type: 'string', format: 'cidr', minLength: 9 } }));
+
+      expect(code).toContain('network: z.string().min(9).pipe(z.union([z.cidrv4(), z.cidrv6()]))');
+    });
+
+    it('should use custom formats and import their schemas', () => {
+      const code = new TypeScriptCodeGeneratorService({
+        formats: {
+          iban: { schema: 'ibanSchema', from: './validators' },
+          email: 'z.string().endsWith("@example.com")'
+        }
+      }).generate(
+        createSpec({
+          account: { type: 'string', format: 'iban' },
+          contact: { type: 'string', format: 'email' }
+        })
+      );
+
+      expect(code).toContain("import { ibanSchema } from './validators';");
+      expect(code).toContain('account: ibanSchema');
+      expect(code).toContain('contact: z.string().endsWith("@example.com")');
+    });
+
+    it('should parse custom format schemas and reject anything but a single expression', () => {
+      const code = new TypeScriptCodeGeneratorService({ formats: { money: 'Schemas.money ?? z.string()' } }).generate(createSpec({ price: { type: 'string', format: 'money' } }));
+      expect(code).toContain('price: Schemas.money ?? z.string()');
+
+      for (const schema of ['z.string(', 'z.string(); alert(1)', 'const x = z.string()']) {
+        expect(() => new TypeScriptCodeGeneratorService({ formats: { money: schema } }).generate(createSpec({ price: { type: 'string', format: 'money' } }))).toThrow(
+          `Invalid schema for format "money": expected a single expression, got ${JSON.stringify(schema)}`
+        );
+      }
+    });
+  });
+
+  describe('coercion mode', () => {
+    const spec: OpenApiSpecType = {
+      openapi: '3.0.0',
+      info: {
+        title: 'Test API',
+        version: '1.0.0'
+      },
+      paths: {
+        '/events': {
+          post: {
+            operationId: 'createEvent',
+            requestBody: { required: true, content: { 'application/json': { schema: { $ref: '#/components/schemas/Event' } } } },
+            responses: { '200': { description: 'OK', content: { 'application/json': { schema: { $ref: '#/components/schemas/Event' } } } } }
+          }
+        }
+      },
+      components: {
+        schemas: {
+          Event: {
+            type: 'object',
+            required: ['id', 'at'],
+            properties: {
+              id: { type: 'integer', format: 'int64' },
+              at: { type: 'string', format: 'date-time' },
+              day: { type: 'string', format: 'date', default: '2024-01-01' },
+              price: { type: 'string', format: 'decimal' }
+            }
+          }
+        }
+      }
+    };
+
+    it('should leave wire types untouched by default', () => {
+      const code = new TypeScriptCodeGeneratorService().generate(spec);
+
+      expect(code).not.toContain('z.codec(');
+      expect(code).toContain('at: string;');
+      expect(code).toContain('data: body');
+      expect(code).toContain('return await response.json();');
+    });
+
+    it('should decode dates, bigints and decimals into richer types', () => {
+      const code = new TypeScriptCodeGeneratorService({ coerce: { decimal: { name: 'Decimal', from: 'decimal.js' } } }).generate(spec);
+
+      expect(code).toContain("import { Decimal } from 'decimal.js';");
+      expect(code).toContain(
+        'id: z.codec(z.union([z.number().multipleOf(1), z.bigint()]), z.bigint(), { decode: value => BigInt(value), encode: value => Number.isSafeInteger(Number(value)) ? Number(value) : value })'
+      );
+      expect(code).toMatch(/at: z\.codec\(z\.iso\.datetime\(\{[\s\S]*?\}\), z\.date\(\), \{ decode: value => new Date\(value\), encode: value => value\.toISOString\(\) \}\)/);
+      expect(code).toContain(
+        "day: z.codec(z.iso.date(), z.date(), { decode: value => new Date(value), encode: value => value.toISOString().slice(0, 10) }).prefault('2024-01-01').optional()"
+      );
+      expect(code).toContain('price: z.codec(z.string(), z.instanceof(Decimal), { decode: value => new Decimal(value), encode: value => value.toString() }).optional()');
+      expect(code).toContain('id: bigint;');
+      expect(code).toContain('at: Date;');
+      expect(code).toContain('price?: Decimal;');
+    });
+
+    it('should encode request bodies and keep large integers precise', () => {
+      const code = new TypeScriptCodeGeneratorService({ coerce: true }).generate(spec);
+
+      expect(code).toContain("this.makeRequest('POST', '/events', { data: Event.encode(body) })");
+      expect(code).toContain('return JSON.parse(await response.text(), (_key, value, context) =>');
+      expect(code).toContain(
+        "JSON.stringify(options.data, (_key, value) => typeof value === 'bigint' ? ('rawJSON' in JSON ? JSON.rawJSON(value.toString()) : Number(value)) : value)"
+      );
+      // Decimal strings stay strings without a configured class
+      expect(code).toContain('price?: string;');
+
+      const validatedCode = new TypeScriptCodeGeneratorService({ coerce: true, validateRequests: true }).generate(spec);
+      expect(validatedCode).toContain('const parsedBody = Event.safeEncode(body);');
+      expect(validatedCode).toContain('{ data: parsedBody.data }');
+    });
+
+    it('should decode integers beyond Number.MAX_SAFE_INTEGER into bigints', async () => {
+      const originalFetch = global.fetch;
+      global.fetch = vi
+        .fn()
+        .mockResolvedValue(new Response('{"id": 9007199254740993, "at": "2024-01-01T00:00:00Z"}', { status: 200, headers: { 'Content-Type': 'application/json' } }));
+      const { default: Client } = await importGenerated(new TypeScriptCodeGeneratorService({ coerce: true }).generate(spec));
+
+      const event = (await new Client('https://api.example.com').createEvent({ id: 1n, at: new Date('2024-01-01T00:00:00Z') })) as { id: bigint };
+
+      // Exact with JSON source text access, rounded to the nearest number otherwise
+      expect([9007199254740992n, 9007199254740993n]).toContain(event.id);
+
+      global.fetch = originalFetch;
+    });
+
+    it('should type and encode coerced parameters like bodies', async () => {
+      const parameterSpec: OpenApiSpecType = {
+        ...spec,
+        paths: {
+          '/events/{id}': {
+            delete: {
+              operationId: 'deleteEvent',
+              parameters: [
+                { name: 'id', in: 'path', required: true, schema: { type: 'integer', format: 'int64' } },
+                { name: 'before', in: 'query', schema: { type: 'string', format: 'date-time' } },
+                { name: 'ids', in: 'query', schema: { type: 'array', items: { type: 'integer', format: 'int64' } } }
+              ],
+              responses: { '204': { description: 'Deleted' } }
+            }
+          }
+        }
+      };
+      const code = new TypeScriptCodeGeneratorService({ coerce: true }).generate(parameterSpec);
+      expect(code).toContain('async deleteEvent(id: bigint, before?: Date, ids?: bigint[]): Promise<void>');
+
+      const validatedCode = new TypeScriptCodeGeneratorService({ coerce: true, validateRequests: true }).generate(parameterSpec);
+      expect(validatedCode).toContain(".safeEncode({ 'id': id, 'before': before, 'ids': ids });");
+      expect(validatedCode).toContain("`/events/${parsedParameters.data['id']}`");
+
+      const originalFetch = global.fetch;
+      for (const generated of [code, validatedCode]) {
+        global.fetch = vi.fn().mockImplementation(() => Promise.resolve(new Response(null, { status: 204 })));
+        const { default: Client } = await importGenerated(generated);
+
+        await new Client('https://api.example.com').deleteEvent(9007199254740993n, new Date('2024-01-01T00:00:00Z'), [1n]);
+
+        expect(vi.mocked(global.fetch).mock.calls[0]?.[0]).toBe('https://api.example.com/events/9007199254740993?before=2024-01-01T00%3A00%3A00.000Z&ids=1');
+      }
+
+      global.fetch = originalFetch;
+    });
+
+    it('should only coerce the enabled types', () => {
+      const code = new TypeScriptCodeGeneratorService({ coerce: { bigints: false } }).generate(spec);
+
+      expect(code).toContain('at: Date;');
+      expect(code).toContain('id: number;');
+      expect(code).toContain('return await response.json();');
+    });
+  });
+
+  describe('named enums', () => {
+    const spec: OpenApiSpecType = {
+      openapi: '3.0.0',
+      info: {
+        title: 'Test API',
+        version: '1.0.0'
+      },
+      paths: {},
+      components: {
+        schemas: {
+          PetStatus: {
+            'type': 'string',
+            'description': 'Status in the store',
+            'enum': ['available', 'in-progress'],
+            'x-enum-descriptions': ['Can be bought', 'Being adopted']
+          },
+          Priority: { 'type': 'integer', 'enum': [1, 2], 'x-enum-varnames': ['Low', 'High'] },
+          Pet: {
+            type: 'object',
+            required: ['kind'],
+            properties: {
+              kind: { type: 'string', enum: ['dog', 'cat'] },
+              size: { type: 'string', enum: ['S', 'L', null], nullable: true, readOnly: true },
+              status: { $ref: '#/components/schemas/PetStatus' }
+            }
+          }
+        }
+      }
+    };
+
+    it('should keep inline literal unions by default', () => {
+      const code = new TypeScriptCodeGeneratorService().generate(spec);
+
+      expect(code).toContain("kind: z.enum(['dog', 'cat'])");
+      expect(code).not.toContain('PetStatusEnum');
+    });
+
+    it('should emit as const objects with documented members', () => {
+      const code = new TypeScriptCodeGeneratorService({ enumStyle: 'const' }).generate(spec);
+
+      expect(code).toMatch(
+        /\/\*\* Status in the store \*\/\nexport const PetStatusEnum = {\n {4}\/\*\* Can be bought \*\/\n {4}Available: 'available',\n {4}\/\*\* Being adopted \*\/\n {4}InProgress: 'in-progress'\n} as const;/
+      );
+      expect(code).toContain('export const PetStatus: z.ZodType<PetStatus> = z.enum(PetStatusEnum);');
+      expect(code).toContain("export type PetStatus = 'available' | 'in-progress';");
+    });
+
+    it('should emit TypeScript enums named from vendor extensions', () => {
+      const code = new TypeScriptCodeGeneratorService({ enumStyle: 'enum' }).generate(spec);
+
+      expect(code).toMatch(/export enum PriorityEnum {\n {4}Low = 1,\n {4}High = 2\n}/);
+      expect(code).toContain('export const Priority: z.ZodType<Priority> = z.enum(PriorityEnum);');
+    });
+
+    it('should hoist inline property enums to named schemas', () => {
+      const code = new TypeScriptCodeGeneratorService({ enumStyle: 'const' }).generate(spec);
+
+      expect(code).toContain('export const PetKindEnum = {');
+      expect(code).toContain('export const PetKind: z.ZodType<PetKind> = z.enum(PetKindEnum);');
+      expect(code).toContain('export const PetSize: z.ZodType<PetSize> = z.enum(PetSizeEnum).nullable();');
+      expect(code).toContain('kind: PetKind,');
+      expect(code).toContain('kind: PetKind;');
+      // readOnly stays on the property, so the Input variant still omits it
+      expect(code).toMatch(/export interface PetInput {\n {4}kind: PetKind;\n {4}status\?: PetStatus;\n}/);
+    });
+  });
+
+  describe('security schemes', () => {
+    const spec: OpenApiSpecType = {
+      openapi: '3.0.0',
+      info: {
+        title: 'Test API',
+        version: '1.0.0'
+      },
+      security: [{ bearerAuth: [] }],
+      paths: {
+        '/me': {
+          get: { operationId: 'getMe', responses: { '204': { description: 'OK' } } }
+        },
+        '/health': {
+          get: { operationId: 'getHealth', security: [], responses: { '204': { description: 'OK' } } }
+        },
+        '/reports': {
+          get: {
+            operationId: 'getReports',
+            security: [{ apiKey: [], session: [] }, { basicAuth: [] }, {}],
+            responses: { '204': { description: 'OK' } }
+          }
+        }
+      },
+      components: {
+        securitySchemes: {
+          bearerAuth: { type: 'http', scheme: 'bearer' },
+          basicAuth: { type: 'http', scheme: 'basic' },
+          apiKey: { type: 'apiKey', in: 'query', name: 'api_key' },
+          session: { type: 'apiKey', in: 'cookie', name: 'SESSION', description: 'Session cookie' },
+          certificate: { type: 'mutualTLS' }
+        }
+      }
+    };
+
+    it('should generate typed credential providers', () => {
+      const code = new TypeScriptCodeGeneratorService().generate(spec);
+
+      expect(code).toContain('export type CredentialProvider<T> = T | (() => T | Promise<T>);');
+      expect(code).toContain('bearerAuth?: CredentialProvider<string>;');
+      expect(code).toMatch(/basicAuth\?: CredentialProvider<\{\s+username: string;\s+password: string;\s+\}>;/);
+      expect(code).toContain('/** Session cookie */');
+      expect(code).not.toContain('certificate');
+      expect(code).toContain("bearerAuth: { type: 'http', scheme: 'Bearer' }");
+      expect(code).toContain("apiKey: { type: 'apiKey', in: 'query', name: 'api_key' }");
+      expect(code).toContain('export type ClientOptions = {\n    auth?: ClientAuth;\n};');
+      expect(code).toContain("constructor(baseUrl: string = '/', options: ClientOptions = {})");
+      expect(code).toContain('this.#auth = options.auth ?? {};');
+    });
+
+    it('should apply credentials per operation security requirements', () => {
+      const code = new TypeScriptCodeGeneratorService().generate(spec);
+
+      expect(code).toContain('options = await this.applySecurity(options);');
+      expect(code).toContain("this.makeRequest('GET', '/me', { security: [['bearerAuth']], responseType: 'void' })");
+      expect(code).toContain("this.makeRequest('GET', '/health', { responseType: 'void' })");
+      expect(code).toContain("this.makeRequest('GET', '/reports', { security: [['apiKey', 'session'], ['basicAuth'], []], responseType: 'void' })");
+      expect(code).toContain("headers['Authorization'] ??= `Basic ${btoa(`${credential.username}:${credential.password}`)}`;");
+      expect(code).toContain("const credential = typeof provider === 'function' ? await provider() : provider;");
+    });
+
+    it('should add credentials to ClientOptions when servers are declared', () => {
+      const code = new TypeScriptCodeGeneratorService().generate({ ...spec, servers: [{ url: 'https://api.example.com' }] });
+
+      expect(code).toMatch(/export type ClientOptions = {[^}]*serverVariables\?: Record<string, string>;\s+auth\?: ClientAuth;\s+};/);
+    });
+
+    it('should not generate authentication without security schemes', () => {
+      const code = new TypeScriptCodeGeneratorService().generate({ ...spec, components: {} });
+
+      expect(code).not.toContain('applySecurity');
+      expect(code).not.toContain('security:');
+    });
+  });
+
+  describe('split output', () => {
+    const spec: OpenApiSpecType = {
+      openapi: '3.0.0',
+      info: {
+        title: 'Test API',
+        version: '1.0.0'
+      },
+      tags: [{ name: 'pets', description: 'Pet operations' }],
+      paths: {
+        '/pets/{id}': {
+          get: {
+            operationId: 'getPet',
+            tags: ['pets'],
+            parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
+            responses: {
+              '200': { description: 'OK', content: { 'application/json': { schema: { $ref: '#/components/schemas/Pet' } } } },
+              '404': { description: 'Not found', content: { 'application/json': { schema: { $ref: '#/components/schemas/Problem' } } } }
+            }
+          }
+        },
+        '/health': {
+          get: { operationId: 'getHealth', responses: { '204': { description: 'OK' } } }
+        }
+      },
+      components: {
+        schemas: {
+          Problem: { type: 'object', properties: { title: { type: 'string' } } },
+          Owner: { type: 'object', properties: { pets: { type: 'array', items: { $ref: '#/components/schemas/Pet' } } } },
+          Pet: { type: 'object', required: ['name'], properties: { name: { type: 'string' }, owner: { $ref: '#/components/schemas/Owner' } } }
+        }
+      }
+    };
+
+    it('should emit a module per schema plus types, clients and a barrel', () => {
+      const files = new TypeScriptCodeGeneratorService().generateFiles(spec);
+
+      expect(Object.keys(files).sort()).toEqual(['client.ts', 'clients/PetsClient.ts', 'index.ts', 'schemas/Owner.ts', 'schemas/Pet.ts', 'schemas/Problem.ts', 'types.ts']);
+      expect(files['types.ts']).toContain('export interface Pet {');
+      expect(files['types.ts']).toContain('export type GetPetErrorResponse = {');
+      expect(files['types.ts']).not.toContain('import');
+    });
+
+    it('should import the schemas a schema module references', () => {
+      const files = new TypeScriptCodeGeneratorService().generateFiles(spec);
+
+      expect(files['schemas/Pet.ts']).toBe(
+        [
+          "import { z } from 'zod';",
+          "import type * as types from '../types';",
+          "import { Owner } from './Owner';",
+          'export type Pet = types.Pet;',
+          'export const Pet: z.ZodType<Pet> = z.object({',
+          '    name: z.string(),',
+          '    owner: z.lazy(() => Owner).optional()',
+          '});',
+          ''
+        ].join('\n')
+      );
+    });
+
+    it('should put tagged operations on a client extending the root client', () => {
+      const files = new TypeScriptCodeGeneratorService().generateFiles(spec);
+
+      expect(files['client.ts']).toContain('export default class TestAPI {');
+      expect(files['client.ts']).toContain('async getHealth(): Promise<void> {');
+      expect(files['client.ts']).not.toContain('getPet(');
+      expect(files['clients/PetsClient.ts']).toContain("import TestAPI, { ResponseValidationError } from '../client';");
+      expect(files['clients/PetsClient.ts']).toContain("import { Pet } from '../schemas/Pet';\nimport { Problem } from '../schemas/Problem';");
+      expect(files['clients/PetsClient.ts']).toContain('/** Pet operations */\nexport class PetsClient extends TestAPI {');
+      expect(files['clients/PetsClient.ts']).toContain('async getPet(id: string): Promise<Pet> {');
+    });
+
+    it('should import types only used in type positions with import type', () => {
+      const files = new TypeScriptCodeGeneratorService({ methodStyle: 'result' }).generateFiles(spec);
+
+      expect(files['clients/PetsClient.ts']).toContain("import type { GetPetErrorResponse } from '../types';");
+      expect(files['clients/PetsClient.ts']).toContain('async getPet(id: string): Promise<ApiResult<Pet, GetPetErrorResponse>> {');
+    });
+
+    it('should re-export every module from the barrel', () => {
+      const files = new TypeScriptCodeGeneratorService().generateFiles(spec);
+
+      expect(files['index.ts']).toBe(
+        [
+          "export type { GetPetErrorResponse } from './types';",
+          "export * from './schemas/Problem';",
+          "export * from './schemas/Pet';",
+          "export * from './schemas/Owner';",
+          "export * from './client';",
+          "export * from './clients/PetsClient';",
+          "export { default } from './client';",
+          ''
+        ].join('\n')
+      );
+    });
+  });
+
+  describe('tag clients', () => {
+    const spec: OpenApiSpecType = {
+      openapi: '3.0.0',
+      info: {
+        title: 'Test API',
+        version: '1.0.0'
+      },
+      tags: [{ name: 'pets', description: 'Pet operations' }],
+      paths: {
+        '/pets': {
+          get: { operationId: 'listPets', tags: ['pets', 'store'], responses: { '204': { description: 'OK' } } }
+        },
+        '/orders/{id}': {
+          get: {
+            operationId: 'getOrder',
+            tags: ['store'],
+            parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
+            responses: { '204': { description: 'OK' } }
+          }
+        },
+        '/health': {
+          get: { operationId: 'getHealth', responses: { '204': { description: 'OK' } } }
+        }
+      }
+    };
+
+    it('should group operations by their first tag into sub-clients', () => {
+      const code = new TypeScriptCodeGeneratorService({ clientStyle: 'tags' }).generate(spec);
+
+      expect(code).toMatch(
+        /\/\*\* Pet operations \*\/\nexport class PetsClient {\n {4}protected readonly makeRequest: RequestHandler;\n {4}constructor\(makeRequest: RequestHandler\) {/
+      );
+      expect(code).toContain('/** Operations tagged `store`. */\nexport class StoreClient {');
+      expect(code).toMatch(/export class PetsClient {[^]*async listPets\(\): Promise<void> {[^]*}\n}/);
+      expect(code).toMatch(/export class StoreClient {[^]*async getOrder\(id: string\): Promise<void> {/);
+    });
+
+    it('should expose sub-clients on the root client sharing its makeRequest', () => {
+      const code = new TypeScriptCodeGeneratorService({ clientStyle: 'tags' }).generate(spec);
+
+      expect(code).toContain('export type RequestHandler = <T>(method: string, path: string, options?: {');
+      expect(code).toContain('    readonly pets: PetsClient;\n    readonly store: StoreClient;');
+      expect(code).toContain('this.pets = new PetsClient((method, path, options) => this.makeRequest(method, path, options));');
+      expect(code).toMatch(/export default class TestAPI {[^]*async getHealth\(\): Promise<void> {/);
+      expect(code.match(/async listPets\(/g)).toHaveLength(1);
+    });
+
+    it('should rename sub-client properties clashing with client members', () => {
+      const code = new TypeScriptCodeGeneratorService({ clientStyle: 'tags' }).generate({
+        ...spec,
+        paths: { ...spec.paths, '/stats': { get: { operationId: 'pets', responses: { '204': { description: 'OK' } } } } }
+      });
+
+      expect(code).toContain('readonly pets2: PetsClient;');
+      expect(code).toContain('async pets(): Promise<void> {');
+    });
+
+    it('should leave the flat client unchanged by default', () => {
+      const code = new TypeScriptCodeGeneratorService().generate(spec);
+
+      expect(code).not.toContain('RequestHandler');
+      expect(code).not.toContain('class PetsClient');
+    });
+  });
+
   describe('ResponseValidationError', () => {
     it('should generate ResponseValidationError class', () => {
       const spec: OpenApiSpecType = {
@@ -640,7 +2585,8 @@ describe('TypeScriptCodeGeneratorService', () => {
       const code = generator.generate(spec);
       expect(code).toContain('async deletePet');
       expect(code).toContain('return await this.makeRequest');
-      expect(code).not.toContain('safeParse');
+      // createApiError validates error bodies, so only look at the endpoint method itself
+      expect(code.slice(code.indexOf('async deletePet'))).not.toContain('safeParse');
     });
   });
 
@@ -0,0 +1,118 @@
+import { mkdtempSync, readdirSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { ConfigLoaderService } from '../../src/services/config-loader.service';
+
+describe('ConfigLoaderService', () => {
+  let loader: ConfigLoaderService;
+  let directory: string;
+
+  beforeEach(() => {
+    loader = new ConfigLoaderService();
+    directory = mkdtempSync(join(tmpdir(), 'zod-codegen-config-'));
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  const writeConfig = (fileName: string, content: string) => {
+    const path = join(directory, fileName);
+    writeFileSync(path, content);
+    return path;
+  };
+
+  describe('find', () => {
+    it('should find config files by priority', () => {
+      expect(loader.find(directory)).toBeUndefined();
+
+      writeConfig('zod-codegen.config.yaml', 'input: ./openapi.yaml');
+      expect(loader.find(directory)).toBe(join(directory, 'zod-codegen.config.yaml'));
+
+      writeConfig('zod-codegen.config.ts', 'export default { input: "./openapi.yaml" };');
+      expect(loader.find(directory)).toBe(join(directory, 'zod-codegen.config.ts'));
+    });
+  });
+
+  describe('load', () => {
+    it('should load JSON and YAML configs', async () => {
+      const jsonPath = writeConfig('zod-codegen.config.json', JSON.stringify({ input: './openapi.yaml', enumStyle: 'const' }));
+      const yamlPath = writeConfig('zod-codegen.config.yaml', 'input: ./openapi.yaml\ncoerce:\n  dates: true\n');
+
+      await expect(loader.load(jsonPath)).resolves.toEqual({ input: './openapi.yaml', enumStyle: 'const' });
+      await expect(loader.load(yamlPath)).resolves.toEqual({ input: './openapi.yaml', coerce: { dates: true } });
+    });
+
+    it('should load TypeScript configs with functions and clean up the transpiled module', async () => {
+      const path = writeConfig(
+        'zod-codegen.config.ts',
+        `import type { OperationDetails } from 'zod-codegen';
+
+const prefix: string = 'api';
+
+export default {
+  input: './openapi.yaml',
+  operationNameTransformer: (details: OperationDetails) => prefix + details.operationId
+};
+`
+      );
+
+      const config = await loader.load(path);
+      expect(config.operationNameTransformer?.({ operationId: 'getPets', method: 'get', path: '/pets' })).toBe('apigetPets');
+      expect(readdirSync(directory)).toEqual(['zod-codegen.config.ts']);
+    });
+
+    it('should load JavaScript modules', async () => {
+      const path = writeConfig('zod-codegen.config.mjs', 'export default { targets: { pets: { input: "./pets.yaml" } } };');
+
+      await expect(loader.load(path)).resolves.toEqual({ targets: { pets: { input: './pets.yaml' } } });
+    });
+
+    it('should report every invalid option', async () => {
+      const path = writeConfig('zod-codegen.config.json', JSON.stringify({ input: './openapi.yaml', enumStyle: 'enums', outptu: './api.ts', operationNameTransformer: 'camel' }));
+
+      await expect(loader.load(path)).rejects.toThrow(`Invalid config file ${path}:`);
+      await expect(loader.load(path)).rejects.toThrow('Unrecognized key: "outptu"');
+      await expect(loader.load(path)).rejects.toThrow(/expected one of "union"\|"const"\|"enum"\n {2}→ at enumStyle/);
+      await expect(loader.load(path)).rejects.toThrow(/Expected a function\n {2}→ at operationNameTransformer/);
+    });
+
+    it('should require an input or targets', async () => {
+      await expect(loader.load(writeConfig('zod-codegen.config.json', '{}'))).rejects.toThrow('Either `input` or `targets` is required');
+      await expect(loader.load(writeConfig('zod-codegen.config.yaml', 'input: a.yaml\ntargets:\n  b:\n    input: b.yaml\n'))).rejects.toThrow(
+        '`input` and `output` belong to each target when `targets` is used'
+      );
+    });
+  });
+
+  describe('resolveTargets', () => {
+    it('should resolve a single input relative to the config file', () => {
+      const configPath = join(directory, 'zod-codegen.config.json');
+
+      expect(loader.resolveTargets({ input: './openapi.yaml', methodStyle: 'result' }, configPath)).toEqual([
+        { name: 'default', input: join(directory, 'openapi.yaml'), output: undefined, options: { methodStyle: 'result' } }
+      ]);
+    });
+
+    it('should merge top-level options into every target', () => {
+      const configPath = join(directory, 'zod-codegen.config.json');
+      const targets = loader.resolveTargets(
+        {
+          enumStyle: 'const',
+          validateRequests: true,
+          targets: {
+            pets: { input: 'https://example.com/pets.json', output: './src/pets' },
+            billing: { input: './billing.yaml', enumStyle: 'enum', outputMode: 'split' }
+          }
+        },
+        configPath
+      );
+
+      expect(targets).toEqual([
+        { name: 'pets', input: 'https://example.com/pets.json', output: join(directory, 'src/pets'), options: { enumStyle: 'const', validateRequests: true } },
+        { name: 'billing', input: join(directory, 'billing.yaml'), output: undefined, options: { enumStyle: 'enum', validateRequests: true, outputMode: 'split' } }
+      ]);
+    });
+  });
+});
@@ -56,14 +56,45 @@ describe('SyncFileWriterService', () => {
       expect(content).toContain('// Source file: https://api.example.com/openapi.json');
     });
 
-    it('should leave local file paths unchanged', () => {
+    it('should show local file paths relative to the generated file', () => {
       const writer = new SyncFileWriterService('zod-codegen', '1.0.0', './samples/openapi.json');
 
       const outPath = join(testOutputDir, 'api.ts');
       writer.writeFile(outPath, 'const x = 1;');
 
       const content = readFileSync(outPath, 'utf-8');
-      expect(content).toContain('// Source file: ./samples/openapi.json');
+      expect(content).toContain('// Source file: ../samples/openapi.json');
+    });
+  });
+
+  describe('header', () => {
+    it('should not change between runs', () => {
+      const writer = new SyncFileWriterService('zod-codegen', '1.0.0', './samples/openapi.json');
+
+      const outPath = join(testOutputDir, 'api.ts');
+      writer.writeFile(outPath, 'const x = 1;');
+
+      expect(readFileSync(outPath, 'utf-8')).toBe(writer.render('const x = 1;', outPath));
+      expect(writer.render('const x = 1;', outPath)).toBe(
+        [
+          '// THIS IS AN AUTOGENERATED FILE. DO NOT EDIT THIS FILE DIRECTLY.',
+          '// Built with zod-codegen@1.0.0',
+          '// Source file: ../samples/openapi.json',
+          '/* eslint-disable */',
+          '// @ts-nocheck',
+          '',
+          'const x = 1;'
+        ].join('\n')
+      );
+    });
+
+    it('should not depend on the working directory or the spelling of the source path', () => {
+      const outPath = join(process.cwd(), 'src', 'generated', 'api.ts');
+      const sources = [join(process.cwd(), 'specs', 'openapi.yaml'), 'specs/openapi.yaml', './specs/../specs/openapi.yaml'];
+
+      for (const source of sources) {
+        expect(new SyncFileWriterService('zod-codegen', '1.0.0', source).render('', outPath)).toContain('// Source file: ../../specs/openapi.yaml\n');
+      }
     });
   });
 });
@@ -1,4 +1,4 @@
-import { existsSync, mkdirSync, readFileSync, rmSync } from 'node:fs';
+import { existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
 import { dirname, join } from 'node:path';
 import { fileURLToPath } from 'node:url';
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
@@ -72,6 +72,32 @@ describe('Generator', () => {
       expect(content).toContain('getBaseRequestOptions');
     });
 
+    it('should generate code from a specification split over several files', async () => {
+      generator = new Generator('test-app', '1.0.0', mockReporter, './samples/multi-file/openapi.yaml', testOutputDir);
+
+      const exitCode = await generator.run();
+
+      expect(exitCode).toBe(0);
+      const content = readFileSync(join(testOutputDir, 'api.ts'), 'utf-8');
+      expect(content).toContain('export const Pet');
+      expect(content).toContain('export const Problem');
+      expect(content).toContain('async listPets(limit?: number): Promise<ListPetsResponse>');
+      expect(content).not.toContain('Problem2');
+    });
+
+    it('should list every file read as sources, even when the run fails', async () => {
+      generator = new Generator('test-app', '1.0.0', mockReporter, './samples/multi-file/openapi.yaml', testOutputDir);
+      await generator.run();
+
+      expect(generator.getSources()[0]).toBe('./samples/multi-file/openapi.yaml');
+      expect(generator.getSources()).toContain(join(__dirname, '../../samples/multi-file/schemas/pet.yaml'));
+
+      generator = new Generator('test-app', '1.0.0', mockReporter, './non-existent-file.yaml', testOutputDir);
+      await generator.run();
+
+      expect(generator.getSources()).toEqual(['./non-existent-file.yaml']);
+    });
+
     it('should handle invalid file paths gracefully', async () => {
       generator = new Generator('test-app', '1.0.0', mockReporter, './non-existent-file.yaml', testOutputDir);
 
@@ -137,6 +163,63 @@ describe('Generator', () => {
       expect(content).toMatch(/import\s*{\s*z\s*}\s*from\s*['"]zod['"]/);
     });
 
+    it('should write a directory of modules in split mode', async () => {
+      generator = new Generator('test-app', '1.0.0', mockReporter, './samples/swagger-petstore.yaml', join(testOutputDir, 'api.ts'), { outputMode: 'split' });
+
+      const exitCode = await generator.run();
+
+      expect(exitCode).toBe(0);
+      expect(existsSync(join(testOutputDir, 'api.ts'))).toBe(false);
+      ['index.ts', 'types.ts', 'client.ts', 'schemas/Pet.ts', 'clients/PetClient.ts'].forEach((file) => {
+        expect(existsSync(join(testOutputDir, 'api', file))).toBe(true);
+      });
+      expect(readFileSync(join(testOutputDir, 'api', 'schemas/Pet.ts'), 'utf-8')).toContain('AUTOGENERATED FILE');
+      expect(mockReporter.log).toHaveBeenCalledWith(`✅ Generated types successfully at: ${join(testOutputDir, 'api')}`);
+    });
+
+    it('should compare the generated code with the output without writing it', async () => {
+      const outputPath = join(testOutputDir, 'api.ts');
+      generator = new Generator('test-app', '1.0.0', mockReporter, './samples/swagger-petstore.yaml', outputPath);
+
+      expect(await generator.check()).toBe(1);
+      expect(existsSync(outputPath)).toBe(false);
+      expect(mockReporter.log).toHaveBeenCalledWith(expect.stringMatching(/^Missing generated file: .*api\.ts$/));
+
+      await generator.run();
+      expect(await generator.check()).toBe(0);
+      expect(mockReporter.log).toHaveBeenLastCalledWith(`✅ Generated types are up to date at: ${outputPath}`);
+
+      writeFileSync(outputPath, readFileSync(outputPath, 'utf-8').replace('async addPet(', 'async createPet('));
+      expect(await generator.check()).toBe(1);
+      expect(mockReporter.log).toHaveBeenCalledWith(
+        expect.stringMatching(/^--- a\/.*api\.ts\n\+\+\+ b\/.*api\.ts\n@@ [^\n]+ @@\n[\s\S]*\n- {4}async createPet\([\s\S]*\n\+ {4}async addPet\(/)
+      );
+      expect(mockReporter.error).toHaveBeenCalledWith(`❌ 1 generated file(s) out of date at: ${outputPath}`);
+    });
+
+    it('should report generated files left over in split mode', async () => {
+      const outputPath = join(testOutputDir, 'api');
+      generator = new Generator('test-app', '1.0.0', mockReporter, './samples/swagger-petstore.yaml', outputPath, { outputMode: 'split' });
+
+      await generator.run();
+      writeFileSync(join(outputPath, 'helpers.ts'), 'export const helper = 1;\n');
+      expect(await generator.check()).toBe(0);
+
+      writeFileSync(join(outputPath, 'schemas/Old.ts'), readFileSync(join(outputPath, 'schemas/Pet.ts'), 'utf-8'));
+      expect(await generator.check()).toBe(1);
+      expect(mockReporter.log).toHaveBeenCalledWith(expect.stringMatching(/^Unexpected generated file: .*api\/schemas\/Old\.ts$/));
+      expect(mockReporter.error).toHaveBeenCalledWith(`❌ 1 generated file(s) out of date at: ${outputPath}`);
+    });
+
+    it('should log the generated code in dry-run mode', async () => {
+      generator = new Generator('test-app', '1.0.0', mockReporter, './samples/swagger-petstore.yaml', join(testOutputDir, 'api'), { outputMode: 'split' });
+
+      expect(await generator.dryRun()).toBe(0);
+      expect(existsSync(join(testOutputDir, 'api'))).toBe(false);
+      expect(mockReporter.log).toHaveBeenCalledWith('// schemas/Pet.ts');
+      expect(mockReporter.log).toHaveBeenCalledWith(expect.stringContaining('export const Pet'));
+    });
+
     it('should handle unknown error type (not Error instance)', async () => {
       generator = new Generator('test-app', '1.0.0', mockReporter, './samples/swagger-petstore.yaml', testOutputDir);
 
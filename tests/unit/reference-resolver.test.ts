@@ -0,0 +1,144 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { OpenApiReferenceResolverService } from '../../src/services/reference-resolver.service';
+
+describe('OpenApiReferenceResolverService', () => {
+  let resolver: OpenApiReferenceResolverService;
+
+  beforeEach(() => {
+    resolver = new OpenApiReferenceResolverService();
+  });
+
+  const createDocument = (paths: Record<string, unknown>, components: Record<string, unknown>) => ({
+    openapi: '3.0.0',
+    info: { title: 'Test API', version: '1.0.0' },
+    paths,
+    components
+  });
+
+  it('should inline referenced parameters', () => {
+    const document = createDocument(
+      {
+        '/users': {
+          get: {
+            parameters: [{ $ref: '#/components/parameters/Limit' }],
+            responses: { '200': { description: 'OK' } }
+          }
+        }
+      },
+      {
+        parameters: {
+          Limit: { name: 'limit', in: 'query', schema: { type: 'integer' } }
+        }
+      }
+    );
+
+    const resolved = resolver.resolve(document) as typeof document;
+
+    expect(resolved.paths['/users']).toEqual({
+      get: {
+        parameters: [{ name: 'limit', in: 'query', schema: { type: 'integer' } }],
+        responses: { '200': { description: 'OK' } }
+      }
+    });
+  });
+
+  it('should inline referenced responses, request bodies and headers', () => {
+    const document = createDocument(
+      {
+        '/users': {
+          post: {
+            requestBody: { $ref: '#/components/requestBodies/UserBody' },
+            responses: { '200': { $ref: '#/components/responses/UserResponse' } }
+          }
+        }
+      },
+      {
+        requestBodies: {
+          UserBody: { content: { 'application/json': { schema: { $ref: '#/components/schemas/User' } } } }
+        },
+        responses: {
+          UserResponse: {
+            description: 'A user',
+            headers: { 'X-Rate-Limit': { $ref: '#/components/headers/RateLimit' } },
+            content: { 'application/json': { schema: { $ref: '#/components/schemas/User' } } }
+          }
+        },
+        headers: {
+          RateLimit: { schema: { type: 'integer' } }
+        },
+        schemas: {
+          User: { type: 'object', properties: { id: { type: 'string' } } }
+        }
+      }
+    );
+
+    const resolved = resolver.resolve(document) as typeof document;
+
+    expect(resolved.paths['/users']).toEqual({
+      post: {
+        requestBody: { content: { 'application/json': { schema: { $ref: '#/components/schemas/User' } } } },
+        responses: {
+          '200': {
+            description: 'A user',
+            headers: { 'X-Rate-Limit': { schema: { type: 'integer' } } },
+            content: { 'application/json': { schema: { $ref: '#/components/schemas/User' } } }
+          }
+        }
+      }
+    });
+  });
+
+  it('should keep schema references', () => {
+    const document = createDocument({}, { schemas: { Pet: { $ref: '#/components/schemas/Animal' }, Animal: { type: 'object' } } });
+
+    expect(resolver.resolve(document)).toEqual(document);
+  });
+
+  it('should let sibling keys override the referenced object', () => {
+    const document = createDocument(
+      {
+        '/users': {
+          get: {
+            responses: { '200': { $ref: '#/components/responses/Ok', description: 'Users' } }
+          }
+        }
+      },
+      { responses: { Ok: { description: 'OK' } } }
+    );
+
+    const resolved = resolver.resolve(document) as { paths: Record<string, { get: { responses: Record<string, unknown> } }> };
+
+    expect(resolved.paths['/users']?.get.responses['200']).toEqual({ description: 'Users' });
+  });
+
+  it('should decode escaped JSON pointer segments', () => {
+    const document = createDocument(
+      { '/users': { get: { parameters: [{ $ref: '#/components/parameters/a~1b~0c' }], responses: {} } } },
+      { parameters: { 'a/b~c': { name: 'q', in: 'query' } } }
+    );
+
+    const resolved = resolver.resolve(document) as { paths: Record<string, { get: { parameters: unknown[] } }> };
+
+    expect(resolved.paths['/users']?.get.parameters).toEqual([{ name: 'q', in: 'query' }]);
+  });
+
+  it('should throw for missing references', () => {
+    const document = createDocument({ '/users': { get: { parameters: [{ $ref: '#/components/parameters/Missing' }], responses: {} } } }, {});
+
+    expect(() => resolver.resolve(document)).toThrow('Unable to resolve reference "#/components/parameters/Missing"');
+  });
+
+  it('should throw for circular references', () => {
+    const document = createDocument(
+      {},
+      {
+        responses: {
+          A: { $ref: '#/components/responses/B' },
+          B: { $ref: '#/components/responses/A' }
+        }
+      }
+    );
+
+    expect(() => resolver.resolve(document)).toThrow('Circular reference: #/components/responses/B -> #/components/responses/A -> #/components/responses/B');
+  });
+});
@@ -0,0 +1,125 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { SyncFileReaderService } from '../../src/services/file-reader.service';
+import { SpecWatcherService } from '../../src/services/spec-watcher.service';
+import { Reporter } from '../../src/utils/reporter';
+
+describe('SpecWatcherService', () => {
+  let directory: string;
+  let reporter: Reporter;
+  let watcher: SpecWatcherService | undefined;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'zod-codegen-watch-'));
+    reporter = new Reporter(process.stdout);
+    vi.spyOn(reporter, 'log').mockImplementation(() => undefined);
+    vi.spyOn(reporter, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    watcher?.close();
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  const writeSpec = (fileName: string, content = 'openapi: 3.0.0') => {
+    const path = join(directory, fileName);
+    writeFileSync(path, content);
+    return path;
+  };
+
+  it('should regenerate once per burst of changes to any source', async () => {
+    const root = writeSpec('openapi.yaml');
+    const referenced = writeSpec('pet.yaml');
+    const regenerate = vi.fn().mockResolvedValue({ sources: [root, referenced] });
+    watcher = new SpecWatcherService(regenerate, reporter, { debounce: 50 });
+
+    await watcher.start();
+    expect(regenerate).toHaveBeenCalledTimes(1);
+
+    writeSpec('openapi.yaml', 'openapi: 3.0.1');
+    writeSpec('pet.yaml', 'type: object');
+    await vi.waitFor(() => {
+      expect(regenerate).toHaveBeenCalledTimes(2);
+    });
+    expect(reporter.log).toHaveBeenCalledWith(expect.stringContaining('changed, regenerating...'));
+
+    writeSpec('unrelated.yaml');
+    await new Promise((done) => setTimeout(done, 150));
+    expect(regenerate).toHaveBeenCalledTimes(2);
+  });
+
+  it('should follow the sources of the latest generation', async () => {
+    const root = writeSpec('openapi.yaml');
+    writeSpec('pet.yaml');
+    const regenerate = vi
+      .fn()
+      .mockResolvedValueOnce({ sources: [root, join(directory, 'pet.yaml')] })
+      .mockResolvedValue({ sources: [root] });
+    watcher = new SpecWatcherService(regenerate, reporter, { debounce: 10 });
+
+    await watcher.start();
+    writeSpec('openapi.yaml', 'openapi: 3.0.1');
+    await vi.waitFor(() => {
+      expect(regenerate).toHaveBeenCalledTimes(2);
+    });
+
+    writeSpec('pet.yaml', 'type: object');
+    await new Promise((done) => setTimeout(done, 100));
+    expect(regenerate).toHaveBeenCalledTimes(2);
+  });
+
+  it('should report errors thrown by the generation instead of stopping', async () => {
+    const root = writeSpec('openapi.yaml');
+    const regenerate = vi.fn().mockRejectedValueOnce(new Error('boom')).mockResolvedValue({ sources: [root] });
+    watcher = new SpecWatcherService(regenerate, reporter, { debounce: 10 });
+
+    await watcher.start();
+    expect(reporter.error).toHaveBeenCalledWith('❌ Error: boom');
+  });
+
+  it('should poll remote sources with the ETag read by the generation and regenerate when the content changes', async () => {
+    const url = 'https://example.com/openapi.json';
+    const fileReader = new SyncFileReaderService();
+    const fetchIfModified = vi.spyOn(fileReader, 'fetchIfModified').mockResolvedValueOnce(undefined).mockResolvedValue({ content: 'v2', etag: '"2"' });
+    const regenerate = vi
+      .fn()
+      .mockResolvedValueOnce({ sources: [url], remoteVersions: new Map([[url, { content: 'v1', etag: '"1"' }]]) })
+      .mockResolvedValue({ sources: [url], remoteVersions: new Map([[url, { content: 'v2', etag: '"2"' }]]) });
+    watcher = new SpecWatcherService(regenerate, reporter, { debounce: 10, pollInterval: 20 }, fileReader);
+
+    await watcher.start();
+    await vi.waitFor(() => {
+      expect(regenerate).toHaveBeenCalledTimes(2);
+    });
+
+    expect(fetchIfModified).toHaveBeenNthCalledWith(1, url, '"1"');
+    expect(fetchIfModified).toHaveBeenNthCalledWith(2, url, '"1"');
+    await vi.waitFor(() => {
+      expect(fetchIfModified).toHaveBeenLastCalledWith(url, '"2"');
+    });
+    expect(regenerate).toHaveBeenCalledTimes(2);
+  });
+
+  it('should only record the first version of remote sources the generation did not report', async () => {
+    const url = 'https://example.com/openapi.json';
+    const fileReader = new SyncFileReaderService();
+    const fetchIfModified = vi
+      .spyOn(fileReader, 'fetchIfModified')
+      .mockResolvedValueOnce({ content: 'v1', etag: '"1"' })
+      .mockResolvedValueOnce(undefined)
+      .mockResolvedValue({ content: 'v2', etag: '"2"' });
+    const regenerate = vi.fn().mockResolvedValue({ sources: [url] });
+    watcher = new SpecWatcherService(regenerate, reporter, { debounce: 10, pollInterval: 20 }, fileReader);
+
+    await watcher.start();
+    await vi.waitFor(() => {
+      expect(regenerate).toHaveBeenCalledTimes(2);
+    });
+
+    expect(fetchIfModified).toHaveBeenNthCalledWith(1, url, undefined);
+    expect(fetchIfModified).toHaveBeenNthCalledWith(2, url, '"1"');
+    expect(fetchIfModified).toHaveBeenNthCalledWith(3, url, '"1"');
+  });
+});
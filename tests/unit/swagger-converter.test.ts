@@ -0,0 +1,214 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { SwaggerConverterService } from '../../src/services/swagger-converter.service';
+
+describe('SwaggerConverterService', () => {
+  let converter: SwaggerConverterService;
+
+  beforeEach(() => {
+    converter = new SwaggerConverterService();
+  });
+
+  const createDocument = (document: Record<string, unknown>) => ({
+    swagger: '2.0',
+    info: { title: 'Test API', version: '1.0.0' },
+    paths: {},
+    ...document
+  });
+
+  it('should only convert Swagger 2.0 documents', () => {
+    expect(converter.canConvert(createDocument({}))).toBe(true);
+    expect(converter.canConvert({ openapi: '3.0.0', info: { title: 'Test API', version: '1.0.0' }, paths: {} })).toBe(false);
+    expect(() => converter.convert({ openapi: '3.0.0' })).toThrow('Expected a Swagger 2.0 document');
+  });
+
+  it('should move definitions to component schemas and rewrite references', () => {
+    const { document } = converter.convert(
+      createDocument({
+        definitions: {
+          Pet: { type: 'object', properties: { owner: { $ref: '#/definitions/Owner' }, tag: { 'type': 'string', 'x-nullable': true } } },
+          Owner: { type: 'object', discriminator: 'kind', properties: { kind: { type: 'string' } } }
+        }
+      })
+    );
+
+    expect(document).toMatchObject({
+      openapi: '3.0.3',
+      components: {
+        schemas: {
+          Pet: { type: 'object', properties: { owner: { $ref: '#/components/schemas/Owner' }, tag: { type: 'string', nullable: true } } },
+          Owner: { discriminator: { propertyName: 'kind' } }
+        }
+      }
+    });
+  });
+
+  it('should convert schemas hoisted into components while bundling', () => {
+    const { document } = converter.convert(
+      createDocument({
+        definitions: { Pet: { type: 'object', properties: { owner: { $ref: '#/components/schemas/Owner' } } } },
+        components: {
+          schemas: {
+            Owner: { type: 'object', properties: { name: { 'type': 'string', 'x-nullable': true }, avatar: { type: 'file' } } }
+          }
+        }
+      })
+    );
+
+    expect(document).toMatchObject({
+      components: {
+        schemas: {
+          Pet: { properties: { owner: { $ref: '#/components/schemas/Owner' } } },
+          Owner: { properties: { name: { type: 'string', nullable: true }, avatar: { type: 'string', format: 'binary' } } }
+        }
+      }
+    });
+    expect(JSON.stringify(document)).not.toContain('x-nullable');
+  });
+
+  it('should build servers from host, basePath and schemes', () => {
+    expect(converter.convert(createDocument({ host: 'api.example.com', basePath: '/v1', schemes: ['https', 'http'] })).document).toMatchObject({
+      servers: [{ url: 'https://api.example.com/v1' }, { url: 'http://api.example.com/v1' }]
+    });
+    expect(converter.convert(createDocument({ basePath: '/v1' })).document).toMatchObject({ servers: [{ url: '/v1' }] });
+  });
+
+  it('should convert body parameters and responses using consumes and produces', () => {
+    const { document } = converter.convert(
+      createDocument({
+        consumes: ['application/json'],
+        produces: ['application/json', 'application/xml'],
+        parameters: { Limit: { name: 'limit', in: 'query', type: 'integer', minimum: 1 } },
+        paths: {
+          '/pets': {
+            post: {
+              parameters: [{ $ref: '#/parameters/Limit' }, { name: 'body', in: 'body', required: true, schema: { $ref: '#/definitions/Pet' } }],
+              responses: {
+                '201': { description: 'Created', schema: { $ref: '#/definitions/Pet' } },
+                '404': { $ref: '#/responses/NotFound' }
+              }
+            }
+          }
+        }
+      })
+    );
+
+    expect((document as any).paths['/pets'].post).toEqual({
+      parameters: [{ name: 'limit', in: 'query', schema: { type: 'integer', minimum: 1 } }],
+      requestBody: { required: true, content: { 'application/json': { schema: { $ref: '#/components/schemas/Pet' } } } },
+      responses: {
+        '201': {
+          description: 'Created',
+          content: {
+            'application/json': { schema: { $ref: '#/components/schemas/Pet' } },
+            'application/xml': { schema: { $ref: '#/components/schemas/Pet' } }
+          }
+        },
+        '404': { $ref: '#/components/responses/NotFound' }
+      }
+    });
+  });
+
+  it('should convert form parameters to a request body schema', () => {
+    const { document } = converter.convert(
+      createDocument({
+        paths: {
+          '/pets/{id}/photo': {
+            parameters: [{ name: 'id', in: 'path', required: true, type: 'string' }],
+            post: {
+              consumes: ['multipart/form-data'],
+              parameters: [
+                { name: 'file', in: 'formData', required: true, type: 'file' },
+                { name: 'caption', in: 'formData', type: 'string' }
+              ],
+              responses: { '204': { description: 'Done' } }
+            }
+          }
+        }
+      })
+    );
+
+    const pathItem = (document as any).paths['/pets/{id}/photo'];
+    expect(pathItem.parameters).toEqual([{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }]);
+    expect(pathItem.post.requestBody).toEqual({
+      required: true,
+      content: {
+        'multipart/form-data': {
+          schema: {
+            type: 'object',
+            properties: { file: { type: 'string', format: 'binary' }, caption: { type: 'string' } },
+            required: ['file']
+          }
+        }
+      }
+    });
+  });
+
+  it('should map collection formats to parameter styles', () => {
+    const { document } = converter.convert(
+      createDocument({
+        paths: {
+          '/pets': {
+            get: {
+              parameters: [
+                { name: 'ids', in: 'query', type: 'array', items: { type: 'string' } },
+                { name: 'tags', in: 'query', type: 'array', items: { type: 'string' }, collectionFormat: 'multi' },
+                { name: 'names', in: 'query', type: 'array', items: { type: 'string' }, collectionFormat: 'pipes' }
+              ],
+              responses: {}
+            }
+          }
+        }
+      })
+    );
+
+    expect((document as any).paths['/pets'].get.parameters).toMatchObject([
+      { name: 'ids', style: 'form', explode: false },
+      { name: 'tags', style: 'form', explode: true },
+      { name: 'names', style: 'pipeDelimited', explode: false }
+    ]);
+  });
+
+  it('should convert security definitions', () => {
+    const { document } = converter.convert(
+      createDocument({
+        securityDefinitions: {
+          basicAuth: { type: 'basic' },
+          apiKey: { type: 'apiKey', name: 'X-API-Key', in: 'header' },
+          oauth: { type: 'oauth2', flow: 'accessCode', authorizationUrl: 'https://example.com/auth', tokenUrl: 'https://example.com/token', scopes: { read: 'Read' } }
+        }
+      })
+    );
+
+    expect((document as any).components.securitySchemes).toEqual({
+      basicAuth: { type: 'http', scheme: 'basic' },
+      apiKey: { type: 'apiKey', name: 'X-API-Key', in: 'header' },
+      oauth: {
+        type: 'oauth2',
+        flows: { authorizationCode: { authorizationUrl: 'https://example.com/auth', tokenUrl: 'https://example.com/token', scopes: { read: 'Read' } } }
+      }
+    });
+  });
+
+  it('should warn about lossy conversions', () => {
+    const { warnings } = converter.convert(
+      createDocument({
+        schemes: ['https'],
+        paths: {
+          '/pets': {
+            get: {
+              schemes: ['http'],
+              parameters: [{ name: 'tags', in: 'query', type: 'array', items: { type: 'string' }, collectionFormat: 'tsv' }],
+              responses: {}
+            }
+          }
+        }
+      })
+    );
+
+    expect(warnings).toEqual([
+      '`schemes` were ignored because the document has no `host`',
+      'GET /pets: operation-level `schemes` are not supported and were ignored',
+      'GET /pets: parameter "tags" uses collectionFormat "tsv", which has no OpenAPI 3 equivalent; it is serialized as csv'
+    ]);
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { createUnifiedDiff } from '../../src/utils/unified-diff';
+
+describe('createUnifiedDiff', () => {
+  const lines = (count: number) => Array.from({ length: count }, (_, index) => `line ${String(index + 1)}`);
+
+  it('should return an empty string for equal texts', () => {
+    expect(createUnifiedDiff('a\nb\n', 'a\nb\n', 'a/api.ts', 'b/api.ts')).toBe('');
+  });
+
+  it('should show changes with three lines of context', () => {
+    const current = lines(10);
+    const expected = [...current];
+    expected[4] = 'changed';
+
+    expect(createUnifiedDiff(current.join('\n'), expected.join('\n'), 'a/api.ts', 'b/api.ts')).toBe(
+      ['--- a/api.ts', '+++ b/api.ts', '@@ -2,7 +2,7 @@', ' line 2', ' line 3', ' line 4', '-line 5', '+changed', ' line 6', ' line 7', ' line 8'].join('\n')
+    );
+  });
+
+  it('should merge nearby changes and split distant ones into hunks', () => {
+    const current = lines(30);
+    const expected = current.filter((line) => line !== 'line 2').concat('line 31');
+    expected.splice(5, 0, 'inserted');
+
+    expect(createUnifiedDiff(current.join('\n'), expected.join('\n'), 'a', 'b')).toBe(
+      [
+        '--- a',
+        '+++ b',
+        '@@ -1,9 +1,9 @@',
+        ' line 1',
+        '-line 2',
+        ' line 3',
+        ' line 4',
+        ' line 5',
+        ' line 6',
+        '+inserted',
+        ' line 7',
+        ' line 8',
+        ' line 9',
+        '@@ -28,3 +28,4 @@',
+        ' line 28',
+        ' line 29',
+        ' line 30',
+        '+line 31'
+      ].join('\n')
+    );
+  });
+
+  it('should diff against empty texts', () => {
+    expect(createUnifiedDiff('', 'a\nb\n', '/dev/null', 'b/api.ts')).toBe(['--- /dev/null', '+++ b/api.ts', '@@ -0,0 +1,2 @@', '+a', '+b'].join('\n'));
+  });
+});